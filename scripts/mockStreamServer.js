@@ -0,0 +1,101 @@
+/**
+ * Local stand-in for the Finnhub trade stream, for working offline.
+ *
+ * Speaks the same protocol as wss://ws.finnhub.io:
+ *   client -> { "type": "subscribe" | "unsubscribe", "symbol": "AAPL" }
+ *   server -> { "type": "trade", "data": [{ "s": "AAPL", "p": 175.4, "t": 1700000000000, "v": 100 }] }
+ *   server -> { "type": "ping" }
+ *
+ * Usage:
+ *   npm run stream:mock
+ *   REACT_APP_STREAM_URL=ws://localhost:8765 npm start
+ *
+ * Environment:
+ *   PORT           port to listen on (default 8765)
+ *   TICK_INTERVAL  ms between trade batches (default 1000)
+ *   DROP_INTERVAL  if set, close every connection after this many ms
+ *                  to exercise the dashboard's polling fallback
+ */
+const { WebSocketServer } = require('ws');
+
+const PORT = Number(process.env.PORT) || 8765;
+const TICK_INTERVAL = Number(process.env.TICK_INTERVAL) || 1000;
+const DROP_INTERVAL = Number(process.env.DROP_INTERVAL) || 0;
+const PING_INTERVAL = 10000;
+
+// Starting prices roughly matching the demo data
+const BASE_PRICES = {
+  AAPL: 175.43,
+  GOOGL: 142.56,
+  MSFT: 378.85,
+  TSLA: 248.42,
+  AMZN: 155.58,
+  META: 485.09,
+  NVDA: 875.28,
+  NFLX: 612.04,
+};
+
+const prices = new Map(Object.entries(BASE_PRICES));
+
+const nextPrice = (symbol) => {
+  const last = prices.get(symbol) ?? 50 + Math.random() * 200;
+  const next = Math.max(0.01, last * (1 + (Math.random() - 0.5) * 0.002));
+  const rounded = Number(next.toFixed(2));
+  prices.set(symbol, rounded);
+  return rounded;
+};
+
+const server = new WebSocketServer({ port: PORT });
+
+server.on('connection', (socket) => {
+  const subscriptions = new Set();
+
+  socket.on('message', (raw) => {
+    let message;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      return;
+    }
+    if (typeof message.symbol !== 'string') return;
+
+    if (message.type === 'subscribe') {
+      subscriptions.add(message.symbol);
+    } else if (message.type === 'unsubscribe') {
+      subscriptions.delete(message.symbol);
+    }
+  });
+
+  const tickTimer = setInterval(() => {
+    if (subscriptions.size === 0) return;
+
+    const data = [...subscriptions]
+      .filter(() => Math.random() < 0.7)
+      .map((symbol) => ({
+        s: symbol,
+        p: nextPrice(symbol),
+        t: Date.now(),
+        v: Math.floor(Math.random() * 500) + 1,
+      }));
+
+    if (data.length > 0) {
+      socket.send(JSON.stringify({ type: 'trade', data }));
+    }
+  }, TICK_INTERVAL);
+
+  const pingTimer = setInterval(() => {
+    socket.send(JSON.stringify({ type: 'ping' }));
+  }, PING_INTERVAL);
+
+  const dropTimer = DROP_INTERVAL > 0
+    ? setTimeout(() => socket.close(), DROP_INTERVAL)
+    : null;
+
+  socket.on('close', () => {
+    clearInterval(tickTimer);
+    clearInterval(pingTimer);
+    if (dropTimer) clearTimeout(dropTimer);
+  });
+});
+
+console.log(`Mock trade stream listening on ws://localhost:${PORT}`);
@@ -1,5 +1,5 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { DollarSign, Plus, Moon, Sun, Keyboard, AlertTriangle } from 'lucide-react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { DollarSign, Plus, Moon, Sun, Keyboard, AlertTriangle, BookOpen, Bell } from 'lucide-react';
 
 // Components
 import StockTable from './components/StockTable/StockTable';
@@ -8,10 +8,24 @@ import StockDetails from './components/StockDetails/StockDetails';
 import LoadingScreen from './components/UI/LoadingScreen';
 import ErrorScreen from './components/UI/ErrorScreen';
 import KeyboardShortcutsModal from './components/UI/KeyboardShortcutsModal';
+import SymbolSearch from './components/SymbolSearch/SymbolSearch';
+import WatchlistSwitcher from './components/Watchlists/WatchlistSwitcher';
+import HoldingEditor from './components/Portfolio/HoldingEditor';
+import PortfolioSummaryCard from './components/Portfolio/PortfolioSummaryCard';
+import LedgerPanel from './components/Portfolio/LedgerPanel';
+import AlertsPanel from './components/Alerts/AlertsPanel';
 
 // Hooks
 import useStockData from './hooks/useStockData';
 import useChartData from './hooks/useChartData';
+import useRequestBudget from './hooks/useRequestBudget';
+import useWatchlists from './hooks/useWatchlists';
+import useHoldings from './hooks/useHoldings';
+import useLedger from './hooks/useLedger';
+import useAlerts from './hooks/useAlerts';
+import useChartIndicators from './hooks/useChartIndicators';
+import useChartDrawings from './hooks/useChartDrawings';
+import useTableColumns from './hooks/useTableColumns';
 import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
 import { usePerformanceOptimization } from './hooks/usePerformanceOptimization';
 
@@ -19,10 +33,14 @@ import { usePerformanceOptimization } from './hooks/usePerformanceOptimization';
 import { useToast } from './contexts/ToastContext';
 
 // Types and Utils
-import { SortField, SortDirection } from './types/stock.types';
+import { ChartDrawing } from './types/stock.types';
 import { DEFAULT_SYMBOLS } from './utils/constants';
-import { normalizeSymbol, isValidSymbol } from './utils/formatters';
+import { normalizeSymbol, isValidSymbol, formatCurrency } from './utils/formatters';
+import { summarizePortfolio } from './utils/portfolio';
+import { describeCondition } from './utils/alerts';
+import { showNotification, requestNotificationPermission } from './utils/notifications';
 import SessionStorage from './utils/sessionStorage';
+import StockAPIService from './services/StockAPIService';
 
 const StockDashboard: React.FC = () => {
   // Check if we're in demo mode
@@ -30,17 +48,19 @@ const StockDashboard: React.FC = () => {
   
   // Local state for UI controls
   const [searchTerm, setSearchTerm] = useState('');
-  const [sortBy, setSortBy] = useState<SortField>('symbol');
-  const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
   const [selectedStock, setSelectedStock] = useState<string | null>(null);
   const [customSymbol, setCustomSymbol] = useState('');
-  const [trackedSymbols, setTrackedSymbols] = useState<string[]>(() => {
-    // Load from session storage or use defaults
-    const stored = SessionStorage.getTrackedSymbols();
-    return stored.length > 0 ? stored : DEFAULT_SYMBOLS;
-  });
   const [darkMode, setDarkMode] = useState(() => SessionStorage.getDarkMode());
+  const [chartStyle, setChartStyle] = useState(() => SessionStorage.getUserPreferences().chartStyle);
+  const [chartRange, setChartRange] = useState(() => SessionStorage.getUserPreferences().chartRange);
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareSymbols, setCompareSymbols] = useState(() => SessionStorage.getUserPreferences().compareSymbols);
+  const [benchmark, setBenchmark] = useState(() => SessionStorage.getUserPreferences().benchmark);
   const [showKeyboardShortcuts, setShowKeyboardShortcuts] = useState(false);
+  const [editingHolding, setEditingHolding] = useState<string | null>(null);
+  // Open ledger, optionally focused on one symbol
+  const [ledgerSymbol, setLedgerSymbol] = useState<string | null>(null);
+  const [showAlerts, setShowAlerts] = useState(false);
   
   // Refs for keyboard shortcuts
   const searchInputRef = useRef<HTMLInputElement>(null);
@@ -49,34 +69,167 @@ const StockDashboard: React.FC = () => {
   // Toast notifications
   const { showToast } = useToast();
 
+  // Named watchlists; the active one drives the table and data fetching
+  const {
+    watchlists,
+    activeWatchlist,
+    selectWatchlist,
+    createWatchlist,
+    renameWatchlist,
+    duplicateWatchlist,
+    deleteWatchlist,
+    addSymbol: addToWatchlist,
+    removeSymbol: removeFromWatchlist,
+    setSort
+  } = useWatchlists();
+  const trackedSymbols = activeWatchlist.symbols;
+
+  // Portfolio holdings are quoted alongside the active watchlist. Symbols with
+  // trades in the ledger take their position from it; the rest are entered by hand
+  const { holdings: manualHoldings, saveHolding, removeHolding } = useHoldings();
+  const {
+    transactions,
+    lotMethod,
+    setLotMethod,
+    addTransaction,
+    addTransactions,
+    removeTransaction,
+    result: ledgerResult,
+    holdings: ledgerHoldings,
+    managedSymbols,
+    gainsByYear
+  } = useLedger();
+  const holdings = useMemo(
+    () => [...manualHoldings.filter(holding => !managedSymbols.has(holding.symbol)), ...ledgerHoldings],
+    [manualHoldings, ledgerHoldings, managedSymbols]
+  );
+  // Symbols the CSV importer can trust without looking them up
+  const knownSymbols = useMemo(() => new Set([
+    ...watchlists.flatMap(list => list.symbols),
+    ...transactions.map(transaction => transaction.symbol),
+  ]), [watchlists, transactions]);
+  const holdingsBySymbol = useMemo(
+    () => new Map(holdings.map(holding => [holding.symbol, holding])),
+    [holdings]
+  );
+  // Price alerts, checked on every quote update
+  const {
+    rules: alertRules,
+    history: alertHistory,
+    addRule: addAlertRule,
+    updateRule: updateAlertRule,
+    setRuleEnabled: setAlertEnabled,
+    removeRule: removeAlertRule,
+    clearHistory: clearAlertHistory,
+    watchedSymbols: alertSymbols,
+    evaluate: evaluateAlerts
+  } = useAlerts({
+    onTrigger: (event) => {
+      showToast({
+        type: 'warning',
+        title: `Alert: ${event.symbol}`,
+        message: event.message,
+        duration: 8000
+      });
+      showNotification(`Alert: ${event.symbol}`, event.message, event.ruleId);
+    }
+  });
+
+  // Holdings and symbols that alerts read are quoted alongside the watchlist
+  const quoteSymbols = useMemo(() => {
+    const extra = Array.from(new Set([...holdings.map(holding => holding.symbol), ...alertSymbols]))
+      .filter(symbol => !trackedSymbols.includes(symbol));
+    return extra.length > 0 ? [...trackedSymbols, ...extra] : trackedSymbols;
+  }, [trackedSymbols, holdings, alertSymbols]);
+
   // Custom hooks for data management
   const {
-    stocks,
+    stocks: quotes,
     profiles,
     loading,
     error,
     refreshing,
-    fetchStockData,
-    addSymbol,
-    removeSymbol
+    streamStatus,
+    fetchStockData
   } = useStockData({
-    symbols: trackedSymbols,
+    symbols: quoteSymbols,
     autoRefresh: true,
-    refreshInterval: 60000 // 1 minute
+    refreshInterval: 60000, // 1 minute
+    prioritySymbol: selectedStock,
+    onQuotesUpdate: evaluateAlerts
   });
 
+  const stocks = useMemo(
+    () => quoteSymbols === trackedSymbols ? quotes : quotes.filter(stock => trackedSymbols.includes(stock.symbol)),
+    [quotes, quoteSymbols, trackedSymbols]
+  );
+  const activeAlertCount = alertRules.filter(rule => rule.enabled).length;
+  const portfolioSummary = useMemo(() => summarizePortfolio(holdings, quotes), [holdings, quotes]);
+
+  const requestBudget = useRequestBudget();
+
+  // Compared symbols come from the active watchlist
+  const activeCompareSymbols = useMemo(
+    () => compareSymbols.filter(symbol => symbol !== selectedStock && trackedSymbols.includes(symbol)),
+    [compareSymbols, selectedStock, trackedSymbols]
+  );
+  const compareOptions = useMemo(
+    () => trackedSymbols.filter(symbol => symbol !== selectedStock && !activeCompareSymbols.includes(symbol)),
+    [trackedSymbols, selectedStock, activeCompareSymbols]
+  );
+  const chartCompareSymbols = useMemo(() => {
+    if (!compareMode) return [];
+    return benchmark && benchmark !== selectedStock && !activeCompareSymbols.includes(benchmark)
+      ? [...activeCompareSymbols, benchmark]
+      : activeCompareSymbols;
+  }, [compareMode, activeCompareSymbols, benchmark, selectedStock]);
+
   const {
     chartData,
     loading: chartLoading,
     isDemoData: chartIsDemoData,
-    fetchChartData,
+    comparisonData,
     clearData: clearChartData
   } = useChartData({
     symbol: selectedStock,
+    range: chartRange,
+    compareSymbols: chartCompareSymbols,
     autoRefresh: true,
     refreshInterval: 300000 // 5 minutes
   });
 
+  const {
+    indicators: chartIndicators,
+    addIndicator,
+    updateIndicator,
+    removeIndicator
+  } = useChartIndicators(selectedStock);
+
+  const {
+    drawings: chartDrawings,
+    addDrawing,
+    removeDrawing,
+    clearDrawings,
+    linkAlert,
+    exportDrawings,
+    importDrawings
+  } = useChartDrawings(selectedStock);
+
+  const {
+    columns: tableColumns,
+    widths: columnWidths,
+    presets: columnPresets,
+    activePresetId,
+    setColumns: setTableColumns,
+    resizeColumn,
+    resetWidths: resetColumnWidths,
+    applyPreset: applyColumnPreset,
+    savePreset: saveColumnPreset,
+    deletePreset: deleteColumnPreset
+  } = useTableColumns();
+
+  const alertRuleIds = useMemo(() => new Set(alertRules.map(rule => rule.id)), [alertRules]);
+
   // Dark mode effect
   useEffect(() => {
     if (darkMode) {
@@ -88,10 +241,9 @@ const StockDashboard: React.FC = () => {
     SessionStorage.setDarkMode(darkMode);
   }, [darkMode]);
 
-  // Save tracked symbols to session storage
   useEffect(() => {
-    SessionStorage.setTrackedSymbols(trackedSymbols);
-  }, [trackedSymbols]);
+    SessionStorage.setUserPreferences({ chartStyle, chartRange, compareSymbols, benchmark });
+  }, [chartStyle, chartRange, compareSymbols, benchmark]);
 
   // Save selected stock to session storage
   useEffect(() => {
@@ -106,29 +258,34 @@ const StockDashboard: React.FC = () => {
     }
   }, [trackedSymbols]);
 
+  // Drop the selection when switching to a list that doesn't contain it
+  useEffect(() => {
+    if (selectedStock && !trackedSymbols.includes(selectedStock)) {
+      setSelectedStock(null);
+      clearChartData();
+    }
+  }, [trackedSymbols, selectedStock, clearChartData]);
+
   // Event handlers
+  const handleEditHolding = (symbol: string) => {
+    if (managedSymbols.has(symbol)) {
+      setLedgerSymbol(symbol);
+    } else {
+      setEditingHolding(symbol);
+    }
+  };
+
   const handleRefresh = () => {
     fetchStockData();
   };
 
   const handleStockSelect = (symbol: string) => {
+    // useChartData loads the chart, reusing one fetched earlier if it's fresh
     setSelectedStock(symbol);
-    fetchChartData(symbol);
   };
 
-  const handleAddSymbol = async () => {
-    // Disable adding symbols in demo mode
-    if (isDemoMode) {
-      showToast({
-        type: 'warning',
-        title: 'Demo Mode',
-        message: 'Adding new symbols is disabled in demo mode. Get an API key to enable this feature.',
-        duration: 4000
-      });
-      return;
-    }
-
-    const symbol = normalizeSymbol(customSymbol);
+  const handleAddSymbol = async (input: string = customSymbol) => {
+    const symbol = normalizeSymbol(input);
     
     if (!symbol) return;
     
@@ -136,7 +293,7 @@ const StockDashboard: React.FC = () => {
       showToast({
         type: 'error',
         title: 'Invalid Symbol',
-        message: 'Please enter a valid stock symbol (1-5 letters)',
+        message: 'Enter a ticker like AAPL, BRK.B, SHOP.TO or 7203.T',
         duration: 3000
       });
       return;
@@ -146,21 +303,31 @@ const StockDashboard: React.FC = () => {
       showToast({
         type: 'warning',
         title: 'Symbol Already Added',
-        message: `${symbol} is already in your watchlist`,
+        message: `${symbol} is already in ${activeWatchlist.name}`,
         duration: 3000
       });
       return;
     }
 
-    // Add to tracked symbols
-    setTrackedSymbols(prev => [...prev, symbol]);
-    addSymbol(symbol);
+    // Demo data only covers the bundled symbol directory
+    if (isDemoMode && !(await StockAPIService.validateSymbol(symbol))) {
+      showToast({
+        type: 'warning',
+        title: 'Demo Mode',
+        message: `${symbol} is not in the demo symbol directory. Get an API key to track any symbol.`,
+        duration: 4000
+      });
+      return;
+    }
+
+    // Add to the active watchlist
+    addToWatchlist(symbol);
     setCustomSymbol('');
     
     showToast({
       type: 'success',
       title: 'Symbol Added',
-      message: `${symbol} has been added to your watchlist`,
+      message: `${symbol} has been added to ${activeWatchlist.name}`,
       duration: 2000
     });
   };
@@ -177,35 +344,46 @@ const StockDashboard: React.FC = () => {
       return;
     }
 
-    setTrackedSymbols(prev => prev.filter(s => s !== symbol));
-    removeSymbol(symbol);
-    
-    if (selectedStock === symbol) {
-      setSelectedStock(null);
-      clearChartData();
-    }
+    // The selection and chart are cleared by the effect above when needed
+    removeFromWatchlist(symbol);
     
     showToast({
       type: 'info',
       title: 'Symbol Removed',
-      message: `${symbol} has been removed from your watchlist`,
+      message: `${symbol} has been removed from ${activeWatchlist.name}`,
       duration: 2000
     });
   };
 
-  const handleSort = (field: SortField) => {
-    if (sortBy === field) {
-      setSortDirection(prev => prev === 'asc' ? 'desc' : 'asc');
-    } else {
-      setSortBy(field);
-      setSortDirection('asc');
-    }
+  const handleCreateWatchlist = (name: string) => {
+    const created = createWatchlist(name);
+    showToast({
+      type: 'success',
+      title: 'Watchlist Created',
+      message: `Switched to ${created.name}. Add symbols to get started.`,
+      duration: 2000
+    });
   };
 
-  const handleKeyPress = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter') {
-      handleAddSymbol();
-    }
+  const handleDuplicateWatchlist = (id: string) => {
+    const copy = duplicateWatchlist(id);
+    showToast({
+      type: 'success',
+      title: 'Watchlist Duplicated',
+      message: `Switched to ${copy.name}`,
+      duration: 2000
+    });
+  };
+
+  const handleDeleteWatchlist = (id: string) => {
+    const deleted = watchlists.find(list => list.id === id);
+    deleteWatchlist(id);
+    showToast({
+      type: 'info',
+      title: 'Watchlist Deleted',
+      message: `${deleted?.name ?? 'The watchlist'} has been deleted`,
+      duration: 2000
+    });
   };
 
   const toggleDarkMode = () => {
@@ -255,6 +433,24 @@ const StockDashboard: React.FC = () => {
   const selectedStockData = selectedStock ? stocks.find(s => s.symbol === selectedStock) ?? null: null;
   const selectedStockProfile = selectedStock ? profiles.get(selectedStock) ?? null : null;
 
+  // A level alerts when the price crosses it from where it is now
+  const handleLevelAlert = (drawing: ChartDrawing) => {
+    if (drawing.type !== 'horizontalLine' || !selectedStock) return;
+    const level = Math.round(drawing.price * 100) / 100;
+    const condition = selectedStockData && level < selectedStockData.price
+      ? { kind: 'priceBelow' as const, value: level }
+      : { kind: 'priceAbove' as const, value: level };
+    const rule = addAlertRule({ symbol: selectedStock, condition });
+    linkAlert(drawing.id, rule.id);
+    requestNotificationPermission();
+    showToast({
+      type: 'success',
+      title: 'Alert Created',
+      message: `${selectedStock} ${describeCondition(condition)}`,
+      duration: 3000
+    });
+  };
+
   // Render loading or error states
   if (loading && stocks.length === 0) {
     return <LoadingScreen />;
@@ -311,6 +507,37 @@ const StockDashboard: React.FC = () => {
                 <Keyboard className="h-5 w-5" />
               </button>
 
+              {/* Transactions */}
+              <button
+                onClick={() => setLedgerSymbol('')}
+                className={`flex items-center justify-center p-2 rounded-lg transition-colors ${
+                  darkMode 
+                    ? 'bg-gray-700 hover:bg-gray-600 text-blue-400' 
+                    : 'bg-gray-100 hover:bg-gray-200 text-gray-600'
+                }`}
+                title="Transactions and realized gains"
+              >
+                <BookOpen className="h-5 w-5" />
+              </button>
+
+              {/* Alerts */}
+              <button
+                onClick={() => setShowAlerts(true)}
+                className={`relative flex items-center justify-center p-2 rounded-lg transition-colors ${
+                  darkMode 
+                    ? 'bg-gray-700 hover:bg-gray-600 text-blue-400' 
+                    : 'bg-gray-100 hover:bg-gray-200 text-gray-600'
+                }`}
+                title="Price alerts"
+              >
+                <Bell className="h-5 w-5" />
+                {activeAlertCount > 0 && (
+                  <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-blue-600 text-white text-xs flex items-center justify-center">
+                    {activeAlertCount}
+                  </span>
+                )}
+              </button>
+
               {/* Dark Mode Toggle */}
               <button
                 onClick={toggleDarkMode}
@@ -324,26 +551,33 @@ const StockDashboard: React.FC = () => {
                 {darkMode ? <Sun className="h-5 w-5" /> : <Moon className="h-5 w-5" />}
               </button>
 
+              {/* Watchlist Switcher */}
+              <WatchlistSwitcher
+                watchlists={watchlists}
+                activeId={activeWatchlist.id}
+                onSelect={selectWatchlist}
+                onCreate={handleCreateWatchlist}
+                onRename={renameWatchlist}
+                onDuplicate={handleDuplicateWatchlist}
+                onDelete={handleDeleteWatchlist}
+                darkMode={darkMode}
+              />
+
                              {/* Add Symbol Input */}
                <div className={`flex items-center space-x-2 rounded-lg p-2 ${
                  darkMode ? 'bg-gray-700' : 'bg-gray-50'
-               } ${isDemoMode ? 'opacity-50' : ''}`}>
-                 <input
-                   ref={symbolInputRef}
-                   type="text"
-                   placeholder={isDemoMode ? "Demo mode - API key required" : "Add symbol (e.g., AAPL)"}
+               }`}>
+                 <SymbolSearch
+                   inputRef={symbolInputRef}
+                   placeholder={isDemoMode ? "Search demo symbols" : "Add symbol (e.g., AAPL, Apple)"}
                    value={customSymbol}
-                   onChange={(e) => setCustomSymbol(e.target.value.toUpperCase())}
-                   onKeyPress={handleKeyPress}
-                   className={`bg-transparent border-none focus:outline-none focus:ring-0 text-sm placeholder-gray-500 min-w-0 ${
-                     darkMode ? 'text-white placeholder-gray-400' : 'text-gray-900'
-                   }`}
-                   maxLength={5}
-                   disabled={isDemoMode}
+                   onChange={setCustomSymbol}
+                   onSelect={handleAddSymbol}
+                   darkMode={darkMode}
                  />
                  <button
-                   onClick={handleAddSymbol}
-                   disabled={!customSymbol.trim() || isDemoMode}
+                   onClick={() => handleAddSymbol()}
+                   disabled={!customSymbol.trim()}
                    className="flex items-center space-x-1 bg-green-600 hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed text-white px-3 py-1.5 rounded-md text-sm transition-colors"
                  >
                    <Plus className="h-4 w-4" />
@@ -383,6 +617,26 @@ const StockDashboard: React.FC = () => {
               <span className={darkMode ? 'text-gray-300' : 'text-gray-600'}>
                 Last updated: {new Date().toLocaleTimeString()}
               </span>
+              <span className={darkMode ? 'text-gray-600' : 'text-gray-400'}>•</span>
+              <span
+                className={darkMode ? 'text-gray-300' : 'text-gray-600'}
+                title={streamStatus === 'open' ? 'Prices stream live over WebSocket' : 'Prices refresh every minute'}
+              >
+                {streamStatus === 'open' ? 'Live' : streamStatus === 'connecting' ? 'Connecting…' : 'Polling'}
+              </span>
+              {requestBudget && (
+                <>
+                  <span className={darkMode ? 'text-gray-600' : 'text-gray-400'}>•</span>
+                  <span
+                    className={requestBudget.pausedUntil || requestBudget.remaining === 0
+                      ? 'text-orange-600'
+                      : darkMode ? 'text-gray-300' : 'text-gray-600'}
+                    title={requestBudget.queued > 0 ? `${requestBudget.queued} requests queued` : 'API calls left this minute'}
+                  >
+                    API budget: {requestBudget.remaining}/{requestBudget.limit}
+                  </span>
+                </>
+              )}
                              {isDemoMode && (
                  <>
                    <span className={darkMode ? 'text-gray-600' : 'text-gray-400'}>•</span>
@@ -412,19 +666,30 @@ const StockDashboard: React.FC = () => {
                stocks={stocks}
                profiles={profiles}
                searchTerm={searchTerm}
-               sortBy={sortBy}
-               sortDirection={sortDirection}
+               sort={activeWatchlist.sort}
                selectedStock={selectedStock}
                defaultSymbols={DEFAULT_SYMBOLS}
                onSearch={setSearchTerm}
-               onSort={handleSort}
+               onSort={setSort}
                onStockSelect={handleStockSelect}
                onStockRemove={handleRemoveSymbol}
-               showVolumeColumn={true}
-               showDetailsColumn={false}
+               columns={tableColumns}
+               columnWidths={columnWidths}
+               onColumnsChange={setTableColumns}
+               onColumnResize={resizeColumn}
+               onResetColumnWidths={resetColumnWidths}
+               columnPresets={columnPresets}
+               activePresetId={activePresetId}
+               onApplyPreset={applyColumnPreset}
+               onSavePreset={saveColumnPreset}
+               onDeletePreset={deleteColumnPreset}
+               holdings={holdingsBySymbol}
+               showPortfolioColumns={holdings.length > 0}
+               onEditHolding={handleEditHolding}
                darkMode={darkMode}
                searchInputRef={searchInputRef}
                isDemoMode={isDemoMode}
+               exportName={activeWatchlist.name}
              />
           </div>
 
@@ -435,10 +700,34 @@ const StockDashboard: React.FC = () => {
               data={chartData}
               isLoading={chartLoading}
               selectedStock={selectedStock}
-              height="h-64"
+              height="h-80"
               showTitle={true}
               darkMode={darkMode}
               isDemoData={chartIsDemoData}
+              chartStyle={chartStyle}
+              onChartStyleChange={setChartStyle}
+              range={chartRange}
+              onRangeChange={setChartRange}
+              compareMode={compareMode}
+              onCompareModeChange={setCompareMode}
+              compareSymbols={activeCompareSymbols}
+              compareOptions={compareOptions}
+              onCompareSymbolsChange={setCompareSymbols}
+              benchmark={benchmark}
+              onBenchmarkChange={setBenchmark}
+              comparisonData={comparisonData}
+              indicators={chartIndicators}
+              onAddIndicator={addIndicator}
+              onUpdateIndicator={updateIndicator}
+              onRemoveIndicator={removeIndicator}
+              drawings={chartDrawings}
+              onAddDrawing={addDrawing}
+              onRemoveDrawing={removeDrawing}
+              onClearDrawings={clearDrawings}
+              onExportDrawings={exportDrawings}
+              onImportDrawings={importDrawings}
+              onCreateLevelAlert={handleLevelAlert}
+              alertRuleIds={alertRuleIds}
             />
 
             {/* Stock Details */}
@@ -484,6 +773,11 @@ const StockDashboard: React.FC = () => {
                 </div>
               </div>
             )}
+
+            {/* Portfolio Card */}
+            {holdings.length > 0 && (
+              <PortfolioSummaryCard summary={portfolioSummary} darkMode={darkMode} />
+            )}
           </div>
         </div>
       </main>
@@ -508,6 +802,89 @@ const StockDashboard: React.FC = () => {
         </div>
       </footer>
 
+      {/* Holding Editor */}
+      {editingHolding && (
+        <HoldingEditor
+          symbol={editingHolding}
+          holding={holdingsBySymbol.get(editingHolding)}
+          currentPrice={quotes.find(s => s.symbol === editingHolding)?.price}
+          onSave={(holding) => {
+            saveHolding(holding);
+            showToast({
+              type: 'success',
+              title: 'Holding saved',
+              message: `${holding.quantity} ${holding.symbol} @ ${formatCurrency(holding.averageCost)}`,
+              duration: 2000
+            });
+          }}
+          onRemove={(symbol) => {
+            removeHolding(symbol);
+            showToast({
+              type: 'info',
+              title: 'Holding removed',
+              message: `${symbol} is no longer in your portfolio`,
+              duration: 2000
+            });
+          }}
+          onClose={() => setEditingHolding(null)}
+          darkMode={darkMode}
+        />
+      )}
+
+      {/* Transaction Ledger */}
+      {ledgerSymbol !== null && (
+        <LedgerPanel
+          transactions={transactions}
+          lotMethod={lotMethod}
+          result={ledgerResult}
+          gainsByYear={gainsByYear}
+          initialSymbol={ledgerSymbol || undefined}
+          onLotMethodChange={setLotMethod}
+          onAdd={(transaction) => {
+            addTransaction(transaction);
+            showToast({
+              type: 'success',
+              title: 'Transaction added',
+              message: `${transaction.type} ${transaction.symbol} on ${transaction.date}`,
+              duration: 2000
+            });
+          }}
+          knownSymbols={knownSymbols}
+          onImport={(entries) => {
+            addTransactions(entries);
+            showToast({
+              type: 'success',
+              title: 'Import complete',
+              message: `Added ${entries.length} transactions to the ledger`,
+              duration: 3000
+            });
+          }}
+          onRemove={removeTransaction}
+          onClose={() => setLedgerSymbol(null)}
+          darkMode={darkMode}
+        />
+      )}
+
+      {/* Price Alerts */}
+      {showAlerts && (
+        <AlertsPanel
+          symbols={quoteSymbols}
+          initialSymbol={selectedStock ?? undefined}
+          rules={alertRules}
+          history={alertHistory}
+          onAdd={(rule) => {
+            addAlertRule(rule);
+            requestNotificationPermission();
+          }}
+          onUpdate={updateAlertRule}
+          onToggle={setAlertEnabled}
+          onRemove={removeAlertRule}
+          onClearHistory={clearAlertHistory}
+          onClose={() => setShowAlerts(false)}
+          darkMode={darkMode}
+        />
+      )}
+
       {/* Keyboard Shortcuts Modal */}
       <KeyboardShortcutsModal
         isOpen={showKeyboardShortcuts}
@@ -0,0 +1,385 @@
+import React, { useState } from 'react';
+import { X, Bell, BellOff, Trash2, Plus, Pencil } from 'lucide-react';
+import { AlertCondition, AlertEvent, AlertKind, AlertRule } from '../../types/stock.types';
+import { ALERT_KIND_LABELS, DEFAULT_ALERT_COOLDOWN, describeCondition } from '../../utils/alerts';
+import {
+  EXPRESSION_FUNCTIONS,
+  QUOTE_FIELDS,
+  tryCompileExpression,
+  validateExpression
+} from '../../utils/alertExpression';
+import { formatCurrency } from '../../utils/formatters';
+
+interface AlertsPanelProps {
+  /** Symbols alerts can be set on */
+  symbols: string[];
+  initialSymbol?: string;
+  rules: AlertRule[];
+  history: AlertEvent[];
+  onAdd: (rule: AlertRuleInput) => void;
+  onUpdate: (id: string, rule: AlertRuleInput) => void;
+  onToggle: (id: string, enabled: boolean) => void;
+  onRemove: (id: string) => void;
+  onClearHistory: () => void;
+  onClose: () => void;
+  darkMode?: boolean;
+}
+
+interface AlertRuleInput {
+  symbol: string;
+  condition: AlertCondition;
+  repeat: boolean;
+  cooldownMs: number;
+}
+
+type Tab = 'rules' | 'history';
+
+const MINUTE = 60 * 1000;
+const COOLDOWN_OPTIONS = [
+  { label: '1 minute', value: MINUTE },
+  { label: '5 minutes', value: 5 * MINUTE },
+  { label: '15 minutes', value: DEFAULT_ALERT_COOLDOWN },
+  { label: '1 hour', value: 60 * MINUTE },
+  { label: '1 day', value: 24 * 60 * MINUTE },
+];
+
+const VALUE_PLACEHOLDERS: Partial<Record<AlertKind, string>> = {
+  priceAbove: 'Price, e.g. 200',
+  priceBelow: 'Price, e.g. 150',
+  changePercent: 'e.g. 3 or -2',
+  volumeAbove: 'Shares, e.g. 50000000',
+};
+
+const AlertsPanel: React.FC<AlertsPanelProps> = ({
+  symbols,
+  initialSymbol,
+  rules,
+  history,
+  onAdd,
+  onUpdate,
+  onToggle,
+  onRemove,
+  onClearHistory,
+  onClose,
+  darkMode = false
+}) => {
+  const [tab, setTab] = useState<Tab>('rules');
+  const [symbol, setSymbol] = useState(initialSymbol ?? symbols[0] ?? '');
+  const [kind, setKind] = useState<AlertKind>('priceAbove');
+  const [value, setValue] = useState('');
+  const [expression, setExpression] = useState('');
+  // Rule loaded into the form for editing, or null when adding
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [repeat, setRepeat] = useState(false);
+  const [cooldownMs, setCooldownMs] = useState(DEFAULT_ALERT_COOLDOWN);
+  const [error, setError] = useState<string | null>(null);
+
+  const needsValue = kind !== 'newDayHigh' && kind !== 'newDayLow' && kind !== 'expression';
+  const expressionError = kind === 'expression' && expression.trim() ? validateExpression(expression) : null;
+  const compiled = kind === 'expression' && !expressionError ? tryCompileExpression(expression) : null;
+
+  const resetForm = () => {
+    setEditingId(null);
+    setValue('');
+    setExpression('');
+    setError(null);
+  };
+
+  const handleEdit = (rule: AlertRule) => {
+    const { condition } = rule;
+    setEditingId(rule.id);
+    setSymbol(rule.symbol);
+    setKind(condition.kind);
+    setValue('value' in condition ? String(condition.value) : '');
+    setExpression(condition.kind === 'expression' ? condition.expression : '');
+    setRepeat(rule.repeat);
+    setCooldownMs(rule.cooldownMs);
+    setError(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!symbol) {
+      setError('Add a symbol to a watchlist first');
+      return;
+    }
+
+    let condition: AlertCondition;
+    if (kind === 'newDayHigh' || kind === 'newDayLow') {
+      condition = { kind };
+    } else if (kind === 'expression') {
+      const problem = validateExpression(expression);
+      if (problem) {
+        setError(problem.message);
+        return;
+      }
+      condition = { kind, expression: expression.trim() };
+    } else {
+      const threshold = Number(value);
+      if (value.trim() === '' || !Number.isFinite(threshold)) {
+        setError('Enter a number');
+        return;
+      }
+      if (kind !== 'changePercent' && threshold <= 0) {
+        setError('Enter a value greater than zero');
+        return;
+      }
+      if (kind === 'changePercent' && threshold === 0) {
+        setError('Use a positive threshold for gains or a negative one for drops');
+        return;
+      }
+      condition = { kind, value: threshold };
+    }
+
+    if (editingId) {
+      onUpdate(editingId, { symbol, condition, repeat, cooldownMs });
+    } else {
+      onAdd({ symbol, condition, repeat, cooldownMs });
+    }
+    resetForm();
+  };
+
+  const mutedClass = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const borderClass = darkMode ? 'border-gray-700' : 'border-gray-200';
+  const inputClass = `rounded-md px-2 py-1.5 text-sm border focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+    darkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+  }`;
+
+  const renderRules = () => (
+    <div className="space-y-6">
+      <form onSubmit={handleSubmit} className="space-y-3" aria-label="New alert">
+        <div className="grid grid-cols-3 gap-3">
+          <select aria-label="Symbol" value={symbol} onChange={(e) => setSymbol(e.target.value)} className={inputClass}>
+            {Array.from(new Set([...symbols, symbol])).filter(Boolean).map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+          <select
+            aria-label="Condition"
+            value={kind}
+            onChange={(e) => setKind(e.target.value as AlertKind)}
+            className={inputClass}
+          >
+            {(Object.keys(ALERT_KIND_LABELS) as AlertKind[]).map(option => (
+              <option key={option} value={option}>{ALERT_KIND_LABELS[option]}</option>
+            ))}
+          </select>
+          {needsValue && (
+            <input
+              aria-label="Threshold"
+              type="number"
+              step="any"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              placeholder={VALUE_PLACEHOLDERS[kind]}
+              className={inputClass}
+            />
+          )}
+        </div>
+        {kind === 'expression' && (
+          <div className="space-y-1">
+            <input
+              aria-label="Expression"
+              aria-invalid={!!expressionError}
+              value={expression}
+              onChange={(e) => setExpression(e.target.value)}
+              placeholder="price > sma(20) and changePercent < -2"
+              spellCheck={false}
+              className={`${inputClass} w-full font-mono ${expressionError ? 'border-red-500' : ''}`}
+            />
+            {expressionError ? (
+              <p className="text-sm text-red-600" role="alert">
+                {expressionError.message} (column {expressionError.position + 1})
+              </p>
+            ) : compiled ? (
+              <p className="text-sm text-green-600">
+                Valid rule{compiled.symbols.length > 0 && `, also watching ${compiled.symbols.join(', ')}`}
+              </p>
+            ) : (
+              <p className={`text-xs ${mutedClass}`}>
+                Fields: {QUOTE_FIELDS.join(', ')}. Functions: {Object.keys(EXPRESSION_FUNCTIONS).map(name => `${name}(days)`).join(', ')}.
+                Bare names use {symbol || 'the chosen symbol'}; prefix a ticker for another, e.g. QQQ.changePercent.
+                Combine with and, or, not.
+              </p>
+            )}
+          </div>
+        )}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3 text-sm">
+            <label className="flex items-center space-x-2">
+              <input type="checkbox" checked={repeat} onChange={(e) => setRepeat(e.target.checked)} />
+              <span>Repeat</span>
+            </label>
+            {repeat && (
+              <select
+                aria-label="Cooldown"
+                value={cooldownMs}
+                onChange={(e) => setCooldownMs(Number(e.target.value))}
+                className={inputClass}
+              >
+                {COOLDOWN_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>at most every {option.label}</option>
+                ))}
+              </select>
+            )}
+          </div>
+          <div className="flex items-center space-x-2">
+            {editingId && (
+              <button type="button" onClick={resetForm} className={`px-3 py-1.5 text-sm rounded-md ${mutedClass}`}>
+                Cancel
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={!!expressionError}
+              className="flex items-center space-x-1 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white px-3 py-1.5 rounded-md text-sm transition-colors"
+            >
+              {editingId ? <Pencil className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+              <span>{editingId ? 'Save changes' : 'Add alert'}</span>
+            </button>
+          </div>
+        </div>
+        {error && !expressionError && <p className="text-sm text-red-600">{error}</p>}
+      </form>
+
+      <div className={`border-t pt-4 ${borderClass}`}>
+        {rules.length > 0 ? (
+          <ul className="space-y-2">
+            {rules.map(rule => (
+              <li key={rule.id} className="flex items-center justify-between text-sm">
+                <div className={`min-w-0 break-words ${rule.enabled ? '' : 'opacity-50'} ${
+                  rule.id === editingId ? 'text-blue-500' : ''
+                }`}>
+                  <span className="font-semibold">{rule.symbol}</span>{' '}
+                  <span>{describeCondition(rule.condition)}</span>
+                  <span className={`ml-2 text-xs ${mutedClass}`}>
+                    {rule.repeat ? 'repeats' : rule.enabled ? 'once' : 'fired'}
+                  </span>
+                </div>
+                <div className="flex items-center space-x-1">
+                  <button
+                    onClick={() => handleEdit(rule)}
+                    className={`p-1 rounded transition-colors ${mutedClass}`}
+                    aria-label={`Edit alert for ${rule.symbol}`}
+                    title="Edit"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => onToggle(rule.id, !rule.enabled)}
+                    className={`p-1 rounded transition-colors ${mutedClass}`}
+                    aria-label={`${rule.enabled ? 'Pause' : 'Resume'} alert for ${rule.symbol}`}
+                    title={rule.enabled ? 'Pause' : 'Resume'}
+                  >
+                    {rule.enabled ? <Bell className="h-4 w-4" /> : <BellOff className="h-4 w-4" />}
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (rule.id === editingId) resetForm();
+                      onRemove(rule.id);
+                    }}
+                    className="text-red-500 hover:text-red-700 p-1 rounded transition-colors"
+                    aria-label={`Delete alert for ${rule.symbol}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className={`text-sm py-4 text-center ${mutedClass}`}>No alerts yet</p>
+        )}
+      </div>
+    </div>
+  );
+
+  const renderHistory = () => (
+    <div className="space-y-3">
+      <div className="flex justify-end">
+        <button
+          onClick={onClearHistory}
+          disabled={history.length === 0}
+          className={`text-sm disabled:opacity-50 ${mutedClass}`}
+        >
+          Clear history
+        </button>
+      </div>
+      {history.length > 0 ? (
+        <ul className="space-y-2">
+          {history.map(event => (
+            <li key={event.id} className="flex items-center justify-between text-sm">
+              <span>{event.message}</span>
+              <span className={`text-xs whitespace-nowrap ml-3 ${mutedClass}`} title={formatCurrency(event.price)}>
+                {new Date(event.triggeredAt).toLocaleString()}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className={`text-sm py-4 text-center ${mutedClass}`}>No alerts have fired yet</p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black bg-opacity-50"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className={`relative w-full max-w-xl mx-4 max-h-[90vh] flex flex-col rounded-lg shadow-xl transition-colors duration-200 ${
+        darkMode ? 'bg-gray-800 text-white' : 'bg-white text-gray-900'
+      }`}>
+        {/* Header */}
+        <div className={`flex items-center justify-between p-6 border-b ${borderClass}`}>
+          <div className="flex items-center space-x-3">
+            <Bell className={`h-6 w-6 ${darkMode ? 'text-blue-400' : 'text-blue-600'}`} />
+            <h2 className="text-lg font-semibold">Alerts</h2>
+          </div>
+          <button
+            onClick={onClose}
+            aria-label="Close"
+            className={`p-2 rounded-lg transition-colors ${
+              darkMode
+                ? 'text-gray-400 hover:text-white hover:bg-gray-700'
+                : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'
+            }`}
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Tabs */}
+        <div className={`flex px-6 border-b ${borderClass}`} role="tablist">
+          {([
+            { key: 'rules', label: `Rules (${rules.length})` },
+            { key: 'history', label: `History (${history.length})` },
+          ] as Array<{ key: Tab; label: string }>).map(({ key, label }) => (
+            <button
+              key={key}
+              role="tab"
+              aria-selected={tab === key}
+              onClick={() => setTab(key)}
+              className={`px-3 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
+                tab === key ? 'border-blue-500 text-blue-500' : `border-transparent ${mutedClass}`
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {/* Content */}
+        <div className="p-6 overflow-y-auto">
+          {tab === 'rules' ? renderRules() : renderHistory()}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AlertsPanel;
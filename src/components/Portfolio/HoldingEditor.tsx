@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { X, Briefcase } from 'lucide-react';
+import { Holding } from '../../types/stock.types';
+import { toDateKey } from '../../utils/portfolio';
+
+interface HoldingEditorProps {
+  symbol: string;
+  /** Existing holding to edit; a new one is created when missing */
+  holding?: Holding;
+  /** Pre-fills the cost of a new holding */
+  currentPrice?: number;
+  onSave: (holding: Holding) => void;
+  onRemove: (symbol: string) => void;
+  onClose: () => void;
+  darkMode?: boolean;
+}
+
+const HoldingEditor: React.FC<HoldingEditorProps> = ({
+  symbol,
+  holding,
+  currentPrice,
+  onSave,
+  onRemove,
+  onClose,
+  darkMode = false
+}) => {
+  const today = toDateKey();
+  const [quantity, setQuantity] = useState(holding ? String(holding.quantity) : '');
+  const [averageCost, setAverageCost] = useState(
+    holding ? String(holding.averageCost) : currentPrice ? currentPrice.toFixed(2) : ''
+  );
+  const [purchaseDate, setPurchaseDate] = useState(holding?.purchaseDate ?? today);
+
+  const parsedQuantity = Number(quantity);
+  const parsedCost = Number(averageCost);
+  const validationError =
+    !quantity || !Number.isFinite(parsedQuantity) || parsedQuantity <= 0
+      ? 'Quantity must be greater than zero'
+      : averageCost === '' || !Number.isFinite(parsedCost) || parsedCost < 0
+        ? 'Average cost must be zero or more'
+        : !purchaseDate || purchaseDate > today
+          ? 'Purchase date can\'t be in the future'
+          : null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (validationError) return;
+    onSave({ symbol, quantity: parsedQuantity, averageCost: parsedCost, purchaseDate });
+    onClose();
+  };
+
+  const labelClass = `block text-sm font-medium mb-1 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`;
+  const inputClass = `w-full rounded-md px-3 py-2 text-sm border focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+    darkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+  }`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black bg-opacity-50"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <form
+        onSubmit={handleSubmit}
+        className={`relative w-full max-w-sm mx-4 rounded-lg shadow-xl transition-colors duration-200 ${
+          darkMode ? 'bg-gray-800' : 'bg-white'
+        }`}
+        aria-label={`${symbol} holding`}
+      >
+        {/* Header */}
+        <div className={`flex items-center justify-between p-6 border-b ${
+          darkMode ? 'border-gray-700' : 'border-gray-200'
+        }`}>
+          <div className="flex items-center space-x-3">
+            <Briefcase className={`h-6 w-6 ${darkMode ? 'text-blue-400' : 'text-blue-600'}`} />
+            <h2 className={`text-lg font-semibold ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+              {holding ? 'Edit' : 'Add'} {symbol} holding
+            </h2>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close"
+            className={`p-2 rounded-lg transition-colors ${
+              darkMode
+                ? 'text-gray-400 hover:text-white hover:bg-gray-700'
+                : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'
+            }`}
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          <div>
+            <label className={labelClass} htmlFor="holding-quantity">Quantity</label>
+            <input
+              id="holding-quantity"
+              type="number"
+              min="0"
+              step="any"
+              autoFocus
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass} htmlFor="holding-cost">Average cost per share</label>
+            <input
+              id="holding-cost"
+              type="number"
+              min="0"
+              step="any"
+              value={averageCost}
+              onChange={(e) => setAverageCost(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass} htmlFor="holding-date">Purchase date</label>
+            <input
+              id="holding-date"
+              type="date"
+              max={today}
+              value={purchaseDate}
+              onChange={(e) => setPurchaseDate(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          {validationError && (quantity || averageCost) && (
+            <p className="text-sm text-red-600">{validationError}</p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className={`flex items-center justify-between p-6 border-t ${
+          darkMode ? 'border-gray-700' : 'border-gray-200'
+        }`}>
+          {holding ? (
+            <button
+              type="button"
+              onClick={() => {
+                onRemove(symbol);
+                onClose();
+              }}
+              className="px-3 py-2 text-sm rounded-lg text-red-600 hover:bg-red-50"
+            >
+              Remove holding
+            </button>
+          ) : <span />}
+          <div className="flex space-x-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className={`px-3 py-2 text-sm rounded-lg ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={validationError !== null}
+              className="px-4 py-2 text-sm rounded-lg bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default HoldingEditor;
@@ -0,0 +1,283 @@
+import React, { useState, useMemo } from 'react';
+import { Upload, FileText } from 'lucide-react';
+import { ColumnMapping, ImportField, ImportRow, SymbolCheckStatus, Transaction } from '../../types/stock.types';
+import {
+  BROKER_PRESETS,
+  IMPORT_FIELDS,
+  detectPreset,
+  guessMapping,
+  parseImportRows
+} from '../../utils/brokerImport';
+import { CsvRow, parseCsvRows } from '../../utils/csv';
+import { describeTransaction } from '../../utils/ledger';
+import { useSymbolCheck } from '../../hooks/useSymbolCheck';
+
+interface ImportPanelProps {
+  /** Current ledger, for duplicate detection */
+  transactions: Transaction[];
+  /** Symbols that need no lookup, e.g. from watchlists and the ledger */
+  knownSymbols: Set<string>;
+  onImport: (transactions: Array<Omit<Transaction, 'id'>>) => void;
+  darkMode?: boolean;
+}
+
+interface LoadedFile {
+  name: string;
+  headers: string[];
+  rows: CsvRow[];
+}
+
+const CUSTOM_PRESET = 'custom';
+
+const ImportPanel: React.FC<ImportPanelProps> = ({
+  transactions,
+  knownSymbols,
+  onImport,
+  darkMode = false
+}) => {
+  const [file, setFile] = useState<LoadedFile | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [presetId, setPresetId] = useState(CUSTOM_PRESET);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  // Rows ticked or unticked by hand, by line; the rest follow their flags
+  const [overrides, setOverrides] = useState<Map<number, boolean>>(new Map());
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0];
+    e.target.value = '';
+    if (!picked) return;
+
+    try {
+      const [header, ...rows] = parseCsvRows(await picked.text());
+      if (!header || rows.length === 0) {
+        setFileError(`${picked.name} has no data rows`);
+        return;
+      }
+      const headers = header.fields;
+      const preset = detectPreset(headers);
+      setFile({ name: picked.name, headers, rows });
+      setPresetId(preset?.id ?? CUSTOM_PRESET);
+      setMapping(preset?.mapping ?? guessMapping(headers));
+      setOverrides(new Map());
+      setFileError(null);
+    } catch (error) {
+      setFileError(`Couldn't read ${picked.name}`);
+    }
+  };
+
+  const handlePresetChange = (id: string) => {
+    setPresetId(id);
+    const preset = BROKER_PRESETS.find(candidate => candidate.id === id);
+    if (preset) setMapping(preset.mapping);
+  };
+
+  const handleMappingChange = (field: ImportField, column: string) => {
+    setPresetId(CUSTOM_PRESET);
+    setMapping(prev => ({ ...prev, [field]: column || undefined }));
+  };
+
+  const missingFields = IMPORT_FIELDS
+    .filter(({ field, required }) => required && !mapping[field])
+    .map(({ label }) => label);
+
+  const mappingComplete = missingFields.length === 0;
+
+  const rows = useMemo<ImportRow[]>(
+    () => file && mappingComplete
+      ? parseImportRows(file.headers, file.rows, mapping, transactions)
+      : [],
+    [file, mapping, mappingComplete, transactions]
+  );
+
+  const symbols = useMemo(
+    () => rows.flatMap(row => row.transaction ? [row.transaction.symbol] : []),
+    [rows]
+  );
+  const symbolStatuses = useSymbolCheck(symbols, { known: knownSymbols });
+
+  const statusOf = (row: ImportRow): SymbolCheckStatus | undefined =>
+    row.transaction && symbolStatuses.get(row.transaction.symbol);
+
+  const isIncluded = (row: ImportRow): boolean => {
+    if (!row.transaction) return false;
+    return overrides.get(row.line) ?? (!row.duplicate && statusOf(row) !== 'unknown');
+  };
+
+  const selected = rows.filter(isIncluded);
+  const counts = {
+    errors: rows.filter(row => row.error).length,
+    duplicates: rows.filter(row => row.duplicate).length,
+    unknown: rows.filter(row => statusOf(row) === 'unknown').length,
+  };
+
+  const handleImport = () => {
+    onImport(selected.flatMap(row => row.transaction ? [row.transaction] : []));
+    setFile(null);
+    setOverrides(new Map());
+  };
+
+  const mutedClass = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const selectClass = `w-full rounded-md px-2 py-1.5 text-sm border focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+    darkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+  }`;
+  const badge = (label: string, tone: 'red' | 'orange' | 'gray', title?: string) => (
+    <span
+      key={label}
+      title={title}
+      className={`text-xs px-1.5 py-0.5 rounded whitespace-nowrap ${
+        tone === 'red'
+          ? 'bg-red-100 text-red-700'
+          : tone === 'orange'
+            ? 'bg-orange-100 text-orange-700'
+            : darkMode ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-600'
+      }`}
+    >
+      {label}
+    </span>
+  );
+
+  const renderFlags = (row: ImportRow) => {
+    if (row.error) return badge('Skipped', 'red', row.error);
+    const status = statusOf(row);
+    return (
+      <div className="flex flex-wrap gap-1">
+        {row.duplicate && badge('Duplicate', 'orange', 'Already in the ledger or earlier in this file')}
+        {status === 'unknown' && badge('Unknown symbol', 'orange')}
+        {status === 'unchecked' && badge('Not verified', 'gray', 'Offline, so this symbol could not be looked up')}
+        {status === 'checking' && badge('Checking…', 'gray')}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* File picker */}
+      <label className={`flex flex-col items-center justify-center border-2 border-dashed rounded-lg p-6 cursor-pointer transition-colors ${
+        darkMode ? 'border-gray-600 hover:border-gray-500' : 'border-gray-300 hover:border-gray-400'
+      }`}>
+        {file ? <FileText className="h-8 w-8 text-blue-500" /> : <Upload className={`h-8 w-8 ${mutedClass}`} />}
+        <span className="mt-2 text-sm font-medium">
+          {file ? `${file.name} • ${file.rows.length} rows` : 'Choose a broker CSV export'}
+        </span>
+        <span className={`text-xs ${mutedClass}`}>
+          Read on this device only; nothing is uploaded
+        </span>
+        <input type="file" accept=".csv,text/csv" className="sr-only" onChange={handleFileChange} />
+      </label>
+      {fileError && <p className="text-sm text-red-600">{fileError}</p>}
+
+      {file && (
+        <>
+          {/* Column mapping */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-semibold">Columns</h3>
+              <select
+                aria-label="Broker format"
+                value={presetId}
+                onChange={(e) => handlePresetChange(e.target.value)}
+                className={`${selectClass} w-48`}
+              >
+                {BROKER_PRESETS.map(preset => (
+                  <option key={preset.id} value={preset.id}>{preset.name}</option>
+                ))}
+                <option value={CUSTOM_PRESET}>Custom mapping</option>
+              </select>
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              {IMPORT_FIELDS.map(({ field, label, required }) => (
+                <div key={field}>
+                  <label className={`block text-xs font-medium mb-1 ${mutedClass}`} htmlFor={`import-${field}`}>
+                    {label}{required ? ' *' : ''}
+                  </label>
+                  <select
+                    id={`import-${field}`}
+                    value={mapping[field] ?? ''}
+                    onChange={(e) => handleMappingChange(field, e.target.value)}
+                    className={selectClass}
+                  >
+                    <option value="">Not in file</option>
+                    {file.headers.map(header => (
+                      <option key={header} value={header}>{header}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+            {!mappingComplete && (
+              <p className="mt-2 text-sm text-red-600">Map the {missingFields.join(', ')} column to continue</p>
+            )}
+          </div>
+
+          {/* Preview */}
+          {rows.length > 0 && (
+            <div>
+              <div className={`flex items-center justify-between mb-2 text-sm ${mutedClass}`}>
+                <span>
+                  {selected.length} of {rows.length} rows selected
+                  {counts.errors > 0 && ` • ${counts.errors} skipped`}
+                  {counts.duplicates > 0 && ` • ${counts.duplicates} duplicates`}
+                  {counts.unknown > 0 && ` • ${counts.unknown} unknown symbols`}
+                </span>
+              </div>
+              <div className="max-h-72 overflow-y-auto">
+                <table className="w-full text-sm">
+                  <tbody>
+                    {rows.map(row => (
+                      <tr key={row.line} className={`border-b ${darkMode ? 'border-gray-700' : 'border-gray-100'} ${
+                        row.error ? 'opacity-60' : ''
+                      }`}>
+                        <td className="py-2 pr-2">
+                          <input
+                            type="checkbox"
+                            aria-label={`Import row ${row.line}`}
+                            checked={isIncluded(row)}
+                            disabled={!row.transaction}
+                            onChange={(e) => setOverrides(prev => new Map(prev).set(row.line, e.target.checked))}
+                          />
+                        </td>
+                        <td className={`py-2 pr-3 ${mutedClass}`}>{row.line}</td>
+                        {row.transaction ? (
+                          <>
+                            <td className={`py-2 pr-3 whitespace-nowrap ${mutedClass}`}>{row.transaction.date}</td>
+                            <td className="py-2 pr-3 capitalize font-medium">{row.transaction.type}</td>
+                            <td className="py-2 pr-3 font-semibold">{row.transaction.symbol}</td>
+                            <td className="py-2 pr-3">{describeTransaction(row.transaction)}</td>
+                          </>
+                        ) : (
+                          <td colSpan={4} className={`py-2 pr-3 truncate max-w-xs ${mutedClass}`} title={row.raw.join(', ')}>
+                            {row.error}
+                          </td>
+                        )}
+                        <td className="py-2 text-right">{renderFlags(row)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={() => setFile(null)}
+              className={`px-3 py-1.5 text-sm rounded-md ${mutedClass}`}
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={selected.length === 0}
+              className="flex items-center space-x-1 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white px-3 py-1.5 rounded-md text-sm transition-colors"
+            >
+              <Upload className="h-4 w-4" />
+              <span>Import {selected.length} transactions</span>
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ImportPanel;
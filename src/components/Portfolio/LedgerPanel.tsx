@@ -0,0 +1,310 @@
+import React, { useState, useMemo } from 'react';
+import { X, BookOpen, Trash2, Download, AlertTriangle } from 'lucide-react';
+import {
+  LedgerResult,
+  LotMethod,
+  RealizedGainsYear,
+  Transaction
+} from '../../types/stock.types';
+import {
+  LOT_METHOD_LABELS,
+  sortTransactions,
+  describeTransaction,
+  realizedGainsToCsv
+} from '../../utils/ledger';
+import { formatSignedCurrency, getChangeColorClass } from '../../utils/formatters';
+import { downloadFile } from '../../utils/download';
+import TransactionForm from './TransactionForm';
+import ImportPanel from './ImportPanel';
+
+interface LedgerPanelProps {
+  transactions: Transaction[];
+  lotMethod: LotMethod;
+  result: LedgerResult;
+  gainsByYear: RealizedGainsYear[];
+  /** Pre-fills the form and filters the list */
+  initialSymbol?: string;
+  onLotMethodChange: (method: LotMethod) => void;
+  onAdd: (transaction: Omit<Transaction, 'id'>) => void;
+  /** Symbols the importer can trust without a lookup */
+  knownSymbols: Set<string>;
+  onImport: (transactions: Array<Omit<Transaction, 'id'>>) => void;
+  onRemove: (id: string) => void;
+  onClose: () => void;
+  darkMode?: boolean;
+}
+
+type Tab = 'transactions' | 'gains' | 'import';
+
+const LedgerPanel: React.FC<LedgerPanelProps> = ({
+  transactions,
+  lotMethod,
+  result,
+  gainsByYear,
+  initialSymbol,
+  onLotMethodChange,
+  onAdd,
+  knownSymbols,
+  onImport,
+  onRemove,
+  onClose,
+  darkMode = false
+}) => {
+  const [tab, setTab] = useState<Tab>('transactions');
+  const [symbolFilter, setSymbolFilter] = useState(initialSymbol ?? '');
+
+  const issuesById = useMemo(() => {
+    const map = new Map<string, string[]>();
+    result.issues.forEach(issue => {
+      map.set(issue.transactionId, [...(map.get(issue.transactionId) ?? []), issue.message]);
+    });
+    return map;
+  }, [result.issues]);
+
+  // Newest first
+  const visibleTransactions = useMemo(
+    () => sortTransactions(transactions)
+      .filter(transaction => !symbolFilter || transaction.symbol === symbolFilter)
+      .reverse(),
+    [transactions, symbolFilter]
+  );
+  const ledgerSymbols = useMemo(
+    () => Array.from(new Set(transactions.map(transaction => transaction.symbol))).sort(),
+    [transactions]
+  );
+
+  const handleExport = () => {
+    downloadFile('realized-gains.csv', realizedGainsToCsv(gainsByYear), 'text/csv;charset=utf-8');
+  };
+
+  const mutedClass = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const borderClass = darkMode ? 'border-gray-700' : 'border-gray-200';
+  const selectClass = `rounded-md px-2 py-1.5 text-sm border focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+    darkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+  }`;
+
+  const renderTransactions = () => (
+    <div className="space-y-6">
+      <TransactionForm
+        initialSymbol={initialSymbol}
+        lotMethod={lotMethod}
+        openLots={result.openLots}
+        onSubmit={onAdd}
+        darkMode={darkMode}
+      />
+
+      <div className={`border-t pt-4 ${borderClass}`}>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className={`text-sm font-semibold ${darkMode ? 'text-white' : 'text-gray-800'}`}>
+            History ({visibleTransactions.length})
+          </h3>
+          <select
+            aria-label="Filter by symbol"
+            value={symbolFilter}
+            onChange={(e) => setSymbolFilter(e.target.value)}
+            className={selectClass}
+          >
+            <option value="">All symbols</option>
+            {ledgerSymbols.map(symbol => (
+              <option key={symbol} value={symbol}>{symbol}</option>
+            ))}
+          </select>
+        </div>
+
+        {visibleTransactions.length > 0 ? (
+          <table className="w-full text-sm">
+            <tbody>
+              {visibleTransactions.map(transaction => {
+                const issues = issuesById.get(transaction.id);
+                return (
+                  <tr key={transaction.id} className={`border-b ${darkMode ? 'border-gray-700' : 'border-gray-100'}`}>
+                    <td className={`py-2 pr-3 whitespace-nowrap ${mutedClass}`}>{transaction.date}</td>
+                    <td className="py-2 pr-3 capitalize font-medium">{transaction.type}</td>
+                    <td className="py-2 pr-3 font-semibold">{transaction.symbol}</td>
+                    <td className={`py-2 pr-3 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                      {describeTransaction(transaction)}
+                      {issues && (
+                        <span className="ml-2 inline-flex items-center text-orange-600" title={issues.join('\n')}>
+                          <AlertTriangle className="h-4 w-4" />
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 text-right">
+                      <button
+                        onClick={() => onRemove(transaction.id)}
+                        className="text-red-500 hover:text-red-700 p-1 rounded transition-colors"
+                        aria-label={`Delete ${transaction.type} ${transaction.symbol} on ${transaction.date}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        ) : (
+          <p className={`text-sm py-4 text-center ${mutedClass}`}>No transactions yet</p>
+        )}
+      </div>
+    </div>
+  );
+
+  const renderGains = () => (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className={`text-sm ${mutedClass}`}>
+          Matched {LOT_METHOD_LABELS[lotMethod].toLowerCase()}; long term after one year held
+        </p>
+        <button
+          onClick={handleExport}
+          disabled={gainsByYear.length === 0}
+          className="flex items-center space-x-1 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-3 py-1.5 rounded-md text-sm transition-colors"
+        >
+          <Download className="h-4 w-4" />
+          <span>Export CSV</span>
+        </button>
+      </div>
+
+      {gainsByYear.length === 0 && (
+        <p className={`text-sm py-4 text-center ${mutedClass}`}>No realized gains or income yet</p>
+      )}
+
+      {gainsByYear.map(summary => (
+        <div key={summary.year} className={`rounded-lg border p-4 ${borderClass}`}>
+          <div className="flex items-baseline justify-between mb-3">
+            <h3 className={`text-lg font-semibold ${darkMode ? 'text-white' : 'text-gray-800'}`}>{summary.year}</h3>
+            <span className={`font-bold ${getChangeColorClass(summary.total)}`}>
+              {formatSignedCurrency(summary.total)}
+            </span>
+          </div>
+          <dl className="grid grid-cols-4 gap-3 text-center text-sm">
+            {[
+              { label: 'Short term', value: summary.shortTerm },
+              { label: 'Long term', value: summary.longTerm },
+              { label: 'Dividends', value: summary.dividends },
+              { label: 'Fees', value: -summary.fees },
+            ].map(({ label, value }) => (
+              <div key={label}>
+                <dd className={`font-medium ${getChangeColorClass(value)}`}>{formatSignedCurrency(value)}</dd>
+                <dt className={mutedClass}>{label}</dt>
+              </div>
+            ))}
+          </dl>
+          {summary.gains.length > 0 && (
+            <table className="w-full text-sm mt-3">
+              <thead className={mutedClass}>
+                <tr>
+                  <th className="text-left font-medium py-1">Symbol</th>
+                  <th className="text-right font-medium py-1">Qty</th>
+                  <th className="text-left font-medium py-1 pl-3">Acquired</th>
+                  <th className="text-left font-medium py-1">Sold</th>
+                  <th className="text-right font-medium py-1">Gain</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.gains.map(gain => (
+                  <tr key={`${gain.sellId}-${gain.lotId}`}>
+                    <td className="py-1 font-semibold">{gain.symbol}</td>
+                    <td className="py-1 text-right">{Number(gain.quantity.toFixed(6))}</td>
+                    <td className={`py-1 pl-3 ${mutedClass}`}>{gain.acquired}</td>
+                    <td className={`py-1 ${mutedClass}`}>{gain.sold}</td>
+                    <td className={`py-1 text-right ${getChangeColorClass(gain.gain)}`}>
+                      {formatSignedCurrency(gain.gain)} <span className="text-xs">{gain.term === 'long' ? 'LT' : 'ST'}</span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black bg-opacity-50"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className={`relative w-full max-w-2xl mx-4 max-h-[90vh] flex flex-col rounded-lg shadow-xl transition-colors duration-200 ${
+        darkMode ? 'bg-gray-800 text-white' : 'bg-white text-gray-900'
+      }`}>
+        {/* Header */}
+        <div className={`flex items-center justify-between p-6 border-b ${borderClass}`}>
+          <div className="flex items-center space-x-3">
+            <BookOpen className={`h-6 w-6 ${darkMode ? 'text-blue-400' : 'text-blue-600'}`} />
+            <h2 className="text-lg font-semibold">Transactions</h2>
+          </div>
+          <div className="flex items-center space-x-3">
+            <select
+              aria-label="Lot matching"
+              value={lotMethod}
+              onChange={(e) => onLotMethodChange(e.target.value as LotMethod)}
+              className={selectClass}
+            >
+              {(Object.keys(LOT_METHOD_LABELS) as LotMethod[]).map(method => (
+                <option key={method} value={method}>{LOT_METHOD_LABELS[method]}</option>
+              ))}
+            </select>
+            <button
+              onClick={onClose}
+              aria-label="Close"
+              className={`p-2 rounded-lg transition-colors ${
+                darkMode
+                  ? 'text-gray-400 hover:text-white hover:bg-gray-700'
+                  : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        {/* Tabs */}
+        <div className={`flex px-6 border-b ${borderClass}`} role="tablist">
+          {([
+            { key: 'transactions', label: 'Ledger' },
+            { key: 'gains', label: 'Realized gains' },
+            { key: 'import', label: 'Import CSV' },
+          ] as Array<{ key: Tab; label: string }>).map(({ key, label }) => (
+            <button
+              key={key}
+              role="tab"
+              aria-selected={tab === key}
+              onClick={() => setTab(key)}
+              className={`px-3 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
+                tab === key ? 'border-blue-500 text-blue-500' : `border-transparent ${mutedClass}`
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {/* Content */}
+        <div className="p-6 overflow-y-auto">
+          {tab === 'transactions' && renderTransactions()}
+          {tab === 'gains' && renderGains()}
+          {tab === 'import' && (
+            <ImportPanel
+              transactions={transactions}
+              knownSymbols={knownSymbols}
+              onImport={(entries) => {
+                onImport(entries);
+                setTab('transactions');
+              }}
+              darkMode={darkMode}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LedgerPanel;
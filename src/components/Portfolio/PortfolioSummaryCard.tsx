@@ -0,0 +1,73 @@
+import React from 'react';
+import { PortfolioSummary } from '../../types/stock.types';
+import {
+  formatCurrency,
+  formatSignedCurrency,
+  formatPercentage,
+  getChangeColorClass
+} from '../../utils/formatters';
+
+interface PortfolioSummaryCardProps {
+  summary: PortfolioSummary;
+  darkMode?: boolean;
+}
+
+const PortfolioSummaryCard: React.FC<PortfolioSummaryCardProps> = ({
+  summary,
+  darkMode = false
+}) => {
+  const mutedClass = `text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`;
+
+  return (
+    <div className={`rounded-lg shadow-lg p-6 transition-colors duration-200 ${
+      darkMode ? 'bg-gray-800' : 'bg-white'
+    }`}>
+      <h3 className={`text-lg font-semibold mb-4 ${
+        darkMode ? 'text-white' : 'text-gray-800'
+      }`}>Portfolio</h3>
+
+      <div className="text-center">
+        <div className={`text-2xl font-bold ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+          {formatCurrency(summary.marketValue)}
+        </div>
+        <div className={mutedClass}>
+          Market Value • Cost {formatCurrency(summary.costBasis)}
+        </div>
+      </div>
+
+      <div className={`grid grid-cols-2 gap-4 text-center mt-4 pt-4 border-t ${
+        darkMode ? 'border-gray-700' : 'border-gray-100'
+      }`}>
+        <div>
+          <div className={`text-lg font-bold ${getChangeColorClass(summary.dayPnL)}`}>
+            {formatSignedCurrency(summary.dayPnL)}
+          </div>
+          <div className={`text-xs ${getChangeColorClass(summary.dayPnL)}`}>
+            {formatPercentage(summary.dayPnLPercent)}
+          </div>
+          <div className={mutedClass}>Day P&amp;L</div>
+        </div>
+        <div>
+          <div className={`text-lg font-bold ${getChangeColorClass(summary.unrealizedPnL)}`}>
+            {formatSignedCurrency(summary.unrealizedPnL)}
+          </div>
+          <div className={`text-xs ${getChangeColorClass(summary.unrealizedPnL)}`}>
+            {formatPercentage(summary.unrealizedPnLPercent)}
+          </div>
+          <div className={mutedClass}>Unrealized P&amp;L</div>
+        </div>
+      </div>
+
+      <div className={`mt-4 text-center ${mutedClass}`}>
+        {summary.positions} {summary.positions === 1 ? 'position' : 'positions'}
+        {summary.missingQuotes.length > 0 && (
+          <span title={summary.missingQuotes.join(', ')}>
+            {' '}• {summary.missingQuotes.length} awaiting quotes
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PortfolioSummaryCard;
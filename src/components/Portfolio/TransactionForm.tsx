@@ -0,0 +1,219 @@
+import React, { useState } from 'react';
+import { Plus } from 'lucide-react';
+import { LotMethod, TaxLot, Transaction, TransactionType } from '../../types/stock.types';
+import { validateTransaction } from '../../utils/ledger';
+import { normalizeSymbol, formatCurrency, formatDate } from '../../utils/formatters';
+import { toDateKey } from '../../utils/portfolio';
+
+interface TransactionFormProps {
+  initialSymbol?: string;
+  lotMethod: LotMethod;
+  /** Open lots, offered for specific-lot sells */
+  openLots: TaxLot[];
+  onSubmit: (transaction: Omit<Transaction, 'id'>) => void;
+  darkMode?: boolean;
+}
+
+const TYPE_LABELS: Record<TransactionType, string> = {
+  buy: 'Buy',
+  sell: 'Sell',
+  split: 'Split',
+  dividend: 'Dividend',
+  fee: 'Fee',
+};
+
+const TransactionForm: React.FC<TransactionFormProps> = ({
+  initialSymbol = '',
+  lotMethod,
+  openLots,
+  onSubmit,
+  darkMode = false
+}) => {
+  const today = toDateKey();
+  const [type, setType] = useState<TransactionType>('buy');
+  const [symbol, setSymbol] = useState(initialSymbol);
+  const [date, setDate] = useState(today);
+  const [quantity, setQuantity] = useState('');
+  const [price, setPrice] = useState('');
+  const [fees, setFees] = useState('');
+  const [amount, setAmount] = useState('');
+  const [ratio, setRatio] = useState('');
+  // Shares to close per lot id, for specific-lot sells
+  const [lotQuantities, setLotQuantities] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const normalizedSymbol = symbol.trim() ? normalizeSymbol(symbol) : '';
+  const isTrade = type === 'buy' || type === 'sell';
+  const picksLots = type === 'sell' && lotMethod === 'specific';
+  const symbolLots = openLots.filter(lot => lot.symbol === normalizedSymbol);
+
+  const selectedLots = symbolLots
+    .map(lot => ({ lotId: lot.id, quantity: Number(lotQuantities[lot.id] || 0) }))
+    .filter(selection => selection.quantity > 0);
+  const lotTotal = selectedLots.reduce((sum, selection) => sum + selection.quantity, 0);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const entry: Omit<Transaction, 'id'> = {
+      type,
+      symbol: normalizedSymbol,
+      date,
+      quantity: isTrade ? (picksLots ? lotTotal : Number(quantity)) : 0,
+      price: isTrade ? Number(price) : 0,
+      fees: isTrade ? Number(fees || 0) : 0,
+      ...(type === 'dividend' || type === 'fee' ? { amount: Number(amount) } : {}),
+      ...(type === 'split' ? { ratio: Number(ratio) } : {}),
+      ...(picksLots ? { lots: selectedLots } : {}),
+    };
+
+    const validationError = picksLots && selectedLots.length === 0
+      ? 'Choose at least one lot to sell'
+      : date > today
+        ? 'Date can\'t be in the future'
+        : validateTransaction(entry);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    onSubmit(entry);
+    setError(null);
+    setQuantity('');
+    setPrice('');
+    setFees('');
+    setAmount('');
+    setRatio('');
+    setLotQuantities({});
+  };
+
+  const labelClass = `block text-xs font-medium mb-1 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`;
+  const inputClass = `w-full rounded-md px-2 py-1.5 text-sm border focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+    darkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+  }`;
+
+  const numberField = (id: string, label: string, value: string, onChange: (value: string) => void) => (
+    <div>
+      <label className={labelClass} htmlFor={id}>{label}</label>
+      <input
+        id={id}
+        type="number"
+        min="0"
+        step="any"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className={inputClass}
+      />
+    </div>
+  );
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3" aria-label="Add transaction">
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <label className={labelClass} htmlFor="tx-type">Type</label>
+          <select
+            id="tx-type"
+            value={type}
+            onChange={(e) => setType(e.target.value as TransactionType)}
+            className={inputClass}
+          >
+            {(Object.keys(TYPE_LABELS) as TransactionType[]).map(key => (
+              <option key={key} value={key}>{TYPE_LABELS[key]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="tx-symbol">Symbol</label>
+          <input
+            id="tx-symbol"
+            type="text"
+            value={symbol}
+            onChange={(e) => setSymbol(e.target.value)}
+            placeholder="AAPL"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="tx-date">Date</label>
+          <input
+            id="tx-date"
+            type="date"
+            max={today}
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      {isTrade && (
+        <div className="grid grid-cols-3 gap-3">
+          {picksLots ? (
+            <div>
+              <span className={labelClass}>Quantity</span>
+              <div className={`py-1.5 text-sm ${darkMode ? 'text-white' : 'text-gray-900'}`}>{lotTotal}</div>
+            </div>
+          ) : numberField('tx-quantity', 'Quantity', quantity, setQuantity)}
+          {numberField('tx-price', 'Price per share', price, setPrice)}
+          {numberField('tx-fees', 'Fees', fees, setFees)}
+        </div>
+      )}
+
+      {(type === 'dividend' || type === 'fee') && (
+        <div className="grid grid-cols-3 gap-3">
+          {numberField('tx-amount', 'Amount', amount, setAmount)}
+        </div>
+      )}
+
+      {type === 'split' && (
+        <div className="grid grid-cols-3 gap-3">
+          {numberField('tx-ratio', 'New shares per old share', ratio, setRatio)}
+        </div>
+      )}
+
+      {picksLots && (
+        <div>
+          <span className={labelClass}>Lots to sell</span>
+          {symbolLots.length > 0 ? (
+            <ul className="space-y-1">
+              {symbolLots.map(lot => (
+                <li key={lot.id} className="flex items-center justify-between space-x-3 text-sm">
+                  <span className={darkMode ? 'text-gray-300' : 'text-gray-700'}>
+                    {formatDate(`${lot.acquired}T00:00:00`)} • {Number(lot.quantity.toFixed(6))} @ {formatCurrency(lot.costPerShare)}
+                  </span>
+                  <input
+                    type="number"
+                    min="0"
+                    max={lot.quantity}
+                    step="any"
+                    aria-label={`Shares to sell from lot bought ${lot.acquired}`}
+                    value={lotQuantities[lot.id] ?? ''}
+                    onChange={(e) => setLotQuantities(prev => ({ ...prev, [lot.id]: e.target.value }))}
+                    className={`${inputClass} w-24`}
+                  />
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              {normalizedSymbol ? `No open ${normalizedSymbol} lots` : 'Enter a symbol to see its open lots'}
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-red-600">{error}</span>
+        <button
+          type="submit"
+          className="flex items-center space-x-1 bg-green-600 hover:bg-green-700 text-white px-3 py-1.5 rounded-md text-sm transition-colors"
+        >
+          <Plus className="h-4 w-4" />
+          <span>Add transaction</span>
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default TransactionForm;
@@ -0,0 +1,136 @@
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import { BENCHMARKS, MAX_COMPARE_SYMBOLS } from '../../utils/constants';
+import { formatPercentage } from '../../utils/formatters';
+
+export interface ComparisonLegendItem {
+  symbol: string;
+  color: string;
+  /** Return over the chart, null while loading or hidden */
+  change: number | null;
+  hidden: boolean;
+  loading: boolean;
+  isBenchmark: boolean;
+}
+
+interface ComparisonControlsProps {
+  items: ComparisonLegendItem[];
+  compareSymbols: string[];
+  /** Watchlist symbols that can still be added */
+  options: string[];
+  benchmark: string | null;
+  /** Date the returns are measured from */
+  startLabel: string | null;
+  onToggle: (symbol: string) => void;
+  onAdd?: (symbol: string) => void;
+  onRemove?: (symbol: string) => void;
+  onBenchmarkChange?: (symbol: string | null) => void;
+  darkMode?: boolean;
+}
+
+/**
+ * Legend for comparison mode, where each entry toggles its series, plus
+ * pickers for compared symbols and the benchmark
+ */
+const ComparisonControls: React.FC<ComparisonControlsProps> = ({
+  items,
+  compareSymbols,
+  options,
+  benchmark,
+  startLabel,
+  onToggle,
+  onAdd,
+  onRemove,
+  onBenchmarkChange,
+  darkMode = false
+}) => {
+  const mutedClass = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const selectClass = `px-2 py-1 rounded border text-xs ${
+    darkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+  }`;
+  const canAdd = onAdd && options.length > 0 && compareSymbols.length < MAX_COMPARE_SYMBOLS;
+
+  return (
+    <div className="mb-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-2" role="list" aria-label="Compared series">
+        {items.map(item => (
+          <div
+            key={item.symbol}
+            role="listitem"
+            className={`inline-flex items-center rounded-full border text-xs ${
+              darkMode ? 'border-gray-600' : 'border-gray-200'
+            } ${item.hidden ? 'opacity-50' : ''}`}
+          >
+            <button
+              onClick={() => onToggle(item.symbol)}
+              aria-pressed={!item.hidden}
+              title={item.hidden ? `Show ${item.symbol}` : `Hide ${item.symbol}`}
+              className="inline-flex items-center space-x-1.5 pl-2.5 pr-2 py-1"
+            >
+              <span
+                className="h-2.5 w-2.5 rounded-full"
+                style={{ backgroundColor: item.color }}
+              />
+              <span className={`font-medium ${darkMode ? 'text-white' : 'text-gray-800'}`}>
+                {item.symbol}
+              </span>
+              {item.isBenchmark && <span className={mutedClass}>benchmark</span>}
+              <span className={
+                item.change === null ? mutedClass : item.change >= 0 ? 'text-green-600' : 'text-red-600'
+              }>
+                {item.loading ? 'Loading…' : item.change === null ? '—' : formatPercentage(item.change)}
+              </span>
+            </button>
+            {onRemove && compareSymbols.includes(item.symbol) && (
+              <button
+                onClick={() => onRemove(item.symbol)}
+                className={`pr-2 py-1 ${darkMode ? 'text-gray-400 hover:text-white' : 'text-gray-400 hover:text-gray-700'}`}
+                title={`Stop comparing ${item.symbol}`}
+                aria-label={`Stop comparing ${item.symbol}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className={`flex flex-wrap items-center gap-3 text-xs ${mutedClass}`}>
+        {canAdd && (
+          <label className="inline-flex items-center space-x-1">
+            <Plus className="h-3.5 w-3.5" />
+            <select
+              value=""
+              onChange={e => e.target.value && onAdd(e.target.value)}
+              aria-label="Add a symbol to compare"
+              className={selectClass}
+            >
+              <option value="">Compare with…</option>
+              {options.map(symbol => (
+                <option key={symbol} value={symbol}>{symbol}</option>
+              ))}
+            </select>
+          </label>
+        )}
+        {onBenchmarkChange && (
+          <label className="inline-flex items-center space-x-1">
+            <span>Benchmark</span>
+            <select
+              value={benchmark ?? ''}
+              onChange={e => onBenchmarkChange(e.target.value || null)}
+              className={selectClass}
+            >
+              <option value="">None</option>
+              {BENCHMARKS.map(({ symbol, label }) => (
+                <option key={symbol} value={symbol}>{label} ({symbol})</option>
+              ))}
+            </select>
+          </label>
+        )}
+        {startLabel && <span>Returns since {startLabel}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonControls;
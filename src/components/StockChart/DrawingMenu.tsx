@@ -0,0 +1,229 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Bell, ChevronDown, Download, PenLine, Trash2, Upload } from 'lucide-react';
+import { ChartDrawing } from '../../types/stock.types';
+import { DRAWING_COLORS } from '../../utils/constants';
+import { describeDrawing } from '../../utils/drawings';
+import { downloadFile } from '../../utils/download';
+
+interface DrawingMenuProps {
+  drawings: ChartDrawing[];
+  /** Colour for new drawings */
+  color: string;
+  onColorChange: (color: string) => void;
+  onRemove: (id: string) => void;
+  onClear?: () => void;
+  /** Turn a horizontal level into a price alert */
+  onCreateAlert?: (drawing: ChartDrawing) => void;
+  /** Ids of alert rules that still exist */
+  alertRuleIds?: Set<string>;
+  onExport?: () => string;
+  onImport?: (json: string) => { imported: number; skipped: number };
+  darkMode?: boolean;
+}
+
+const NO_RULES = new Set<string>();
+
+const DrawingMenu: React.FC<DrawingMenuProps> = ({
+  drawings,
+  color,
+  onColorChange,
+  onRemove,
+  onClear,
+  onCreateAlert,
+  alertRuleIds = NO_RULES,
+  onExport,
+  onImport,
+  darkMode = false
+}) => {
+  const [open, setOpen] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!open) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+        setMessage(null);
+      }
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [open]);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0];
+    e.target.value = '';
+    if (!picked || !onImport) return;
+    try {
+      const { imported, skipped } = onImport(await picked.text());
+      setMessage({
+        text: `Imported ${imported} drawing${imported === 1 ? '' : 's'}${skipped > 0 ? `, skipped ${skipped} unreadable` : ''}`,
+        isError: false,
+      });
+    } catch (error) {
+      setMessage({ text: error instanceof Error ? error.message : 'Import failed', isError: true });
+    }
+  };
+
+  const mutedClass = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const actionClass = `flex items-center space-x-1 px-2 py-1 rounded text-xs transition-colors ${
+    darkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-100'
+  }`;
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        aria-haspopup="dialog"
+        aria-expanded={open}
+        className={`flex items-center space-x-1 px-2 py-1 rounded-md transition-colors ${
+          darkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-100'
+        }`}
+        title="Drawings on this chart"
+      >
+        <PenLine className="h-3.5 w-3.5" />
+        <span>Drawings{drawings.length > 0 ? ` (${drawings.length})` : ''}</span>
+        <ChevronDown className="h-3.5 w-3.5" />
+      </button>
+
+      {open && (
+        <div
+          role="dialog"
+          aria-label="Chart drawings"
+          className={`absolute right-0 mt-2 w-80 rounded-lg shadow-xl border z-50 text-left ${
+            darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+          }`}
+        >
+          <div className={`flex items-center justify-between p-3 border-b ${
+            darkMode ? 'border-gray-700' : 'border-gray-200'
+          }`}>
+            <span className={`text-xs ${mutedClass}`}>Colour</span>
+            <div className="flex items-center space-x-1.5" role="group" aria-label="Drawing colour">
+              {DRAWING_COLORS.map(option => (
+                <button
+                  key={option}
+                  onClick={() => onColorChange(option)}
+                  aria-pressed={color === option}
+                  aria-label={`Draw in ${option}`}
+                  className={`h-4 w-4 rounded-full ${
+                    color === option ? `ring-2 ring-offset-1 ${darkMode ? 'ring-white ring-offset-gray-800' : 'ring-gray-700'}` : ''
+                  }`}
+                  style={{ backgroundColor: option }}
+                />
+              ))}
+            </div>
+          </div>
+
+          {drawings.length === 0 ? (
+            <p className={`p-3 text-sm ${mutedClass}`}>
+              No drawings on this chart yet. Pick a tool, then drag for a trend line or box, or click to place a level or note.
+            </p>
+          ) : (
+            <ul className="max-h-64 overflow-y-auto">
+              {drawings.map(drawing => {
+                const hasAlert = drawing.type === 'horizontalLine'
+                  && drawing.alertId !== undefined
+                  && alertRuleIds.has(drawing.alertId);
+                return (
+                  <li
+                    key={drawing.id}
+                    className={`flex items-center justify-between px-3 py-2 border-b last:border-b-0 ${
+                      darkMode ? 'border-gray-700' : 'border-gray-100'
+                    }`}
+                  >
+                    <div className="flex items-center space-x-2 min-w-0">
+                      <span className="h-2.5 w-2.5 flex-shrink-0 rounded-full" style={{ backgroundColor: drawing.color }} />
+                      <span className={`text-sm truncate ${darkMode ? 'text-white' : 'text-gray-800'}`}>
+                        {describeDrawing(drawing)}
+                      </span>
+                    </div>
+                    <div className="flex items-center flex-shrink-0">
+                      {drawing.type === 'horizontalLine' && onCreateAlert && (
+                        hasAlert ? (
+                          <span className={`text-xs px-1 ${mutedClass}`}>Alert set</span>
+                        ) : (
+                          <button
+                            onClick={() => onCreateAlert(drawing)}
+                            className={`p-1 rounded transition-colors ${
+                              darkMode ? 'text-gray-400 hover:text-blue-400' : 'text-gray-400 hover:text-blue-600'
+                            }`}
+                            title="Alert me when the price crosses this level"
+                            aria-label={`Create an alert at ${describeDrawing(drawing)}`}
+                          >
+                            <Bell className="h-4 w-4" />
+                          </button>
+                        )
+                      )}
+                      <button
+                        onClick={() => onRemove(drawing.id)}
+                        className={`p-1 rounded transition-colors ${
+                          darkMode ? 'text-gray-400 hover:text-red-400' : 'text-gray-400 hover:text-red-600'
+                        }`}
+                        title={`Remove ${describeDrawing(drawing)}`}
+                        aria-label={`Remove ${describeDrawing(drawing)}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          <div className={`flex flex-wrap items-center gap-1 p-2 border-t ${
+            darkMode ? 'border-gray-700' : 'border-gray-200'
+          }`}>
+            {onExport && (
+              <button
+                onClick={() => downloadFile('chart-drawings.json', onExport(), 'application/json')}
+                className={actionClass}
+                title="Download the drawings on every chart"
+              >
+                <Download className="h-3.5 w-3.5" />
+                <span>Export</span>
+              </button>
+            )}
+            {onImport && (
+              <>
+                <button onClick={() => fileRef.current?.click()} className={actionClass} title="Add drawings from an export">
+                  <Upload className="h-3.5 w-3.5" />
+                  <span>Import</span>
+                </button>
+                <input
+                  ref={fileRef}
+                  type="file"
+                  accept="application/json,.json"
+                  onChange={handleImport}
+                  className="hidden"
+                  aria-label="Drawings file to import"
+                />
+              </>
+            )}
+            {onClear && drawings.length > 0 && (
+              <button
+                onClick={onClear}
+                className={`${actionClass} ml-auto`}
+                title="Remove every drawing on this chart"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+                <span>Clear all</span>
+              </button>
+            )}
+          </div>
+
+          {message && (
+            <p className={`px-3 pb-3 text-xs ${message.isError ? 'text-red-600' : mutedClass}`} role="status">
+              {message.text}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DrawingMenu;
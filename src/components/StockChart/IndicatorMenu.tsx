@@ -0,0 +1,204 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Activity, ChevronDown, Plus, Trash2 } from 'lucide-react';
+import { IndicatorConfig, IndicatorType } from '../../types/stock.types';
+import {
+  describeIndicator,
+  normalizeParam,
+  IndicatorParam,
+  INDICATORS
+} from '../../utils/chartIndicators';
+
+interface IndicatorMenuProps {
+  indicators: IndicatorConfig[];
+  onAdd: (type: IndicatorType) => void;
+  onUpdate: (id: string, changes: Partial<Pick<IndicatorConfig, 'params'>>) => void;
+  onRemove: (id: string) => void;
+  darkMode?: boolean;
+}
+
+interface ParamInputProps {
+  param: IndicatorParam;
+  value: number;
+  onCommit: (value: number) => void;
+  inputClass: string;
+  labelClass: string;
+}
+
+// Edits are kept locally and applied on blur or Enter, so the chart isn't
+// recomputed for every keystroke or for half-typed values
+const ParamInput: React.FC<ParamInputProps> = ({ param, value, onCommit, inputClass, labelClass }) => {
+  const [draft, setDraft] = useState(String(value));
+
+  useEffect(() => {
+    setDraft(String(value));
+  }, [value]);
+
+  const commit = () => {
+    const normalized = normalizeParam(param, parseFloat(draft));
+    if (normalized === null || normalized === value) {
+      setDraft(String(value));
+      return;
+    }
+    onCommit(normalized);
+  };
+
+  return (
+    <label className={`flex flex-col text-xs ${labelClass}`}>
+      {param.label}
+      <input
+        type="number"
+        value={draft}
+        min={param.min}
+        max={param.max}
+        step={param.step ?? 1}
+        onChange={e => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={e => {
+          if (e.key === 'Enter') commit();
+        }}
+        className={`mt-0.5 w-16 px-2 py-1 rounded border text-sm ${inputClass}`}
+      />
+    </label>
+  );
+};
+
+const IndicatorMenu: React.FC<IndicatorMenuProps> = ({
+  indicators,
+  onAdd,
+  onUpdate,
+  onRemove,
+  darkMode = false
+}) => {
+  const [open, setOpen] = useState(false);
+  const [newType, setNewType] = useState<IndicatorType>('sma');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!open) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [open]);
+
+  const mutedClass = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const inputClass = darkMode
+    ? 'bg-gray-700 border-gray-600 text-white'
+    : 'bg-white border-gray-300 text-gray-900';
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        aria-haspopup="dialog"
+        aria-expanded={open}
+        className={`flex items-center space-x-1 px-2 py-1 rounded-md text-xs transition-colors ${
+          darkMode
+            ? 'bg-gray-700 hover:bg-gray-600 text-gray-200'
+            : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+        }`}
+        title="Technical indicators"
+      >
+        <Activity className="h-3.5 w-3.5" />
+        <span>Indicators{indicators.length > 0 ? ` (${indicators.length})` : ''}</span>
+        <ChevronDown className="h-3.5 w-3.5" />
+      </button>
+
+      {open && (
+        <div
+          role="dialog"
+          aria-label="Technical indicators"
+          className={`absolute right-0 mt-2 w-80 rounded-lg shadow-xl border z-50 text-left ${
+            darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+          }`}
+        >
+          <div className={`flex items-center space-x-2 p-3 border-b ${
+            darkMode ? 'border-gray-700' : 'border-gray-200'
+          }`}>
+            <select
+              value={newType}
+              onChange={e => setNewType(e.target.value as IndicatorType)}
+              aria-label="Indicator to add"
+              className={`flex-1 px-2 py-1 rounded border text-sm ${inputClass}`}
+            >
+              {(Object.keys(INDICATORS) as IndicatorType[]).map(type => (
+                <option key={type} value={type}>
+                  {INDICATORS[type].label}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => onAdd(newType)}
+              className="flex items-center space-x-1 px-2 py-1 rounded bg-blue-600 hover:bg-blue-700 text-white text-sm transition-colors"
+            >
+              <Plus className="h-4 w-4" />
+              <span>Add</span>
+            </button>
+          </div>
+
+          {indicators.length === 0 ? (
+            <p className={`p-3 text-sm ${mutedClass}`}>
+              No indicators on this chart yet. Moving averages, Bollinger Bands and VWAP draw over the price; the rest get a pane of their own.
+            </p>
+          ) : (
+            <ul className="max-h-80 overflow-y-auto">
+              {indicators.map(indicator => {
+                const definition = INDICATORS[indicator.type];
+                return (
+                  <li
+                    key={indicator.id}
+                    className={`p-3 border-b last:border-b-0 ${darkMode ? 'border-gray-700' : 'border-gray-100'}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-2">
+                        <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: indicator.color }} />
+                        <span className={`text-sm font-medium ${darkMode ? 'text-white' : 'text-gray-800'}`}>
+                          {describeIndicator(indicator)}
+                        </span>
+                        <span className={`text-xs ${mutedClass}`}>
+                          {definition.placement === 'overlay' ? 'overlay' : 'pane'}
+                        </span>
+                      </div>
+                      <button
+                        onClick={() => onRemove(indicator.id)}
+                        className={`p-1 rounded transition-colors ${
+                          darkMode ? 'text-gray-400 hover:text-red-400' : 'text-gray-400 hover:text-red-600'
+                        }`}
+                        title={`Remove ${describeIndicator(indicator)}`}
+                        aria-label={`Remove ${describeIndicator(indicator)}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                    {definition.params.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mt-2">
+                        {definition.params.map(param => (
+                          <ParamInput
+                            key={param.key}
+                            param={param}
+                            value={indicator.params[param.key] ?? param.defaultValue}
+                            onCommit={value => onUpdate(indicator.id, {
+                              params: { ...indicator.params, [param.key]: value }
+                            })}
+                            inputClass={inputClass}
+                            labelClass={mutedClass}
+                          />
+                        ))}
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IndicatorMenu;
@@ -1,8 +1,63 @@
-import React, { useRef, useEffect, useCallback } from 'react';
+import React, { useRef, useEffect, useCallback, useMemo, useState } from 'react';
+import { GitCompare, Minus, Ruler, RotateCcw, Square, TrendingUp, Type } from 'lucide-react';
 import * as Chart from 'chart.js';
-import { HistoricalData } from '../../types/stock.types';
-import { CHART_COLORS } from '../../utils/constants';
-import { formatCurrency, formatDate } from '../../utils/formatters';
+import {
+  CandlestickController,
+  CandlestickElement,
+  OhlcController,
+  OhlcElement
+} from 'chartjs-chart-financial';
+import zoomPlugin from 'chartjs-plugin-zoom';
+import {
+  ChartDrawing,
+  ChartRange,
+  ChartStyle,
+  DrawingType,
+  HistoricalData,
+  IndicatorConfig,
+  IndicatorType,
+  NewChartDrawing
+} from '../../types/stock.types';
+import {
+  BENCHMARK_COLOR,
+  CHART_COLORS,
+  COMPARISON_COLORS,
+  CHART_RANGES,
+  CHART_STYLE_LABELS,
+  DEFAULT_CHART_RANGE,
+  DRAWING_COLORS,
+  RESOLUTION_LABELS
+} from '../../utils/constants';
+import {
+  formatChartTime,
+  formatCurrency,
+  formatDate,
+  formatDateTime,
+  formatPercentage,
+  formatSignedCurrency,
+  formatVolume
+} from '../../utils/formatters';
+import { isIntraday, toHeikinAshi } from '../../utils/candles';
+import { computeIndicator, formatIndicatorValue, IndicatorDefinition, INDICATORS } from '../../utils/chartIndicators';
+import { buildComparison } from '../../utils/comparison';
+import { latest } from '../../utils/indicators';
+import { downloadFile } from '../../utils/download';
+import { exportFilename, ExportSeries, seriesToCsv } from '../../utils/exports';
+import ExportMenu from '../UI/ExportMenu';
+import IndicatorMenu from './IndicatorMenu';
+import ComparisonControls, { ComparisonLegendItem } from './ComparisonControls';
+import DrawingMenu from './DrawingMenu';
+import {
+  barIndexAt,
+  createCrosshairPlugin,
+  createZoomOptions,
+  InteractionState,
+  MeasureSpan,
+  VisibleRange
+} from './chartInteraction';
+import { ChartTool, createDrawingsPlugin, DrawingLayer, pointAt } from './chartDrawings';
+import { renderChartImage } from './chartExport';
+import { hasVolume, volumeBarColors } from './chartVolume';
 
 // Register Chart.js components
 Chart.Chart.register(
@@ -11,10 +66,17 @@ Chart.Chart.register(
   Chart.PointElement,
   Chart.LineElement,
   Chart.LineController,
+  Chart.BarElement,
+  Chart.BarController,
   Chart.Title,
   Chart.Tooltip,
   Chart.Legend,
-  Chart.Filler
+  Chart.Filler,
+  CandlestickController,
+  CandlestickElement,
+  OhlcController,
+  OhlcElement,
+  zoomPlugin
 );
 
 interface StockChartProps {
@@ -25,8 +87,50 @@ interface StockChartProps {
   showTitle?: boolean;
   darkMode?: boolean;
   isDemoData?: boolean;
+  chartStyle?: ChartStyle;
+  onChartStyleChange?: (style: ChartStyle) => void;
+  range?: ChartRange;
+  onRangeChange?: (range: ChartRange) => void;
+  indicators?: IndicatorConfig[];
+  onAddIndicator?: (type: IndicatorType) => void;
+  onUpdateIndicator?: (id: string, changes: Partial<Pick<IndicatorConfig, 'params'>>) => void;
+  onRemoveIndicator?: (id: string) => void;
+  /** Show percent returns of several symbols instead of the price chart */
+  compareMode?: boolean;
+  onCompareModeChange?: (enabled: boolean) => void;
+  compareSymbols?: string[];
+  /** Symbols offered for comparison, e.g. the rest of the watchlist */
+  compareOptions?: string[];
+  onCompareSymbolsChange?: (symbols: string[]) => void;
+  benchmark?: string | null;
+  onBenchmarkChange?: (symbol: string | null) => void;
+  /** History for the compared symbols and benchmark, from useChartData */
+  comparisonData?: HistoricalData[];
+  /** Annotations on the selected symbol's chart */
+  drawings?: ChartDrawing[];
+  onAddDrawing?: (drawing: NewChartDrawing) => void;
+  onRemoveDrawing?: (id: string) => void;
+  onClearDrawings?: () => void;
+  onExportDrawings?: () => string;
+  onImportDrawings?: (json: string) => { imported: number; skipped: number };
+  /** Turn a horizontal level into a price alert */
+  onCreateLevelAlert?: (drawing: ChartDrawing) => void;
+  /** Ids of existing alert rules, to show which levels have one */
+  alertRuleIds?: Set<string>;
 }
 
+const DRAWING_TOOLS: { type: DrawingType; label: string; hint: string; icon: typeof Minus }[] = [
+  { type: 'trendLine', label: 'Trend line', hint: 'Drag to draw a trend line', icon: TrendingUp },
+  { type: 'horizontalLine', label: 'Level', hint: 'Click to mark a support or resistance level', icon: Minus },
+  { type: 'rectangle', label: 'Box', hint: 'Drag to draw a box', icon: Square },
+  { type: 'text', label: 'Note', hint: 'Type a note, then click where it goes', icon: Type },
+];
+
+const NO_INDICATORS: IndicatorConfig[] = [];
+const NO_SYMBOLS: string[] = [];
+const NO_HISTORY: HistoricalData[] = [];
+const NO_DRAWINGS: ChartDrawing[] = [];
+
 const StockChart: React.FC<StockChartProps> = ({ 
   data, 
   isLoading, 
@@ -34,13 +138,84 @@ const StockChart: React.FC<StockChartProps> = ({
   height = "h-64",
   showTitle = true,
   darkMode = false,
-  isDemoData = false
+  isDemoData = false,
+  chartStyle = 'line',
+  onChartStyleChange,
+  range = DEFAULT_CHART_RANGE,
+  onRangeChange,
+  indicators = NO_INDICATORS,
+  onAddIndicator,
+  onUpdateIndicator,
+  onRemoveIndicator,
+  compareMode = false,
+  onCompareModeChange,
+  compareSymbols = NO_SYMBOLS,
+  compareOptions = NO_SYMBOLS,
+  onCompareSymbolsChange,
+  benchmark = null,
+  onBenchmarkChange,
+  comparisonData = NO_HISTORY,
+  drawings = NO_DRAWINGS,
+  onAddDrawing,
+  onRemoveDrawing,
+  onClearDrawings,
+  onExportDrawings,
+  onImportDrawings,
+  onCreateLevelAlert,
+  alertRuleIds
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const chartRef = useRef<Chart.Chart | null>(null);
+  const [hiddenSeries, setHiddenSeries] = useState<Set<string>>(new Set());
+
+  // Zoom, crosshair, measuring and drawing. The canvas draws from
+  // interactionRef and layerRef so pointer moves only redraw; the readout
+  // above the chart uses the state.
+  const [visibleRange, setVisibleRange] = useState<VisibleRange | null>(null);
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const [tool, setTool] = useState<ChartTool | null>(null);
+  const [measure, setMeasure] = useState<MeasureSpan | null>(null);
+  const [drawColor, setDrawColor] = useState(DRAWING_COLORS[0]);
+  const [noteText, setNoteText] = useState('');
+  const interactionRef = useRef<InteractionState>({ pointer: null, measure: null });
+  const layerRef = useRef<DrawingLayer>({ times: [], drawings: NO_DRAWINGS, draft: null });
+  const toolRef = useRef(tool);
+  const draggingRef = useRef(false);
+  // The zoomed range and the bars it applies to, kept when the chart is
+  // rebuilt over the same bars, e.g. after adding an indicator
+  const zoomRef = useRef<{ timeline: unknown; range: VisibleRange } | null>(null);
+
+  // Compared series in legend order: the selected symbol, the symbols it is
+  // compared with, then the benchmark
+  const comparisonEntries = useMemo(() => {
+    if (!compareMode || !selectedStock) return [];
+    const loaded = new Map(comparisonData.map(history => [history.symbol, history]));
+    if (data?.symbol === selectedStock) loaded.set(selectedStock, data);
+
+    const symbols = [selectedStock, ...compareSymbols.filter(symbol => symbol !== selectedStock)];
+    const entries = symbols.map((symbol, i) => ({
+      symbol,
+      color: COMPARISON_COLORS[i % COMPARISON_COLORS.length],
+      isBenchmark: false,
+    }));
+    if (benchmark && !symbols.includes(benchmark)) {
+      entries.push({ symbol: benchmark, color: BENCHMARK_COLOR, isBenchmark: true });
+    }
+    return entries.map(entry => ({ ...entry, history: loaded.get(entry.symbol) ?? null }));
+  }, [compareMode, selectedStock, compareSymbols, benchmark, comparisonData, data]);
+
+  // Hidden series are left out before rebasing, so the common start date
+  // only waits for the series on screen
+  const comparison = useMemo(() => buildComparison(
+    comparisonEntries.flatMap(entry =>
+      entry.history && !hiddenSeries.has(entry.symbol)
+        ? [{ symbol: entry.symbol, candles: entry.history.candles }]
+        : []
+    )
+  ), [comparisonEntries, hiddenSeries]);
 
   const renderChart = useCallback(() => {
-    if (!data?.prices.length || !canvasRef.current) return;
+    if (!data?.candles.length || !canvasRef.current) return;
 
     const ctx = canvasRef.current.getContext('2d');
     if (!ctx) return;
@@ -50,31 +225,281 @@ const StockChart: React.FC<StockChartProps> = ({
       chartRef.current.destroy();
     }
 
+    const axisColor = darkMode ? '#9CA3AF' : '#6B7280';
+    const gridColor = darkMode ? 'rgba(255, 255, 255, 0.1)' : 'rgba(0, 0, 0, 0.1)';
+    const intraday = isIntraday(data.resolution);
+
+    const timeline = compareMode ? comparison.times : data.candles;
+    const restored = zoomRef.current?.timeline === timeline ? zoomRef.current.range : null;
+    if (!restored) {
+      zoomRef.current = null;
+      interactionRef.current.measure = null;
+      setVisibleRange(null);
+      setMeasure(null);
+    }
+    const zoom = createZoomOptions(visible => {
+      zoomRef.current = { timeline, range: visible };
+      setVisibleRange(visible);
+    }, !toolRef.current);
+    const crosshair = createCrosshairPlugin(interactionRef, {
+      lineColor: axisColor,
+      measureColor: darkMode ? 'rgba(59, 130, 246, 0.2)' : 'rgba(59, 130, 246, 0.12)',
+      formatValue: compareMode ? formatPercentage : formatCurrency,
+    });
+
+    if (compareMode) {
+      const entries = new Map(comparisonEntries.map(entry => [entry.symbol, entry]));
+      chartRef.current = new Chart.Chart(ctx, {
+        type: 'line',
+        data: {
+          labels: comparison.times.map(time => formatChartTime(time, range)),
+          datasets: comparison.series.map(series => {
+            const entry = entries.get(series.symbol);
+            return {
+              label: series.symbol,
+              data: series.values,
+              borderColor: entry?.color,
+              backgroundColor: entry?.color,
+              borderWidth: entry?.isBenchmark ? 1.5 : 2,
+              borderDash: entry?.isBenchmark ? [6, 4] : undefined,
+              fill: false,
+              tension: 0,
+              pointRadius: 0,
+              pointHoverRadius: 4,
+            };
+          }),
+        },
+        options: {
+          responsive: true,
+          maintainAspectRatio: false,
+          interaction: {
+            mode: 'index',
+            intersect: false,
+          },
+          plugins: {
+            legend: {
+              display: false
+            },
+            zoom,
+            tooltip: {
+              backgroundColor: 'rgba(0, 0, 0, 0.8)',
+              titleColor: 'white',
+              bodyColor: 'white',
+              cornerRadius: 8,
+              callbacks: {
+                title: (context: any) => {
+                  const time = comparison.times[context[0].dataIndex];
+                  return intraday ? formatDateTime(time) : formatDate(time);
+                },
+                label: (context: any) => `${context.dataset.label}: ${formatPercentage(context.parsed.y)}`
+              }
+            },
+          },
+          scales: {
+            x: {
+              type: 'category',
+              min: restored?.min,
+              max: restored?.max,
+              grid: {
+                display: false
+              },
+              ticks: {
+                maxTicksLimit: 6,
+                maxRotation: 0,
+                autoSkip: true,
+                color: axisColor
+              }
+            },
+            y: {
+              type: 'linear',
+              position: 'right',
+              // The zero line marks the common start
+              grid: {
+                color: (context: any) => context.tick?.value === 0 ? axisColor : gridColor,
+              },
+              border: {
+                display: false
+              },
+              ticks: {
+                color: axisColor,
+                callback: function(value: any) {
+                  return formatPercentage(value);
+                }
+              }
+            }
+          },
+          animation: {
+            duration: 0
+          }
+        },
+        plugins: [crosshair],
+      });
+      return;
+    }
+
+    layerRef.current.times = data.candles.map(c => c.time);
+    const drawingLayer = createDrawingsPlugin(layerRef);
+
     // Determine trend color based on first vs last price
-    const firstPrice = data.prices[0]?.price || 0;
-    const lastPrice = data.prices[data.prices.length - 1]?.price || 0;
+    const firstPrice = data.candles[0]?.close ?? 0;
+    const lastPrice = data.candles[data.candles.length - 1]?.close ?? 0;
     const isUpTrend = lastPrice >= firstPrice;
+    const trendColor = isUpTrend ? CHART_COLORS.success : CHART_COLORS.danger;
+
+    const isFinancial = chartStyle !== 'line' && chartStyle !== 'area';
+    const candles = chartStyle === 'heikinAshi' ? toHeikinAshi(data.candles) : data.candles;
+    const showVolume = hasVolume(candles);
+
+    // Line and area charts join closes with straight segments; curves would
+    // invent prices between the bars
+    const lineDataset: Chart.ChartDataset<'line'> = {
+      label: `${data.symbol} Price`,
+      data: candles.map(c => c.close),
+      borderColor: trendColor,
+      backgroundColor: isUpTrend 
+        ? 'rgba(34, 197, 94, 0.1)' 
+        : 'rgba(239, 68, 68, 0.1)',
+      borderWidth: 2,
+      fill: chartStyle === 'area',
+      tension: 0,
+      pointRadius: 0,
+      pointHoverRadius: 6,
+      pointHoverBackgroundColor: trendColor,
+      pointHoverBorderColor: 'white',
+      pointHoverBorderWidth: 2,
+    };
+
+    // Bars are placed by index on the category axis, so gaps such as
+    // weekends don't leave holes
+    const financialDataset: Chart.ChartDataset<'candlestick'> = {
+      label: `${data.symbol} ${CHART_STYLE_LABELS[chartStyle]}`,
+      data: candles.map((c, i) => ({ x: i, o: c.open, h: c.high, l: c.low, c: c.close })),
+      borderColors: {
+        up: CHART_COLORS.success,
+        down: CHART_COLORS.danger,
+        unchanged: axisColor,
+      },
+      backgroundColors: {
+        up: CHART_COLORS.success,
+        down: CHART_COLORS.danger,
+        unchanged: axisColor,
+      },
+    };
+
+    const volumeDataset: Chart.ChartDataset<'bar'> = {
+      type: 'bar',
+      label: 'Volume',
+      yAxisID: 'volume',
+      data: candles.map(c => c.volume),
+      backgroundColor: volumeBarColors(candles),
+      borderWidth: 0,
+      barPercentage: 0.8,
+      categoryPercentage: 1,
+    };
+
+    const volumeScale: Chart.ScaleOptions<'linear'> = {
+      type: 'linear',
+      position: 'right',
+      stack: 'panes',
+      stackWeight: 1,
+      beginAtZero: true,
+      grid: {
+        display: false
+      },
+      border: {
+        display: false
+      },
+      ticks: {
+        maxTicksLimit: 3,
+        color: axisColor,
+        callback: function(value: any) {
+          return formatVolume(value);
+        }
+      }
+    };
+
+    const datasets = [isFinancial ? financialDataset : lineDataset] as Chart.ChartDataset[];
+    if (showVolume) datasets.push(volumeDataset as Chart.ChartDataset);
+
+    // Indicators are computed from the real candles even when Heikin-Ashi
+    // bars are drawn. Overlays share the price axis; every other indicator
+    // gets its own pane stacked under the volume.
+    const paneScales: Record<string, Chart.ScaleOptions<'linear'>> = {};
+    // Tooltip formatting by axis
+    const axisFormats: Record<string, IndicatorDefinition['format']> = { y: 'currency' };
+    let hasHistogram = false;
+    indicators.forEach(indicator => {
+      const definition = INDICATORS[indicator.type];
+      const axisId = definition.placement === 'overlay' ? 'y' : `ind_${indicator.id}`;
+
+      computeIndicator(indicator, data.candles, intraday).forEach(series => {
+        if (series.style === 'histogram') hasHistogram = true;
+        datasets.push((series.style === 'histogram'
+          ? {
+            type: 'bar',
+            label: series.label,
+            yAxisID: axisId,
+            data: series.values,
+            backgroundColor: series.values.map(v => (v ?? 0) >= 0 ? 'rgba(34, 197, 94, 0.5)' : 'rgba(239, 68, 68, 0.5)'),
+            borderWidth: 0,
+            barPercentage: 0.8,
+            categoryPercentage: 1,
+          }
+          : {
+            type: 'line',
+            label: series.label,
+            yAxisID: axisId,
+            data: series.values,
+            borderColor: indicator.color,
+            borderWidth: 1.5,
+            borderDash: series.style === 'dashed' ? [4, 4] : undefined,
+            fill: false,
+            tension: 0,
+            pointRadius: 0,
+            pointHoverRadius: 3,
+          }) as Chart.ChartDataset);
+      });
+
+      if (definition.placement === 'pane') {
+        const { range, levels, format } = definition;
+        axisFormats[axisId] = format;
+        paneScales[axisId] = {
+          type: 'linear',
+          position: 'right',
+          stack: 'panes',
+          stackWeight: 1,
+          min: range?.min,
+          max: range?.max,
+          grid: {
+            color: gridColor,
+          },
+          border: {
+            display: false
+          },
+          // Bounded oscillators only mark their reference levels, e.g. RSI 30 and 70
+          afterBuildTicks: levels && range
+            ? (axis: Chart.Scale) => {
+              axis.ticks = levels.map(value => ({ value }));
+            }
+            : undefined,
+          ticks: {
+            maxTicksLimit: 3,
+            color: axisColor,
+            callback: function(value: any) {
+              return formatIndicatorValue(format, value);
+            }
+          }
+        };
+      }
+    });
+    const hasPanes = showVolume || Object.keys(paneScales).length > 0;
+    const hasBars = showVolume || hasHistogram;
 
     chartRef.current = new Chart.Chart(ctx, {
-      type: 'line',
+      type: isFinancial ? (chartStyle === 'ohlc' ? 'ohlc' : 'candlestick') : 'line',
       data: {
-        labels: data.prices.map(p => formatDate(p.date)),
-        datasets: [{
-          label: `${data.symbol} Price`,
-          data: data.prices.map(p => p.price),
-          borderColor: isUpTrend ? CHART_COLORS.success : CHART_COLORS.danger,
-          backgroundColor: isUpTrend 
-            ? 'rgba(34, 197, 94, 0.1)' 
-            : 'rgba(239, 68, 68, 0.1)',
-          borderWidth: 2,
-          fill: true,
-          tension: 0.4,
-          pointRadius: 0,
-          pointHoverRadius: 6,
-          pointHoverBackgroundColor: isUpTrend ? CHART_COLORS.success : CHART_COLORS.danger,
-          pointHoverBorderColor: 'white',
-          pointHoverBorderWidth: 2,
-        }],
+        labels: candles.map(c => formatChartTime(c.time, range)),
+        datasets,
       },
       options: {
         responsive: true,
@@ -87,64 +512,91 @@ const StockChart: React.FC<StockChartProps> = ({
           legend: { 
             display: false 
           },
+          zoom,
           tooltip: {
             backgroundColor: 'rgba(0, 0, 0, 0.8)',
             titleColor: 'white',
             bodyColor: 'white',
-            borderColor: isUpTrend ? CHART_COLORS.success : CHART_COLORS.danger,
+            borderColor: trendColor,
             borderWidth: 1,
             cornerRadius: 8,
             displayColors: false,
             callbacks: {
               title: (context: any) => {
-                return `${data.symbol} - ${context[0].label}`;
+                const time = candles[context[0].dataIndex].time;
+                return `${data.symbol} - ${intraday ? formatDateTime(time) : formatDate(time)}`;
               },
               label: (context: any) => {
-                return `Price: ${formatCurrency(context.parsed.y)}`;
+                if (context.dataset.yAxisID === 'volume') {
+                  return `Volume: ${formatVolume(context.parsed.y)}`;
+                }
+                if (context.datasetIndex > 0) {
+                  const format = axisFormats[context.dataset.yAxisID] ?? 'number';
+                  return `${context.dataset.label}: ${formatIndicatorValue(format, context.parsed.y)}`;
+                }
+                if (!isFinancial) {
+                  return `Price: ${formatCurrency(context.parsed.y)}`;
+                }
+                const { o, h, l, c } = context.raw;
+                return [
+                  `Open: ${formatCurrency(o)}`,
+                  `High: ${formatCurrency(h)}`,
+                  `Low: ${formatCurrency(l)}`,
+                  `Close: ${formatCurrency(c)}`,
+                ];
               }
             }
           },
         },
         scales: {
           x: {
+            type: 'category',
+            min: restored?.min,
+            max: restored?.max,
             display: true,
+            offset: isFinancial || hasBars,
             grid: { 
               display: false 
             },
             ticks: {
               maxTicksLimit: 6,
-              color: darkMode ? '#9CA3AF' : '#6B7280'
+              maxRotation: 0,
+              autoSkip: true,
+              color: axisColor
             }
           },
+          // Price, volume and indicator panes are stacked over the one time
+          // axis, so hovering or zooming moves them all together
           y: {
+            type: 'linear',
             display: true,
             position: 'right',
+            stack: hasPanes ? 'panes' : undefined,
+            stackWeight: 3,
             grid: { 
-              color: darkMode ? 'rgba(255, 255, 255, 0.1)' : 'rgba(0, 0, 0, 0.1)',
+              color: gridColor,
             },
             border: {
               display: false
             },
             ticks: {
-              color: darkMode ? '#9CA3AF' : '#6B7280',
+              color: axisColor,
               callback: function(value: any) {
                 return formatCurrency(value);
               }
             }
           },
-        },
-        elements: {
-          line: {
-            tension: 0.4
-          }
+          ...(showVolume && { volume: volumeScale }),
+          ...paneScales,
         },
         animation: {
           duration: 1000,
           easing: 'easeInOutQuart'
         }
       },
+      plugins: [drawingLayer, crosshair],
     });
-  }, [data, darkMode]);
+  }, [data, darkMode, chartStyle, range, indicators, compareMode, comparison, comparisonEntries]);
 
   useEffect(() => {
     renderChart();
@@ -157,9 +609,332 @@ const StockChart: React.FC<StockChartProps> = ({
     };
   }, [renderChart]);
 
+  useEffect(() => {
+    layerRef.current.drawings = drawings;
+    chartRef.current?.draw();
+  }, [drawings]);
+
+  // Tools take over dragging from panning while one is picked
+  useEffect(() => {
+    toolRef.current = tool;
+    const chart = chartRef.current;
+    const pan = chart?.options.plugins?.zoom?.pan;
+    if (chart && pan) {
+      pan.enabled = !tool;
+      chart.update('none');
+    }
+    layerRef.current.draft = null;
+    if (tool !== 'measure') {
+      interactionRef.current.measure = null;
+      setMeasure(null);
+    }
+    chart?.draw();
+  }, [tool]);
+
+  // Measuring and drawing only apply to the price chart
+  useEffect(() => {
+    if (compareMode) setTool(null);
+  }, [compareMode]);
+
+  const pointerPosition = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const chart = chartRef.current;
+    if (!chart) return;
+    const pointer = pointerPosition(e);
+    const { left, right, top, bottom } = chart.chartArea;
+    const inside = pointer.x >= left && pointer.x <= right && pointer.y >= top && pointer.y <= bottom;
+    const index = inside ? barIndexAt(chart, pointer.x) : null;
+
+    interactionRef.current.pointer = inside ? pointer : null;
+    const span = interactionRef.current.measure;
+    const draft = layerRef.current.draft;
+    if (draggingRef.current && span && index !== null) {
+      interactionRef.current.measure = { from: span.from, to: index };
+      setMeasure(interactionRef.current.measure);
+    } else if (draggingRef.current && draft && (draft.type === 'trendLine' || draft.type === 'rectangle')) {
+      const point = pointAt(chart, layerRef.current.times, pointer.x, pointer.y);
+      if (point) layerRef.current.draft = { ...draft, to: point };
+    }
+    setHoverIndex(index);
+    chart.draw();
+  };
+
+  const handlePointerLeave = () => {
+    interactionRef.current.pointer = null;
+    setHoverIndex(null);
+    chartRef.current?.draw();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const chart = chartRef.current;
+    if (!tool || !chart) return;
+    const pointer = pointerPosition(e);
+
+    if (tool === 'measure') {
+      const index = barIndexAt(chart, pointer.x);
+      if (index === null) return;
+      e.currentTarget.setPointerCapture(e.pointerId);
+      draggingRef.current = true;
+      interactionRef.current.measure = { from: index, to: index };
+      setMeasure(interactionRef.current.measure);
+      chart.draw();
+      return;
+    }
+
+    const point = pointAt(chart, layerRef.current.times, pointer.x, pointer.y);
+    if (!point || !onAddDrawing) return;
+
+    if (tool === 'horizontalLine') {
+      onAddDrawing({ type: 'horizontalLine', color: drawColor, price: point.price });
+      setTool(null);
+    } else if (tool === 'text') {
+      const text = noteText.trim();
+      if (!text) return;
+      onAddDrawing({ type: 'text', color: drawColor, at: point, text });
+      setNoteText('');
+      setTool(null);
+    } else {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      draggingRef.current = true;
+      layerRef.current.draft = { type: tool, color: drawColor, from: point, to: point };
+      chart.draw();
+    }
+  };
+
+  const handlePointerUp = () => {
+    draggingRef.current = false;
+    const draft = layerRef.current.draft;
+    if (!draft) return;
+
+    layerRef.current.draft = null;
+    // A click without a drag doesn't leave a zero-length line behind
+    const moved = (draft.type === 'trendLine' || draft.type === 'rectangle')
+      && (draft.from.time !== draft.to.time || draft.from.price !== draft.to.price);
+    if (moved && onAddDrawing) {
+      onAddDrawing(draft);
+      setTool(null);
+    }
+    chartRef.current?.draw();
+  };
+
+  const resetZoom = () => {
+    zoomRef.current = null;
+    setVisibleRange(null);
+    chartRef.current?.resetZoom();
+  };
+
+  const exportName = (extension: string) =>
+    exportFilename([selectedStock ?? 'chart', ...(compareMode ? ['comparison'] : []), range], extension);
+
+  const saveImage = async (scale: number) => {
+    const chart = chartRef.current;
+    if (!chart) return;
+    const image = await renderChartImage(chart, scale, darkMode ? '#1F2937' : '#FFFFFF');
+    if (image) downloadFile(exportName('png'), image, 'image/png');
+  };
+
+  // The bars on screen, with every indicator, or each compared return
+  const downloadData = () => {
+    if (!data?.candles.length) return;
+    const intraday = isIntraday(data.resolution);
+    const candles = data.candles;
+    const times = compareMode ? comparison.times : candles.map(c => c.time);
+    const series: ExportSeries[] = compareMode
+      ? comparison.series.map(s => ({ label: `${s.symbol} %`, values: s.values }))
+      : [
+        { label: 'Open', values: candles.map(c => c.open) },
+        { label: 'High', values: candles.map(c => c.high) },
+        { label: 'Low', values: candles.map(c => c.low) },
+        { label: 'Close', values: candles.map(c => c.close) },
+        { label: 'Volume', values: candles.map(c => c.volume) },
+        ...indicators.flatMap(indicator =>
+          computeIndicator(indicator, candles, intraday).map(({ label, values }) => ({ label, values }))
+        ),
+      ];
+    downloadFile(exportName('csv'), seriesToCsv(times, series, intraday, visibleRange), 'text/csv;charset=utf-8');
+  };
+
+  const paneCount = compareMode
+    ? 0
+    : indicators.filter(indicator => INDICATORS[indicator.type].placement === 'pane').length;
+
+  const toggleSeries = (symbol: string) => {
+    setHiddenSeries(prev => {
+      const next = new Set(prev);
+      if (next.has(symbol)) {
+        next.delete(symbol);
+      } else {
+        next.add(symbol);
+      }
+      return next;
+    });
+  };
+
+  const legendItems: ComparisonLegendItem[] = comparisonEntries.map(entry => {
+    const series = comparison.series.find(s => s.symbol === entry.symbol);
+    return {
+      symbol: entry.symbol,
+      color: entry.color,
+      change: series ? latest(series.values) : null,
+      hidden: hiddenSeries.has(entry.symbol),
+      loading: !entry.history,
+      isBenchmark: entry.isBenchmark,
+    };
+  });
+
+  // Buttons in the segmented style and range pickers
+  const segmentClass = (active: boolean) => active
+    ? darkMode ? 'bg-gray-600 text-white' : 'bg-white text-gray-900 shadow-sm'
+    : darkMode ? 'text-gray-400 hover:text-white' : 'text-gray-500 hover:text-gray-700';
+
+  const formatPeriodTime = (time: number) =>
+    data && isIntraday(data.resolution) ? formatDateTime(time) : formatDate(time);
+
   const getChartTitle = () => {
     if (!selectedStock) return 'Select a Stock';
-    return `${selectedStock} - 30 Day Chart`;
+    const title = compareMode ? `${selectedStock} Comparison` : selectedStock;
+    return `${title} - ${CHART_RANGES[range].title}`;
+  };
+
+  // Bar under the crosshair, or the span being measured, above the chart
+  const renderReadout = () => {
+    if (!data?.candles.length) return null;
+    const candles = data.candles;
+    const mutedClass = darkMode ? 'text-gray-400' : 'text-gray-500';
+    const valueClass = darkMode ? 'text-white' : 'text-gray-900';
+    const changeClass = (value: number) => value >= 0 ? 'text-green-600' : 'text-red-600';
+
+    let content: React.ReactNode = (
+      <span className={mutedClass}>
+        Scroll or pinch to zoom, drag to {tool === 'measure' ? 'measure' : 'pan'}, double-click to reset
+      </span>
+    );
+    const activeTool = DRAWING_TOOLS.find(option => option.type === tool);
+    if (activeTool) {
+      content = <span className={valueClass}>{activeTool.hint}</span>;
+    }
+
+    if (!compareMode && measure && measure.from !== measure.to) {
+      const first = candles[Math.min(measure.from, measure.to)];
+      const last = candles[Math.max(measure.from, measure.to)];
+      const change = last.close - first.close;
+      content = (
+        <span className={valueClass}>
+          {formatPeriodTime(first.time)} to {formatPeriodTime(last.time)}:{' '}
+          <span className={changeClass(change)}>
+            {formatSignedCurrency(change)} ({formatPercentage((change / first.close) * 100)})
+          </span>
+          <span className={mutedClass}> over {Math.abs(measure.to - measure.from)} bars</span>
+        </span>
+      );
+    } else if (compareMode && hoverIndex !== null && comparison.times[hoverIndex] !== undefined) {
+      content = (
+        <span className={`flex flex-wrap gap-x-3 ${valueClass}`}>
+          <span>{formatPeriodTime(comparison.times[hoverIndex])}</span>
+          {comparison.series.map(series => {
+            const value = series.values[hoverIndex];
+            return (
+              <span key={series.symbol}>
+                <span className={mutedClass}>{series.symbol}</span>{' '}
+                {value === null ? '—' : <span className={changeClass(value)}>{formatPercentage(value)}</span>}
+              </span>
+            );
+          })}
+        </span>
+      );
+    } else if (!compareMode && hoverIndex !== null && candles[hoverIndex]) {
+      const candle = candles[hoverIndex];
+      const start = candles[visibleRange?.min ?? 0];
+      const change = ((candle.close - start.close) / start.close) * 100;
+      content = (
+        <span className={`flex flex-wrap gap-x-3 ${valueClass}`}>
+          <span>{formatPeriodTime(candle.time)}</span>
+          <span><span className={mutedClass}>O</span> {formatCurrency(candle.open)}</span>
+          <span><span className={mutedClass}>H</span> {formatCurrency(candle.high)}</span>
+          <span><span className={mutedClass}>L</span> {formatCurrency(candle.low)}</span>
+          <span><span className={mutedClass}>C</span> {formatCurrency(candle.close)}</span>
+          <span>
+            <span className={changeClass(change)}>{formatPercentage(change)}</span>
+            <span className={mutedClass}> from {formatPeriodTime(start.time)}</span>
+          </span>
+        </span>
+      );
+    }
+
+    const toolClass = (active: boolean) => `flex items-center space-x-1 px-2 py-1 rounded-md transition-colors ${
+      active
+        ? 'bg-blue-600 hover:bg-blue-700 text-white'
+        : darkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-100'
+    }`;
+
+    return (
+      <div className="flex items-center justify-between mb-2 min-h-[1.75rem] text-xs" aria-live="off">
+        <div className="min-w-0">{content}</div>
+        <div className="flex items-center space-x-1 flex-shrink-0">
+          {visibleRange && (
+            <button onClick={resetZoom} className={toolClass(false)} title="Show the whole range (or double-click the chart)">
+              <RotateCcw className="h-3.5 w-3.5" />
+              <span>Reset zoom</span>
+            </button>
+          )}
+          {tool === 'text' && (
+            <input
+              type="text"
+              value={noteText}
+              onChange={e => setNoteText(e.target.value)}
+              placeholder="Note text"
+              aria-label="Note text"
+              maxLength={80}
+              autoFocus
+              className={`w-32 px-2 py-1 rounded border text-xs ${
+                darkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+              }`}
+            />
+          )}
+          {!compareMode && onAddDrawing && DRAWING_TOOLS.map(({ type, label, hint, icon: Icon }) => (
+            <button
+              key={type}
+              onClick={() => setTool(tool === type ? null : type)}
+              aria-pressed={tool === type}
+              aria-label={label}
+              className={toolClass(tool === type)}
+              title={`${label}: ${hint.toLowerCase()}`}
+            >
+              <Icon className="h-3.5 w-3.5" />
+            </button>
+          ))}
+          {!compareMode && (
+            <button
+              onClick={() => setTool(tool === 'measure' ? null : 'measure')}
+              aria-pressed={tool === 'measure'}
+              className={toolClass(tool === 'measure')}
+              title="Drag across the chart to measure the change between two bars"
+            >
+              <Ruler className="h-3.5 w-3.5" />
+              <span>Measure</span>
+            </button>
+          )}
+          {!compareMode && onAddDrawing && onRemoveDrawing && (
+            <DrawingMenu
+              drawings={drawings}
+              color={drawColor}
+              onColorChange={setDrawColor}
+              onRemove={onRemoveDrawing}
+              onClear={onClearDrawings}
+              onCreateAlert={onCreateLevelAlert}
+              alertRuleIds={alertRuleIds}
+              onExport={onExportDrawings}
+              onImport={onImportDrawings}
+              darkMode={darkMode}
+            />
+          )}
+        </div>
+      </div>
+    );
   };
 
   const renderEmptyState = () => (
@@ -202,7 +977,7 @@ const StockChart: React.FC<StockChartProps> = ({
             }`}>
               {getChartTitle()}
             </h3>
-            {isDemoData && data && data.prices.length > 0 && (
+            {isDemoData && data && data.candles.length > 0 && (
               <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200">
                 <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 20 20">
                   <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
@@ -211,24 +986,137 @@ const StockChart: React.FC<StockChartProps> = ({
               </span>
             )}
           </div>
-          {data && data.prices.length > 0 && (
+          <div className="flex items-center space-x-3">
+            {selectedStock && data && data.candles.length > 0 && !isLoading && (
+              <ExportMenu
+                title="Save the chart or its data"
+                options={[
+                  { label: 'Save image', description: 'PNG at screen size', onSelect: () => saveImage(1) },
+                  { label: 'Save image (2x)', description: 'PNG at double resolution', onSelect: () => saveImage(2) },
+                  {
+                    label: 'Download data',
+                    description: compareMode
+                      ? 'CSV of each return over the bars on screen'
+                      : 'CSV of OHLCV and indicators over the bars on screen',
+                    onSelect: downloadData,
+                  },
+                ]}
+                darkMode={darkMode}
+              />
+            )}
+            {onCompareModeChange && selectedStock && (
+              <button
+                onClick={() => onCompareModeChange(!compareMode)}
+                aria-pressed={compareMode}
+                className={`flex items-center space-x-1 px-2 py-1 rounded-md text-xs transition-colors ${
+                  compareMode
+                    ? 'bg-blue-600 hover:bg-blue-700 text-white'
+                    : darkMode
+                      ? 'bg-gray-700 hover:bg-gray-600 text-gray-200'
+                      : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                }`}
+                title="Compare returns with other symbols"
+              >
+                <GitCompare className="h-3.5 w-3.5" />
+                <span>Compare</span>
+              </button>
+            )}
+            {!compareMode && onAddIndicator && onUpdateIndicator && onRemoveIndicator && (
+              <IndicatorMenu
+                indicators={indicators}
+                onAdd={onAddIndicator}
+                onUpdate={onUpdateIndicator}
+                onRemove={onRemoveIndicator}
+                darkMode={darkMode}
+              />
+            )}
+            {!compareMode && onChartStyleChange && (
+              <div
+                className={`inline-flex rounded-md p-0.5 text-xs ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}
+                role="group"
+                aria-label="Chart type"
+              >
+                {(Object.keys(CHART_STYLE_LABELS) as ChartStyle[]).map(style => (
+                  <button
+                    key={style}
+                    onClick={() => onChartStyleChange(style)}
+                    aria-pressed={chartStyle === style}
+                    className={`px-2 py-1 rounded transition-colors ${segmentClass(chartStyle === style)}`}
+                  >
+                    {CHART_STYLE_LABELS[style]}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {(onRangeChange || (data && data.candles.length > 0)) && (
+        <div className="flex items-center justify-between mb-3">
+          {onRangeChange ? (
+            <div
+              className={`inline-flex rounded-md p-0.5 text-xs ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}
+              role="group"
+              aria-label="Time range"
+            >
+              {(Object.keys(CHART_RANGES) as ChartRange[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => onRangeChange(option)}
+                  aria-pressed={range === option}
+                  title={CHART_RANGES[option].title}
+                  className={`px-2 py-1 rounded transition-colors ${segmentClass(range === option)}`}
+                >
+                  {option === 'MAX' ? 'Max' : option}
+                </button>
+              ))}
+            </div>
+          ) : <span />}
+          {data && data.candles.length > 0 && (
             <div className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-              {data.prices.length} days
+              {data.candles.length} {RESOLUTION_LABELS[data.resolution]} bars
             </div>
           )}
         </div>
       )}
+
+      {compareMode && selectedStock && (
+        <ComparisonControls
+          items={legendItems}
+          compareSymbols={compareSymbols}
+          options={compareOptions}
+          benchmark={benchmark}
+          startLabel={comparison.startIndex >= 0 ? formatPeriodTime(comparison.times[comparison.startIndex]) : null}
+          onToggle={toggleSeries}
+          onAdd={onCompareSymbolsChange && (symbol => onCompareSymbolsChange([...compareSymbols, symbol]))}
+          onRemove={onCompareSymbolsChange && (symbol => onCompareSymbolsChange(compareSymbols.filter(s => s !== symbol)))}
+          onBenchmarkChange={onBenchmarkChange}
+          darkMode={darkMode}
+        />
+      )}
       
-      <div className={`${height} relative`}>
+      {selectedStock && !isLoading && renderReadout()}
+
+      {/* Each indicator pane adds room below the price pane */}
+      <div
+        className={`${height} relative`}
+        style={paneCount > 0 ? { minHeight: `${20 + paneCount * 6}rem` } : undefined}
+      >
         {selectedStock ? (
           isLoading ? (
             renderLoadingState()
-          ) : data?.prices.length ? (
+          ) : data?.candles.length ? (
             <canvas 
               ref={canvasRef} 
-              className="w-full h-full"
+              className="w-full h-full cursor-crosshair"
+              onPointerMove={handlePointerMove}
+              onPointerLeave={handlePointerLeave}
+              onPointerDown={handlePointerDown}
+              onPointerUp={handlePointerUp}
+              onDoubleClick={resetZoom}
               role="img"
-              aria-label={`Price chart for ${selectedStock}`}
+              aria-label={compareMode ? `Return comparison for ${selectedStock}` : `Price chart for ${selectedStock}`}
             />
           ) : (
             renderNoDataState()
@@ -238,7 +1126,7 @@ const StockChart: React.FC<StockChartProps> = ({
         )}
       </div>
       
-      {data && data.prices.length > 0 && (
+      {data && data.candles.length > 0 && (
         <div className={`mt-4 space-y-3 border-t pt-3 ${
           darkMode ? 'border-gray-700' : 'border-gray-200'
         }`}>
@@ -246,10 +1134,10 @@ const StockChart: React.FC<StockChartProps> = ({
             darkMode ? 'text-gray-400' : 'text-gray-500'
           }`}>
             <span>
-              Period: {formatDate(data.prices[0].date)} - {formatDate(data.prices[data.prices.length - 1].date)}
+              Period: {formatPeriodTime(data.candles[0].time)} - {formatPeriodTime(data.candles[data.candles.length - 1].time)}
             </span>
             <span>
-              Data points: {data.prices.length}
+              Data points: {data.candles.length}
             </span>
           </div>
           
@@ -0,0 +1,108 @@
+import * as Chart from 'chart.js';
+import { ChartPoint, DrawingType, NewChartDrawing } from '../../types/stock.types';
+import { indexToTime, timeToIndex } from '../../utils/drawings';
+import { formatCurrency } from '../../utils/formatters';
+
+/**
+ * Placing and drawing annotations on the price chart. Drawings are kept in
+ * time and price, and mapped onto whatever bars the chart is showing.
+ */
+
+/** What dragging or clicking on the chart does */
+export type ChartTool = 'measure' | DrawingType;
+
+export interface DrawingLayer {
+  /** Bar times of the chart on screen */
+  times: number[];
+  drawings: NewChartDrawing[];
+  /** Trend line or rectangle being dragged out, before it is saved */
+  draft: NewChartDrawing | null;
+}
+
+/**
+ * Time and price under a canvas position, or null outside the price pane
+ */
+export const pointAt = (chart: Chart.Chart, times: number[], x: number, y: number): ChartPoint | null => {
+  const xScale = chart.scales.x;
+  const yScale = chart.scales.y;
+  if (!xScale || !yScale || times.length === 0) return null;
+  if (x < chart.chartArea.left || x > chart.chartArea.right || y < yScale.top || y > yScale.bottom) return null;
+
+  // The category axis only maps pixels to whole bars, so interpolate between
+  // the first and last bar on screen
+  const start = xScale.getPixelForValue(xScale.min);
+  const end = xScale.getPixelForValue(xScale.max);
+  const index = end === start
+    ? xScale.min
+    : xScale.min + ((x - start) / (end - start)) * (xScale.max - xScale.min);
+  const price = yScale.getValueForPixel(y);
+  return price === undefined ? null : { time: indexToTime(times, index), price };
+};
+
+/**
+ * Draws the saved drawings and the draft over the price pane. Reads them from
+ * a ref so adding a drawing only needs a redraw.
+ */
+export const createDrawingsPlugin = (layerRef: { current: DrawingLayer }): Chart.Plugin => ({
+  id: 'drawings',
+  afterDatasetsDraw(chart) {
+    const { times, drawings, draft } = layerRef.current;
+    const { ctx, chartArea, scales } = chart;
+    const x = scales.x;
+    const y = scales.y;
+    if (!x || !y || times.length === 0) return;
+
+    const toX = (time: number) => x.getPixelForValue(timeToIndex(times, time));
+    const toY = (price: number) => y.getPixelForValue(price);
+
+    ctx.save();
+    // Volume and indicator panes below have their own scales
+    ctx.beginPath();
+    ctx.rect(chartArea.left, y.top, chartArea.right - chartArea.left, y.bottom - y.top);
+    ctx.clip();
+    ctx.lineWidth = 1.5;
+    ctx.font = '12px sans-serif';
+    ctx.textBaseline = 'bottom';
+
+    (draft ? [...drawings, draft] : drawings).forEach(drawing => {
+      ctx.strokeStyle = drawing.color;
+      ctx.fillStyle = drawing.color;
+      ctx.setLineDash([]);
+
+      switch (drawing.type) {
+        case 'trendLine':
+          ctx.beginPath();
+          ctx.moveTo(toX(drawing.from.time), toY(drawing.from.price));
+          ctx.lineTo(toX(drawing.to.time), toY(drawing.to.price));
+          ctx.stroke();
+          break;
+        case 'horizontalLine': {
+          const level = toY(drawing.price);
+          ctx.setLineDash([6, 4]);
+          ctx.beginPath();
+          ctx.moveTo(chartArea.left, level);
+          ctx.lineTo(chartArea.right, level);
+          ctx.stroke();
+          ctx.fillText(formatCurrency(drawing.price), chartArea.left + 4, level - 2);
+          break;
+        }
+        case 'rectangle': {
+          const left = Math.min(toX(drawing.from.time), toX(drawing.to.time));
+          const top = Math.min(toY(drawing.from.price), toY(drawing.to.price));
+          const width = Math.abs(toX(drawing.to.time) - toX(drawing.from.time));
+          const height = Math.abs(toY(drawing.to.price) - toY(drawing.from.price));
+          ctx.globalAlpha = 0.12;
+          ctx.fillRect(left, top, width, height);
+          ctx.globalAlpha = 1;
+          ctx.strokeRect(left, top, width, height);
+          break;
+        }
+        case 'text':
+          ctx.fillText(drawing.text, toX(drawing.at.time), toY(drawing.at.price));
+          break;
+      }
+    });
+
+    ctx.restore();
+  },
+});
@@ -0,0 +1,29 @@
+import * as Chart from 'chart.js';
+
+/**
+ * Render the chart as a PNG at the given pixel ratio, e.g. 2 for a sharp
+ * image on high-density screens, over a solid background so it reads the
+ * same when pasted elsewhere
+ */
+export const renderChartImage = (chart: Chart.Chart, scale: number, background: string): Promise<Blob | null> => {
+  const previousRatio = chart.options.devicePixelRatio;
+  // A running animation would defer the resize until its next frame
+  chart.stop();
+  chart.options.devicePixelRatio = scale;
+  chart.resize();
+
+  const image = document.createElement('canvas');
+  image.width = chart.canvas.width;
+  image.height = chart.canvas.height;
+  const ctx = image.getContext('2d');
+  if (ctx) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, image.width, image.height);
+    ctx.drawImage(chart.canvas, 0, 0);
+  }
+
+  chart.options.devicePixelRatio = previousRatio;
+  chart.resize();
+
+  return new Promise(resolve => image.toBlob(resolve, 'image/png'));
+};
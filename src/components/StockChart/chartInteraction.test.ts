@@ -0,0 +1,25 @@
+import * as Chart from 'chart.js';
+import { barIndexAt, createZoomOptions } from './chartInteraction';
+
+// Ten pixels per bar, with bars 5 to 9 on screen
+const chart = {
+  scales: {
+    x: { min: 5, max: 9, getValueForPixel: (pixel: number) => 5 + pixel / 10 },
+  },
+} as unknown as Chart.Chart;
+
+test('snaps to the nearest bar on screen', () => {
+  expect(barIndexAt(chart, 14)).toBe(6);
+  expect(barIndexAt(chart, 16)).toBe(7);
+  expect(barIndexAt(chart, -50)).toBe(5);
+  expect(barIndexAt(chart, 500)).toBe(9);
+});
+
+test('reports the visible bars after zooming or panning', () => {
+  const onChange = jest.fn();
+  const options = createZoomOptions(onChange, false);
+
+  expect(options.pan?.enabled).toBe(false);
+  options.zoom?.onZoomComplete?.({ chart });
+  expect(onChange).toHaveBeenCalledWith({ min: 5, max: 9 });
+});
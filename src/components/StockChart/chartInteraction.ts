@@ -0,0 +1,134 @@
+import * as Chart from 'chart.js';
+
+/**
+ * Zoom, pan, crosshair and measuring support shared by the price and
+ * comparison charts
+ */
+
+// Zooming stops once this many bars are on screen
+const MIN_VISIBLE_BARS = 5;
+
+export interface VisibleRange {
+  /** First and last bar index on screen */
+  min: number;
+  max: number;
+}
+
+export interface MeasureSpan {
+  /** Bar indexes where the drag started and where it is now */
+  from: number;
+  to: number;
+}
+
+export interface InteractionState {
+  /** Pointer position over the canvas, in canvas pixels */
+  pointer: { x: number; y: number } | null;
+  measure: MeasureSpan | null;
+}
+
+/**
+ * Index of the bar under a horizontal canvas position, kept within the bars
+ * on screen
+ */
+export const barIndexAt = (chart: Chart.Chart, x: number): number | null => {
+  const scale = chart.scales.x;
+  if (!scale) return null;
+  const value = scale.getValueForPixel(x);
+  if (value === undefined || Number.isNaN(value)) return null;
+  return Math.min(scale.max, Math.max(scale.min, Math.round(value)));
+};
+
+export const visibleRangeOf = (chart: Chart.Chart): VisibleRange =>
+  ({ min: chart.scales.x.min, max: chart.scales.x.max });
+
+/**
+ * Wheel and pinch zoom plus drag-to-pan along the time axis only; the value
+ * axes refit to the bars on screen
+ */
+export const createZoomOptions = (
+  onChange: (range: VisibleRange) => void,
+  panEnabled: boolean
+): Chart.PluginOptionsByType<'line'>['zoom'] => ({
+  limits: {
+    x: { min: 'original', max: 'original', minRange: MIN_VISIBLE_BARS },
+  },
+  pan: {
+    enabled: panEnabled,
+    mode: 'x',
+    onPanComplete: ({ chart }) => onChange(visibleRangeOf(chart)),
+  },
+  zoom: {
+    wheel: { enabled: true },
+    pinch: { enabled: true },
+    mode: 'x',
+    onZoomComplete: ({ chart }) => onChange(visibleRangeOf(chart)),
+  },
+});
+
+interface CrosshairOptions {
+  lineColor: string;
+  measureColor: string;
+  /** Label for the value under the pointer on the main value axis */
+  formatValue: (value: number) => string;
+}
+
+/**
+ * Draws the crosshair, snapped to the nearest bar, with the value under the
+ * pointer at the right edge, and the span being measured. Reads its state
+ * from a ref so pointer moves only need a redraw.
+ */
+export const createCrosshairPlugin = (
+  stateRef: { current: InteractionState },
+  { lineColor, measureColor, formatValue }: CrosshairOptions
+): Chart.Plugin => ({
+  id: 'crosshair',
+  afterDatasetsDraw(chart) {
+    const { pointer, measure } = stateRef.current;
+    const { ctx, chartArea, scales } = chart;
+    const x = scales.x;
+    const y = scales.y;
+    if (!x || !y) return;
+
+    ctx.save();
+
+    if (measure) {
+      const from = x.getPixelForValue(measure.from);
+      const to = x.getPixelForValue(measure.to);
+      ctx.fillStyle = measureColor;
+      ctx.fillRect(Math.min(from, to), chartArea.top, Math.abs(to - from), chartArea.bottom - chartArea.top);
+    }
+
+    const inside = pointer
+      && pointer.x >= chartArea.left && pointer.x <= chartArea.right
+      && pointer.y >= chartArea.top && pointer.y <= chartArea.bottom;
+    const index = inside ? barIndexAt(chart, pointer.x) : null;
+
+    if (pointer && index !== null) {
+      const barX = x.getPixelForValue(index);
+      ctx.strokeStyle = lineColor;
+      ctx.lineWidth = 1;
+      ctx.setLineDash([4, 4]);
+      ctx.beginPath();
+      ctx.moveTo(barX, chartArea.top);
+      ctx.lineTo(barX, chartArea.bottom);
+      ctx.moveTo(chartArea.left, pointer.y);
+      ctx.lineTo(chartArea.right, pointer.y);
+      ctx.stroke();
+
+      // Only the main pane's axis has a meaningful value at this height
+      if (pointer.y >= y.top && pointer.y <= y.bottom) {
+        const label = formatValue(y.getValueForPixel(pointer.y) ?? 0);
+        ctx.setLineDash([]);
+        ctx.font = '11px sans-serif';
+        const width = ctx.measureText(label).width + 8;
+        ctx.fillStyle = lineColor;
+        ctx.fillRect(chartArea.right - width, pointer.y - 8, width, 16);
+        ctx.fillStyle = 'white';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(label, chartArea.right - width + 4, pointer.y);
+      }
+    }
+
+    ctx.restore();
+  },
+});
@@ -0,0 +1,28 @@
+import { hasVolume, volumeBarColors, withAlpha } from './chartVolume';
+import { CHART_COLORS } from '../../utils/constants';
+
+const candle = (open: number, close: number, volume: number) => ({
+  time: 0,
+  open,
+  high: Math.max(open, close),
+  low: Math.min(open, close),
+  close,
+  volume,
+});
+
+test('colours volume bars like the price bars above them', () => {
+  const colors = volumeBarColors([candle(10, 11, 100), candle(11, 10, 100), candle(10, 10, 100)]);
+
+  expect(colors).toEqual([
+    withAlpha(CHART_COLORS.success, 0.5),
+    withAlpha(CHART_COLORS.danger, 0.5),
+    withAlpha(CHART_COLORS.success, 0.5),
+  ]);
+  expect(withAlpha('rgb(1, 2, 3)', 0.5)).toBe('rgba(1, 2, 3, 0.5)');
+});
+
+test('shows the volume pane only when a bar has volume', () => {
+  expect(hasVolume([candle(10, 11, 0), candle(11, 10, 250)])).toBe(true);
+  expect(hasVolume([candle(10, 11, 0)])).toBe(false);
+  expect(hasVolume([])).toBe(false);
+});
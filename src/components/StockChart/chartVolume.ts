@@ -0,0 +1,32 @@
+import { Candle } from '../../types/stock.types';
+import { CHART_COLORS } from '../../utils/constants';
+
+/**
+ * Volume pane helpers
+ */
+
+const VOLUME_ALPHA = 0.5;
+
+/**
+ * An rgb() colour made translucent, e.g. rgb(34, 197, 94) to
+ * rgba(34, 197, 94, 0.5); other formats are returned as they are
+ */
+export const withAlpha = (color: string, alpha: number): string => {
+  const match = /^rgb\(([^)]+)\)$/.exec(color);
+  return match ? `rgba(${match[1]}, ${alpha})` : color;
+};
+
+/**
+ * Some feeds (indices, FX) report no volume; the pane is left out for them
+ */
+export const hasVolume = (candles: Candle[]): boolean =>
+  candles.some(c => c.volume > 0);
+
+/**
+ * Volume bars take the colour of the price bar they sit under
+ */
+export const volumeBarColors = (candles: Candle[]): string[] => {
+  const up = withAlpha(CHART_COLORS.success, VOLUME_ALPHA);
+  const down = withAlpha(CHART_COLORS.danger, VOLUME_ALPHA);
+  return candles.map(c => c.close >= c.open ? up : down);
+};
@@ -0,0 +1,226 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ChevronDown, Columns3, GripVertical, Save, Trash2 } from 'lucide-react';
+import { ColumnPreset, StockColumnId } from '../../types/stock.types';
+import {
+  BUILT_IN_COLUMN_PRESETS,
+  moveColumn,
+  STOCK_COLUMN_IDS,
+  TABLE_COLUMNS,
+  toggleColumn
+} from '../../utils/tableColumns';
+
+interface ColumnMenuProps {
+  columns: StockColumnId[];
+  presets: ColumnPreset[];
+  activePresetId: string | null;
+  /** Portfolio columns stay empty until there are holdings */
+  hasHoldings: boolean;
+  hasCustomWidths: boolean;
+  onColumnsChange: (columns: StockColumnId[]) => void;
+  onApplyPreset: (id: string) => void;
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (id: string) => void;
+  onResetWidths: () => void;
+  darkMode?: boolean;
+}
+
+const BUILT_IN_IDS = new Set(BUILT_IN_COLUMN_PRESETS.map(preset => preset.id));
+
+/**
+ * Column chooser for the watchlist table: pick and reorder columns, and save
+ * or apply named presets
+ */
+const ColumnMenu: React.FC<ColumnMenuProps> = ({
+  columns,
+  presets,
+  activePresetId,
+  hasHoldings,
+  hasCustomWidths,
+  onColumnsChange,
+  onApplyPreset,
+  onSavePreset,
+  onDeletePreset,
+  onResetWidths,
+  darkMode = false
+}) => {
+  const [open, setOpen] = useState(false);
+  const [presetName, setPresetName] = useState('');
+  const [dragging, setDragging] = useState<StockColumnId | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!open) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [open]);
+
+  const handleSave = () => {
+    if (!presetName.trim()) return;
+    onSavePreset(presetName);
+    setPresetName('');
+  };
+
+  const mutedClass = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const borderClass = darkMode ? 'border-gray-700' : 'border-gray-200';
+  const inputClass = darkMode
+    ? 'bg-gray-700 border-gray-600 text-white'
+    : 'bg-white border-gray-300 text-gray-900';
+  // Shown columns in table order, then the rest
+  const ordered = [...columns, ...STOCK_COLUMN_IDS.filter(id => !columns.includes(id))];
+  const activeIsSaved = activePresetId !== null && !BUILT_IN_IDS.has(activePresetId);
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        aria-haspopup="dialog"
+        aria-expanded={open}
+        className={`flex items-center space-x-1 px-2 py-1 rounded-md text-xs transition-colors ${
+          darkMode
+            ? 'bg-gray-700 hover:bg-gray-600 text-gray-200'
+            : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+        }`}
+        title="Choose columns"
+      >
+        <Columns3 className="h-3.5 w-3.5" />
+        <span>Columns</span>
+        <ChevronDown className="h-3.5 w-3.5" />
+      </button>
+
+      {open && (
+        <div
+          role="dialog"
+          aria-label="Table columns"
+          className={`absolute right-0 mt-2 w-80 rounded-lg shadow-xl border z-50 text-left ${
+            darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+          }`}
+        >
+          <div className={`p-3 space-y-2 border-b ${borderClass}`}>
+            <div className="flex items-center space-x-2">
+              <select
+                value={activePresetId ?? ''}
+                onChange={e => e.target.value && onApplyPreset(e.target.value)}
+                aria-label="Column preset"
+                className={`flex-1 px-2 py-1 rounded border text-sm ${inputClass}`}
+              >
+                {activePresetId === null && <option value="">Custom</option>}
+                {presets.map(preset => (
+                  <option key={preset.id} value={preset.id}>{preset.name}</option>
+                ))}
+              </select>
+              {activeIsSaved && (
+                <button
+                  onClick={() => onDeletePreset(activePresetId)}
+                  className={`p-1 rounded transition-colors ${
+                    darkMode ? 'text-gray-400 hover:text-red-400' : 'text-gray-400 hover:text-red-600'
+                  }`}
+                  title="Delete this preset"
+                  aria-label="Delete this preset"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+            <div className="flex items-center space-x-2">
+              <input
+                type="text"
+                value={presetName}
+                onChange={e => setPresetName(e.target.value)}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') handleSave();
+                }}
+                placeholder="Save these columns as…"
+                aria-label="Preset name"
+                maxLength={40}
+                className={`flex-1 px-2 py-1 rounded border text-sm ${inputClass}`}
+              />
+              <button
+                onClick={handleSave}
+                disabled={!presetName.trim()}
+                className="flex items-center space-x-1 px-2 py-1 rounded bg-blue-600 hover:bg-blue-700 text-white text-sm transition-colors disabled:opacity-50"
+              >
+                <Save className="h-4 w-4" />
+                <span>Save</span>
+              </button>
+            </div>
+          </div>
+
+          <p className={`px-3 pt-2 text-xs ${mutedClass}`}>
+            Drag to reorder here or in the table header; drag a header's edge to resize.
+          </p>
+          <ul className="max-h-72 overflow-y-auto py-1" aria-label="Columns">
+            {ordered.map(id => {
+              const info = TABLE_COLUMNS[id];
+              const shown = columns.includes(id);
+              const movable = shown && id !== 'company';
+              return (
+                <li
+                  key={id}
+                  draggable={movable}
+                  onDragStart={e => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    e.dataTransfer.setData('text/plain', id);
+                    setDragging(id);
+                  }}
+                  onDragOver={e => {
+                    if (dragging && shown) e.preventDefault();
+                  }}
+                  onDrop={e => {
+                    e.preventDefault();
+                    if (dragging) onColumnsChange(moveColumn(columns, dragging, id));
+                    setDragging(null);
+                  }}
+                  onDragEnd={() => setDragging(null)}
+                  className={`flex items-center px-3 py-1.5 ${dragging === id ? 'opacity-50' : ''}`}
+                >
+                  <GripVertical className={`h-4 w-4 mr-1 flex-shrink-0 ${
+                    movable ? `cursor-grab ${mutedClass}` : 'invisible'
+                  }`} />
+                  <label className="flex items-start space-x-2 flex-1 min-w-0 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={shown}
+                      disabled={id === 'company'}
+                      onChange={() => onColumnsChange(toggleColumn(columns, id))}
+                      className="mt-0.5"
+                    />
+                    <span className="min-w-0">
+                      <span className={`block text-sm ${darkMode ? 'text-white' : 'text-gray-800'}`}>
+                        {info.label}
+                      </span>
+                      <span className={`block text-xs ${mutedClass}`}>
+                        {info.description}
+                        {info.group === 'portfolio' && !hasHoldings && ' (shown once you add a holding)'}
+                      </span>
+                    </span>
+                  </label>
+                </li>
+              );
+            })}
+          </ul>
+
+          {hasCustomWidths && (
+            <div className={`p-2 border-t ${borderClass}`}>
+              <button
+                onClick={onResetWidths}
+                className={`px-2 py-1 rounded text-xs transition-colors ${
+                  darkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                Reset column widths
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ColumnMenu;
@@ -1,7 +1,17 @@
 import React from 'react';
-import { TrendingUp, TrendingDown, X } from 'lucide-react';
-import { StockQuote, CompanyProfile } from '../../types/stock.types';
-import { formatCurrency, formatNumber, getChangeColorClass } from '../../utils/formatters';
+import { TrendingUp, TrendingDown, X, Briefcase } from 'lucide-react';
+import { StockQuote, CompanyProfile, Holding, StockColumnId } from '../../types/stock.types';
+import {
+  formatCurrency,
+  formatSignedCurrency,
+  formatPercentage,
+  formatNumber,
+  formatMarketCap,
+  getChangeColorClass
+} from '../../utils/formatters';
+import { calculatePosition } from '../../utils/portfolio';
+import { dayRangePosition } from '../../utils/tableColumns';
+import { parseSymbol, getExchangeName } from '../../utils/symbols';
 
 interface StockRowProps {
   stock: StockQuote;
@@ -10,7 +20,10 @@ interface StockRowProps {
   isRemovable: boolean;
   onSelect: (symbol: string) => void;
   onRemove?: (symbol: string) => void;
-  showVolume?: boolean;
+  /** Columns to show, left to right */
+  columns: StockColumnId[];
+  holding?: Holding;
+  onEditHolding?: (symbol: string) => void;
   showDetails?: boolean;
   darkMode?: boolean;
   isDemoMode?: boolean;
@@ -23,13 +36,17 @@ const StockRow: React.FC<StockRowProps> = ({
   isRemovable, 
   onSelect, 
   onRemove,
-  showVolume = true,
+  columns,
+  holding,
+  onEditHolding,
   showDetails = true,
   darkMode = false,
   isDemoMode = false
 }) => {
   const isPositive = stock.change >= 0;
   const changeColorClass = getChangeColorClass(stock.change);
+  const listing = parseSymbol(stock.symbol);
+  const position = holding ? calculatePosition(holding, stock) : null;
   
   const handleRowClick = () => {
     onSelect(stock.symbol);
@@ -42,6 +59,13 @@ const StockRow: React.FC<StockRowProps> = ({
     }
   };
 
+  const handleEditHoldingClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (onEditHolding) {
+      onEditHolding(stock.symbol);
+    }
+  };
+
   const getPerformanceIndicator = () => {
     const absChangePercent = Math.abs(stock.changePercent);
     if (absChangePercent >= 5) return '🔥'; // Hot stock
@@ -58,6 +82,193 @@ const StockRow: React.FC<StockRowProps> = ({
     return 'Very Low';
   };
 
+  const emptyCell = (id: StockColumnId) => (
+    <td key={id} className="py-3 px-4 text-right">
+      <span className={darkMode ? 'text-gray-600' : 'text-gray-300'}>—</span>
+    </td>
+  );
+
+  const plainCell = (id: StockColumnId, content: React.ReactNode) => (
+    <td key={id} className={`py-3 px-4 text-right ${darkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+      {content}
+    </td>
+  );
+
+  const renderCell = (id: StockColumnId) => {
+    switch (id) {
+      case 'company':
+        return (
+          <td key={id} className="py-3 px-4">
+            <div className="flex items-center space-x-3">
+              {profile?.logo && (
+                <img 
+                  src={profile.logo} 
+                  alt={`${stock.symbol} logo`}
+                  className="h-8 w-8 rounded object-cover"
+                  onError={(e) => {
+                    e.currentTarget.style.display = 'none';
+                  }}
+                />
+              )}
+              <div className="flex-1 min-w-0 text-left">
+                <div className="flex items-center space-x-2">
+                  <span className={`font-semibold ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+                    {stock.symbol}
+                  </span>
+                  {listing && listing.exchange !== 'US' && (
+                    <span
+                      className={`text-xs px-1.5 py-0.5 rounded ${
+                        darkMode ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-600'
+                      }`}
+                      title={getExchangeName(listing.exchange)}
+                    >
+                      {listing.exchange}
+                    </span>
+                  )}
+                  <span className="text-sm">{getPerformanceIndicator()}</span>
+                </div>
+                {showDetails && (
+                  <div className={`text-sm truncate ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    {profile?.name || stock.symbol}
+                  </div>
+                )}
+              </div>
+            </div>
+          </td>
+        );
+
+      case 'price':
+        return (
+          <td key={id} className="py-3 px-4 text-right">
+            <div className={`font-medium ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+              {formatCurrency(stock.price)}
+            </div>
+            {showDetails && !columns.includes('open') && (
+              <div className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                Open: {formatCurrency(stock.open)}
+              </div>
+            )}
+          </td>
+        );
+
+      case 'change':
+        return (
+          <td key={id} className="py-3 px-4 text-right">
+            <div className={`flex items-center justify-end space-x-1 ${changeColorClass}`}>
+              {isPositive ? (
+                <TrendingUp className="h-4 w-4" />
+              ) : (
+                <TrendingDown className="h-4 w-4" />
+              )}
+              <div className="text-right">
+                <div className="font-medium">
+                  {isPositive ? '+' : ''}{formatCurrency(stock.change)}
+                </div>
+                <div className="text-sm">
+                  ({stock.changePercent.toFixed(2)}%)
+                </div>
+              </div>
+            </div>
+          </td>
+        );
+
+      case 'open':
+        return plainCell(id, formatCurrency(stock.open));
+
+      case 'high':
+        return plainCell(id, formatCurrency(stock.high));
+
+      case 'low':
+        return plainCell(id, formatCurrency(stock.low));
+
+      case 'previousClose':
+        return plainCell(id, formatCurrency(stock.previousClose));
+
+      case 'dayRange':
+        return (
+          <td key={id} className={`py-3 px-4 text-right text-sm ${
+            darkMode ? 'text-gray-300' : 'text-gray-600'
+          }`}>
+            <div>H: {formatCurrency(stock.high)}</div>
+            <div>L: {formatCurrency(stock.low)}</div>
+          </td>
+        );
+
+      case 'rangePosition': {
+        const rangePosition = dayRangePosition(stock);
+        if (rangePosition === null) return emptyCell(id);
+        return (
+          <td key={id} className="py-3 px-4 text-right">
+            <div
+              className={`relative h-1.5 w-20 ml-auto rounded-full ${darkMode ? 'bg-gray-600' : 'bg-gray-200'}`}
+              title={`${formatCurrency(stock.low)} to ${formatCurrency(stock.high)}`}
+            >
+              <div
+                className="absolute top-1/2 h-3 w-1 -translate-y-1/2 -translate-x-1/2 transform rounded bg-blue-500"
+                style={{ left: `${rangePosition}%` }}
+              />
+            </div>
+            <div className={`text-xs mt-1 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              {rangePosition.toFixed(0)}% of range
+            </div>
+          </td>
+        );
+      }
+
+      case 'volume':
+        return (
+          <td key={id} className="py-3 px-4 text-right">
+            <div className={darkMode ? 'text-gray-300' : 'text-gray-600'}>
+              {formatNumber(stock.volume)}
+            </div>
+            {showDetails && (
+              <div className={`text-xs ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+                {getVolumeIndicator()}
+              </div>
+            )}
+          </td>
+        );
+
+      // Finnhub reports both in millions
+      case 'marketCap':
+        return profile?.marketCapitalization
+          ? plainCell(id, formatMarketCap(profile.marketCapitalization))
+          : emptyCell(id);
+
+      case 'shares':
+        return profile?.shareOutstanding
+          ? plainCell(id, `${formatNumber(Number(profile.shareOutstanding.toFixed(2)))}M`)
+          : emptyCell(id);
+
+      case 'position':
+        if (!position) return emptyCell(id);
+        return (
+          <td key={id} className="py-3 px-4 text-right">
+            <div className={`font-medium ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+              {formatCurrency(position.marketValue)}
+            </div>
+            <div className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              {formatNumber(position.quantity)} @ {formatCurrency(position.averageCost)}
+            </div>
+          </td>
+        );
+
+      case 'pnl':
+        if (!position) return emptyCell(id);
+        return (
+          <td key={id} className="py-3 px-4 text-right">
+            <div className={`font-medium ${getChangeColorClass(position.unrealizedPnL)}`}>
+              {formatSignedCurrency(position.unrealizedPnL)}
+              <span className="text-xs ml-1">({formatPercentage(position.unrealizedPnLPercent)})</span>
+            </div>
+            <div className={`text-xs ${getChangeColorClass(position.dayPnL)}`}>
+              Day {formatSignedCurrency(position.dayPnL)}
+            </div>
+          </td>
+        );
+    }
+  };
+
   return (
     <tr
       onClick={handleRowClick}
@@ -89,94 +300,26 @@ const StockRow: React.FC<StockRowProps> = ({
       }}
       aria-label={`Select ${stock.symbol} stock`}
     >
-      {/* Company Info */}
-      <td className="py-3 px-4">
-        <div className="flex items-center space-x-3">
-          {profile?.logo && (
-            <img 
-              src={profile.logo} 
-              alt={`${stock.symbol} logo`}
-              className="h-8 w-8 rounded object-cover"
-              onError={(e) => {
-                e.currentTarget.style.display = 'none';
-              }}
-            />
-          )}
-          <div className="flex-1 min-w-0 text-left">
-            <div className="flex items-center space-x-2">
-              <span className={`font-semibold ${darkMode ? 'text-white' : 'text-gray-900'}`}>
-                {stock.symbol}
-              </span>
-              <span className="text-sm">{getPerformanceIndicator()}</span>
-            </div>
-            {showDetails && (
-              <div className={`text-sm truncate ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-                {profile?.name || stock.symbol}
-              </div>
-            )}
-          </div>
-        </div>
-      </td>
-
-      {/* Price */}
-      <td className="py-3 px-4 text-right">
-        <div className={`font-medium ${darkMode ? 'text-white' : 'text-gray-900'}`}>
-          {formatCurrency(stock.price)}
-        </div>
-        {showDetails && (
-          <div className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-            Open: {formatCurrency(stock.open)}
-          </div>
-        )}
-      </td>
-
-      {/* Change */}
-      <td className="py-3 px-4 text-right">
-        <div className={`flex items-center justify-end space-x-1 ${changeColorClass}`}>
-          {isPositive ? (
-            <TrendingUp className="h-4 w-4" />
-          ) : (
-            <TrendingDown className="h-4 w-4" />
-          )}
-          <div className="text-right">
-            <div className="font-medium">
-              {isPositive ? '+' : ''}{formatCurrency(stock.change)}
-            </div>
-            <div className="text-sm">
-              ({stock.changePercent.toFixed(2)}%)
-            </div>
-          </div>
-        </div>
-      </td>
-
-      {/* Volume */}
-      {showVolume && (
-        <td className="py-3 px-4 text-right">
-          <div className={darkMode ? 'text-gray-300' : 'text-gray-600'}>
-            {formatNumber(stock.volume)}
-          </div>
-          {showDetails && (
-            <div className={`text-xs ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>
-              {getVolumeIndicator()}
-            </div>
-          )}
-        </td>
-      )}
-
-      {/* High/Low */}
-      {showDetails && (
-        <td className={`py-3 px-4 text-right text-sm ${
-          darkMode ? 'text-gray-300' : 'text-gray-600'
-        }`}>
-          <div>H: {formatCurrency(stock.high)}</div>
-          <div>L: {formatCurrency(stock.low)}</div>
-        </td>
-      )}
+      {columns.map(renderCell)}
 
       {/* Actions */}
       <td className="py-3 px-4">
         <div className="flex items-center justify-end space-x-2">
-                     {isRemovable && onRemove && !isDemoMode && (
+          {onEditHolding && (
+            <button
+              onClick={handleEditHoldingClick}
+              className={`p-1 rounded transition-colors ${
+                holding
+                  ? 'text-blue-500 hover:text-blue-700'
+                  : darkMode ? 'text-gray-500 hover:text-gray-300' : 'text-gray-400 hover:text-gray-600'
+              }`}
+              title={holding ? `Edit ${stock.symbol} holding` : `Add ${stock.symbol} holding`}
+              aria-label={holding ? `Edit ${stock.symbol} holding` : `Add ${stock.symbol} holding`}
+            >
+              <Briefcase className="h-4 w-4" />
+            </button>
+          )}
+                     {isRemovable && onRemove && (
              <button
                onClick={handleRemoveClick}
                className="text-red-500 hover:text-red-700 hover:bg-red-50 p-1 rounded transition-colors"
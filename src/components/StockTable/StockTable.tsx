@@ -1,49 +1,112 @@
 import React, { useState, useMemo } from 'react';
 import { Search, ArrowUpDown, Filter } from 'lucide-react';
-import { StockQuote, CompanyProfile, SortField, SortDirection } from '../../types/stock.types';
+import {
+  StockQuote,
+  CompanyProfile,
+  SortField,
+  SortKey,
+  Holding,
+  ColumnPreset,
+  StockColumnId
+} from '../../types/stock.types';
 import StockRow from './StockRow';
+import ColumnMenu from './ColumnMenu';
+import ExportMenu from '../UI/ExportMenu';
 import { debounce } from '../../utils/formatters';
+import { downloadFile } from '../../utils/download';
+import { exportFilename, rowsToCsv, rowsToJson, stockExportColumns } from '../../utils/exports';
+import { DEFAULT_COLUMN_LAYOUT, moveColumn, TABLE_COLUMNS } from '../../utils/tableColumns';
+import { sortStocks, updateSort, visibleSort } from '../../utils/sorting';
 
 interface StockTableProps {
   stocks: StockQuote[];
   profiles: Map<string, CompanyProfile>;
   searchTerm: string;
-  sortBy: SortField;
-  sortDirection: SortDirection;
+  /** Sort keys, most significant first */
+  sort: SortKey[];
   selectedStock: string | null;
   defaultSymbols: string[];
   onSearch: (term: string) => void;
-  onSort: (field: SortField) => void;
+  /** Called with the new sort keys after a header click or shift-click */
+  onSort: (sort: SortKey[]) => void;
   onStockSelect: (symbol: string) => void;
   onStockRemove: (symbol: string) => void;
-  showVolumeColumn?: boolean;
-  showDetailsColumn?: boolean;
+  /** Visible columns, left to right */
+  columns?: StockColumnId[];
+  /** Widths in pixels of resized columns */
+  columnWidths?: Partial<Record<StockColumnId, number>>;
+  onColumnsChange?: (columns: StockColumnId[]) => void;
+  onColumnResize?: (id: StockColumnId, width: number) => void;
+  onResetColumnWidths?: () => void;
+  columnPresets?: ColumnPreset[];
+  activePresetId?: string | null;
+  onApplyPreset?: (id: string) => void;
+  onSavePreset?: (name: string) => void;
+  onDeletePreset?: (id: string) => void;
+  /** Holdings by symbol, shown in the position and P&L columns */
+  holdings?: Map<string, Holding>;
+  showPortfolioColumns?: boolean;
+  onEditHolding?: (symbol: string) => void;
   compact?: boolean;
   darkMode?: boolean;
   searchInputRef?: React.RefObject<HTMLInputElement | null>;
   isDemoMode?: boolean;
+  /** Name for exported files, e.g. the watchlist's */
+  exportName?: string;
 }
 
+interface ColumnResize {
+  id: StockColumnId;
+  startX: number;
+  startWidth: number;
+  width: number;
+}
+
+const NO_WIDTHS: Partial<Record<StockColumnId, number>> = {};
+const NO_PRESETS: ColumnPreset[] = [];
+
 const StockTable: React.FC<StockTableProps> = ({
   stocks,
   profiles,
   searchTerm,
-  sortBy,
-  sortDirection,
+  sort,
   selectedStock,
   defaultSymbols,
   onSearch,
   onSort,
   onStockSelect,
   onStockRemove,
-  showVolumeColumn = true,
-  showDetailsColumn = false,
+  columns = DEFAULT_COLUMN_LAYOUT.columns,
+  columnWidths = NO_WIDTHS,
+  onColumnsChange,
+  onColumnResize,
+  onResetColumnWidths,
+  columnPresets = NO_PRESETS,
+  activePresetId = null,
+  onApplyPreset,
+  onSavePreset,
+  onDeletePreset,
+  holdings,
+  showPortfolioColumns = false,
+  onEditHolding,
   compact = false,
   darkMode = false,
   searchInputRef,
-  isDemoMode = false
+  isDemoMode = false,
+  exportName = 'watchlist'
 }) => {
   const [filterBy, setFilterBy] = useState<'all' | 'gainers' | 'losers'>('all');
+  const [draggingColumn, setDraggingColumn] = useState<StockColumnId | null>(null);
+  const [resizing, setResizing] = useState<ColumnResize | null>(null);
+
+  const showDetails = !compact;
+  // Portfolio columns would only hold dashes without holdings
+  const visibleColumns = useMemo(
+    () => columns.filter(id => showPortfolioColumns || TABLE_COLUMNS[id].group !== 'portfolio'),
+    [columns, showPortfolioColumns]
+  );
+  // Rows are only ordered by columns on screen, so every sort shows an arrow
+  const activeSort = useMemo(() => visibleSort(sort, visibleColumns), [sort, visibleColumns]);
 
   // Debounced search to avoid too many updates
   const debouncedSearch = useMemo(
@@ -69,34 +132,17 @@ const StockTable: React.FC<StockTableProps> = ({
     return filtered;
   }, [stocks, profiles, searchTerm, filterBy]);
 
-  // Sorting logic
-  const sortedStocks = useMemo(() => {
-    return [...filteredStocks].sort((a, b) => {
-      let aValue: any, bValue: any;
-      
-      switch (sortBy) {
-        case 'price':
-          aValue = a.price;
-          bValue = b.price;
-          break;
-        case 'change':
-          aValue = a.changePercent;
-          bValue = b.changePercent;
-          break;
-        default:
-          aValue = a.symbol;
-          bValue = b.symbol;
-          break;
-      }
-      
-      const multiplier = sortDirection === 'asc' ? 1 : -1;
-      return aValue > bValue ? multiplier : -multiplier;
-    });
-  }, [filteredStocks, sortBy, sortDirection]);
+  const sortedStocks = useMemo(
+    () => sortStocks(filteredStocks, activeSort, { profiles, holdings }),
+    [filteredStocks, activeSort, profiles, holdings]
+  );
 
   const getSortIndicator = (field: SortField) => {
-    if (sortBy !== field) return null;
-    return sortDirection === 'asc' ? ' ↑' : ' ↓';
+    const index = activeSort.findIndex(key => key.field === field);
+    if (index === -1) return null;
+    const arrow = activeSort[index].direction === 'asc' ? ' ↑' : ' ↓';
+    // Number the keys once there is more than one
+    return activeSort.length > 1 ? `${arrow}${index + 1}` : arrow;
   };
 
   const getStockStats = () => {
@@ -109,8 +155,40 @@ const StockTable: React.FC<StockTableProps> = ({
 
   const stats = getStockStats();
 
-  const handleHeaderClick = (field: SortField) => {
-    onSort(field);
+  const exportRows = (format: 'csv' | 'json') => {
+    // Exports follow the columns on screen, in the same order
+    const columns = stockExportColumns(visibleColumns, { profiles, holdings, includeNames: showDetails });
+    if (format === 'csv') {
+      downloadFile(exportFilename([exportName], 'csv'), rowsToCsv(columns, sortedStocks), 'text/csv;charset=utf-8');
+    } else {
+      downloadFile(exportFilename([exportName], 'json'), rowsToJson(columns, sortedStocks), 'application/json');
+    }
+  };
+
+  const handleHeaderClick = (e: React.MouseEvent, field: SortField) => {
+    onSort(updateSort(activeSort, field, e.shiftKey));
+  };
+
+  // Resizing follows the pointer locally and is saved when released
+  const startResize = (e: React.PointerEvent<HTMLDivElement>, id: StockColumnId) => {
+    const header = e.currentTarget.parentElement;
+    if (!header) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const startWidth = header.getBoundingClientRect().width;
+    setResizing({ id, startX: e.clientX, startWidth, width: startWidth });
+  };
+
+  const moveResize = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!resizing) return;
+    const width = Math.max(TABLE_COLUMNS[resizing.id].minWidth, resizing.startWidth + e.clientX - resizing.startX);
+    setResizing({ ...resizing, width });
+  };
+
+  const endResize = () => {
+    if (!resizing) return;
+    onColumnResize?.(resizing.id, resizing.width);
+    setResizing(null);
   };
 
   const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -146,7 +224,32 @@ const StockTable: React.FC<StockTableProps> = ({
             </div>
           </div>
 
-          <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-3">
+          <div className="flex flex-col sm:flex-row sm:items-center space-y-2 sm:space-y-0 sm:space-x-3">
+            {onColumnsChange && onApplyPreset && onSavePreset && onDeletePreset && onResetColumnWidths && (
+              <ColumnMenu
+                columns={columns}
+                presets={columnPresets}
+                activePresetId={activePresetId}
+                hasHoldings={showPortfolioColumns}
+                hasCustomWidths={Object.keys(columnWidths).length > 0}
+                onColumnsChange={onColumnsChange}
+                onApplyPreset={onApplyPreset}
+                onSavePreset={onSavePreset}
+                onDeletePreset={onDeletePreset}
+                onResetWidths={onResetColumnWidths}
+                darkMode={darkMode}
+              />
+            )}
+            <ExportMenu
+              title="Download the rows shown"
+              disabled={sortedStocks.length === 0}
+              options={[
+                { label: 'CSV', description: 'For spreadsheets', onSelect: () => exportRows('csv') },
+                { label: 'JSON', description: 'For scripts and notes', onSelect: () => exportRows('json') },
+              ]}
+              darkMode={darkMode}
+            />
+
             {/* Filter Buttons */}
             <div className={`flex rounded-lg border overflow-hidden ${
               darkMode ? 'border-gray-600' : 'border-gray-300'
@@ -197,59 +300,63 @@ const StockTable: React.FC<StockTableProps> = ({
         <table className="w-full">
           <thead className={darkMode ? 'bg-gray-700' : 'bg-gray-50'}>
             <tr>
-              <th 
-                className={`text-left py-3 px-4 font-semibold cursor-pointer transition-colors ${
-                  darkMode 
-                    ? 'text-gray-300 hover:bg-gray-600' 
-                    : 'text-gray-700 hover:bg-gray-100'
-                }`}
-                onClick={() => handleHeaderClick('symbol')}
-              >
-                <div className="flex items-center space-x-1">
-                  <span>Company{getSortIndicator('symbol')}</span>
-                  <ArrowUpDown className="h-4 w-4 text-gray-400" />
-                </div>
-              </th>
-              <th 
-                className={`text-right py-3 px-4 font-semibold cursor-pointer transition-colors ${
-                  darkMode 
-                    ? 'text-gray-300 hover:bg-gray-600' 
-                    : 'text-gray-700 hover:bg-gray-100'
-                }`}
-                onClick={() => handleHeaderClick('price')}
-              >
-                <div className="flex items-center justify-end space-x-1">
-                  <span>Price{getSortIndicator('price')}</span>
-                  <ArrowUpDown className="h-4 w-4 text-gray-400" />
-                </div>
-              </th>
-              <th 
-                className={`text-right py-3 px-4 font-semibold cursor-pointer transition-colors ${
-                  darkMode 
-                    ? 'text-gray-300 hover:bg-gray-600' 
-                    : 'text-gray-700 hover:bg-gray-100'
-                }`}
-                onClick={() => handleHeaderClick('change')}
-              >
-                <div className="flex items-center justify-end space-x-1">
-                  <span>Change{getSortIndicator('change')}</span>
-                  <ArrowUpDown className="h-4 w-4 text-gray-400" />
-                </div>
-              </th>
-              {showVolumeColumn && (
-                <th className={`text-right py-3 px-4 font-semibold ${
-                  darkMode ? 'text-gray-300' : 'text-gray-700'
-                }`}>
-                  Volume
-                </th>
-              )}
-              {showDetailsColumn && (
-                <th className={`text-right py-3 px-4 font-semibold ${
-                  darkMode ? 'text-gray-300' : 'text-gray-700'
-                }`}>
-                  Day Range
-                </th>
-              )}
+              {visibleColumns.map(id => {
+                const info = TABLE_COLUMNS[id];
+                const sortIndex = activeSort.findIndex(key => key.field === id);
+                const width = resizing?.id === id ? resizing.width : columnWidths[id];
+                const movable = Boolean(onColumnsChange) && id !== 'company';
+                return (
+                  <th
+                    key={id}
+                    draggable={movable}
+                    onDragStart={e => {
+                      e.dataTransfer.effectAllowed = 'move';
+                      e.dataTransfer.setData('text/plain', id);
+                      setDraggingColumn(id);
+                    }}
+                    onDragOver={e => {
+                      if (draggingColumn) e.preventDefault();
+                    }}
+                    onDrop={e => {
+                      e.preventDefault();
+                      if (draggingColumn && onColumnsChange) {
+                        onColumnsChange(moveColumn(columns, draggingColumn, id));
+                      }
+                      setDraggingColumn(null);
+                    }}
+                    onDragEnd={() => setDraggingColumn(null)}
+                    onClick={e => handleHeaderClick(e, id)}
+                    aria-sort={sortIndex === 0 ? (activeSort[0].direction === 'asc' ? 'ascending' : 'descending') : undefined}
+                    title={`Sort by ${info.label}; shift-click to add it as another sort`}
+                    style={width ? { width, minWidth: width } : undefined}
+                    className={`relative py-3 px-4 font-semibold cursor-pointer select-none transition-colors ${
+                      info.align === 'left' ? 'text-left' : 'text-right'
+                    } ${
+                      darkMode ? 'text-gray-300 hover:bg-gray-600' : 'text-gray-700 hover:bg-gray-100'
+                    } ${draggingColumn === id ? 'opacity-50' : ''}`}
+                  >
+                    <div className={`flex items-center space-x-1 ${info.align === 'right' ? 'justify-end' : ''}`}>
+                      <span>{info.label}{getSortIndicator(id)}</span>
+                      {sortIndex === -1 && <ArrowUpDown className="h-4 w-4 text-gray-400" />}
+                    </div>
+                    {onColumnResize && (
+                      <div
+                        role="separator"
+                        aria-orientation="vertical"
+                        aria-label={`Resize ${info.label}`}
+                        onMouseDown={e => e.preventDefault()}
+                        onClick={e => e.stopPropagation()}
+                        onPointerDown={e => startResize(e, id)}
+                        onPointerMove={moveResize}
+                        onPointerUp={endResize}
+                        className={`absolute right-0 top-0 h-full w-1.5 cursor-col-resize ${
+                          darkMode ? 'hover:bg-gray-500' : 'hover:bg-gray-300'
+                        }`}
+                      />
+                    )}
+                  </th>
+                );
+              })}
               <th className="py-3 px-4 w-16"></th>
             </tr>
           </thead>
@@ -261,18 +368,20 @@ const StockTable: React.FC<StockTableProps> = ({
                    stock={stock}
                    profile={profiles.get(stock.symbol)}
                    isSelected={selectedStock === stock.symbol}
-                   isRemovable={!defaultSymbols.includes(stock.symbol)}
+                   isRemovable={!(isDemoMode && defaultSymbols.includes(stock.symbol))}
                    onSelect={onStockSelect}
                    onRemove={onStockRemove}
-                   showVolume={showVolumeColumn}
-                   showDetails={showDetailsColumn || !compact}
+                   columns={visibleColumns}
+                   holding={holdings?.get(stock.symbol)}
+                   onEditHolding={onEditHolding}
+                   showDetails={showDetails}
                    darkMode={darkMode}
                    isDemoMode={isDemoMode}
                  />
               ))
             ) : (
               <tr>
-                <td colSpan={showVolumeColumn ? 6 : 5} className="py-12 text-center">
+                <td colSpan={visibleColumns.length + 1} className="py-12 text-center">
                   <div className={darkMode ? 'text-gray-400' : 'text-gray-500'}>
                     <Filter className="h-12 w-12 mx-auto mb-3 text-gray-300" />
                     {searchTerm ? (
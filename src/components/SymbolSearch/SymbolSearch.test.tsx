@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import SymbolSearch from './SymbolSearch';
+import MarketDataRegistry from '../../services/providers/MarketDataRegistry';
+
+const Harness: React.FC<{ onSelect: (symbol: string) => void }> = ({ onSelect }) => {
+  const [value, setValue] = useState('');
+  return <SymbolSearch value={value} onChange={setValue} onSelect={onSelect} />;
+};
+
+beforeEach(() => {
+  MarketDataRegistry.setProvider('demo');
+});
+
+test('shows name, exchange and type for each suggestion', async () => {
+  render(<Harness onSelect={jest.fn()} />);
+
+  fireEvent.change(screen.getByRole('combobox'), { target: { value: 'nvid' } });
+
+  const option = await screen.findByRole('option');
+  expect(option).toHaveTextContent('NVDA');
+  expect(option).toHaveTextContent('NVIDIA Corporation');
+  expect(option).toHaveTextContent('US');
+  expect(option).toHaveTextContent('Common Stock');
+});
+
+test('picks a suggestion with the arrow keys and Enter', async () => {
+  const onSelect = jest.fn();
+  render(<Harness onSelect={onSelect} />);
+  const input = screen.getByRole('combobox');
+
+  fireEvent.change(input, { target: { value: 'goog' } });
+  await screen.findAllByRole('option');
+
+  fireEvent.keyDown(input, { key: 'ArrowDown' });
+  fireEvent.keyDown(input, { key: 'ArrowDown' });
+  expect(screen.getAllByRole('option')[1]).toHaveAttribute('aria-selected', 'true');
+
+  fireEvent.keyDown(input, { key: 'Enter' });
+  expect(onSelect).toHaveBeenCalledWith('GOOGL');
+  expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+});
+
+test('submits the typed text when nothing is highlighted', () => {
+  const onSelect = jest.fn();
+  render(<Harness onSelect={onSelect} />);
+  const input = screen.getByRole('combobox');
+
+  fireEvent.change(input, { target: { value: 'xyz' } });
+  fireEvent.keyDown(input, { key: 'Enter' });
+
+  expect(onSelect).toHaveBeenCalledWith('xyz');
+});
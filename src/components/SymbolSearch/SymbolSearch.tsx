@@ -0,0 +1,157 @@
+import React, { useState, useEffect, useId } from 'react';
+import { useSymbolSearch } from '../../hooks/useSymbolSearch';
+
+interface SymbolSearchProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** Called with a picked suggestion, or with the typed text on Enter */
+  onSelect: (symbol: string) => void;
+  placeholder?: string;
+  disabled?: boolean;
+  darkMode?: boolean;
+  inputRef?: React.RefObject<HTMLInputElement | null>;
+}
+
+const SymbolSearch: React.FC<SymbolSearchProps> = ({
+  value,
+  onChange,
+  onSelect,
+  placeholder = 'Search symbol or company',
+  disabled = false,
+  darkMode = false,
+  inputRef
+}) => {
+  const { results, loading, error } = useSymbolSearch(value);
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const listId = useId();
+
+  // A new result list starts with nothing highlighted
+  useEffect(() => {
+    setActiveIndex(-1);
+  }, [results]);
+
+  const showList = open && value.trim().length > 0;
+
+  const select = (symbol: string) => {
+    setOpen(false);
+    setActiveIndex(-1);
+    onSelect(symbol);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setOpen(true);
+        if (results.length > 0) {
+          setActiveIndex(prev => (prev + 1) % results.length);
+        }
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setOpen(true);
+        if (results.length > 0) {
+          setActiveIndex(prev => (prev <= 0 ? results.length - 1 : prev - 1));
+        }
+        break;
+      case 'Enter':
+        e.preventDefault();
+        if (showList && activeIndex >= 0 && results[activeIndex]) {
+          select(results[activeIndex].symbol);
+        } else if (value.trim()) {
+          select(value);
+        }
+        break;
+      case 'Escape':
+        setOpen(false);
+        setActiveIndex(-1);
+        break;
+    }
+  };
+
+  const renderStatus = (message: string, className = '') => (
+    <li className={`px-3 py-2 text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'} ${className}`}>
+      {message}
+    </li>
+  );
+
+  return (
+    <div className="relative min-w-0">
+      <input
+        ref={inputRef}
+        type="text"
+        role="combobox"
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={activeIndex >= 0 ? `${listId}-${activeIndex}` : undefined}
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        className={`bg-transparent border-none focus:outline-none focus:ring-0 text-sm placeholder-gray-500 min-w-0 w-full ${
+          darkMode ? 'text-white placeholder-gray-400' : 'text-gray-900'
+        }`}
+        autoComplete="off"
+        spellCheck={false}
+        disabled={disabled}
+      />
+
+      {showList && (
+        <ul
+          id={listId}
+          role="listbox"
+          className={`absolute left-0 top-full mt-3 w-80 max-w-[90vw] max-h-80 overflow-y-auto rounded-lg shadow-xl border z-50 py-1 text-left ${
+            darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+          }`}
+        >
+          {loading && results.length === 0 && renderStatus('Searching…')}
+          {!loading && error && renderStatus(error, 'text-red-600')}
+          {!loading && !error && results.length === 0 && renderStatus('No matching symbols')}
+          {results.map((result, index) => (
+            <li
+              key={`${result.symbol}-${result.exchange}`}
+              id={`${listId}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keep focus in the input so the blur doesn't close the list first
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => select(result.symbol)}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`flex items-center justify-between px-3 py-2 cursor-pointer ${
+                index === activeIndex
+                  ? darkMode ? 'bg-gray-700' : 'bg-blue-50'
+                  : ''
+              }`}
+            >
+              <div className="min-w-0 mr-3">
+                <div className={`text-sm font-semibold ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+                  {result.symbol}
+                </div>
+                <div className={`text-xs truncate ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  {result.name}
+                </div>
+              </div>
+              <div className="flex-shrink-0 text-right">
+                <div className={`text-xs font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                  {result.exchange}
+                </div>
+                <div className={`text-xs ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+                  {result.type}
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SymbolSearch;
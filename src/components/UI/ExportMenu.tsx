@@ -0,0 +1,98 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ChevronDown, Download } from 'lucide-react';
+
+export interface ExportOption {
+  label: string;
+  description?: string;
+  onSelect: () => void;
+}
+
+interface ExportMenuProps {
+  options: ExportOption[];
+  label?: string;
+  title?: string;
+  disabled?: boolean;
+  darkMode?: boolean;
+}
+
+/**
+ * Button with a list of downloads, e.g. an image and the data behind it
+ */
+const ExportMenu: React.FC<ExportMenuProps> = ({
+  options,
+  label = 'Export',
+  title = 'Download',
+  disabled = false,
+  darkMode = false
+}) => {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!open) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [open]);
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={disabled}
+        aria-haspopup="menu"
+        aria-expanded={open}
+        className={`flex items-center space-x-1 px-2 py-1 rounded-md text-xs transition-colors disabled:opacity-50 ${
+          darkMode
+            ? 'bg-gray-700 hover:bg-gray-600 text-gray-200'
+            : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+        }`}
+        title={title}
+      >
+        <Download className="h-3.5 w-3.5" />
+        <span>{label}</span>
+        <ChevronDown className="h-3.5 w-3.5" />
+      </button>
+
+      {open && (
+        <div
+          role="menu"
+          aria-label={title}
+          className={`absolute right-0 mt-2 w-56 rounded-lg shadow-xl border z-50 py-1 text-left ${
+            darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+          }`}
+        >
+          {options.map(option => (
+            <button
+              key={option.label}
+              role="menuitem"
+              onClick={() => {
+                setOpen(false);
+                option.onSelect();
+              }}
+              className={`block w-full px-3 py-2 text-left transition-colors ${
+                darkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-50'
+              }`}
+            >
+              <span className={`block text-sm ${darkMode ? 'text-white' : 'text-gray-800'}`}>
+                {option.label}
+              </span>
+              {option.description && (
+                <span className={`block text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  {option.description}
+                </span>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
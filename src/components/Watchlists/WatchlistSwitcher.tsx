@@ -0,0 +1,214 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { List, ChevronDown, Check, Plus, Pencil, Copy, Trash2 } from 'lucide-react';
+import { Watchlist } from '../../types/stock.types';
+
+interface WatchlistSwitcherProps {
+  watchlists: Watchlist[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  darkMode?: boolean;
+}
+
+type Mode = 'menu' | 'create' | 'rename' | 'delete';
+
+const WatchlistSwitcher: React.FC<WatchlistSwitcherProps> = ({
+  watchlists,
+  activeId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  darkMode = false
+}) => {
+  const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<Mode>('menu');
+  const [draftName, setDraftName] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const active = watchlists.find(list => list.id === activeId) ?? watchlists[0];
+
+  const close = () => {
+    setOpen(false);
+    setMode('menu');
+  };
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!open) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        close();
+      }
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [open]);
+
+  const startEditing = (nextMode: 'create' | 'rename') => {
+    setDraftName(nextMode === 'rename' ? active.name : '');
+    setMode(nextMode);
+  };
+
+  const submitName = () => {
+    const name = draftName.trim();
+    if (!name) return;
+    if (mode === 'create') {
+      onCreate(name);
+    } else {
+      onRename(active.id, name);
+    }
+    close();
+  };
+
+  const itemClass = `w-full flex items-center space-x-2 px-3 py-2 text-sm text-left transition-colors ${
+    darkMode ? 'text-gray-200 hover:bg-gray-700' : 'text-gray-700 hover:bg-gray-100'
+  }`;
+  const mutedClass = darkMode ? 'text-gray-400' : 'text-gray-500';
+
+  const renderNameForm = () => (
+    <div className="p-3 space-y-2">
+      <label className={`block text-xs font-medium ${mutedClass}`} htmlFor="watchlist-name">
+        {mode === 'create' ? 'New watchlist name' : 'Rename watchlist'}
+      </label>
+      <input
+        id="watchlist-name"
+        type="text"
+        autoFocus
+        value={draftName}
+        onChange={(e) => setDraftName(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') submitName();
+          if (e.key === 'Escape') setMode('menu');
+        }}
+        placeholder="e.g. Dividend"
+        maxLength={40}
+        className={`w-full rounded-md px-2 py-1.5 text-sm border focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+          darkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+        }`}
+      />
+      <div className="flex justify-end space-x-2">
+        <button onClick={() => setMode('menu')} className={`px-2 py-1 text-sm rounded ${mutedClass}`}>
+          Cancel
+        </button>
+        <button
+          onClick={submitName}
+          disabled={!draftName.trim()}
+          className="px-3 py-1 text-sm rounded bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white"
+        >
+          {mode === 'create' ? 'Create' : 'Save'}
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderDeleteConfirm = () => (
+    <div className="p-3 space-y-2">
+      <p className={`text-sm ${darkMode ? 'text-gray-200' : 'text-gray-700'}`}>
+        Delete <span className="font-semibold">{active.name}</span> and its {active.symbols.length} symbols?
+      </p>
+      <div className="flex justify-end space-x-2">
+        <button onClick={() => setMode('menu')} className={`px-2 py-1 text-sm rounded ${mutedClass}`}>
+          Cancel
+        </button>
+        <button
+          onClick={() => {
+            onDelete(active.id);
+            close();
+          }}
+          className="px-3 py-1 text-sm rounded bg-red-600 hover:bg-red-700 text-white"
+        >
+          Delete
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderMenu = () => (
+    <>
+      <ul role="listbox" aria-label="Watchlists" className="py-1 max-h-64 overflow-y-auto">
+        {watchlists.map(list => (
+          <li key={list.id} role="option" aria-selected={list.id === active.id}>
+            <button
+              onClick={() => {
+                onSelect(list.id);
+                close();
+              }}
+              className={itemClass}
+            >
+              <Check className={`h-4 w-4 flex-shrink-0 ${list.id === active.id ? 'text-blue-500' : 'invisible'}`} />
+              <span className="flex-1 truncate">{list.name}</span>
+              <span className={`text-xs ${mutedClass}`}>{list.symbols.length}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+      <div className={`border-t py-1 ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+        <button onClick={() => startEditing('create')} className={itemClass}>
+          <Plus className="h-4 w-4" />
+          <span>New watchlist</span>
+        </button>
+        <button onClick={() => startEditing('rename')} className={itemClass}>
+          <Pencil className="h-4 w-4" />
+          <span>Rename</span>
+        </button>
+        <button
+          onClick={() => {
+            onDuplicate(active.id);
+            close();
+          }}
+          className={itemClass}
+        >
+          <Copy className="h-4 w-4" />
+          <span>Duplicate</span>
+        </button>
+        <button
+          onClick={() => setMode('delete')}
+          disabled={watchlists.length <= 1}
+          title={watchlists.length <= 1 ? 'At least one watchlist is required' : undefined}
+          className={`${itemClass} disabled:opacity-50 disabled:cursor-not-allowed`}
+        >
+          <Trash2 className="h-4 w-4" />
+          <span>Delete</span>
+        </button>
+      </div>
+    </>
+  );
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => (open ? close() : setOpen(true))}
+        aria-haspopup="listbox"
+        aria-expanded={open}
+        className={`flex items-center justify-between space-x-2 px-3 py-2 rounded-lg text-sm transition-colors w-full sm:w-auto ${
+          darkMode
+            ? 'bg-gray-700 hover:bg-gray-600 text-white'
+            : 'bg-gray-100 hover:bg-gray-200 text-gray-800'
+        }`}
+        title="Switch watchlist"
+      >
+        <List className="h-4 w-4 flex-shrink-0" />
+        <span className="truncate max-w-[10rem] font-medium">{active.name}</span>
+        <span className={`text-xs ${mutedClass}`}>{active.symbols.length}</span>
+        <ChevronDown className="h-4 w-4 flex-shrink-0" />
+      </button>
+
+      {open && (
+        <div className={`absolute right-0 sm:left-0 sm:right-auto mt-2 w-64 rounded-lg shadow-xl border z-50 text-left ${
+          darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'
+        }`}>
+          {mode === 'menu' && renderMenu()}
+          {(mode === 'create' || mode === 'rename') && renderNameForm()}
+          {mode === 'delete' && renderDeleteConfirm()}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WatchlistSwitcher;
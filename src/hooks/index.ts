@@ -1,4 +1,30 @@
 export { default as useStockData } from './useStockData';
 export { default as useChartData } from './useChartData';
+export { default as useMarketDataProvider } from './useMarketDataProvider';
 export * from './useStockData';
-export * from './useChartData';
\ No newline at end of file
+export * from './useChartData';
+export * from './useMarketDataProvider';
+export { default as useQuoteStream } from './useQuoteStream';
+export * from './useQuoteStream';
+export { default as useRequestBudget } from './useRequestBudget';
+export * from './useRequestBudget';
+export { default as useSymbolSearch } from './useSymbolSearch';
+export * from './useSymbolSearch';
+export { default as useWatchlists } from './useWatchlists';
+export * from './useWatchlists';
+export { default as useHoldings } from './useHoldings';
+export * from './useHoldings';
+export { default as useLedger } from './useLedger';
+export * from './useLedger';
+export { default as useSymbolCheck } from './useSymbolCheck';
+export * from './useSymbolCheck';
+export { default as useAlerts } from './useAlerts';
+export * from './useAlerts';
+export { default as useDailyHistory } from './useDailyHistory';
+export * from './useDailyHistory';
+export { default as useChartIndicators } from './useChartIndicators';
+export * from './useChartIndicators';
+export { default as useChartDrawings } from './useChartDrawings';
+export * from './useChartDrawings';
+export { default as useTableColumns } from './useTableColumns';
+export * from './useTableColumns';
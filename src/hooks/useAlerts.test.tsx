@@ -0,0 +1,42 @@
+import { renderHook, act } from '@testing-library/react';
+import useAlerts from './useAlerts';
+import { StockQuote } from '../types/stock.types';
+
+const quote = (symbol: string, price: number): StockQuote => ({
+  symbol,
+  price,
+  change: 0,
+  changePercent: 0,
+  previousClose: price,
+  high: price,
+  low: price,
+  open: price,
+  volume: 0,
+});
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+test('firing an alert keeps edits made to other rules since the last render', () => {
+  const { result } = renderHook(() => useAlerts());
+  let teslaId = '';
+
+  act(() => {
+    result.current.addRule({ symbol: 'AAPL', condition: { kind: 'priceAbove', value: 200 } });
+    teslaId = result.current.addRule({ symbol: 'TSLA', condition: { kind: 'priceBelow', value: 150 } }).id;
+  });
+
+  // The edits haven't rendered yet, so evaluation still sees the old rules
+  act(() => {
+    result.current.updateRule(teslaId, { symbol: 'TSLA', condition: { kind: 'priceBelow', value: 120 } });
+    result.current.evaluate([quote('AAPL', 210), quote('TSLA', 300)], [quote('AAPL', 190), quote('TSLA', 290)]);
+  });
+
+  const [apple, tesla] = result.current.rules;
+  expect(result.current.history).toHaveLength(1);
+  expect(apple.lastTriggeredAt).toBeDefined();
+  // One-shot alerts switch off after firing
+  expect(apple.enabled).toBe(false);
+  expect(tesla.condition).toEqual({ kind: 'priceBelow', value: 120 });
+});
@@ -0,0 +1,167 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { AlertCondition, AlertEvent, AlertRule, AlertState, StockQuote } from '../types/stock.types';
+import {
+  evaluateAlerts,
+  ruleHistorySymbols,
+  ruleSymbols,
+  ALERT_HISTORY_LIMIT,
+  DEFAULT_ALERT_COOLDOWN
+} from '../utils/alerts';
+import { EXPRESSION_HISTORY_DAYS } from '../utils/alertExpression';
+import SessionStorage from '../utils/sessionStorage';
+import { useDailyHistory } from './useDailyHistory';
+
+interface UseAlertsOptions {
+  /** Called once per alert that fires, e.g. to show a toast */
+  onTrigger?: (event: AlertEvent) => void;
+}
+
+interface NewAlertRule {
+  symbol: string;
+  condition: AlertCondition;
+  repeat?: boolean;
+  cooldownMs?: number;
+}
+
+interface UseAlertsReturn {
+  rules: AlertRule[];
+  history: AlertEvent[];
+  addRule: (rule: NewAlertRule) => AlertRule;
+  /** Replace a rule's settings; the edited rule is re-armed */
+  updateRule: (id: string, rule: NewAlertRule) => void;
+  /** Toggle a rule; re-enabling a one-shot alert re-arms it */
+  setRuleEnabled: (id: string, enabled: boolean) => void;
+  removeRule: (id: string) => void;
+  clearHistory: () => void;
+  /** Symbols enabled rules need quotes for, including ones named in expressions */
+  watchedSymbols: string[];
+  /** Check rules against a quote update; pass as useStockData's onQuotesUpdate */
+  evaluate: (quotes: StockQuote[], previousQuotes: StockQuote[]) => void;
+}
+
+const createId = (): string =>
+  `ar_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+const loadAlerts = (): AlertState => {
+  const stored = SessionStorage.getAlerts();
+  return stored && Array.isArray(stored.rules) && Array.isArray(stored.history)
+    ? stored
+    : { rules: [], history: [] };
+};
+
+/**
+ * Alert rules and their firing history, persisted via SessionStorage
+ */
+export const useAlerts = ({ onTrigger }: UseAlertsOptions = {}): UseAlertsReturn => {
+  const [state, setState] = useState<AlertState>(loadAlerts);
+
+  // Evaluation reads the latest rules without being recreated on every change
+  const rulesRef = useRef(state.rules);
+  rulesRef.current = state.rules;
+  const onTriggerRef = useRef(onTrigger);
+  onTriggerRef.current = onTrigger;
+
+  useEffect(() => {
+    SessionStorage.setAlerts(state);
+  }, [state]);
+
+  // Keyed by content so firing (which only touches lastTriggeredAt) keeps the same arrays
+  const enabledRules = state.rules.filter(rule => rule.enabled);
+  const watchedKey = Array.from(new Set(enabledRules.flatMap(ruleSymbols))).sort().join(',');
+  const historyKey = Array.from(new Set(enabledRules.flatMap(ruleHistorySymbols))).sort().join(',');
+  const watchedSymbols = useMemo(() => watchedKey ? watchedKey.split(',') : [], [watchedKey]);
+  const historySymbols = useMemo(() => historyKey ? historyKey.split(',') : [], [historyKey]);
+
+  const dailyHistory = useDailyHistory(historySymbols, { days: EXPRESSION_HISTORY_DAYS });
+  const dailyHistoryRef = useRef(dailyHistory);
+  dailyHistoryRef.current = dailyHistory;
+
+  const addRule = useCallback((rule: NewAlertRule): AlertRule => {
+    const created: AlertRule = {
+      id: createId(),
+      symbol: rule.symbol,
+      condition: rule.condition,
+      enabled: true,
+      repeat: rule.repeat ?? false,
+      cooldownMs: rule.cooldownMs ?? DEFAULT_ALERT_COOLDOWN,
+      createdAt: Date.now(),
+    };
+    setState(prev => ({ ...prev, rules: [...prev.rules, created] }));
+    return created;
+  }, []);
+
+  const updateRule = useCallback((id: string, rule: NewAlertRule) => {
+    setState(prev => ({
+      ...prev,
+      rules: prev.rules.map(existing => existing.id !== id ? existing : {
+        ...existing,
+        symbol: rule.symbol,
+        condition: rule.condition,
+        repeat: rule.repeat ?? existing.repeat,
+        cooldownMs: rule.cooldownMs ?? existing.cooldownMs,
+        enabled: true,
+        lastTriggeredAt: undefined,
+      }),
+    }));
+  }, []);
+
+  const setRuleEnabled = useCallback((id: string, enabled: boolean) => {
+    setState(prev => ({
+      ...prev,
+      rules: prev.rules.map(rule => {
+        if (rule.id !== id) return rule;
+        // Switching back on starts afresh, without the old cooldown
+        return enabled ? { ...rule, enabled, lastTriggeredAt: undefined } : { ...rule, enabled };
+      }),
+    }));
+  }, []);
+
+  const removeRule = useCallback((id: string) => {
+    setState(prev => ({ ...prev, rules: prev.rules.filter(rule => rule.id !== id) }));
+  }, []);
+
+  const clearHistory = useCallback(() => {
+    setState(prev => ({ ...prev, history: [] }));
+  }, []);
+
+  const evaluate = useCallback((quotes: StockQuote[], previousQuotes: StockQuote[]) => {
+    const { rules, events } = evaluateAlerts(
+      rulesRef.current,
+      quotes,
+      previousQuotes,
+      Date.now(),
+      dailyHistoryRef.current
+    );
+    if (events.length === 0) return;
+
+    rulesRef.current = rules;
+    const fired = new Map(
+      rules.filter(rule => events.some(event => event.ruleId === rule.id)).map(rule => [rule.id, rule])
+    );
+    setState(prev => ({
+      // Keep edits made since the evaluation started; only firing state changes
+      rules: prev.rules.map(rule => {
+        const firedRule = fired.get(rule.id);
+        return firedRule
+          ? { ...rule, lastTriggeredAt: firedRule.lastTriggeredAt, enabled: firedRule.enabled }
+          : rule;
+      }),
+      history: [...[...events].reverse(), ...prev.history].slice(0, ALERT_HISTORY_LIMIT),
+    }));
+    events.forEach(event => onTriggerRef.current?.(event));
+  }, []);
+
+  return {
+    rules: state.rules,
+    history: state.history,
+    addRule,
+    updateRule,
+    setRuleEnabled,
+    removeRule,
+    clearHistory,
+    watchedSymbols,
+    evaluate
+  };
+};
+
+export default useAlerts;
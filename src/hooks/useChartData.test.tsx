@@ -0,0 +1,44 @@
+import { renderHook, waitFor } from '@testing-library/react';
+import useChartData from './useChartData';
+import { ChartRange, HistoryRange } from '../types/stock.types';
+import { InMemoryProvider } from '../services/providers/InMemoryProvider';
+
+const createProvider = () => {
+  const historyFactory = jest.fn((symbol: string, range: HistoryRange) => ({
+    symbol,
+    ...range,
+    candles: [{ time: range.to, open: 1, high: 1, low: 1, close: 1, volume: 1 }],
+  }));
+  return { provider: new InMemoryProvider({ historyFactory }), historyFactory };
+};
+
+test('fetches each range at its own resolution and reuses ranges already loaded', async () => {
+  const { provider, historyFactory } = createProvider();
+  const { result, rerender } = renderHook(
+    ({ range }: { range: ChartRange }) => useChartData({ symbol: 'AAPL', range, provider }),
+    { initialProps: { range: '1M' } }
+  );
+
+  await waitFor(() => expect(result.current.chartData?.resolution).toBe('D'));
+
+  rerender({ range: '5Y' });
+  await waitFor(() => expect(result.current.chartData?.resolution).toBe('W'));
+
+  rerender({ range: '1M' });
+  expect(result.current.loading).toBe(false);
+  await waitFor(() => expect(result.current.chartData?.resolution).toBe('D'));
+  expect(historyFactory).toHaveBeenCalledTimes(2);
+});
+
+test('loads compared symbols over the same range', async () => {
+  const { provider } = createProvider();
+  const compareSymbols = ['MSFT', 'SPY'];
+  const { result } = renderHook(() =>
+    useChartData({ symbol: 'AAPL', range: '6M', compareSymbols, provider })
+  );
+
+  await waitFor(() => expect(result.current.comparisonData).toHaveLength(2));
+  expect(result.current.chartData?.symbol).toBe('AAPL');
+  expect(result.current.comparisonData.map(history => history.symbol)).toEqual(['MSFT', 'SPY']);
+  expect(result.current.comparisonData.every(history => history.resolution === 'D')).toBe(true);
+});
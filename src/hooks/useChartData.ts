@@ -1,12 +1,22 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { HistoricalData } from '../types/stock.types';
-import StockAPIService from '../services/StockAPIService';
-import { FINNHUB_API_KEY } from '../utils/constants';
+import { HistoricalData, ChartRange } from '../types/stock.types';
+import { MarketDataProvider } from '../services/providers/MarketDataProvider';
+import { generateDemoChartData } from '../services/providers/demoData';
+import { useMarketDataProvider } from './useMarketDataProvider';
+import { getErrorMessage } from '../utils/errors';
+import { createChartRange, emptyHistory, lastSessions } from '../utils/candles';
+import { CACHE_CONFIG, CHART_RANGES, DEFAULT_CHART_RANGE } from '../utils/constants';
 
 interface UseChartDataOptions {
   symbol: string | null;
   autoRefresh?: boolean;
   refreshInterval?: number;
+  /** How far back the chart reaches; sets the candle size too */
+  range?: ChartRange;
+  /** Further symbols to load over the same range, e.g. for a comparison chart */
+  compareSymbols?: string[];
+  /** Overrides the active provider from MarketDataRegistry */
+  provider?: MarketDataProvider;
 }
 
 interface UseChartDataReturn {
@@ -14,53 +24,42 @@ interface UseChartDataReturn {
   loading: boolean;
   error: string | null;
   isDemoData: boolean;
+  /** History for compareSymbols that has loaded, in the order given */
+  comparisonData: HistoricalData[];
   fetchChartData: (symbol: string) => Promise<void>;
   clearData: () => void;
 }
 
-// Generate demo chart data
-const generateDemoChartData = (symbol: string): HistoricalData => {
-  const prices = [];
-  
-  // Use consistent base prices for demo symbols to make them look realistic
-  const demoPrices: { [key: string]: number } = {
-    'AAPL': 175,
-    'GOOGL': 142,
-    'MSFT': 378,
-    'TSLA': 248,
-    'AMZN': 155,
-    'META': 485,
-    'NVDA': 875,
-    'NFLX': 612
-  };
-  
-  const basePrice = demoPrices[symbol] || (100 + Math.random() * 200);
-  const volatility = 0.015; // 1.5% daily volatility for more realistic movement
-  
-  for (let i = 29; i >= 0; i--) {
-    const date = new Date();
-    date.setDate(date.getDate() - i);
-    
-    // Generate realistic price movement with trend
-    const trend = Math.sin(i * 0.2) * 0.01; // Add some trend
-    const randomChange = (Math.random() - 0.5) * volatility;
-    const totalChange = trend + randomChange;
-    const price = basePrice * (1 + totalChange);
-    
-    prices.push({
-      date: date.toISOString().split('T')[0],
-      price: Number(price.toFixed(2))
-    });
-  }
-  
-  return { symbol, prices };
+interface CachedChart {
+  data: HistoricalData;
+  isDemoData: boolean;
+  error: string | null;
+  fetchedAt: number;
+}
+
+const cacheKey = (symbol: string, range: ChartRange) => `${symbol}:${range}`;
+
+const NO_SYMBOLS: string[] = [];
+
+// Trims '1D' and '5D' to whole sessions
+const trimToRange = (data: HistoricalData, range: ChartRange): HistoricalData => {
+  const { sessions } = CHART_RANGES[range];
+  return sessions ? { ...data, candles: lastSessions(data.candles, sessions) } : data;
 };
 
+const isStale = (cached: CachedChart) => Date.now() - cached.fetchedAt >= CACHE_CONFIG.history.ttl;
+
 export const useChartData = ({
   symbol,
   autoRefresh = false,
-  refreshInterval = 300000 // 5 minutes
+  refreshInterval = 300000, // 5 minutes
+  range = DEFAULT_CHART_RANGE,
+  compareSymbols = NO_SYMBOLS,
+  provider: providerOverride
 }: UseChartDataOptions): UseChartDataReturn => {
+  const activeProvider = useMarketDataProvider();
+  const provider = providerOverride ?? activeProvider;
+
   const [chartData, setChartData] = useState<HistoricalData | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -68,13 +67,34 @@ export const useChartData = ({
 
   const abortControllerRef = useRef<AbortController | null>(null);
   const refreshIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const currentSymbolRef = useRef<string | null>(null);
+  // Symbol and range being shown, as a cache key
+  const currentKeyRef = useRef<string | null>(null);
+  // Charts already loaded this session, by symbol and range, so switching
+  // back to one shows it straight away
+  const cacheRef = useRef(new Map<string, CachedChart>());
+
+  const showCached = useCallback((cached: CachedChart) => {
+    setChartData(cached.data);
+    setIsDemoData(cached.isDemoData);
+    setError(cached.error);
+    setLoading(false);
+  }, []);
 
   const fetchChartData = useCallback(async (targetSymbol: string) => {
     if (!targetSymbol) return;
 
+    const key = cacheKey(targetSymbol, range);
+    const historyRange = createChartRange(range);
+
+    const store = (cached: Omit<CachedChart, 'fetchedAt'>) => {
+      const entry = { ...cached, fetchedAt: Date.now() };
+      cacheRef.current.set(key, entry);
+      if (currentKeyRef.current === key) showCached(entry);
+    };
+
     try {
-      setLoading(true);
+      // Cached charts stay up while they refresh
+      setLoading(!cacheRef.current.has(key));
       setError(null);
       
       // Cancel previous request
@@ -83,82 +103,127 @@ export const useChartData = ({
       }
       
       abortControllerRef.current = new AbortController();
-      currentSymbolRef.current = targetSymbol;
-      
-             // If no API key, use demo data
-       if (!FINNHUB_API_KEY) {
-         // Simulate API delay
-         await new Promise(resolve => setTimeout(resolve, 500));
-         
-         if (currentSymbolRef.current === targetSymbol) {
-           const demoData = generateDemoChartData(targetSymbol);
-           setChartData(demoData);
-           setIsDemoData(true);
-           setLoading(false);
-         }
-         return;
-       }
+      currentKeyRef.current = key;
       
-      const data = await StockAPIService.getHistoricalData(
+      // The chart belongs to the selected stock, so it jumps the request queue
+      const data = await provider.getHistoricalData(
         targetSymbol,
-        abortControllerRef.current.signal
+        historyRange,
+        abortControllerRef.current.signal,
+        'high'
       );
       
-      console.log('Chart data received for', targetSymbol, data); // Debug log
-      
-             // Only set data if this is still the current symbol
-       if (currentSymbolRef.current === targetSymbol) {
-         // If no data from API, fallback to demo data for testing
-         if (!data.prices || data.prices.length === 0) {
-           console.warn(`No historical data available for ${targetSymbol}, using demo data`);
-           const fallbackData = generateDemoChartData(targetSymbol);
-           setChartData(fallbackData);
-           setIsDemoData(true);
-           setError(`Limited historical data available for ${targetSymbol}`);
-         } else {
-           setChartData(data);
-           setIsDemoData(false);
-         }
-       }
+      // If no data from API, fallback to demo data for testing
+      if (data.candles.length === 0) {
+        console.warn(`No historical data available for ${targetSymbol}, using demo data`);
+        store({
+          data: trimToRange(generateDemoChartData(targetSymbol, historyRange), range),
+          isDemoData: true,
+          error: `Limited historical data available for ${targetSymbol}`,
+        });
+      } else {
+        store({ data: trimToRange(data, range), isDemoData: provider.isDemo, error: null });
+      }
       
     } catch (err: any) {
-      if (err.name !== 'AbortError' && currentSymbolRef.current === targetSymbol) {
+      if (err.name !== 'AbortError' && currentKeyRef.current === key) {
         // Handle 403 errors (API limitations) gracefully
         if (err.status === 403) {
           console.warn(`Historical data not available for ${targetSymbol} in free tier`);
           setError(`Historical data requires paid plan for ${targetSymbol}`);
         } else {
-          setError(err.message || 'Failed to fetch chart data');
+          setError(getErrorMessage(err, 'Failed to fetch chart data'));
         }
-        setChartData({ symbol: targetSymbol, prices: [] });
+        setChartData(emptyHistory(targetSymbol, historyRange));
       }
     } finally {
-      if (currentSymbolRef.current === targetSymbol) {
+      if (currentKeyRef.current === key) {
         setLoading(false);
       }
     }
-  }, []);
+  }, [provider, range, showCached]);
 
   const clearData = useCallback(() => {
     setChartData(null);
     setError(null);
     setLoading(false);
     setIsDemoData(false);
-    currentSymbolRef.current = null;
+    currentKeyRef.current = null;
     
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
     }
   }, []);
 
-  // Handle symbol changes
+  // Another provider's charts can't be reused
   useEffect(() => {
-    if (symbol) {
-      fetchChartData(symbol);
-    } else {
+    cacheRef.current = new Map();
+  }, [provider]);
+
+  // Handle symbol and range changes, showing a cached chart when there is
+  // one and refetching only once it has gone stale
+  useEffect(() => {
+    if (!symbol) {
       clearData();
+      return;
+    }
+
+    const key = cacheKey(symbol, range);
+    const cached = cacheRef.current.get(key);
+    if (!cached) {
+      fetchChartData(symbol);
+      return;
     }
-  }, [symbol, fetchChartData, clearData]);
+
+    abortControllerRef.current?.abort();
+    currentKeyRef.current = key;
+    showCached(cached);
+    if (isStale(cached)) {
+      fetchChartData(symbol);
+    }
+  }, [symbol, range, fetchChartData, clearData, showCached]);
+
+  // Compared symbols share the cache but load in the background, and are
+  // left out rather than replaced with demo data when they have no history
+  const [comparisonData, setComparisonData] = useState<HistoricalData[]>([]);
+  const compareKey = compareSymbols.join(',');
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const historyRange = createChartRange(range);
+    const symbols = compareKey.split(',').filter(Boolean);
+
+    const showLoaded = () => setComparisonData(symbols.flatMap(compareSymbol => {
+      const cached = cacheRef.current.get(cacheKey(compareSymbol, range));
+      return cached ? [cached.data] : [];
+    }));
+    showLoaded();
+
+    symbols.forEach(async compareSymbol => {
+      const cached = cacheRef.current.get(cacheKey(compareSymbol, range));
+      if (cached && !isStale(cached)) return;
+
+      try {
+        const data = await provider.getHistoricalData(compareSymbol, historyRange, controller.signal, 'normal');
+        if (!controller.signal.aborted && data.candles.length > 0) {
+          cacheRef.current.set(cacheKey(compareSymbol, range), {
+            data: trimToRange(data, range),
+            isDemoData: provider.isDemo,
+            error: null,
+            fetchedAt: Date.now(),
+          });
+          showLoaded();
+        }
+      } catch (err: any) {
+        if (err.name !== 'AbortError') {
+          console.warn(`Failed to load comparison data for ${compareSymbol}:`, err);
+        }
+      }
+    });
+
+    return () => controller.abort();
+  }, [compareKey, range, provider]);
+
 
   // Setup auto-refresh for chart data
   useEffect(() => {
@@ -194,6 +259,7 @@ export const useChartData = ({
     loading,
     error,
     isDemoData,
+    comparisonData,
     fetchChartData,
     clearData
   };
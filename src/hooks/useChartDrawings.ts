@@ -0,0 +1,84 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ChartDrawing, NewChartDrawing } from '../types/stock.types';
+import { DrawingStore, mergeDrawings, parseDrawings, serializeDrawings } from '../utils/drawings';
+import SessionStorage from '../utils/sessionStorage';
+
+interface UseChartDrawingsReturn {
+  /** Drawings on the given symbol's chart */
+  drawings: ChartDrawing[];
+  addDrawing: (drawing: NewChartDrawing) => ChartDrawing;
+  removeDrawing: (id: string) => void;
+  clearDrawings: () => void;
+  /** Record the alert created from a horizontal level */
+  linkAlert: (id: string, alertId: string) => void;
+  /** Every symbol's drawings as JSON */
+  exportDrawings: () => string;
+  /** Merge drawings from an export; throws if the file isn't one */
+  importDrawings: (json: string) => { imported: number; skipped: number };
+}
+
+const createId = (): string =>
+  `dr_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+const NO_DRAWINGS: ChartDrawing[] = [];
+
+/**
+ * Annotations drawn on each symbol's chart, persisted via SessionStorage
+ */
+export const useChartDrawings = (symbol: string | null): UseChartDrawingsReturn => {
+  const [store, setStore] = useState<DrawingStore>(() => SessionStorage.getChartDrawings());
+
+  useEffect(() => {
+    SessionStorage.setChartDrawings(store);
+  }, [store]);
+
+  const updateSymbol = useCallback((update: (drawings: ChartDrawing[]) => ChartDrawing[]) => {
+    if (!symbol) return;
+    setStore(prev => {
+      const next = update(prev[symbol] ?? []);
+      const { [symbol]: _removed, ...rest } = prev;
+      return next.length > 0 ? { ...rest, [symbol]: next } : rest;
+    });
+  }, [symbol]);
+
+  const addDrawing = useCallback((drawing: NewChartDrawing): ChartDrawing => {
+    const created = { ...drawing, id: createId(), createdAt: Date.now() } as ChartDrawing;
+    updateSymbol(drawings => [...drawings, created]);
+    return created;
+  }, [updateSymbol]);
+
+  const removeDrawing = useCallback((id: string) => {
+    updateSymbol(drawings => drawings.filter(drawing => drawing.id !== id));
+  }, [updateSymbol]);
+
+  const clearDrawings = useCallback(() => {
+    updateSymbol(() => []);
+  }, [updateSymbol]);
+
+  const linkAlert = useCallback((id: string, alertId: string) => {
+    updateSymbol(drawings => drawings.map(drawing =>
+      drawing.id === id && drawing.type === 'horizontalLine' ? { ...drawing, alertId } : drawing
+    ));
+  }, [updateSymbol]);
+
+  const exportDrawings = useCallback(() => serializeDrawings(store), [store]);
+
+  const importDrawings = useCallback((json: string) => {
+    const { drawings, skipped } = parseDrawings(json);
+    setStore(prev => mergeDrawings(prev, drawings));
+    const imported = Object.values(drawings).reduce((sum, list) => sum + list.length, 0);
+    return { imported, skipped };
+  }, []);
+
+  return {
+    drawings: (symbol && store[symbol]) || NO_DRAWINGS,
+    addDrawing,
+    removeDrawing,
+    clearDrawings,
+    linkAlert,
+    exportDrawings,
+    importDrawings,
+  };
+};
+
+export default useChartDrawings;
@@ -0,0 +1,68 @@
+import { useState, useEffect, useCallback } from 'react';
+import { IndicatorConfig, IndicatorType } from '../types/stock.types';
+import { createIndicator, INDICATORS } from '../utils/chartIndicators';
+import SessionStorage from '../utils/sessionStorage';
+
+interface UseChartIndicatorsReturn {
+  /** Indicators on the given symbol's chart */
+  indicators: IndicatorConfig[];
+  addIndicator: (type: IndicatorType) => void;
+  updateIndicator: (id: string, changes: Partial<Pick<IndicatorConfig, 'params' | 'color'>>) => void;
+  removeIndicator: (id: string) => void;
+}
+
+const loadIndicators = (): Record<string, IndicatorConfig[]> => {
+  const stored = SessionStorage.getChartIndicators();
+  // Drop anything saved by a version with indicator types this one doesn't know
+  return Object.fromEntries(
+    Object.entries(stored).map(([symbol, indicators]) => [
+      symbol,
+      Array.isArray(indicators) ? indicators.filter(indicator => indicator.type in INDICATORS) : [],
+    ])
+  );
+};
+
+const NO_INDICATORS: IndicatorConfig[] = [];
+
+/**
+ * Chart indicators chosen for each symbol, persisted via SessionStorage
+ */
+export const useChartIndicators = (symbol: string | null): UseChartIndicatorsReturn => {
+  const [bySymbol, setBySymbol] = useState<Record<string, IndicatorConfig[]>>(loadIndicators);
+
+  useEffect(() => {
+    SessionStorage.setChartIndicators(bySymbol);
+  }, [bySymbol]);
+
+  const updateSymbol = useCallback((update: (indicators: IndicatorConfig[]) => IndicatorConfig[]) => {
+    if (!symbol) return;
+    setBySymbol(prev => {
+      const next = update(prev[symbol] ?? []);
+      const { [symbol]: _removed, ...rest } = prev;
+      return next.length > 0 ? { ...rest, [symbol]: next } : rest;
+    });
+  }, [symbol]);
+
+  const addIndicator = useCallback((type: IndicatorType) => {
+    updateSymbol(indicators => [...indicators, createIndicator(type, indicators)]);
+  }, [updateSymbol]);
+
+  const updateIndicator = useCallback((id: string, changes: Partial<Pick<IndicatorConfig, 'params' | 'color'>>) => {
+    updateSymbol(indicators =>
+      indicators.map(indicator => indicator.id === id ? { ...indicator, ...changes } : indicator)
+    );
+  }, [updateSymbol]);
+
+  const removeIndicator = useCallback((id: string) => {
+    updateSymbol(indicators => indicators.filter(indicator => indicator.id !== id));
+  }, [updateSymbol]);
+
+  return {
+    indicators: (symbol && bySymbol[symbol]) || NO_INDICATORS,
+    addIndicator,
+    updateIndicator,
+    removeIndicator,
+  };
+};
+
+export default useChartIndicators;
@@ -0,0 +1,71 @@
+import { useState, useEffect, useRef } from 'react';
+import { Candle } from '../types/stock.types';
+import { MarketDataProvider } from '../services/providers/MarketDataProvider';
+import { useMarketDataProvider } from './useMarketDataProvider';
+import { createHistoryRange } from '../utils/candles';
+import { toDateKey } from '../utils/portfolio';
+
+interface UseDailyHistoryOptions {
+  /** How far back to fetch, in calendar days */
+  days: number;
+  /** Overrides the active provider from MarketDataRegistry */
+  provider?: MarketDataProvider;
+}
+
+/**
+ * Daily candles for a set of symbols, fetched in the background once per
+ * symbol per day. Symbols whose history failed to load are left out.
+ */
+export const useDailyHistory = (
+  symbols: string[],
+  { days, provider: providerOverride }: UseDailyHistoryOptions
+): Map<string, Candle[]> => {
+  const activeProvider = useMarketDataProvider();
+  const provider = providerOverride ?? activeProvider;
+
+  const [history, setHistory] = useState<Map<string, Candle[]>>(new Map());
+  const [today, setToday] = useState(() => toDateKey());
+  // Symbols already fetched today, so adding one doesn't refetch the rest
+  const loadedRef = useRef(new Set<string>());
+
+  const symbolsKey = Array.from(new Set(symbols)).sort().join(',');
+
+  // Roll over to a fresh fetch when the date changes
+  useEffect(() => {
+    const timer = setInterval(() => setToday(toDateKey()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // A new provider or day starts from scratch
+  useEffect(() => {
+    loadedRef.current = new Set();
+    setHistory(new Map());
+  }, [provider, today]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const range = createHistoryRange('D', days);
+
+    const pending = symbolsKey.split(',').filter(symbol => symbol && !loadedRef.current.has(symbol));
+
+    pending.forEach(async symbol => {
+      try {
+        const data = await provider.getHistoricalData(symbol, range, controller.signal, 'low');
+        if (!controller.signal.aborted) {
+          loadedRef.current.add(symbol);
+          setHistory(prev => new Map(prev).set(symbol, data.candles));
+        }
+      } catch (error: any) {
+        if (error.name !== 'AbortError') {
+          console.warn(`Failed to load daily history for ${symbol}:`, error);
+        }
+      }
+    });
+
+    return () => controller.abort();
+  }, [symbolsKey, days, provider, today]);
+
+  return history;
+};
+
+export default useDailyHistory;
@@ -0,0 +1,41 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Holding } from '../types/stock.types';
+import SessionStorage from '../utils/sessionStorage';
+
+interface UseHoldingsReturn {
+  holdings: Holding[];
+  /** Add a holding, or replace the existing one for the same symbol */
+  saveHolding: (holding: Holding) => void;
+  removeHolding: (symbol: string) => void;
+}
+
+/**
+ * Portfolio holdings, one per symbol, persisted via SessionStorage
+ */
+export const useHoldings = (): UseHoldingsReturn => {
+  const [holdings, setHoldings] = useState<Holding[]>(() => SessionStorage.getHoldings());
+
+  useEffect(() => {
+    SessionStorage.setHoldings(holdings);
+  }, [holdings]);
+
+  const saveHolding = useCallback((holding: Holding) => {
+    setHoldings(prev => {
+      const index = prev.findIndex(existing => existing.symbol === holding.symbol);
+      if (index === -1) return [...prev, holding];
+      return prev.map((existing, i) => i === index ? holding : existing);
+    });
+  }, []);
+
+  const removeHolding = useCallback((symbol: string) => {
+    setHoldings(prev => prev.filter(holding => holding.symbol !== symbol));
+  }, []);
+
+  return {
+    holdings,
+    saveHolding,
+    removeHolding
+  };
+};
+
+export default useHoldings;
@@ -0,0 +1,101 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  Holding,
+  LedgerResult,
+  LedgerState,
+  LotMethod,
+  RealizedGainsYear,
+  Transaction
+} from '../types/stock.types';
+import { replayLedger, holdingsFromLots, summarizeGainsByYear } from '../utils/ledger';
+import SessionStorage from '../utils/sessionStorage';
+
+interface UseLedgerReturn {
+  transactions: Transaction[];
+  lotMethod: LotMethod;
+  setLotMethod: (method: LotMethod) => void;
+  addTransaction: (transaction: Omit<Transaction, 'id'>) => Transaction;
+  /** Add many transactions at once, e.g. from an import */
+  addTransactions: (transactions: Array<Omit<Transaction, 'id'>>) => Transaction[];
+  removeTransaction: (id: string) => void;
+  /** Open lots, realized gains and issues from replaying the ledger */
+  result: LedgerResult;
+  /** Positions derived from the open lots, one per symbol */
+  holdings: Holding[];
+  /** Symbols with buys, sells or splits, whose position the ledger decides */
+  managedSymbols: Set<string>;
+  gainsByYear: RealizedGainsYear[];
+}
+
+const createId = (): string =>
+  `tx_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+const loadLedger = (): LedgerState => {
+  const stored = SessionStorage.getLedger();
+  return stored && Array.isArray(stored.transactions)
+    ? stored
+    : { transactions: [], lotMethod: 'fifo' };
+};
+
+/**
+ * Trade ledger persisted via SessionStorage; positions and gains are derived by replaying it
+ */
+export const useLedger = (): UseLedgerReturn => {
+  const [state, setState] = useState<LedgerState>(loadLedger);
+
+  useEffect(() => {
+    SessionStorage.setLedger(state);
+  }, [state]);
+
+  const setLotMethod = useCallback((lotMethod: LotMethod) => {
+    setState(prev => ({ ...prev, lotMethod }));
+  }, []);
+
+  const addTransactions = useCallback((entries: Array<Omit<Transaction, 'id'>>): Transaction[] => {
+    const created = entries.map(entry => ({ ...entry, id: createId() }));
+    setState(prev => ({ ...prev, transactions: [...prev.transactions, ...created] }));
+    return created;
+  }, []);
+
+  const addTransaction = useCallback(
+    (entry: Omit<Transaction, 'id'>): Transaction => addTransactions([entry])[0],
+    [addTransactions]
+  );
+
+  const removeTransaction = useCallback((id: string) => {
+    setState(prev => ({
+      ...prev,
+      transactions: prev.transactions.filter(transaction => transaction.id !== id),
+    }));
+  }, []);
+
+  const result = useMemo(
+    () => replayLedger(state.transactions, state.lotMethod),
+    [state.transactions, state.lotMethod]
+  );
+  const holdings = useMemo(() => holdingsFromLots(result.openLots), [result]);
+  const gainsByYear = useMemo(() => summarizeGainsByYear(result), [result]);
+  const managedSymbols = useMemo(
+    () => new Set(
+      state.transactions
+        .filter(transaction => transaction.type !== 'dividend' && transaction.type !== 'fee')
+        .map(transaction => transaction.symbol)
+    ),
+    [state.transactions]
+  );
+
+  return {
+    transactions: state.transactions,
+    lotMethod: state.lotMethod,
+    setLotMethod,
+    addTransaction,
+    addTransactions,
+    removeTransaction,
+    result,
+    holdings,
+    managedSymbols,
+    gainsByYear
+  };
+};
+
+export default useLedger;
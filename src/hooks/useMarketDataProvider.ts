@@ -0,0 +1,17 @@
+import { useSyncExternalStore } from 'react';
+import { MarketDataProvider } from '../services/providers/MarketDataProvider';
+import MarketDataRegistry from '../services/providers/MarketDataRegistry';
+
+/**
+ * Subscribe to the active market data provider.
+ * Components re-render (and data hooks refetch) when the provider is switched.
+ */
+export const useMarketDataProvider = (): MarketDataProvider => {
+  return useSyncExternalStore(
+    MarketDataRegistry.subscribe,
+    MarketDataRegistry.getProvider,
+    MarketDataRegistry.getProvider
+  );
+};
+
+export default useMarketDataProvider;
@@ -0,0 +1,64 @@
+import { useState, useEffect, useRef } from 'react';
+import { TradeTick, StreamStatus } from '../types/stock.types';
+import { QuoteStream } from '../services/streaming/QuoteStream';
+
+interface UseQuoteStreamOptions {
+  /** Stream endpoint; null disables streaming */
+  url: string | null;
+  symbols: string[];
+  onTrades: (trades: TradeTick[]) => void;
+}
+
+/**
+ * Keep a QuoteStream connected for the lifetime of the component,
+ * resubscribing whenever the symbol list changes.
+ */
+export const useQuoteStream = ({
+  url,
+  symbols,
+  onTrades
+}: UseQuoteStreamOptions): StreamStatus => {
+  const [status, setStatus] = useState<StreamStatus>('idle');
+  const streamRef = useRef<QuoteStream | null>(null);
+  const onTradesRef = useRef(onTrades);
+  const symbolsRef = useRef(symbols);
+
+  useEffect(() => {
+    onTradesRef.current = onTrades;
+  }, [onTrades]);
+
+  // Open a stream per endpoint
+  useEffect(() => {
+    if (!url) {
+      setStatus('idle');
+      return;
+    }
+
+    const stream = new QuoteStream(url);
+    streamRef.current = stream;
+
+    const unsubscribeStatus = stream.onStatusChange(setStatus);
+    const unsubscribeTrades = stream.onTrades(trades => onTradesRef.current(trades));
+
+    stream.setSymbols(symbolsRef.current);
+    stream.connect();
+
+    return () => {
+      unsubscribeStatus();
+      unsubscribeTrades();
+      stream.disconnect();
+      streamRef.current = null;
+      setStatus('idle');
+    };
+  }, [url]);
+
+  // Resubscribe when symbols are added or removed
+  useEffect(() => {
+    symbolsRef.current = symbols;
+    streamRef.current?.setSymbols(symbols);
+  }, [symbols]);
+
+  return status;
+};
+
+export default useQuoteStream;
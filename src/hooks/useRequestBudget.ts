@@ -0,0 +1,28 @@
+import { useState, useEffect } from 'react';
+import { RateLimitStatus } from '../services/scheduler/RequestScheduler';
+import { useMarketDataProvider } from './useMarketDataProvider';
+
+/**
+ * Poll the active provider's remaining request budget.
+ * Returns null for providers without a rate limit (e.g. demo data).
+ */
+export const useRequestBudget = (pollInterval = 1000): RateLimitStatus | null => {
+  const provider = useMarketDataProvider();
+  const [status, setStatus] = useState<RateLimitStatus | null>(
+    () => provider.getRateLimit?.() ?? null
+  );
+
+  useEffect(() => {
+    const update = () => setStatus(provider.getRateLimit?.() ?? null);
+    update();
+
+    if (!provider.getRateLimit) return;
+
+    const interval = setInterval(update, pollInterval);
+    return () => clearInterval(interval);
+  }, [provider, pollInterval]);
+
+  return status;
+};
+
+export default useRequestBudget;
@@ -0,0 +1,53 @@
+import { renderHook, waitFor, act } from '@testing-library/react';
+import useStockData from './useStockData';
+import { InMemoryProvider } from '../services/providers/InMemoryProvider';
+
+const createProvider = () => new InMemoryProvider({
+  quotes: [
+    { symbol: 'AAPL', price: 190, change: 1, changePercent: 0.5, previousClose: 189, high: 191, low: 188, open: 189, volume: 1000 },
+    { symbol: 'MSFT', price: 410, change: -2, changePercent: -0.4, previousClose: 412, high: 413, low: 409, open: 412, volume: 2000 },
+  ],
+  profiles: [
+    { symbol: 'AAPL', name: 'Apple Inc.' },
+  ],
+});
+
+test('loads quotes and profiles from the supplied provider', async () => {
+  const provider = createProvider();
+  const symbols = ['AAPL', 'MSFT'];
+  const { result } = renderHook(() => useStockData({ symbols, provider }));
+
+  await waitFor(() => expect(result.current.loading).toBe(false));
+
+  expect(result.current.stocks.map(s => s.symbol)).toEqual(['AAPL', 'MSFT']);
+  expect(result.current.profiles.get('AAPL')?.name).toBe('Apple Inc.');
+  expect(result.current.profiles.get('MSFT')?.name).toBe('MSFT');
+});
+
+test('skips symbols the provider has no quote for', async () => {
+  const provider = createProvider();
+  const symbols = ['AAPL', 'ZZZZ'];
+  const { result } = renderHook(() => useStockData({ symbols, provider }));
+
+  await waitFor(() => expect(result.current.loading).toBe(false));
+
+  expect(result.current.stocks.map(s => s.symbol)).toEqual(['AAPL']);
+});
+
+test('reports quote updates with the quotes they replace', async () => {
+  const provider = createProvider();
+  const symbols = ['AAPL'];
+  const onQuotesUpdate = jest.fn();
+  const { result } = renderHook(() => useStockData({ symbols, provider, onQuotesUpdate }));
+
+  await waitFor(() => expect(onQuotesUpdate).toHaveBeenCalledTimes(1));
+  expect(onQuotesUpdate.mock.calls[0][0].map((s: { symbol: string }) => s.symbol)).toEqual(['AAPL']);
+  expect(onQuotesUpdate.mock.calls[0][1]).toEqual([]);
+
+  await act(async () => {
+    await result.current.fetchStockData();
+  });
+
+  expect(onQuotesUpdate).toHaveBeenCalledTimes(2);
+  expect(onQuotesUpdate.mock.calls[1][1]).toBe(onQuotesUpdate.mock.calls[0][0]);
+});
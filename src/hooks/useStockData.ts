@@ -1,12 +1,25 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { StockQuote, CompanyProfile } from '../types/stock.types';
-import StockAPIService from '../services/StockAPIService';
-import { REQUEST_DELAY, FINNHUB_API_KEY, DEMO_STOCKS, DEMO_PROFILES } from '../utils/constants';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { StockQuote, CompanyProfile, TradeTick, StreamStatus } from '../types/stock.types';
+import { MarketDataProvider } from '../services/providers/MarketDataProvider';
+import { getBatchQuotes, getBatchProfiles } from '../services/providers/batch';
+import { applyTrades } from '../services/streaming/applyTrades';
+import { RequestPriority } from '../services/scheduler/RequestScheduler';
+import { useMarketDataProvider } from './useMarketDataProvider';
+import { useQuoteStream } from './useQuoteStream';
+import { getErrorMessage } from '../utils/errors';
 
 interface UseStockDataOptions {
   symbols: string[];
   autoRefresh?: boolean;
   refreshInterval?: number;
+  /** Overrides the active provider from MarketDataRegistry */
+  provider?: MarketDataProvider;
+  /** Stream trades over WebSocket when the provider supports it; polling resumes if the socket drops */
+  streaming?: boolean;
+  /** Symbol fetched ahead of the rest of the batch, e.g. the selected stock */
+  prioritySymbol?: string | null;
+  /** Called on every quote update, polled or streamed, with the quotes before it */
+  onQuotesUpdate?: (quotes: StockQuote[], previousQuotes: StockQuote[]) => void;
 }
 
 interface UseStockDataReturn {
@@ -15,6 +28,7 @@ interface UseStockDataReturn {
   loading: boolean;
   error: string | null;
   refreshing: boolean;
+  streamStatus: StreamStatus;
   fetchStockData: () => Promise<void>;
   addSymbol: (symbol: string) => void;
   removeSymbol: (symbol: string) => void;
@@ -23,8 +37,15 @@ interface UseStockDataReturn {
 export const useStockData = ({
   symbols,
   autoRefresh = false,
-  refreshInterval = 60000 // 1 minute
+  refreshInterval = 60000, // 1 minute
+  provider: providerOverride,
+  streaming = true,
+  prioritySymbol = null,
+  onQuotesUpdate
 }: UseStockDataOptions): UseStockDataReturn => {
+  const activeProvider = useMarketDataProvider();
+  const provider = providerOverride ?? activeProvider;
+
   const [stocks, setStocks] = useState<StockQuote[]>([]);
   const [profiles, setProfiles] = useState<Map<string, CompanyProfile>>(new Map());
   const [loading, setLoading] = useState(true);
@@ -34,31 +55,17 @@ export const useStockData = ({
 
   const abortControllerRef = useRef<AbortController | null>(null);
   const refreshIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  // Read through a ref so changing the selection doesn't trigger a refetch
+  const prioritySymbolRef = useRef(prioritySymbol);
+  prioritySymbolRef.current = prioritySymbol;
+  const onQuotesUpdateRef = useRef(onQuotesUpdate);
+  onQuotesUpdateRef.current = onQuotesUpdate;
+  const previousStocksRef = useRef(stocks);
 
-  const fetchStockData = useCallback(async () => {
+  const fetchStockData = useCallback(async (priority: RequestPriority = 'normal') => {
     try {
       setError(null);
       
-      // If no API key, use demo data
-      if (!FINNHUB_API_KEY) {
-        const demoStocks = DEMO_STOCKS.filter(stock => 
-          trackedSymbols.includes(stock.symbol)
-        );
-        setStocks(demoStocks);
-        
-        const demoProfiles = new Map();
-        trackedSymbols.forEach(symbol => {
-          const profile = DEMO_PROFILES.get(symbol);
-          if (profile) {
-            demoProfiles.set(symbol, profile);
-          }
-        });
-        setProfiles(demoProfiles);
-        setLoading(false);
-        setRefreshing(false);
-        return;
-      }
-      
       // Cancel previous request
       if (abortControllerRef.current) {
         abortControllerRef.current.abort();
@@ -67,10 +74,11 @@ export const useStockData = ({
       abortControllerRef.current = new AbortController();
       
       // Fetch stock quotes
-      const stockResults = await StockAPIService.getBatchStockQuotes(
+      const stockResults = await getBatchQuotes(
+        provider,
         trackedSymbols,
         abortControllerRef.current.signal,
-        REQUEST_DELAY
+        { priority, prioritySymbol: prioritySymbolRef.current }
       );
       
       // Only include valid stocks
@@ -78,10 +86,11 @@ export const useStockData = ({
       setStocks(validStocks);
       
       // Fetch company profiles for valid stocks
-      const profileResults = await StockAPIService.getBatchCompanyProfiles(
+      const profileResults = await getBatchProfiles(
+        provider,
         validStocks.map(s => s.symbol),
         abortControllerRef.current.signal,
-        REQUEST_DELAY
+        { priority: 'low', prioritySymbol: prioritySymbolRef.current }
       );
       
       setProfiles(profileResults);
@@ -90,7 +99,7 @@ export const useStockData = ({
       if (err.name !== 'AbortError') {
         // Don't show 403 errors as user-facing errors since they're API limitations
         if (err.status !== 403) {
-          setError(err.message || 'Failed to fetch stock data');
+          setError(getErrorMessage(err));
         }
         console.error('Error in useStockData:', err);
       }
@@ -98,13 +107,19 @@ export const useStockData = ({
       setLoading(false);
       setRefreshing(false);
     }
-  }, [trackedSymbols]);
+  }, [trackedSymbols, provider]);
 
   const handleRefresh = useCallback(async () => {
     setRefreshing(true);
     await fetchStockData();
   }, [fetchStockData]);
 
+  // Timed refreshes yield to user-initiated requests
+  const handleBackgroundRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await fetchStockData('low');
+  }, [fetchStockData]);
+
   const addSymbol = useCallback((symbol: string) => {
     const normalizedSymbol = symbol.toUpperCase().trim();
     if (normalizedSymbol && !trackedSymbols.includes(normalizedSymbol)) {
@@ -116,10 +131,31 @@ export const useStockData = ({
     setTrackedSymbols(prev => prev.filter(s => s !== symbol));
   }, []);
 
-  // Setup auto-refresh
+  const handleTrades = useCallback((trades: TradeTick[]) => {
+    setStocks(prev => applyTrades(prev, trades));
+  }, []);
+
+  // Stream live trades for the tracked symbols
+  const streamStatus = useQuoteStream({
+    url: streaming ? provider.getStreamUrl?.() ?? null : null,
+    symbols: trackedSymbols,
+    onTrades: handleTrades
+  });
+  const isStreaming = streamStatus === 'open';
+  const previousStreamStatusRef = useRef<StreamStatus>(streamStatus);
+
+  // Catch up immediately when the stream drops, then keep polling until it reconnects
+  useEffect(() => {
+    if (previousStreamStatusRef.current === 'open' && streamStatus === 'closed') {
+      fetchStockData();
+    }
+    previousStreamStatusRef.current = streamStatus;
+  }, [streamStatus, fetchStockData]);
+
+  // Setup auto-refresh, paused while the stream delivers live prices
   useEffect(() => {
-    if (autoRefresh && refreshInterval > 0) {
-      refreshIntervalRef.current = setInterval(handleRefresh, refreshInterval);
+    if (autoRefresh && refreshInterval > 0 && !isStreaming) {
+      refreshIntervalRef.current = setInterval(handleBackgroundRefresh, refreshInterval);
       
       return () => {
         if (refreshIntervalRef.current) {
@@ -127,7 +163,7 @@ export const useStockData = ({
         }
       };
     }
-  }, [autoRefresh, refreshInterval, handleRefresh]);
+  }, [autoRefresh, refreshInterval, handleBackgroundRefresh, isStreaming]);
 
   // Initial data fetch and cleanup
   useEffect(() => {
@@ -143,17 +179,31 @@ export const useStockData = ({
     };
   }, [fetchStockData]);
 
+  // Report each quote update along with the quotes it replaced
+  useEffect(() => {
+    if (stocks === previousStocksRef.current) return;
+    onQuotesUpdateRef.current?.(stocks, previousStocksRef.current);
+    previousStocksRef.current = stocks;
+  }, [stocks]);
+
   // Update tracked symbols when props change
   useEffect(() => {
     setTrackedSymbols(symbols);
   }, [symbols]);
 
+  // Hide quotes for symbols that left the list (e.g. on a watchlist switch) until the next fetch lands
+  const visibleStocks = useMemo(
+    () => stocks.filter(stock => trackedSymbols.includes(stock.symbol)),
+    [stocks, trackedSymbols]
+  );
+
   return {
-    stocks,
+    stocks: visibleStocks,
     profiles,
     loading,
     error,
     refreshing,
+    streamStatus,
     fetchStockData: handleRefresh,
     addSymbol,
     removeSymbol
@@ -0,0 +1,67 @@
+import { useState, useEffect, useRef } from 'react';
+import { SymbolCheckStatus } from '../types/stock.types';
+import { MarketDataProvider } from '../services/providers/MarketDataProvider';
+import { validateSymbol } from '../services/providers/batch';
+import { useMarketDataProvider } from './useMarketDataProvider';
+import { parseSymbol } from '../utils/symbols';
+
+interface UseSymbolCheckOptions {
+  /** Symbols already known good, e.g. from watchlists or the ledger; never looked up */
+  known?: Set<string>;
+  /** Overrides the active provider from MarketDataRegistry */
+  provider?: MarketDataProvider;
+}
+
+/**
+ * Check that symbols exist. Malformed tickers are unknown straight away, known
+ * ones skip the lookup, and the rest are validated against the provider.
+ * Offline, lookups are skipped and those symbols stay 'unchecked'.
+ */
+export const useSymbolCheck = (
+  symbols: string[],
+  { known, provider: providerOverride }: UseSymbolCheckOptions = {}
+): Map<string, SymbolCheckStatus> => {
+  const activeProvider = useMarketDataProvider();
+  const provider = providerOverride ?? activeProvider;
+
+  const [statuses, setStatuses] = useState<Map<string, SymbolCheckStatus>>(new Map());
+  // Read through a ref so a new set with the same symbols doesn't restart the lookups
+  const knownRef = useRef(known);
+  knownRef.current = known;
+
+  const symbolsKey = Array.from(new Set(symbols)).sort().join(',');
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const initial = new Map<string, SymbolCheckStatus>();
+    const lookups: string[] = [];
+
+    symbolsKey.split(',').filter(Boolean).forEach(symbol => {
+      if (!parseSymbol(symbol)) {
+        initial.set(symbol, 'unknown');
+      } else if (knownRef.current?.has(symbol)) {
+        initial.set(symbol, 'known');
+      } else if (!navigator.onLine) {
+        initial.set(symbol, 'unchecked');
+      } else {
+        initial.set(symbol, 'checking');
+        lookups.push(symbol);
+      }
+    });
+    setStatuses(initial);
+
+    lookups.forEach(async symbol => {
+      const exists = await validateSymbol(provider, symbol, controller.signal);
+      if (controller.signal.aborted) return;
+      // A failed lookup after losing the connection says nothing about the symbol
+      const status: SymbolCheckStatus = exists ? 'known' : navigator.onLine ? 'unknown' : 'unchecked';
+      setStatuses(prev => new Map(prev).set(symbol, status));
+    });
+
+    return () => controller.abort();
+  }, [symbolsKey, provider]);
+
+  return statuses;
+};
+
+export default useSymbolCheck;
@@ -0,0 +1,76 @@
+import { useState, useEffect } from 'react';
+import { SymbolSearchResult } from '../types/stock.types';
+import { MarketDataProvider } from '../services/providers/MarketDataProvider';
+import { searchSymbols } from '../services/providers/search';
+import { useMarketDataProvider } from './useMarketDataProvider';
+import { getErrorMessage } from '../utils/errors';
+import { SYMBOL_SEARCH_DEBOUNCE } from '../utils/constants';
+
+interface UseSymbolSearchOptions {
+  debounceMs?: number;
+  /** Overrides the active provider from MarketDataRegistry */
+  provider?: MarketDataProvider;
+}
+
+interface UseSymbolSearchReturn {
+  results: SymbolSearchResult[];
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Debounced symbol lookup for autocomplete.
+ * Each new query cancels the request still in flight for the previous one.
+ */
+export const useSymbolSearch = (
+  query: string,
+  { debounceMs = SYMBOL_SEARCH_DEBOUNCE, provider: providerOverride }: UseSymbolSearchOptions = {}
+): UseSymbolSearchReturn => {
+  const activeProvider = useMarketDataProvider();
+  const provider = providerOverride ?? activeProvider;
+
+  const [results, setResults] = useState<SymbolSearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setResults([]);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    setLoading(true);
+
+    const timer = setTimeout(async () => {
+      try {
+        const matches = await searchSymbols(provider, trimmed, controller.signal);
+        if (!controller.signal.aborted) {
+          setResults(matches);
+          setError(null);
+        }
+      } catch (err: any) {
+        if (err?.name !== 'AbortError' && !controller.signal.aborted) {
+          setResults([]);
+          setError(getErrorMessage(err, 'Symbol search failed'));
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    }, debounceMs);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, provider, debounceMs]);
+
+  return { results, loading, error };
+};
+
+export default useSymbolSearch;
@@ -0,0 +1,113 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { ColumnPreset, StockColumnId, TableColumnsState } from '../types/stock.types';
+import {
+  BUILT_IN_COLUMN_PRESETS,
+  findPreset,
+  normalizeColumns,
+  normalizeTableColumns,
+  presetName,
+  TABLE_COLUMNS
+} from '../utils/tableColumns';
+import SessionStorage from '../utils/sessionStorage';
+
+interface UseTableColumnsReturn {
+  /** Visible columns, left to right */
+  columns: StockColumnId[];
+  widths: Partial<Record<StockColumnId, number>>;
+  /** Built-in presets, then the ones the user saved */
+  presets: ColumnPreset[];
+  /** Preset the current columns match, if any */
+  activePresetId: string | null;
+  setColumns: (columns: StockColumnId[]) => void;
+  resizeColumn: (id: StockColumnId, width: number) => void;
+  resetWidths: () => void;
+  applyPreset: (id: string) => void;
+  /**
+   * Save the current layout under a name, replacing a saved preset with that
+   * name; names of built-in presets get a number
+   */
+  savePreset: (name: string) => void;
+  deletePreset: (id: string) => void;
+}
+
+const createId = (): string =>
+  `cp_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Watchlist table columns, their widths and saved presets, persisted via
+ * SessionStorage
+ */
+export const useTableColumns = (): UseTableColumnsReturn => {
+  const [state, setState] = useState<TableColumnsState>(
+    () => normalizeTableColumns(SessionStorage.getTableColumns())
+  );
+
+  useEffect(() => {
+    SessionStorage.setTableColumns(state);
+  }, [state]);
+
+  const presets = useMemo(() => [...BUILT_IN_COLUMN_PRESETS, ...state.presets], [state.presets]);
+
+  const setColumns = useCallback((columns: StockColumnId[]) => {
+    setState(prev => ({ ...prev, columns: normalizeColumns(columns) }));
+  }, []);
+
+  const resizeColumn = useCallback((id: StockColumnId, width: number) => {
+    setState(prev => ({
+      ...prev,
+      widths: { ...prev.widths, [id]: Math.max(TABLE_COLUMNS[id].minWidth, Math.round(width)) },
+    }));
+  }, []);
+
+  const resetWidths = useCallback(() => {
+    setState(prev => ({ ...prev, widths: {} }));
+  }, []);
+
+  const applyPreset = useCallback((id: string) => {
+    const preset = presets.find(p => p.id === id);
+    if (!preset) return;
+    setState(prev => ({ ...prev, columns: preset.columns, widths: preset.widths }));
+  }, [presets]);
+
+  const savePreset = useCallback((name: string) => {
+    if (!name.trim()) return;
+    const saveAs = presetName(name);
+    setState(prev => {
+      const existing = prev.presets.find(p => p.name.toLowerCase() === saveAs.toLowerCase());
+      const preset: ColumnPreset = {
+        id: existing?.id ?? createId(),
+        name: saveAs,
+        columns: prev.columns,
+        widths: prev.widths,
+      };
+      return {
+        ...prev,
+        presets: existing
+          ? prev.presets.map(p => p.id === existing.id ? preset : p)
+          : [...prev.presets, preset],
+      };
+    });
+  }, []);
+
+  const deletePreset = useCallback((id: string) => {
+    setState(prev => ({ ...prev, presets: prev.presets.filter(p => p.id !== id) }));
+  }, []);
+
+  // Saved presets win over built-in ones with the same columns
+  const activePresetId = (findPreset([...state.presets, ...BUILT_IN_COLUMN_PRESETS], state.columns)?.id) ?? null;
+
+  return {
+    columns: state.columns,
+    widths: state.widths,
+    presets,
+    activePresetId,
+    setColumns,
+    resizeColumn,
+    resetWidths,
+    applyPreset,
+    savePreset,
+    deletePreset,
+  };
+};
+
+export default useTableColumns;
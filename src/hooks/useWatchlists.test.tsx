@@ -0,0 +1,103 @@
+import { renderHook, act } from '@testing-library/react';
+import useWatchlists from './useWatchlists';
+import SessionStorage from '../utils/sessionStorage';
+import { DEFAULT_SYMBOLS } from '../utils/constants';
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+test('starts from the previously tracked symbols on first run', () => {
+  SessionStorage.setTrackedSymbols(['AAPL', 'SHOP.TO']);
+
+  const { result } = renderHook(() => useWatchlists());
+
+  expect(result.current.watchlists).toHaveLength(1);
+  expect(result.current.activeWatchlist).toMatchObject({
+    name: 'My Watchlist',
+    symbols: ['AAPL', 'SHOP.TO'],
+    sort: [{ field: 'company', direction: 'asc' }],
+  });
+});
+
+test('keeps symbols and sort separate per list and persists the switch', () => {
+  const { result } = renderHook(() => useWatchlists());
+  const firstId = result.current.activeWatchlist.id;
+
+  act(() => {
+    result.current.createWatchlist('Dividend');
+  });
+  act(() => {
+    result.current.addSymbol('KO');
+    result.current.addSymbol('PEP');
+    result.current.setSort([{ field: 'change', direction: 'desc' }, { field: 'volume', direction: 'asc' }]);
+  });
+
+  expect(result.current.activeWatchlist).toMatchObject({
+    name: 'Dividend',
+    symbols: ['KO', 'PEP'],
+    sort: [{ field: 'change', direction: 'desc' }, { field: 'volume', direction: 'asc' }],
+  });
+
+  act(() => {
+    result.current.selectWatchlist(firstId);
+  });
+  expect(result.current.activeWatchlist.symbols).toEqual(DEFAULT_SYMBOLS);
+  expect(result.current.activeWatchlist.sort).toEqual([{ field: 'company', direction: 'asc' }]);
+
+  // A fresh mount restores both lists and the active one
+  const { result: reloaded } = renderHook(() => useWatchlists());
+  expect(reloaded.current.watchlists.map(list => list.name)).toEqual(['My Watchlist', 'Dividend']);
+  expect(reloaded.current.activeWatchlist.id).toBe(firstId);
+});
+
+test('moves lists saved with a single sort field over to sort keys', () => {
+  localStorage.setItem('stock_dashboard_watchlists', JSON.stringify({
+    activeId: 'a',
+    watchlists: [
+      { id: 'a', name: 'Old', symbols: ['AAPL'], sortBy: 'symbol', sortDirection: 'desc' },
+      { id: 'b', name: 'Movers', symbols: ['TSLA'], sortBy: 'change', sortDirection: 'asc' },
+    ],
+  }));
+
+  const { result } = renderHook(() => useWatchlists());
+
+  expect(result.current.watchlists).toEqual([
+    { id: 'a', name: 'Old', symbols: ['AAPL'], sort: [{ field: 'company', direction: 'desc' }] },
+    { id: 'b', name: 'Movers', symbols: ['TSLA'], sort: [{ field: 'change', direction: 'asc' }] },
+  ]);
+});
+
+test('renames, duplicates with unique names and deletes lists', () => {
+  const { result } = renderHook(() => useWatchlists());
+  const firstId = result.current.activeWatchlist.id;
+
+  act(() => {
+    result.current.renameWatchlist(firstId, '  Tech  ');
+  });
+  act(() => {
+    result.current.duplicateWatchlist(firstId);
+  });
+  act(() => {
+    result.current.duplicateWatchlist(firstId);
+  });
+
+  expect(result.current.watchlists.map(list => list.name)).toEqual(['Tech', 'Tech copy', 'Tech copy 2']);
+  expect(result.current.activeWatchlist.name).toBe('Tech copy 2');
+  expect(result.current.activeWatchlist.symbols).toEqual(DEFAULT_SYMBOLS);
+
+  // Deleting the active list moves to its neighbour
+  act(() => {
+    result.current.deleteWatchlist(result.current.activeWatchlist.id);
+  });
+  expect(result.current.activeWatchlist.name).toBe('Tech copy');
+
+  act(() => {
+    result.current.deleteWatchlist(result.current.activeWatchlist.id);
+  });
+  act(() => {
+    result.current.deleteWatchlist(firstId);
+  });
+  // The last list stays
+  expect(result.current.watchlists.map(list => list.name)).toEqual(['Tech']);
+});
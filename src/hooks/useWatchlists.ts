@@ -0,0 +1,175 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Watchlist, WatchlistState, SortKey } from '../types/stock.types';
+import { DEFAULT_SYMBOLS } from '../utils/constants';
+import { DEFAULT_SORT, normalizeSort } from '../utils/sorting';
+import SessionStorage from '../utils/sessionStorage';
+
+interface UseWatchlistsReturn {
+  watchlists: Watchlist[];
+  activeWatchlist: Watchlist;
+  selectWatchlist: (id: string) => void;
+  /** Create a list and switch to it */
+  createWatchlist: (name: string, symbols?: string[]) => Watchlist;
+  renameWatchlist: (id: string, name: string) => void;
+  /** Copy a list, symbols and sort included, and switch to the copy */
+  duplicateWatchlist: (id: string) => Watchlist;
+  /** Delete a list; the last remaining list can't be deleted */
+  deleteWatchlist: (id: string) => void;
+  addSymbol: (symbol: string) => void;
+  removeSymbol: (symbol: string) => void;
+  /** Sort keys for the active list, most significant first */
+  setSort: (sort: SortKey[]) => void;
+}
+
+const DEFAULT_WATCHLIST_NAME = 'My Watchlist';
+
+const createId = (): string =>
+  `wl_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Make a name unique among the existing lists: "Tech", "Tech 2", "Tech 3"...
+ */
+const uniqueName = (name: string, watchlists: Watchlist[], exceptId?: string): string => {
+  const taken = new Set(watchlists.filter(list => list.id !== exceptId).map(list => list.name));
+  if (!taken.has(name)) return name;
+
+  let suffix = 2;
+  while (taken.has(`${name} ${suffix}`)) suffix++;
+  return `${name} ${suffix}`;
+};
+
+const newWatchlist = (name: string, symbols: string[]): Watchlist => ({
+  id: createId(),
+  name,
+  symbols,
+  sort: DEFAULT_SORT,
+});
+
+/**
+ * Load saved lists, starting from the old single watchlist on first run
+ */
+const loadWatchlists = (): WatchlistState => {
+  const stored = SessionStorage.getWatchlists();
+  if (stored && Array.isArray(stored.watchlists) && stored.watchlists.length > 0) {
+    const watchlists = stored.watchlists.map(list => ({
+      id: list.id,
+      name: list.name,
+      symbols: list.symbols,
+      sort: normalizeSort(list),
+    }));
+    const activeExists = watchlists.some(list => list.id === stored.activeId);
+    return { watchlists, activeId: activeExists ? stored.activeId : watchlists[0].id };
+  }
+
+  const legacySymbols = SessionStorage.getTrackedSymbols();
+  const initial = newWatchlist(
+    DEFAULT_WATCHLIST_NAME,
+    legacySymbols.length > 0 ? legacySymbols : DEFAULT_SYMBOLS
+  );
+  return { watchlists: [initial], activeId: initial.id };
+};
+
+/**
+ * Named watchlists, each with its own symbols and sort, persisted via SessionStorage
+ */
+export const useWatchlists = (): UseWatchlistsReturn => {
+  const [state, setState] = useState<WatchlistState>(loadWatchlists);
+
+  useEffect(() => {
+    SessionStorage.setWatchlists(state);
+  }, [state]);
+
+  const activeWatchlist =
+    state.watchlists.find(list => list.id === state.activeId) ?? state.watchlists[0];
+
+  const updateList = useCallback((id: string, update: (list: Watchlist) => Watchlist) => {
+    setState(prev => ({
+      ...prev,
+      watchlists: prev.watchlists.map(list => list.id === id ? update(list) : list),
+    }));
+  }, []);
+
+  const selectWatchlist = useCallback((id: string) => {
+    setState(prev => prev.watchlists.some(list => list.id === id) ? { ...prev, activeId: id } : prev);
+  }, []);
+
+  const createWatchlist = useCallback((name: string, symbols: string[] = []): Watchlist => {
+    const created = newWatchlist(
+      uniqueName(name.trim() || DEFAULT_WATCHLIST_NAME, state.watchlists),
+      symbols
+    );
+    setState(prev => ({ watchlists: [...prev.watchlists, created], activeId: created.id }));
+    return created;
+  }, [state.watchlists]);
+
+  const renameWatchlist = useCallback((id: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setState(prev => ({
+      ...prev,
+      watchlists: prev.watchlists.map(list =>
+        list.id === id ? { ...list, name: uniqueName(trimmed, prev.watchlists, id) } : list
+      ),
+    }));
+  }, []);
+
+  const duplicateWatchlist = useCallback((id: string): Watchlist => {
+    const source = state.watchlists.find(list => list.id === id) ?? activeWatchlist;
+    const copy: Watchlist = {
+      ...source,
+      id: createId(),
+      name: uniqueName(`${source.name} copy`, state.watchlists),
+      symbols: [...source.symbols],
+    };
+    setState(prev => ({ watchlists: [...prev.watchlists, copy], activeId: copy.id }));
+    return copy;
+  }, [state.watchlists, activeWatchlist]);
+
+  const deleteWatchlist = useCallback((id: string) => {
+    setState(prev => {
+      if (prev.watchlists.length <= 1) return prev;
+
+      const index = prev.watchlists.findIndex(list => list.id === id);
+      if (index === -1) return prev;
+
+      const watchlists = prev.watchlists.filter(list => list.id !== id);
+      // Deleting the active list moves to its neighbour
+      const activeId = prev.activeId === id
+        ? watchlists[Math.min(index, watchlists.length - 1)].id
+        : prev.activeId;
+      return { watchlists, activeId };
+    });
+  }, []);
+
+  const addSymbol = useCallback((symbol: string) => {
+    updateList(activeWatchlist.id, list =>
+      list.symbols.includes(symbol) ? list : { ...list, symbols: [...list.symbols, symbol] }
+    );
+  }, [activeWatchlist.id, updateList]);
+
+  const removeSymbol = useCallback((symbol: string) => {
+    updateList(activeWatchlist.id, list => ({
+      ...list,
+      symbols: list.symbols.filter(s => s !== symbol),
+    }));
+  }, [activeWatchlist.id, updateList]);
+
+  const setSort = useCallback((sort: SortKey[]) => {
+    updateList(activeWatchlist.id, list => ({ ...list, sort }));
+  }, [activeWatchlist.id, updateList]);
+
+  return {
+    watchlists: state.watchlists,
+    activeWatchlist,
+    selectWatchlist,
+    createWatchlist,
+    renameWatchlist,
+    duplicateWatchlist,
+    deleteWatchlist,
+    addSymbol,
+    removeSymbol,
+    setSort
+  };
+};
+
+export default useWatchlists;
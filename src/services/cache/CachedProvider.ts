@@ -0,0 +1,120 @@
+import {
+  StockQuote,
+  CompanyProfile,
+  HistoricalData,
+  HistoryRange,
+  SymbolSearchResult
+} from '../../types/stock.types';
+import { MarketDataProvider } from '../providers/MarketDataProvider';
+import { RequestPriority, RateLimitStatus } from '../scheduler/RequestScheduler';
+import { CACHE_CONFIG } from '../../utils/constants';
+import SessionStorage from '../../utils/sessionStorage';
+import { historyKey } from '../../utils/candles';
+import { QueryCache, CacheEntry } from './QueryCache';
+
+export interface CachedProviderOptions {
+  /** Persist company profiles across reloads (default true) */
+  persistProfiles?: boolean;
+}
+
+// A profile with nothing but the symbol as its name is the error fallback
+const isFallbackProfile = (profile: CompanyProfile): boolean =>
+  profile.name === profile.symbol &&
+  profile.marketCapitalization === undefined &&
+  profile.logo === undefined;
+
+/**
+ * Decorates a provider with a client-side cache.
+ * Each data type has its own TTL (see CACHE_CONFIG); concurrent requests for
+ * the same symbol share one network call, which is cancelled once every
+ * caller waiting on it has aborted, and stale values are served immediately
+ * while being refreshed in the background.
+ */
+export class CachedProvider implements MarketDataProvider {
+  readonly id: string;
+  readonly label: string;
+  readonly isDemo: boolean;
+
+  private readonly quotes: QueryCache<StockQuote>;
+  private readonly profiles: QueryCache<CompanyProfile>;
+  private readonly history: QueryCache<HistoricalData>;
+  private readonly searches: QueryCache<SymbolSearchResult[]>;
+
+  constructor(private readonly inner: MarketDataProvider, options: CachedProviderOptions = {}) {
+    const persistProfiles = options.persistProfiles ?? true;
+
+    this.id = inner.id;
+    this.label = inner.label;
+    this.isDemo = inner.isDemo;
+
+    this.quotes = new QueryCache<StockQuote>(CACHE_CONFIG.quote);
+
+    this.profiles = new QueryCache<CompanyProfile>({
+      ...CACHE_CONFIG.profile,
+      ttl: profile => isFallbackProfile(profile) ? CACHE_CONFIG.fallback.ttl : CACHE_CONFIG.profile.ttl,
+      initialEntries: persistProfiles
+        ? SessionStorage.getProfileCache<CacheEntry<CompanyProfile>>()
+        : undefined,
+      onChange: persistProfiles
+        ? entries => SessionStorage.setProfileCache(entries)
+        : undefined,
+    });
+
+    this.history = new QueryCache<HistoricalData>({
+      ...CACHE_CONFIG.history,
+      ttl: data => data.candles.length === 0 ? CACHE_CONFIG.fallback.ttl : CACHE_CONFIG.history.ttl,
+    });
+
+    this.searches = new QueryCache<SymbolSearchResult[]>(CACHE_CONFIG.search);
+  }
+
+  getQuote(symbol: string, signal?: AbortSignal, priority?: RequestPriority): Promise<StockQuote> {
+    return this.quotes.get(symbol, shared => this.inner.getQuote(symbol, shared, priority), signal);
+  }
+
+  getCompanyProfile(symbol: string, signal?: AbortSignal, priority?: RequestPriority): Promise<CompanyProfile> {
+    return this.profiles.get(symbol, shared => this.inner.getCompanyProfile(symbol, shared, priority), signal);
+  }
+
+  getHistoricalData(
+    symbol: string,
+    range: HistoryRange,
+    signal?: AbortSignal,
+    priority?: RequestPriority
+  ): Promise<HistoricalData> {
+    return this.history.get(
+      historyKey(symbol, range),
+      shared => this.inner.getHistoricalData(symbol, range, shared, priority),
+      signal
+    );
+  }
+
+  async searchSymbols(query: string, signal?: AbortSignal, priority?: RequestPriority): Promise<SymbolSearchResult[]> {
+    if (!this.inner.searchSymbols) return [];
+    const search = this.inner.searchSymbols.bind(this.inner);
+
+    return this.searches.get(query.trim().toUpperCase(), shared => search(query, shared, priority), signal);
+  }
+
+  getStreamUrl(): string | null {
+    return this.inner.getStreamUrl?.() ?? null;
+  }
+
+  getRateLimit(): RateLimitStatus | null {
+    return this.inner.getRateLimit?.() ?? null;
+  }
+
+  /**
+   * Drop cached data for one symbol, or for everything
+   */
+  invalidate(symbol?: string): void {
+    this.quotes.invalidate(symbol);
+    this.profiles.invalidate(symbol);
+    this.history.invalidate(symbol === undefined ? undefined : key => key.startsWith(`${symbol}:`));
+    if (symbol === undefined) {
+      this.searches.invalidate();
+    }
+  }
+}
+
+export default CachedProvider;
@@ -0,0 +1,99 @@
+import { QueryCache } from './QueryCache';
+
+const createCache = (now: { value: number }) => new QueryCache<number>({
+  ttl: 1000,
+  staleTime: 1000,
+  now: () => now.value,
+});
+
+test('serves fresh values without refetching', async () => {
+  const now = { value: 0 };
+  const cache = createCache(now);
+  const fetcher = jest.fn().mockResolvedValue(1);
+
+  await cache.get('AAPL', fetcher);
+  now.value = 500;
+  await expect(cache.get('AAPL', fetcher)).resolves.toBe(1);
+
+  expect(fetcher).toHaveBeenCalledTimes(1);
+});
+
+test('de-duplicates concurrent requests for the same key', async () => {
+  const cache = createCache({ value: 0 });
+  const fetcher = jest.fn().mockResolvedValue(1);
+
+  await Promise.all([cache.get('AAPL', fetcher), cache.get('AAPL', fetcher)]);
+
+  expect(fetcher).toHaveBeenCalledTimes(1);
+});
+
+test('serves stale values immediately and revalidates in the background', async () => {
+  const now = { value: 0 };
+  const cache = createCache(now);
+
+  await cache.get('AAPL', () => Promise.resolve(1));
+  now.value = 1500;
+
+  const fetcher = jest.fn().mockResolvedValue(2);
+  await expect(cache.get('AAPL', fetcher)).resolves.toBe(1);
+  expect(fetcher).toHaveBeenCalledTimes(1);
+
+  await Promise.resolve();
+  expect(cache.peek('AAPL')).toBe(2);
+});
+
+test('waits for a fresh value once past the stale window', async () => {
+  const now = { value: 0 };
+  const cache = createCache(now);
+
+  await cache.get('AAPL', () => Promise.resolve(1));
+  now.value = 2500;
+
+  await expect(cache.get('AAPL', () => Promise.resolve(3))).resolves.toBe(3);
+});
+
+test('an aborted caller does not cancel the shared request', async () => {
+  const cache = createCache({ value: 0 });
+  let fetchSignal: AbortSignal | undefined;
+  let resolve: (value: number) => void = () => {};
+  const fetcher = (signal: AbortSignal) => {
+    fetchSignal = signal;
+    return new Promise<number>(r => { resolve = r; });
+  };
+  const controller = new AbortController();
+
+  const aborted = cache.get('AAPL', fetcher, controller.signal);
+  const other = cache.get('AAPL', fetcher);
+  controller.abort();
+  expect(fetchSignal?.aborted).toBe(false);
+  resolve(7);
+
+  await expect(aborted).rejects.toMatchObject({ name: 'AbortError' });
+  await expect(other).resolves.toBe(7);
+});
+
+test('aborts the shared request once every caller has aborted', async () => {
+  const cache = createCache({ value: 0 });
+  let fetchSignal: AbortSignal | undefined;
+  const fetcher = jest.fn((signal: AbortSignal) => {
+    fetchSignal = signal;
+    return new Promise<number>((resolve, reject) => {
+      signal.addEventListener('abort', () => reject(new Error('aborted')));
+    });
+  });
+  const first = new AbortController();
+  const second = new AbortController();
+
+  const results = [cache.get('AAPL', fetcher, first.signal), cache.get('AAPL', fetcher, second.signal)];
+  first.abort();
+  expect(fetchSignal?.aborted).toBe(false);
+  second.abort();
+  expect(fetchSignal?.aborted).toBe(true);
+  await Promise.all(results.map(result => expect(result).rejects.toMatchObject({ name: 'AbortError' })));
+
+  // The next caller starts afresh instead of joining the aborted request
+  expect(cache.isInFlight('AAPL')).toBe(false);
+  const next = cache.get('AAPL', () => Promise.resolve(5));
+  await expect(next).resolves.toBe(5);
+  expect(fetcher).toHaveBeenCalledTimes(1);
+});
@@ -0,0 +1,206 @@
+export interface CacheEntry<T> {
+  value: T;
+  updatedAt: number;
+}
+
+export interface CachePolicy<T> {
+  /** How long a value is fresh, in ms. May depend on the value (e.g. shorter for fallbacks). */
+  ttl: number | ((value: T) => number);
+  /** How long past its ttl a value is still served while revalidating in the background */
+  staleTime: number;
+}
+
+export interface QueryCacheOptions<T> extends CachePolicy<T> {
+  initialEntries?: Record<string, CacheEntry<T>>;
+  /** Called after every write, e.g. to persist entries */
+  onChange?: (entries: Record<string, CacheEntry<T>>) => void;
+  now?: () => number;
+}
+
+/**
+ * Loads a value. The signal aborts once every caller waiting on the request
+ * has aborted.
+ */
+export type Fetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+interface InFlightRequest<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  /** Callers waiting with a signal of their own */
+  waiters: number;
+  /** Someone who can't abort needs the result, e.g. a background refresh */
+  pinned: boolean;
+}
+
+const createAbortError = (): Error => {
+  const error = new Error('The operation was aborted.');
+  error.name = 'AbortError';
+  return error;
+};
+
+/**
+ * Reject as soon as the signal aborts, without waiting for the shared promise
+ */
+const raceAbort = <T>(promise: Promise<T>, signal: AbortSignal, onAbort: () => void): Promise<T> => {
+  if (signal.aborted) return Promise.reject(createAbortError());
+
+  return new Promise<T>((resolve, reject) => {
+    const abort = () => {
+      reject(createAbortError());
+      onAbort();
+    };
+    signal.addEventListener('abort', abort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', abort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', abort);
+        reject(error);
+      }
+    );
+  });
+};
+
+/**
+ * Keyed cache with per-entry TTL, in-flight request de-duplication and
+ * stale-while-revalidate. One caller aborting does not fail the others
+ * waiting on the same request; the request itself is aborted once all of
+ * them have, so it stops holding a place in the request queue.
+ */
+export class QueryCache<T> {
+  private entries = new Map<string, CacheEntry<T>>();
+  private inFlight = new Map<string, InFlightRequest<T>>();
+  private readonly policy: CachePolicy<T>;
+  private readonly onChange?: (entries: Record<string, CacheEntry<T>>) => void;
+  private readonly now: () => number;
+
+  constructor(options: QueryCacheOptions<T>) {
+    this.policy = { ttl: options.ttl, staleTime: options.staleTime };
+    this.onChange = options.onChange;
+    this.now = options.now ?? Date.now;
+
+    // Restore persisted entries, skipping any that are too old to serve
+    Object.entries(options.initialEntries ?? {}).forEach(([key, entry]) => {
+      const age = this.now() - entry.updatedAt;
+      if (age < this.getTtl(entry.value) + this.policy.staleTime) {
+        this.entries.set(key, entry);
+      }
+    });
+  }
+
+  /**
+   * Return a cached value or fetch it.
+   * Fresh values resolve immediately; stale values resolve immediately and
+   * trigger a background refresh; expired or missing values wait for the fetch.
+   */
+  async get(key: string, fetcher: Fetcher<T>, signal?: AbortSignal): Promise<T> {
+    const entry = this.entries.get(key);
+
+    if (entry) {
+      const age = this.now() - entry.updatedAt;
+      const ttl = this.getTtl(entry.value);
+
+      if (age < ttl) {
+        return entry.value;
+      }
+
+      if (age < ttl + this.policy.staleTime) {
+        this.revalidate(key, fetcher);
+        return entry.value;
+      }
+    }
+
+    return this.fetch(key, fetcher, signal);
+  }
+
+  peek(key: string): T | undefined {
+    return this.entries.get(key)?.value;
+  }
+
+  set(key: string, value: T): void {
+    this.entries.set(key, { value, updatedAt: this.now() });
+    this.notifyChange();
+  }
+
+  /**
+   * Drop one entry, the entries whose key matches a predicate, or every
+   * entry when no key is given
+   */
+  invalidate(key?: string | ((key: string) => boolean)): void {
+    if (key === undefined) {
+      this.entries.clear();
+    } else if (typeof key === 'function') {
+      Array.from(this.entries.keys()).filter(key).forEach(match => this.entries.delete(match));
+    } else {
+      this.entries.delete(key);
+    }
+    this.notifyChange();
+  }
+
+  isInFlight(key: string): boolean {
+    return this.inFlight.has(key);
+  }
+
+  private getTtl(value: T): number {
+    return typeof this.policy.ttl === 'function' ? this.policy.ttl(value) : this.policy.ttl;
+  }
+
+  private fetch(key: string, fetcher: Fetcher<T>, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) return Promise.reject(createAbortError());
+
+    const request = this.inFlight.get(key) ?? this.start(key, fetcher);
+    if (!signal) {
+      request.pinned = true;
+      return request.promise;
+    }
+
+    request.waiters++;
+    return raceAbort(request.promise, signal, () => {
+      request.waiters--;
+      if (request.waiters > 0 || request.pinned) return;
+      request.controller.abort();
+      // Later callers start a new request rather than join the aborted one
+      if (this.inFlight.get(key) === request) this.inFlight.delete(key);
+    });
+  }
+
+  private start(key: string, fetcher: Fetcher<T>): InFlightRequest<T> {
+    const controller = new AbortController();
+    const request: InFlightRequest<T> = {
+      promise: fetcher(controller.signal)
+        .then(value => {
+          this.set(key, value);
+          return value;
+        })
+        .finally(() => {
+          if (this.inFlight.get(key) === request) this.inFlight.delete(key);
+        }),
+      controller,
+      waiters: 0,
+      pinned: false,
+    };
+
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  private revalidate(key: string, fetcher: Fetcher<T>): void {
+    this.fetch(key, fetcher).catch(error => {
+      console.warn(`Background refresh failed for ${key}, keeping stale value:`, error);
+    });
+  }
+
+  private notifyChange(): void {
+    if (!this.onChange) return;
+
+    const snapshot: Record<string, CacheEntry<T>> = {};
+    this.entries.forEach((entry, key) => {
+      snapshot[key] = entry;
+    });
+    this.onChange(snapshot);
+  }
+}
+
+export default QueryCache;
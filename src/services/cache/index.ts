@@ -0,0 +1,4 @@
+export { default as QueryCache } from './QueryCache';
+export * from './QueryCache';
+export { default as CachedProvider } from './CachedProvider';
+export * from './CachedProvider';
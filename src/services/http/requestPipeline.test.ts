@@ -0,0 +1,113 @@
+import { fetchJson, linkSignals } from './requestPipeline';
+import { APIError } from '../../types/stock.types';
+
+const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  headers: { get: (name: string) => headers[name] ?? null },
+  json: () => Promise.resolve(body),
+});
+
+// Resolves never, but rejects like fetch does when its signal aborts
+const hangingFetch = (_url: string, init: { signal: AbortSignal }) =>
+  new Promise((_resolve, reject) => {
+    init.signal.addEventListener('abort', () => {
+      const error = new Error('aborted');
+      error.name = 'AbortError';
+      reject(error);
+    });
+  });
+
+const fetchMock = jest.fn();
+const options = { baseDelayMs: 1, maxDelayMs: 1 };
+
+beforeEach(() => {
+  fetchMock.mockReset();
+  (global as any).fetch = fetchMock;
+});
+
+test('applies the timeout to every attempt, including retries', async () => {
+  fetchMock.mockImplementation(hangingFetch);
+
+  const error = await fetchJson('https://api.test/quote', { ...options, retries: 2, timeoutMs: 10 })
+    .catch(e => e);
+
+  expect(fetchMock).toHaveBeenCalledTimes(2);
+  expect(error).toBeInstanceOf(APIError);
+  expect(error.code).toBe('TIMEOUT');
+});
+
+test('keeps the timeout when the caller passes its own signal', async () => {
+  fetchMock.mockImplementation(hangingFetch);
+  const controller = new AbortController();
+
+  const error = await fetchJson('https://api.test/quote', {
+    ...options, retries: 1, timeoutMs: 10, signal: controller.signal,
+  }).catch(e => e);
+
+  expect(error.code).toBe('TIMEOUT');
+});
+
+test('a caller abort surfaces as AbortError and is not retried', async () => {
+  fetchMock.mockImplementation(hangingFetch);
+  const controller = new AbortController();
+
+  const request = fetchJson('https://api.test/quote', {
+    ...options, retries: 3, timeoutMs: 1000, signal: controller.signal,
+  });
+  controller.abort();
+
+  await expect(request).rejects.toMatchObject({ name: 'AbortError' });
+  expect(fetchMock).toHaveBeenCalledTimes(1);
+});
+
+test('classifies network failures and retries them', async () => {
+  fetchMock
+    .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+    .mockResolvedValueOnce(jsonResponse({ c: 1 }));
+
+  await expect(fetchJson('https://api.test/quote', options)).resolves.toEqual({ c: 1 });
+
+  fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+  await expect(fetchJson('https://api.test/quote', { ...options, retries: 2 }))
+    .rejects.toMatchObject({ code: 'NETWORK' });
+});
+
+test('does not retry client errors', async () => {
+  fetchMock.mockResolvedValue(jsonResponse({}, 403));
+
+  await expect(fetchJson('https://api.test/candle', options))
+    .rejects.toMatchObject({ code: 'HTTP_ERROR', status: 403 });
+  expect(fetchMock).toHaveBeenCalledTimes(1);
+});
+
+test('reports Retry-After on rate limits', async () => {
+  fetchMock.mockResolvedValue(jsonResponse({}, 429, { 'Retry-After': '0' }));
+  const onRateLimit = jest.fn();
+
+  await expect(fetchJson('https://api.test/quote', { ...options, retries: 2, onRateLimit }))
+    .rejects.toMatchObject({ code: 'RATE_LIMIT', status: 429 });
+  expect(onRateLimit).toHaveBeenCalledWith(0);
+  expect(fetchMock).toHaveBeenCalledTimes(2);
+});
+
+test('classifies unparseable bodies as invalid payloads', async () => {
+  fetchMock.mockResolvedValue({ ...jsonResponse(null), json: () => Promise.reject(new SyntaxError('bad json')) });
+
+  await expect(fetchJson('https://api.test/quote', options))
+    .rejects.toMatchObject({ code: 'INVALID_PAYLOAD' });
+});
+
+test('linked signals abort together and unlink cleanly', () => {
+  const a = new AbortController();
+  const b = new AbortController();
+  const linked = linkSignals([a.signal, b.signal]);
+
+  b.abort();
+  expect(linked.signal.aborted).toBe(true);
+
+  const other = linkSignals([a.signal]);
+  other.unlink();
+  a.abort();
+  expect(other.signal.aborted).toBe(false);
+});
@@ -0,0 +1,203 @@
+import { APIError } from '../../types/stock.types';
+import {
+  API_RETRY_COUNT,
+  API_TIMEOUT,
+  API_RETRY_BASE_DELAY,
+  API_RETRY_MAX_DELAY,
+  ERROR_MESSAGES
+} from '../../utils/constants';
+import { parseRetryAfter } from '../scheduler/RequestScheduler';
+
+export interface RequestOptions {
+  /** Total attempts, including the first */
+  retries?: number;
+  /** Timeout for each attempt, in ms */
+  timeoutMs?: number;
+  /** Caller's signal; aborting it stops the current attempt and any retries */
+  signal?: AbortSignal;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Wraps every attempt, e.g. to run it through a rate-limit scheduler */
+  schedule?: <T>(attempt: () => Promise<T>) => Promise<T>;
+  /** Called on a 429 with the server's Retry-After, if it sent one */
+  onRateLimit?: (retryAfterMs: number | null) => void;
+}
+
+const createAbortError = (): Error => {
+  const error = new Error('The operation was aborted.');
+  error.name = 'AbortError';
+  return error;
+};
+
+/**
+ * Create a signal that aborts when any of the given signals does.
+ * Call `unlink` once done so long-lived signals don't accumulate listeners.
+ */
+export const linkSignals = (
+  signals: Array<AbortSignal | undefined>
+): { signal: AbortSignal; unlink: () => void } => {
+  const controller = new AbortController();
+  const links: Array<[AbortSignal, () => void]> = [];
+
+  for (const signal of signals) {
+    if (!signal) continue;
+    if (signal.aborted) {
+      controller.abort();
+      break;
+    }
+    const onAbort = () => controller.abort();
+    signal.addEventListener('abort', onAbort, { once: true });
+    links.push([signal, onAbort]);
+  }
+
+  return {
+    signal: controller.signal,
+    unlink: () => links.forEach(([signal, onAbort]) => signal.removeEventListener('abort', onAbort)),
+  };
+};
+
+/**
+ * Exponential backoff with full jitter: a random delay up to base * 2^attempt
+ */
+export const computeBackoff = (
+  attempt: number,
+  baseDelayMs = API_RETRY_BASE_DELAY,
+  maxDelayMs = API_RETRY_MAX_DELAY
+): number => {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt));
+  return Math.floor(Math.random() * ceiling);
+};
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> => {
+  if (signal?.aborted) return Promise.reject(createAbortError());
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+/**
+ * Whether a failed attempt is worth repeating
+ */
+export const isRetryable = (error: APIError): boolean => {
+  switch (error.code) {
+    case 'NETWORK':
+    case 'TIMEOUT':
+    case 'RATE_LIMIT':
+      return true;
+    case 'HTTP_ERROR':
+      return (error.status ?? 0) >= 500;
+    default:
+      return false;
+  }
+};
+
+/**
+ * One request with its own timeout, linked to the caller's signal.
+ * Every failure other than a caller abort comes back as a classified APIError.
+ */
+const attemptRequest = async (
+  url: string,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<any> => {
+  const timeoutController = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    timeoutController.abort();
+  }, timeoutMs);
+  const linked = linkSignals([signal, timeoutController.signal]);
+
+  const classify = (error: unknown): Error => {
+    if (signal?.aborted) return createAbortError();
+    if (timedOut) return new APIError(ERROR_MESSAGES.TIMEOUT, { code: 'TIMEOUT' });
+    if (error instanceof APIError) return error;
+    return new APIError(ERROR_MESSAGES.NETWORK, { code: 'NETWORK' });
+  };
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(url, { signal: linked.signal });
+    } catch (error) {
+      throw classify(error);
+    }
+
+    if (response.status === 429) {
+      throw new APIError(ERROR_MESSAGES.RATE_LIMIT, {
+        status: 429,
+        code: 'RATE_LIMIT',
+        retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')) ?? undefined,
+      });
+    }
+
+    if (!response.ok) {
+      throw new APIError(`API request failed: ${response.status}`, {
+        status: response.status,
+        code: 'HTTP_ERROR',
+      });
+    }
+
+    try {
+      return await response.json();
+    } catch (error) {
+      if (signal?.aborted || timedOut) throw classify(error);
+      throw new APIError(ERROR_MESSAGES.INVALID_PAYLOAD, { code: 'INVALID_PAYLOAD' });
+    }
+  } finally {
+    clearTimeout(timer);
+    linked.unlink();
+  }
+};
+
+/**
+ * Fetch JSON with a per-attempt timeout, retries with jittered exponential
+ * backoff, and errors classified onto APIError.code.
+ * A caller abort always surfaces as an AbortError and is never retried.
+ */
+export const fetchJson = async (url: string, options: RequestOptions = {}): Promise<any> => {
+  const {
+    retries = API_RETRY_COUNT,
+    timeoutMs = API_TIMEOUT,
+    signal,
+    baseDelayMs,
+    maxDelayMs,
+    schedule = attempt => attempt(),
+    onRateLimit,
+  } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      // The timeout starts when the attempt runs, not while it waits in a queue
+      return await schedule(() => attemptRequest(url, timeoutMs, signal));
+    } catch (error: any) {
+      if (error?.name === 'AbortError' || signal?.aborted) {
+        throw createAbortError();
+      }
+
+      const apiError = error instanceof APIError
+        ? error
+        : new APIError(ERROR_MESSAGES.FETCH_FAILED, { code: 'FETCH_FAILED' });
+
+      if (apiError.code === 'RATE_LIMIT') {
+        onRateLimit?.(apiError.retryAfterMs ?? null);
+      }
+
+      if (attempt >= retries - 1 || !isRetryable(apiError)) {
+        throw apiError;
+      }
+
+      const delay = apiError.retryAfterMs ?? computeBackoff(attempt, baseDelayMs, maxDelayMs);
+      await wait(delay, signal);
+    }
+  }
+};
@@ -1 +1,5 @@
-export { default as StockAPIService } from './StockAPIService';
\ No newline at end of file
+export { default as StockAPIService } from './StockAPIService';
+export * from './providers';
+export * from './streaming';
+export * from './cache';
+export * from './scheduler';
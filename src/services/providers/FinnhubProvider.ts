@@ -0,0 +1,177 @@
+import {
+  StockQuote,
+  CompanyProfile,
+  HistoricalData,
+  HistoryRange,
+  SymbolSearchResult,
+  APIError
+} from '../../types/stock.types';
+import {
+  FINNHUB_API_KEY,
+  BASE_URL,
+  FINNHUB_STREAM_URL,
+  STREAM_URL,
+  API_RETRY_COUNT,
+  API_TIMEOUT,
+  API_CALLS_PER_MINUTE,
+  API_MAX_CONCURRENT_REQUESTS,
+  ERROR_MESSAGES
+} from '../../utils/constants';
+import { MarketDataProvider } from './MarketDataProvider';
+import { RequestScheduler, RequestPriority, RateLimitStatus } from '../scheduler/RequestScheduler';
+import { fetchJson } from '../http/requestPipeline';
+import { parseQuote, parseProfile, parseCandles, parseSearchResults } from './finnhubSchemas';
+
+// One budget for every Finnhub caller in the app
+const sharedScheduler = new RequestScheduler({
+  callsPerMinute: API_CALLS_PER_MINUTE,
+  maxConcurrent: API_MAX_CONCURRENT_REQUESTS,
+});
+
+/**
+ * Market data provider backed by the Finnhub REST API
+ * Implements retry logic, rate limiting, and error handling
+ */
+export class FinnhubProvider implements MarketDataProvider {
+  readonly id = 'finnhub';
+  readonly label = 'Finnhub';
+  readonly isDemo = false;
+
+  constructor(
+    private readonly apiKey: string | undefined = FINNHUB_API_KEY,
+    private readonly baseUrl: string = BASE_URL,
+    private readonly scheduler: RequestScheduler = sharedScheduler
+  ) {}
+
+  getRateLimit(): RateLimitStatus {
+    return this.scheduler.getStatus();
+  }
+
+  /**
+   * Trade stream endpoint; STREAM_URL points it at a local stand-in server
+   */
+  getStreamUrl(): string | null {
+    if (STREAM_URL) return STREAM_URL;
+    return this.apiKey ? `${FINNHUB_STREAM_URL}?token=${this.apiKey}` : null;
+  }
+
+  /**
+   * Fetch JSON through the shared scheduler with per-attempt timeouts,
+   * jittered retries and classified errors
+   */
+  private async fetchWithRetry(
+    url: string,
+    retries = API_RETRY_COUNT,
+    signal?: AbortSignal,
+    priority: RequestPriority = 'normal'
+  ): Promise<any> {
+    if (!this.apiKey) {
+      throw new APIError(ERROR_MESSAGES.API_KEY_MISSING, { code: 'API_KEY_MISSING' });
+    }
+
+    return fetchJson(`${url}&token=${this.apiKey}`, {
+      retries,
+      signal,
+      timeoutMs: API_TIMEOUT,
+      // Every attempt spends one call from the shared budget
+      schedule: attempt => this.scheduler.schedule(attempt, { priority, signal }),
+      // Retry-After holds back every caller, not just this request
+      onRateLimit: retryAfterMs => {
+        if (retryAfterMs !== null) {
+          this.scheduler.pause(retryAfterMs);
+        }
+      },
+    });
+  }
+
+  /**
+   * Fetch current stock quote
+   */
+  async getQuote(symbol: string, signal?: AbortSignal, priority?: RequestPriority): Promise<StockQuote> {
+    try {
+      const data = await this.fetchWithRetry(
+        `${this.baseUrl}/quote?symbol=${symbol}`,
+        API_RETRY_COUNT,
+        signal,
+        priority
+      );
+
+      return parseQuote(symbol, data);
+    } catch (error) {
+      console.error(`Error fetching quote for ${symbol}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch company profile information
+   */
+  async getCompanyProfile(symbol: string, signal?: AbortSignal, priority?: RequestPriority): Promise<CompanyProfile> {
+    try {
+      const data = await this.fetchWithRetry(
+        `${this.baseUrl}/stock/profile2?symbol=${symbol}`,
+        API_RETRY_COUNT,
+        signal,
+        priority
+      );
+
+      return parseProfile(symbol, data);
+    } catch (error) {
+      console.error(`Error fetching profile for ${symbol}:`, error);
+
+      // Return minimal profile on error
+      return {
+        symbol,
+        name: symbol,
+      };
+    }
+  }
+
+  /**
+   * Look up symbols by ticker or company name
+   */
+  async searchSymbols(query: string, signal?: AbortSignal, priority?: RequestPriority): Promise<SymbolSearchResult[]> {
+    const data = await this.fetchWithRetry(
+      `${this.baseUrl}/search?q=${encodeURIComponent(query)}`,
+      API_RETRY_COUNT,
+      signal,
+      priority
+    );
+
+    return parseSearchResults(query, data);
+  }
+
+  /**
+   * Fetch OHLCV candles for a range
+   * Note: Free tier has limited historical data access and answers 403
+   */
+  async getHistoricalData(
+    symbol: string,
+    range: HistoryRange,
+    signal?: AbortSignal,
+    priority?: RequestPriority
+  ): Promise<HistoricalData> {
+    const from = Math.floor(range.from / 1000);
+    const to = Math.floor(range.to / 1000);
+
+    try {
+      const data = await this.fetchWithRetry(
+        `${this.baseUrl}/stock/candle?symbol=${symbol}&resolution=${range.resolution}&from=${from}&to=${to}`,
+        API_RETRY_COUNT,
+        signal,
+        priority
+      );
+
+      return parseCandles(symbol, range, data);
+    } catch (error: any) {
+      if (error?.status === 403) {
+        console.warn(`Historical data not available for ${symbol} in free tier. Upgrade to paid plan for full access.`);
+      } else if (error?.name !== 'AbortError') {
+        console.error(`Error fetching historical data for ${symbol}:`, error);
+      }
+      throw error;
+    }
+  }
+}
+
+export default FinnhubProvider;
@@ -0,0 +1,144 @@
+import {
+  StockQuote,
+  CompanyProfile,
+  HistoricalData,
+  HistoryRange,
+  SymbolSearchResult,
+  APIError
+} from '../../types/stock.types';
+import { sleep } from '../../utils/formatters';
+import { MarketDataProvider } from './MarketDataProvider';
+import { rankSymbolMatches } from './search';
+
+export interface InMemoryProviderOptions {
+  id?: string;
+  label?: string;
+  isDemo?: boolean;
+  quotes?: StockQuote[];
+  profiles?: CompanyProfile[];
+  history?: HistoricalData[];
+  /** Generates history for symbols without a stored series */
+  historyFactory?: (symbol: string, range: HistoryRange) => HistoricalData;
+  /** Symbols returned by searchSymbols */
+  directory?: SymbolSearchResult[];
+  /** Simulated latency in ms applied to every call */
+  latencyMs?: number;
+  /** Optional trade stream endpoint, e.g. the local stand-in server */
+  streamUrl?: string | null;
+}
+
+const createAbortError = (): Error => {
+  const error = new Error('The operation was aborted.');
+  error.name = 'AbortError';
+  return error;
+};
+
+/**
+ * Market data provider serving data held in memory
+ * Used for demo mode and for running hooks against fixed data in tests
+ */
+export class InMemoryProvider implements MarketDataProvider {
+  readonly id: string;
+  readonly label: string;
+  readonly isDemo: boolean;
+
+  private quotes = new Map<string, StockQuote>();
+  private profiles = new Map<string, CompanyProfile>();
+  private history = new Map<string, HistoricalData>();
+  private directory: SymbolSearchResult[];
+  private historyFactory?: (symbol: string, range: HistoryRange) => HistoricalData;
+  private latencyMs: number;
+  private streamUrl: string | null;
+
+  constructor(options: InMemoryProviderOptions = {}) {
+    this.id = options.id ?? 'memory';
+    this.label = options.label ?? 'In-memory data';
+    this.isDemo = options.isDemo ?? false;
+    this.historyFactory = options.historyFactory;
+    this.directory = options.directory ?? [];
+    this.latencyMs = options.latencyMs ?? 0;
+    this.streamUrl = options.streamUrl ?? null;
+
+    options.quotes?.forEach(quote => this.setQuote(quote));
+    options.profiles?.forEach(profile => this.setProfile(profile));
+    options.history?.forEach(series => this.setHistory(series));
+  }
+
+  setQuote(quote: StockQuote): void {
+    this.quotes.set(quote.symbol, { ...quote });
+  }
+
+  setProfile(profile: CompanyProfile): void {
+    this.profiles.set(profile.symbol, { ...profile });
+  }
+
+  setHistory(series: HistoricalData): void {
+    this.history.set(series.symbol, series);
+  }
+
+  getStreamUrl(): string | null {
+    return this.streamUrl;
+  }
+
+  removeSymbol(symbol: string): void {
+    this.quotes.delete(symbol);
+    this.profiles.delete(symbol);
+    this.history.delete(symbol);
+  }
+
+  /**
+   * Simulate network latency while still honouring abort signals
+   */
+  private async simulateLatency(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) throw createAbortError();
+    if (this.latencyMs > 0) {
+      await sleep(this.latencyMs);
+      if (signal?.aborted) throw createAbortError();
+    }
+  }
+
+  async getQuote(symbol: string, signal?: AbortSignal): Promise<StockQuote> {
+    await this.simulateLatency(signal);
+
+    const quote = this.quotes.get(symbol);
+    if (!quote) {
+      throw new APIError(`Invalid data for symbol ${symbol}`);
+    }
+    return { ...quote };
+  }
+
+  async getCompanyProfile(symbol: string, signal?: AbortSignal): Promise<CompanyProfile> {
+    await this.simulateLatency(signal);
+
+    const profile = this.profiles.get(symbol);
+    return profile ? { ...profile } : { symbol, name: symbol };
+  }
+
+  async searchSymbols(query: string, signal?: AbortSignal): Promise<SymbolSearchResult[]> {
+    await this.simulateLatency(signal);
+    return rankSymbolMatches(this.directory, query);
+  }
+
+  /**
+   * Stored series keep their own resolution and are trimmed to the range
+   */
+  async getHistoricalData(symbol: string, range: HistoryRange, signal?: AbortSignal): Promise<HistoricalData> {
+    await this.simulateLatency(signal);
+
+    const series = this.history.get(symbol);
+    if (series) {
+      return {
+        symbol,
+        ...range,
+        resolution: series.resolution,
+        candles: series.candles.filter(candle => candle.time >= range.from && candle.time <= range.to),
+      };
+    }
+    if (this.historyFactory) {
+      return this.historyFactory(symbol, range);
+    }
+    return { symbol, ...range, candles: [] };
+  }
+}
+
+export default InMemoryProvider;
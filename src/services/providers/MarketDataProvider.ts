@@ -0,0 +1,65 @@
+import {
+  StockQuote,
+  CompanyProfile,
+  HistoricalData,
+  HistoryRange,
+  SymbolSearchResult
+} from '../../types/stock.types';
+import { RequestPriority, RateLimitStatus } from '../scheduler/RequestScheduler';
+
+/**
+ * Contract every market-data vendor has to fulfil.
+ * Hooks and services talk to this interface only, so switching vendors
+ * (or running against an in-memory source in tests) needs no hook changes.
+ */
+export interface MarketDataProvider {
+  /** Stable identifier used by the registry, e.g. 'finnhub' */
+  readonly id: string;
+  /** Human readable name for attribution in the UI */
+  readonly label: string;
+  /** True when the provider serves sample data rather than live prices */
+  readonly isDemo: boolean;
+
+  /**
+   * Fetch the current quote for a symbol.
+   * Implementations throw an APIError when the symbol has no usable quote.
+   */
+  getQuote(symbol: string, signal?: AbortSignal, priority?: RequestPriority): Promise<StockQuote>;
+
+  /**
+   * Fetch company profile information.
+   * Implementations fall back to a minimal `{ symbol, name }` profile on failure.
+   */
+  getCompanyProfile(symbol: string, signal?: AbortSignal, priority?: RequestPriority): Promise<CompanyProfile>;
+
+  /**
+   * Fetch OHLCV candles at `range.resolution` between `range.from` and `range.to`.
+   * Implementations return an empty candle list when the range has no data,
+   * and throw an APIError when the request itself fails.
+   */
+  getHistoricalData(
+    symbol: string,
+    range: HistoryRange,
+    signal?: AbortSignal,
+    priority?: RequestPriority
+  ): Promise<HistoricalData>;
+
+  /**
+   * Find symbols by ticker or company name, best match first.
+   * Providers without a lookup service leave this out.
+   */
+  searchSymbols?(query: string, signal?: AbortSignal, priority?: RequestPriority): Promise<SymbolSearchResult[]>;
+
+  /**
+   * WebSocket endpoint streaming trades for subscribed symbols, or null when
+   * the provider has no streaming support. Consumers fall back to polling.
+   */
+  getStreamUrl?(): string | null;
+
+  /**
+   * Remaining request budget for rate-limited providers, or null when unlimited
+   */
+  getRateLimit?(): RateLimitStatus | null;
+}
+
+export type MarketDataProviderFactory = () => MarketDataProvider;
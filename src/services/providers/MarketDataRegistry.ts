@@ -0,0 +1,81 @@
+import { MARKET_DATA_PROVIDER } from '../../utils/constants';
+import { MarketDataProvider, MarketDataProviderFactory } from './MarketDataProvider';
+import { FinnhubProvider } from './FinnhubProvider';
+import { createDemoProvider } from './demoData';
+import { CachedProvider } from '../cache/CachedProvider';
+
+type Listener = () => void;
+
+/**
+ * Registry of available market-data providers
+ * Holds the active provider and notifies subscribers when it changes at runtime
+ */
+export class MarketDataRegistry {
+  private static factories = new Map<string, MarketDataProviderFactory>([
+    ['finnhub', () => new CachedProvider(new FinnhubProvider())],
+    ['demo', createDemoProvider],
+  ]);
+
+  private static active: MarketDataProvider | null = null;
+  private static listeners = new Set<Listener>();
+
+  /**
+   * Make a provider available for selection by id
+   */
+  static register(id: string, factory: MarketDataProviderFactory): void {
+    this.factories.set(id, factory);
+  }
+
+  static getAvailableProviders(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  static create(id: string): MarketDataProvider {
+    const factory = this.factories.get(id);
+    if (!factory) {
+      throw new Error(`Unknown market data provider: ${id}`);
+    }
+    return factory();
+  }
+
+  /**
+   * Get the active provider, creating the configured default on first use
+   */
+  static getProvider = (): MarketDataProvider => {
+    if (!MarketDataRegistry.active) {
+      MarketDataRegistry.active = MarketDataRegistry.create(MARKET_DATA_PROVIDER);
+    }
+    return MarketDataRegistry.active;
+  };
+
+  /**
+   * Switch the active provider, either by registered id or by instance
+   */
+  static setProvider(provider: MarketDataProvider | string): void {
+    const next = typeof provider === 'string' ? this.create(provider) : provider;
+    if (next === this.active) return;
+
+    this.active = next;
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Subscribe to provider changes. Returns an unsubscribe function.
+   */
+  static subscribe = (listener: Listener): (() => void) => {
+    MarketDataRegistry.listeners.add(listener);
+    return () => {
+      MarketDataRegistry.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Drop the active provider so the configured default is recreated on next use
+   */
+  static reset(): void {
+    this.active = null;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export default MarketDataRegistry;
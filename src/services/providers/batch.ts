@@ -0,0 +1,89 @@
+import { StockQuote, CompanyProfile } from '../../types/stock.types';
+import { MarketDataProvider } from './MarketDataProvider';
+import { RequestPriority } from '../scheduler/RequestScheduler';
+
+export interface BatchOptions {
+  /** Priority for the batch as a whole */
+  priority?: RequestPriority;
+  /** Symbol fetched ahead of the rest, e.g. the selected stock */
+  prioritySymbol?: string | null;
+}
+
+const priorityFor = (symbol: string, options: BatchOptions): RequestPriority =>
+  symbol === options.prioritySymbol ? 'high' : options.priority ?? 'normal';
+
+/**
+ * Fetch multiple stock quotes concurrently.
+ * Rate limiting is left to the provider's request scheduler.
+ */
+export const getBatchQuotes = async (
+  provider: MarketDataProvider,
+  symbols: string[],
+  signal?: AbortSignal,
+  options: BatchOptions = {}
+): Promise<StockQuote[]> => {
+  const errors: unknown[] = [];
+
+  const results = await Promise.all(symbols.map(async symbol => {
+    try {
+      const quote = await provider.getQuote(symbol, signal, priorityFor(symbol, options));
+
+      // Only include valid quotes
+      return quote.price > 0 ? quote : null;
+    } catch (error: any) {
+      // Stop the whole batch once the caller has aborted
+      if (error?.name === 'AbortError') {
+        throw error;
+      }
+      console.error(`Failed to fetch quote for ${symbol}:`, error);
+      errors.push(error);
+      // Continue with other symbols
+      return null;
+    }
+  }));
+
+  // Surface the cause when nothing at all could be loaded
+  if (errors.length > 0 && errors.length === symbols.length) {
+    throw errors[0];
+  }
+
+  return results.filter((quote): quote is StockQuote => quote !== null);
+};
+
+/**
+ * Fetch multiple company profiles concurrently
+ */
+export const getBatchProfiles = async (
+  provider: MarketDataProvider,
+  symbols: string[],
+  signal?: AbortSignal,
+  options: BatchOptions = {}
+): Promise<Map<string, CompanyProfile>> => {
+  const results = await Promise.all(symbols.map(async (symbol): Promise<CompanyProfile> => {
+    try {
+      return await provider.getCompanyProfile(symbol, signal, priorityFor(symbol, options));
+    } catch (error) {
+      console.error(`Failed to fetch profile for ${symbol}:`, error);
+      // Add minimal profile
+      return { symbol, name: symbol };
+    }
+  }));
+
+  return new Map(symbols.map((symbol, index) => [symbol, results[index]]));
+};
+
+/**
+ * Validate if a symbol exists by checking if we can fetch its quote
+ */
+export const validateSymbol = async (
+  provider: MarketDataProvider,
+  symbol: string,
+  signal?: AbortSignal
+): Promise<boolean> => {
+  try {
+    const quote = await provider.getQuote(symbol, signal, 'high');
+    return quote.price > 0;
+  } catch {
+    return false;
+  }
+};
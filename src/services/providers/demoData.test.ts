@@ -0,0 +1,36 @@
+import { generateDemoChartData } from './demoData';
+import { createHistoryRange } from '../../utils/candles';
+
+// Wednesday 2024-03-13 20:00 UTC, during the regular session
+const now = Date.UTC(2024, 2, 13, 20, 0);
+
+test('generates consistent daily OHLCV bars inside the range, skipping weekends', () => {
+  const range = createHistoryRange('D', 30, now);
+  const history = generateDemoChartData('AAPL', range);
+
+  expect(history).toMatchObject({ symbol: 'AAPL', ...range });
+  expect(history.candles.length).toBeGreaterThan(15);
+  const times = history.candles.map(candle => candle.time);
+  expect(times).toEqual([...times].sort((a, b) => a - b));
+  history.candles.forEach(candle => {
+    expect(candle.time).toBeGreaterThanOrEqual(range.from);
+    expect(candle.time).toBeLessThanOrEqual(range.to);
+    expect([0, 6]).not.toContain(new Date(candle.time).getUTCDay());
+    expect(candle.high).toBeGreaterThanOrEqual(Math.max(candle.open, candle.close));
+    expect(candle.low).toBeLessThanOrEqual(Math.min(candle.open, candle.close));
+  });
+  // Ends at the demo quote so the chart agrees with the table
+  expect(history.candles[history.candles.length - 1].close).toBe(175.43);
+});
+
+test('keeps intraday bars within the session and caps long series', () => {
+  const history = generateDemoChartData('MSFT', createHistoryRange('1', 30, now));
+
+  expect(history.candles).toHaveLength(1000);
+  history.candles.forEach(candle => {
+    const date = new Date(candle.time);
+    const minutes = date.getUTCHours() * 60 + date.getUTCMinutes();
+    expect(minutes).toBeGreaterThanOrEqual(14 * 60 + 30);
+    expect(minutes).toBeLessThan(21 * 60);
+  });
+});
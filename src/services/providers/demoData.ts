@@ -0,0 +1,121 @@
+import { Candle, HistoricalData, HistoryRange, StockQuote } from '../../types/stock.types';
+import { DEMO_STOCKS, DEMO_PROFILES, STREAM_URL, DEFAULT_CHART_RANGE } from '../../utils/constants';
+import { RESOLUTION_MS, isIntraday, createChartRange } from '../../utils/candles';
+import { InMemoryProvider } from './InMemoryProvider';
+import { DEMO_SYMBOL_DIRECTORY } from './symbolDirectory';
+
+const DAY = 24 * 60 * 60 * 1000;
+// Keeps 1-minute series over long ranges to a chartable size
+const MAX_DEMO_CANDLES = 1000;
+const DAILY_VOLATILITY = 0.015; // 1.5% daily volatility for realistic movement
+
+// Regular US session, 14:30-21:00 UTC, on weekdays
+const isTradingTime = (time: number, range: HistoryRange): boolean => {
+  const date = new Date(time);
+  const weekday = date.getUTCDay();
+  if (range.resolution !== 'W' && range.resolution !== 'M' && (weekday === 0 || weekday === 6)) {
+    return false;
+  }
+  if (!isIntraday(range.resolution)) return true;
+
+  const minutes = date.getUTCHours() * 60 + date.getUTCMinutes();
+  return minutes >= 14 * 60 + 30 && minutes < 21 * 60;
+};
+
+// Small deterministic hash so a symbol always gets the same demo numbers
+const seedFor = (symbol: string): number =>
+  Array.from(symbol).reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) % 100_003, 7) / 100_003;
+
+/**
+ * Demo quote for a symbol: the bundled sample when there is one, otherwise
+ * a stable made-up quote derived from the ticker
+ */
+export const generateDemoQuote = (symbol: string): StockQuote => {
+  const sample = DEMO_STOCKS.find(stock => stock.symbol === symbol);
+  if (sample) return { ...sample };
+
+  const seed = seedFor(symbol);
+  const previousClose = Number((20 + seed * 480).toFixed(2));
+  const changePercent = Number(((seed * 7919 % 1) * 4 - 2).toFixed(2));
+  const price = Number((previousClose * (1 + changePercent / 100)).toFixed(2));
+
+  return {
+    symbol,
+    price,
+    change: Number((price - previousClose).toFixed(2)),
+    changePercent,
+    previousClose,
+    high: Number((Math.max(price, previousClose) * 1.01).toFixed(2)),
+    low: Number((Math.min(price, previousClose) * 0.99).toFixed(2)),
+    open: previousClose,
+    volume: Math.round(1_000_000 + seed * 50_000_000),
+  };
+};
+
+// Generate demo candles for a range, ending at the symbol's demo quote
+export const generateDemoChartData = (
+  symbol: string,
+  range: HistoryRange = createChartRange(DEFAULT_CHART_RANGE)
+): HistoricalData => {
+  const step = RESOLUTION_MS[range.resolution];
+  const times: number[] = [];
+  for (
+    let time = Math.floor(range.to / step) * step;
+    time >= range.from && times.length < MAX_DEMO_CANDLES;
+    time -= step
+  ) {
+    if (isTradingTime(time, range)) times.unshift(time);
+  }
+
+  // End at the demo quote so the chart agrees with the table
+  const demoQuote = generateDemoQuote(symbol);
+  const basePrice = demoQuote.price;
+  const baseVolume = demoQuote.volume;
+  const scale = Math.min(step, DAY) / DAY;
+  const volatility = DAILY_VOLATILITY * Math.sqrt(step / DAY);
+
+  // Walk backwards from the latest close so the series ends near the quote
+  const closes: number[] = [];
+  let close = basePrice;
+  for (let i = times.length - 1; i >= 0; i--) {
+    closes[i] = close;
+    close = close / (1 + (Math.random() - 0.5) * 2 * volatility);
+  }
+
+  const candles: Candle[] = times.map((time, index) => {
+    const open = index > 0 ? closes[index - 1] : close;
+    const high = Math.max(open, closes[index]) * (1 + Math.random() * volatility / 2);
+    const low = Math.min(open, closes[index]) * (1 - Math.random() * volatility / 2);
+
+    return {
+      time,
+      open: Number(open.toFixed(2)),
+      high: Number(high.toFixed(2)),
+      low: Number(low.toFixed(2)),
+      close: Number(closes[index].toFixed(2)),
+      volume: Math.round(baseVolume * scale * (0.5 + Math.random())),
+    };
+  });
+
+  return { symbol, ...range, candles };
+};
+
+/**
+ * Provider serving the bundled sample data used when no API key is configured
+ */
+export const createDemoProvider = (): InMemoryProvider => new InMemoryProvider({
+  id: 'demo',
+  label: 'Demo data',
+  isDemo: true,
+  // Every directory entry is searchable and can be added to the watchlist
+  quotes: DEMO_SYMBOL_DIRECTORY.map(entry => generateDemoQuote(entry.symbol)),
+  profiles: [
+    ...DEMO_SYMBOL_DIRECTORY
+      .filter(entry => !DEMO_PROFILES.has(entry.symbol))
+      .map(entry => ({ symbol: entry.symbol, name: entry.name })),
+    ...Array.from(DEMO_PROFILES.values()),
+  ],
+  directory: DEMO_SYMBOL_DIRECTORY,
+  historyFactory: generateDemoChartData,
+  streamUrl: STREAM_URL,
+});
@@ -0,0 +1,120 @@
+import { parseQuote, parseProfile, parseCandles, parseSearchResults } from './finnhubSchemas';
+import { APIError } from '../../types/stock.types';
+
+const rawQuote = { c: 190.5, d: 1.5, dp: 0.79, h: 191, l: 188.2, o: 189, pc: 189, t: 1700000000 };
+
+const catchError = (fn: () => unknown): APIError => {
+  try {
+    fn();
+  } catch (error) {
+    return error as APIError;
+  }
+  throw new Error('Expected an error');
+};
+
+test('maps a valid quote without inventing values', () => {
+  expect(parseQuote('AAPL', rawQuote)).toEqual({
+    symbol: 'AAPL',
+    price: 190.5,
+    change: 1.5,
+    changePercent: 0.79,
+    previousClose: 189,
+    high: 191,
+    low: 188.2,
+    open: 189,
+    volume: 0,
+  });
+});
+
+test('derives change fields when Finnhub leaves them null', () => {
+  const quote = parseQuote('AAPL', { ...rawQuote, c: 200, pc: 160, d: null, dp: null });
+
+  expect(quote.change).toBe(40);
+  expect(quote.changePercent).toBe(25);
+});
+
+test('says which quote a change could not be derived for', () => {
+  const error = catchError(() => parseQuote('AAPL', { ...rawQuote, pc: 0, d: null, dp: null }));
+
+  expect(error.code).toBe('INVALID_PAYLOAD');
+  expect(error.field).toBe('d');
+  expect(error.message).toBe('Invalid quote for AAPL: d is missing and cannot be derived without a previous close');
+});
+
+test('rejects the zeroed quote Finnhub returns for unknown symbols', () => {
+  const error = catchError(() =>
+    parseQuote('NOPE', { c: 0, d: null, dp: null, h: 0, l: 0, o: 0, pc: 0, t: 0 })
+  );
+
+  expect(error).toBeInstanceOf(APIError);
+  expect(error.code).toBe('INVALID_PAYLOAD');
+  expect(error.field).toBe('c');
+  expect(error.message).toBe('Invalid quote for NOPE: c must be greater than 0 (got 0)');
+});
+
+test('names the offending field when a value has the wrong type', () => {
+  const error = catchError(() => parseQuote('AAPL', { ...rawQuote, h: '191' }));
+
+  expect(error.field).toBe('h');
+  expect(error.message).toContain('h must be a finite number (got "191")');
+});
+
+test('accepts an empty profile and falls back to the symbol for the name', () => {
+  expect(parseProfile('XYZ', {})).toEqual({ symbol: 'XYZ', name: 'XYZ' });
+  expect(catchError(() => parseProfile('XYZ', { marketCapitalization: 'big' })).field)
+    .toBe('marketCapitalization');
+});
+
+const range = { resolution: 'D' as const, from: 1699900000000, to: 1700100000000 };
+
+test('parses full OHLCV candles and treats no_data as an empty series', () => {
+  const history = parseCandles('AAPL', range, {
+    s: 'ok',
+    o: [100, 101.5],
+    h: [102, 103],
+    l: [99.5, 101],
+    c: [101.25, 102],
+    v: [1200, 900],
+    t: [1700000000, 1700086400],
+  });
+
+  expect(history).toEqual({
+    symbol: 'AAPL',
+    ...range,
+    candles: [
+      { time: 1700000000000, open: 100, high: 102, low: 99.5, close: 101.25, volume: 1200 },
+      { time: 1700086400000, open: 101.5, high: 103, low: 101, close: 102, volume: 900 },
+    ],
+  });
+  expect(parseCandles('AAPL', range, { s: 'no_data' })).toEqual({ symbol: 'AAPL', ...range, candles: [] });
+});
+
+test('rejects candle series that do not line up with their timestamps', () => {
+  const bars = { s: 'ok', o: [1, 2], h: [1, 2], l: [1, 2], c: [1, 2], v: [10], t: [1700000000, 1700086400] };
+  const error = catchError(() => parseCandles('AAPL', range, bars));
+
+  expect(error.field).toBe('v');
+  expect(error.message).toBe('Invalid candles for AAPL: v has 1 entries but t has 2');
+  expect(catchError(() => parseCandles('AAPL', range, { s: 'error' })).field).toBe('s');
+  expect(catchError(() => parseCandles('AAPL', range, { ...bars, v: [10, 20], t: [1.5, 2] })).field)
+    .toBe('t[0]');
+});
+
+test('maps search results and infers the exchange from the ticker suffix', () => {
+  const results = parseSearchResults('shop', {
+    count: 3,
+    result: [
+      { description: 'SHOPIFY INC - CLASS A', displaySymbol: 'SHOP', symbol: 'SHOP', type: 'Common Stock' },
+      { description: 'SHOPIFY INC', displaySymbol: 'SHOP.TO', symbol: 'SHOP.TO', type: 'Common Stock' },
+      { description: 'BERKSHIRE HATHAWAY INC-CL B', displaySymbol: 'BRK.B', symbol: 'BRK.B', type: '' },
+    ],
+  });
+
+  expect(results.map(r => [r.symbol, r.exchange, r.type])).toEqual([
+    ['SHOP', 'US', 'Common Stock'],
+    ['SHOP.TO', 'TSX', 'Common Stock'],
+    ['BRK.B', 'US', 'Unknown'],
+  ]);
+  expect(catchError(() => parseSearchResults('shop', { result: [{ symbol: 1 }] })).field)
+    .toBe('result[0].symbol');
+});
@@ -0,0 +1,168 @@
+import {
+  StockQuote,
+  CompanyProfile,
+  HistoricalData,
+  HistoryRange,
+  SymbolSearchResult
+} from '../../types/stock.types';
+import { parseSymbol } from '../../utils/symbols';
+import {
+  validate,
+  fail,
+  object,
+  array,
+  number,
+  string,
+  literal,
+  optional,
+  nullable
+} from '../validation/validators';
+
+/**
+ * Raw Finnhub payload schemas and their conversion into app types.
+ * Nothing reaches a StockQuote, CompanyProfile or HistoricalData without
+ * passing through here, so a malformed field becomes an APIError instead
+ * of a silent zero.
+ */
+
+// GET /quote. Unknown symbols come back as all zeros with null changes.
+const quoteSchema = object({
+  c: number({ greaterThan: 0 }),
+  d: nullable(number()),
+  dp: nullable(number()),
+  h: number({ min: 0 }),
+  l: number({ min: 0 }),
+  o: number({ min: 0 }),
+  pc: number({ min: 0 }),
+  t: optional(number({ min: 0 })),
+  // Not part of the REST quote; volume accumulates from streamed trades
+  v: optional(number({ min: 0 })),
+});
+
+// GET /stock/profile2. Unknown symbols come back as an empty object.
+const profileSchema = object({
+  name: optional(string()),
+  ticker: optional(string()),
+  exchange: optional(string()),
+  marketCapitalization: optional(number({ min: 0 })),
+  shareOutstanding: optional(number({ min: 0 })),
+  logo: optional(string()),
+});
+
+const candleStatusSchema = object({
+  s: literal('ok', 'no_data'),
+});
+
+// GET /stock/candle with s === 'ok'
+const candleSchema = object({
+  s: literal('ok'),
+  o: array(number({ greaterThan: 0 })),
+  h: array(number({ greaterThan: 0 })),
+  l: array(number({ greaterThan: 0 })),
+  c: array(number({ greaterThan: 0 })),
+  v: array(number({ min: 0 })),
+  // Bar open times in seconds
+  t: array(number({ min: 0, integer: true })),
+});
+
+// GET /search
+const searchSchema = object({
+  result: array(object({
+    symbol: string(),
+    description: string(),
+    type: string(),
+  })),
+});
+
+export const parseQuote = (symbol: string, data: unknown): StockQuote => {
+  const context = `quote for ${symbol}`;
+  const quote = validate(quoteSchema, data, context);
+  const underivable = (field: 'd' | 'dp') => validate(
+    () => fail(field, 'is missing and cannot be derived without a previous close'),
+    data,
+    context
+  );
+
+  // Finnhub leaves change fields null on some listings; derive them when we can
+  const change = quote.d ?? (quote.pc > 0 ? quote.c - quote.pc : underivable('d'));
+  const changePercent = quote.dp ?? (quote.pc > 0 ? (change / quote.pc) * 100 : underivable('dp'));
+
+  return {
+    symbol,
+    price: quote.c,
+    change,
+    changePercent,
+    previousClose: quote.pc,
+    high: quote.h,
+    low: quote.l,
+    open: quote.o,
+    volume: quote.v ?? 0,
+  };
+};
+
+export const parseProfile = (symbol: string, data: unknown): CompanyProfile => {
+  const profile = validate(profileSchema, data, `profile for ${symbol}`);
+
+  return {
+    symbol,
+    name: profile.name || symbol,
+    marketCapitalization: profile.marketCapitalization,
+    shareOutstanding: profile.shareOutstanding,
+    logo: profile.logo || undefined,
+  };
+};
+
+export const parseCandles = (symbol: string, range: HistoryRange, data: unknown): HistoricalData => {
+  const context = `candles for ${symbol}`;
+  const { s } = validate(candleStatusSchema, data, context);
+  if (s === 'no_data') {
+    return { symbol, ...range, candles: [] };
+  }
+
+  const candles = validate(candleSchema, data, context);
+
+  // Every series must line up with the timestamps
+  (['o', 'h', 'l', 'c', 'v'] as const).forEach(field => {
+    const series = candles[field];
+    if (series.length !== candles.t.length) {
+      validate(
+        () => fail(field, `has ${series.length} entries but t has ${candles.t.length}`),
+        data,
+        context
+      );
+    }
+  });
+
+  return {
+    symbol,
+    ...range,
+    candles: candles.t.map((time, index) => ({
+      time: time * 1000,
+      open: candles.o[index],
+      high: candles.h[index],
+      low: candles.l[index],
+      close: candles.c[index],
+      volume: candles.v[index],
+    })),
+  };
+};
+
+/**
+ * Search results carry no exchange, so it comes from the ticker's suffix.
+ * Listings on exchanges we can't parse are left out.
+ */
+export const parseSearchResults = (query: string, data: unknown): SymbolSearchResult[] => {
+  const { result } = validate(searchSchema, data, `search results for "${query}"`);
+
+  return result.flatMap(match => {
+    const parsed = parseSymbol(match.symbol);
+    return parsed
+      ? [{
+        symbol: parsed.symbol,
+        name: match.description || parsed.symbol,
+        exchange: parsed.exchange,
+        type: match.type || 'Unknown',
+      }]
+      : [];
+  });
+};
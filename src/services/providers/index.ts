@@ -0,0 +1,8 @@
+export * from './MarketDataProvider';
+export { default as FinnhubProvider } from './FinnhubProvider';
+export { default as InMemoryProvider } from './InMemoryProvider';
+export { default as MarketDataRegistry } from './MarketDataRegistry';
+export * from './demoData';
+export * from './batch';
+export * from './search';
+export * from './symbolDirectory';
@@ -0,0 +1,28 @@
+import { rankSymbolMatches, searchSymbols } from './search';
+import { InMemoryProvider } from './InMemoryProvider';
+import { DEMO_SYMBOL_DIRECTORY } from './symbolDirectory';
+
+const symbolsFor = (query: string) =>
+  rankSymbolMatches(DEMO_SYMBOL_DIRECTORY, query).map(result => result.symbol);
+
+test('ranks exact tickers, then ticker prefixes, then company names', () => {
+  expect(symbolsFor('goog')).toEqual(['GOOG', 'GOOGL']);
+  expect(symbolsFor('ma')[0]).toBe('MA');
+  expect(symbolsFor('apple')).toEqual(['AAPL']);
+  expect(symbolsFor('micro')).toEqual(['AMD', 'MSFT']);
+});
+
+test('caps the result list and ignores blank queries', () => {
+  expect(symbolsFor('a').length).toBe(8);
+  expect(symbolsFor('   ')).toEqual([]);
+});
+
+test('returns nothing for providers without a lookup service', async () => {
+  const provider = new InMemoryProvider({ directory: DEMO_SYMBOL_DIRECTORY });
+  const withoutSearch = { ...provider, id: 'bare', searchSymbols: undefined } as unknown as InMemoryProvider;
+
+  await expect(searchSymbols(provider, 'tesla')).resolves.toEqual([
+    { symbol: 'TSLA', name: 'Tesla, Inc.', exchange: 'US', type: 'Common Stock' },
+  ]);
+  await expect(searchSymbols(withoutSearch, 'tesla')).resolves.toEqual([]);
+});
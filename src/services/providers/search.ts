@@ -0,0 +1,55 @@
+import { SymbolSearchResult } from '../../types/stock.types';
+import { SYMBOL_SEARCH_LIMIT } from '../../utils/constants';
+import { MarketDataProvider } from './MarketDataProvider';
+
+/**
+ * Rank directory entries against a query: exact ticker first, then ticker
+ * prefixes, name word prefixes, and finally substrings anywhere.
+ */
+export const rankSymbolMatches = (
+  directory: SymbolSearchResult[],
+  query: string,
+  limit = SYMBOL_SEARCH_LIMIT
+): SymbolSearchResult[] => {
+  const needle = query.trim().toUpperCase();
+  if (!needle) return [];
+
+  const score = (entry: SymbolSearchResult): number | null => {
+    const symbol = entry.symbol.toUpperCase();
+    const name = entry.name.toUpperCase();
+    if (symbol === needle) return 0;
+    if (symbol.startsWith(needle)) return 1;
+    if (name.split(/[\s.,-]+/).some(word => word.startsWith(needle))) return 2;
+    if (symbol.includes(needle)) return 3;
+    if (name.includes(needle)) return 4;
+    return null;
+  };
+
+  return directory
+    .map(entry => ({ entry, rank: score(entry) }))
+    .filter((match): match is { entry: SymbolSearchResult; rank: number } => match.rank !== null)
+    .sort((a, b) =>
+      a.rank - b.rank ||
+      a.entry.symbol.length - b.entry.symbol.length ||
+      a.entry.symbol.localeCompare(b.entry.symbol)
+    )
+    .slice(0, limit)
+    .map(match => match.entry);
+};
+
+/**
+ * Look up symbols by ticker or company name.
+ * Providers without search support return no matches.
+ */
+export const searchSymbols = async (
+  provider: MarketDataProvider,
+  query: string,
+  signal?: AbortSignal
+): Promise<SymbolSearchResult[]> => {
+  const trimmed = query.trim();
+  if (!trimmed || !provider.searchSymbols) return [];
+
+  // Someone is waiting on the dropdown, so searches jump the queue
+  const results = await provider.searchSymbols(trimmed, signal, 'high');
+  return results.slice(0, SYMBOL_SEARCH_LIMIT);
+};
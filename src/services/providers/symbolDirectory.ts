@@ -0,0 +1,69 @@
+import { SymbolSearchResult } from '../../types/stock.types';
+import { parseSymbol } from '../../utils/symbols';
+
+const entry = (symbol: string, name: string, type: string): SymbolSearchResult =>
+  ({ symbol, name, exchange: parseSymbol(symbol)?.exchange ?? 'US', type });
+
+const stock = (symbol: string, name: string) => entry(symbol, name, 'Common Stock');
+const fund = (symbol: string, name: string) => entry(symbol, name, 'ETP');
+
+/**
+ * Bundled symbol directory searched in demo mode, when no API is available
+ */
+export const DEMO_SYMBOL_DIRECTORY: SymbolSearchResult[] = [
+  stock('AAPL', 'Apple Inc.'),
+  stock('GOOGL', 'Alphabet Inc. Class A'),
+  stock('GOOG', 'Alphabet Inc. Class C'),
+  stock('MSFT', 'Microsoft Corporation'),
+  stock('TSLA', 'Tesla, Inc.'),
+  stock('AMZN', 'Amazon.com, Inc.'),
+  stock('META', 'Meta Platforms, Inc.'),
+  stock('NVDA', 'NVIDIA Corporation'),
+  stock('NFLX', 'Netflix, Inc.'),
+  stock('AMD', 'Advanced Micro Devices, Inc.'),
+  stock('INTC', 'Intel Corporation'),
+  stock('ORCL', 'Oracle Corporation'),
+  stock('CRM', 'Salesforce, Inc.'),
+  stock('ADBE', 'Adobe Inc.'),
+  stock('IBM', 'International Business Machines Corporation'),
+  stock('CSCO', 'Cisco Systems, Inc.'),
+  stock('QCOM', 'QUALCOMM Incorporated'),
+  stock('AVGO', 'Broadcom Inc.'),
+  stock('UBER', 'Uber Technologies, Inc.'),
+  stock('SHOP', 'Shopify Inc.'),
+  stock('PYPL', 'PayPal Holdings, Inc.'),
+  stock('V', 'Visa Inc.'),
+  stock('MA', 'Mastercard Incorporated'),
+  stock('JPM', 'JPMorgan Chase & Co.'),
+  stock('BAC', 'Bank of America Corporation'),
+  stock('GS', 'The Goldman Sachs Group, Inc.'),
+  stock('WMT', 'Walmart Inc.'),
+  stock('COST', 'Costco Wholesale Corporation'),
+  stock('KO', 'The Coca-Cola Company'),
+  stock('PEP', 'PepsiCo, Inc.'),
+  stock('MCD', "McDonald's Corporation"),
+  stock('NKE', 'NIKE, Inc.'),
+  stock('DIS', 'The Walt Disney Company'),
+  stock('JNJ', 'Johnson & Johnson'),
+  stock('PFE', 'Pfizer Inc.'),
+  stock('XOM', 'Exxon Mobil Corporation'),
+  stock('CVX', 'Chevron Corporation'),
+  stock('BA', 'The Boeing Company'),
+  stock('F', 'Ford Motor Company'),
+  stock('GM', 'General Motors Company'),
+  stock('BRK.B', 'Berkshire Hathaway Inc. Class B'),
+  stock('BF.B', 'Brown-Forman Corporation Class B'),
+  stock('SHOP.TO', 'Shopify Inc.'),
+  stock('RY.TO', 'Royal Bank of Canada'),
+  stock('TD.TO', 'The Toronto-Dominion Bank'),
+  stock('RCI-B.TO', 'Rogers Communications Inc. Class B'),
+  entry('REI-UN.TO', 'RioCan Real Estate Investment Trust', 'REIT'),
+  stock('7203.T', 'Toyota Motor Corporation'),
+  stock('6758.T', 'Sony Group Corporation'),
+  stock('9984.T', 'SoftBank Group Corp.'),
+  fund('SPY', 'SPDR S&P 500 ETF Trust'),
+  fund('QQQ', 'Invesco QQQ Trust'),
+  fund('DIA', 'SPDR Dow Jones Industrial Average ETF Trust'),
+  fund('IWM', 'iShares Russell 2000 ETF'),
+  fund('VTI', 'Vanguard Total Stock Market ETF'),
+];
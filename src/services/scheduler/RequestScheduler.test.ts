@@ -0,0 +1,72 @@
+import { RequestScheduler, parseRetryAfter } from './RequestScheduler';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+test('runs requests concurrently up to the available budget', async () => {
+  const scheduler = new RequestScheduler({ callsPerMinute: 2 });
+  const started: string[] = [];
+  const task = (name: string) => () => {
+    started.push(name);
+    return new Promise<string>(() => {});
+  };
+
+  scheduler.schedule(task('a'));
+  scheduler.schedule(task('b'));
+  scheduler.schedule(task('c'));
+  await flush();
+
+  expect(started).toEqual(['a', 'b']);
+  expect(scheduler.getStatus()).toMatchObject({ remaining: 0, queued: 1, active: 2 });
+});
+
+test('starts higher priority requests first once budget frees up', async () => {
+  jest.useFakeTimers();
+  const scheduler = new RequestScheduler({ callsPerMinute: 1 });
+  const started: string[] = [];
+  const task = (name: string) => () => {
+    started.push(name);
+    return Promise.resolve(name);
+  };
+
+  scheduler.schedule(task('first'));
+  scheduler.schedule(task('background'), { priority: 'low' });
+  scheduler.schedule(task('selected'), { priority: 'high' });
+  await Promise.resolve();
+  expect(started).toEqual(['first']);
+
+  jest.advanceTimersByTime(60000);
+  await Promise.resolve();
+  expect(started).toEqual(['first', 'selected']);
+
+  jest.useRealTimers();
+});
+
+test('rejects queued requests when their signal aborts', async () => {
+  const scheduler = new RequestScheduler({ callsPerMinute: 1 });
+  scheduler.schedule(() => new Promise(() => {}));
+
+  const controller = new AbortController();
+  const queued = scheduler.schedule(() => Promise.resolve('never'), { signal: controller.signal });
+  controller.abort();
+
+  await expect(queued).rejects.toMatchObject({ name: 'AbortError' });
+  expect(scheduler.getStatus().queued).toBe(0);
+});
+
+test('pause spends the budget until the Retry-After window passes', () => {
+  let now = 0;
+  const scheduler = new RequestScheduler({ callsPerMinute: 60, now: () => now });
+
+  scheduler.pause(5000);
+  expect(scheduler.getStatus()).toMatchObject({ remaining: 0, pausedUntil: 5000 });
+
+  now = 7000;
+  expect(scheduler.getStatus()).toMatchObject({ remaining: 2, pausedUntil: null });
+});
+
+test('parseRetryAfter handles seconds and HTTP dates', () => {
+  expect(parseRetryAfter('3')).toBe(3000);
+  expect(parseRetryAfter('Thu, 01 Jan 1970 00:00:10 GMT', 4000)).toBe(6000);
+  expect(parseRetryAfter(null)).toBeNull();
+  expect(parseRetryAfter('soon')).toBeNull();
+});
@@ -0,0 +1,209 @@
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+export interface RateLimitStatus {
+  /** Whole calls available right now */
+  remaining: number;
+  /** Calls allowed per minute */
+  limit: number;
+  queued: number;
+  active: number;
+  /** Epoch ms until which the server asked us to back off, if any */
+  pausedUntil: number | null;
+}
+
+export interface RequestSchedulerOptions {
+  callsPerMinute: number;
+  maxConcurrent?: number;
+  now?: () => number;
+}
+
+interface ScheduleOptions {
+  priority?: RequestPriority;
+  signal?: AbortSignal;
+}
+
+interface QueuedTask {
+  priority: RequestPriority;
+  sequence: number;
+  start: () => void;
+}
+
+const PRIORITY_RANK: Record<RequestPriority, number> = {
+  high: 0,
+  normal: 1,
+  low: 2,
+};
+
+const createAbortError = (): Error => {
+  const error = new Error('The operation was aborted.');
+  error.name = 'AbortError';
+  return error;
+};
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+export const parseRetryAfter = (header: string | null, now = Date.now()): number | null => {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return null;
+};
+
+/**
+ * Token-bucket request scheduler shared by every caller of an API.
+ * The bucket holds one minute of budget and refills continuously; queued
+ * requests run concurrently while tokens last, highest priority first.
+ */
+export class RequestScheduler {
+  private readonly limit: number;
+  private readonly maxConcurrent: number;
+  private readonly now: () => number;
+
+  private tokens: number;
+  private lastRefill: number;
+  private pausedUntil = 0;
+  private active = 0;
+  private sequence = 0;
+  private queue: QueuedTask[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: RequestSchedulerOptions) {
+    this.limit = Math.max(1, options.callsPerMinute);
+    this.maxConcurrent = options.maxConcurrent ?? Infinity;
+    this.now = options.now ?? Date.now;
+    this.tokens = this.limit;
+    this.lastRefill = this.now();
+  }
+
+  /**
+   * Queue a request. It starts once a token is available and no higher
+   * priority request is waiting.
+   */
+  schedule<T>(task: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+    const { priority = 'normal', signal } = options;
+
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError());
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        this.queue = this.queue.filter(queued => queued !== entry);
+        reject(createAbortError());
+      };
+
+      const entry: QueuedTask = {
+        priority,
+        sequence: this.sequence++,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          this.active++;
+          Promise.resolve()
+            .then(task)
+            .then(resolve, reject)
+            .finally(() => {
+              this.active--;
+              this.drain();
+            });
+        },
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(entry);
+      this.drain();
+    });
+  }
+
+  /**
+   * Stop starting requests for the given time, e.g. after a 429 with Retry-After
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, this.now() + ms);
+    // The server considers our budget spent
+    this.tokens = 0;
+    this.lastRefill = this.pausedUntil;
+    this.drain();
+  }
+
+  getStatus(): RateLimitStatus {
+    this.refill();
+    return {
+      remaining: Math.floor(this.tokens),
+      limit: this.limit,
+      queued: this.queue.length,
+      active: this.active,
+      pausedUntil: this.pausedUntil > this.now() ? this.pausedUntil : null,
+    };
+  }
+
+  private refill(): void {
+    const now = this.now();
+    if (now <= this.lastRefill) return;
+
+    const refillPerMs = this.limit / 60000;
+    this.tokens = Math.min(this.limit, this.tokens + (now - this.lastRefill) * refillPerMs);
+    this.lastRefill = now;
+  }
+
+  private nextTask(): QueuedTask | undefined {
+    let best: QueuedTask | undefined;
+    this.queue.forEach(task => {
+      if (
+        !best ||
+        PRIORITY_RANK[task.priority] < PRIORITY_RANK[best.priority] ||
+        (task.priority === best.priority && task.sequence < best.sequence)
+      ) {
+        best = task;
+      }
+    });
+    return best;
+  }
+
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    while (this.queue.length > 0 && this.active < this.maxConcurrent) {
+      const now = this.now();
+      if (now < this.pausedUntil) {
+        this.wake(this.pausedUntil - now);
+        return;
+      }
+
+      this.refill();
+      if (this.tokens < 1) {
+        const refillPerMs = this.limit / 60000;
+        this.wake(Math.ceil((1 - this.tokens) / refillPerMs));
+        return;
+      }
+
+      const task = this.nextTask();
+      if (!task) return;
+
+      this.queue = this.queue.filter(queued => queued !== task);
+      this.tokens -= 1;
+      task.start();
+    }
+  }
+
+  private wake(delay: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, Math.max(0, delay));
+  }
+}
+
+export default RequestScheduler;
@@ -0,0 +1,2 @@
+export { default as RequestScheduler } from './RequestScheduler';
+export * from './RequestScheduler';
@@ -0,0 +1,133 @@
+import { QuoteStream } from './QuoteStream';
+import { applyTrades } from './applyTrades';
+import { StockQuote, TradeTick } from '../../types/stock.types';
+
+class FakeSocket {
+  static instances: FakeSocket[] = [];
+  sent: any[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(public url: string) {
+    FakeSocket.instances.push(this);
+  }
+
+  send(message: string) {
+    this.sent.push(JSON.parse(message));
+  }
+
+  close() {
+    this.onclose?.();
+  }
+
+  open() {
+    this.onopen?.();
+  }
+
+  receive(message: unknown) {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+}
+
+const createStream = () => new QuoteStream('ws://test', {
+  WebSocketImpl: FakeSocket as unknown as typeof WebSocket,
+  reconnectDelay: 10,
+});
+
+beforeEach(() => {
+  FakeSocket.instances = [];
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+test('subscribes on open and sends only the difference when symbols change', () => {
+  const stream = createStream();
+  stream.setSymbols(['AAPL', 'MSFT']);
+  stream.connect();
+
+  const socket = FakeSocket.instances[0];
+  socket.open();
+  expect(socket.sent).toEqual([
+    { type: 'subscribe', symbol: 'AAPL' },
+    { type: 'subscribe', symbol: 'MSFT' },
+  ]);
+
+  socket.sent = [];
+  stream.setSymbols(['AAPL', 'TSLA']);
+  expect(socket.sent).toEqual([
+    { type: 'unsubscribe', symbol: 'MSFT' },
+    { type: 'subscribe', symbol: 'TSLA' },
+  ]);
+});
+
+test('emits trades for subscribed symbols only', () => {
+  const stream = createStream();
+  const received: TradeTick[][] = [];
+  stream.onTrades(trades => received.push(trades));
+  stream.setSymbols(['AAPL']);
+  stream.connect();
+  FakeSocket.instances[0].open();
+
+  FakeSocket.instances[0].receive({ type: 'ping' });
+  FakeSocket.instances[0].receive({
+    type: 'trade',
+    data: [
+      { s: 'AAPL', p: 190.5, t: 1, v: 10 },
+      { s: 'MSFT', p: 410, t: 1, v: 5 },
+    ],
+  });
+
+  expect(received).toEqual([[{ symbol: 'AAPL', price: 190.5, volume: 10, timestamp: 1 }]]);
+});
+
+test('reconnects and resubscribes after the socket drops', () => {
+  const stream = createStream();
+  const statuses: string[] = [];
+  stream.onStatusChange(status => statuses.push(status));
+  stream.setSymbols(['AAPL']);
+  stream.connect();
+  FakeSocket.instances[0].open();
+
+  FakeSocket.instances[0].close();
+  expect(stream.getStatus()).toBe('closed');
+
+  jest.advanceTimersByTime(10);
+  expect(FakeSocket.instances).toHaveLength(2);
+
+  FakeSocket.instances[1].open();
+  expect(FakeSocket.instances[1].sent).toEqual([{ type: 'subscribe', symbol: 'AAPL' }]);
+  expect(statuses).toEqual(['connecting', 'open', 'closed', 'connecting', 'open']);
+});
+
+test('does not reconnect after an explicit disconnect', () => {
+  const stream = createStream();
+  stream.connect();
+  FakeSocket.instances[0].open();
+
+  stream.disconnect();
+  jest.advanceTimersByTime(1000);
+
+  expect(FakeSocket.instances).toHaveLength(1);
+  expect(stream.getStatus()).toBe('idle');
+});
+
+test('applyTrades moves price, range and volume and recomputes change', () => {
+  const quote: StockQuote = {
+    symbol: 'AAPL', price: 100, change: 0, changePercent: 0, previousClose: 100,
+    high: 101, low: 99, open: 100, volume: 1000,
+  };
+  const other: StockQuote = { ...quote, symbol: 'MSFT' };
+
+  const [updated, untouched] = applyTrades([quote, other], [
+    { symbol: 'AAPL', price: 98, volume: 10, timestamp: 2 },
+    { symbol: 'AAPL', price: 102, volume: 5, timestamp: 1 },
+  ]);
+
+  expect(updated).toMatchObject({ price: 98, high: 102, low: 98, volume: 1015, change: -2, changePercent: -2 });
+  expect(untouched).toBe(other);
+});
@@ -0,0 +1,183 @@
+import { TradeTick, StreamStatus } from '../../types/stock.types';
+import { STREAM_RECONNECT_DELAY, STREAM_MAX_RECONNECT_DELAY } from '../../utils/constants';
+
+type TradeListener = (trades: TradeTick[]) => void;
+type StatusListener = (status: StreamStatus) => void;
+
+export interface QuoteStreamOptions {
+  /** WebSocket implementation, injectable for tests */
+  WebSocketImpl?: typeof WebSocket;
+  reconnectDelay?: number;
+  maxReconnectDelay?: number;
+}
+
+/**
+ * Streaming trade client speaking the Finnhub WebSocket protocol:
+ * `{ type: 'subscribe' | 'unsubscribe', symbol }` out, `{ type: 'trade', data: [...] }` in.
+ * Keeps the subscription set across reconnects and retries with exponential backoff.
+ */
+export class QuoteStream {
+  private socket: WebSocket | null = null;
+  private symbols = new Set<string>();
+  private tradeListeners = new Set<TradeListener>();
+  private statusListeners = new Set<StatusListener>();
+  private status: StreamStatus = 'idle';
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private closedByClient = false;
+
+  private readonly WebSocketImpl: typeof WebSocket;
+  private readonly reconnectDelay: number;
+  private readonly maxReconnectDelay: number;
+
+  constructor(private readonly url: string, options: QuoteStreamOptions = {}) {
+    this.WebSocketImpl = options.WebSocketImpl ?? WebSocket;
+    this.reconnectDelay = options.reconnectDelay ?? STREAM_RECONNECT_DELAY;
+    this.maxReconnectDelay = options.maxReconnectDelay ?? STREAM_MAX_RECONNECT_DELAY;
+  }
+
+  getStatus(): StreamStatus {
+    return this.status;
+  }
+
+  connect(): void {
+    if (this.socket) return;
+
+    this.closedByClient = false;
+    this.setStatus('connecting');
+
+    let socket: WebSocket;
+    try {
+      socket = new this.WebSocketImpl(this.url);
+    } catch (error) {
+      console.warn('Failed to open quote stream:', error);
+      this.handleClose();
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectAttempt = 0;
+      this.setStatus('open');
+      this.symbols.forEach(symbol => this.send({ type: 'subscribe', symbol }));
+    };
+
+    socket.onmessage = (event: MessageEvent) => {
+      this.handleMessage(event.data);
+    };
+
+    socket.onerror = () => {
+      console.warn('Quote stream error, waiting for close');
+    };
+
+    socket.onclose = () => {
+      if (this.socket === socket) {
+        this.socket = null;
+        this.handleClose();
+      }
+    };
+  }
+
+  disconnect(): void {
+    this.closedByClient = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close();
+    }
+    this.setStatus('idle');
+  }
+
+  /**
+   * Replace the subscription set, sending only the difference to the server
+   */
+  setSymbols(symbols: string[]): void {
+    const next = new Set(symbols);
+
+    this.symbols.forEach(symbol => {
+      if (!next.has(symbol)) {
+        this.send({ type: 'unsubscribe', symbol });
+      }
+    });
+    next.forEach(symbol => {
+      if (!this.symbols.has(symbol)) {
+        this.send({ type: 'subscribe', symbol });
+      }
+    });
+
+    this.symbols = next;
+  }
+
+  onTrades(listener: TradeListener): () => void {
+    this.tradeListeners.add(listener);
+    return () => {
+      this.tradeListeners.delete(listener);
+    };
+  }
+
+  onStatusChange(listener: StatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  private send(message: { type: string; symbol: string }): void {
+    if (this.socket && this.status === 'open') {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private handleMessage(raw: unknown): void {
+    let message: any;
+    try {
+      message = JSON.parse(String(raw));
+    } catch {
+      return;
+    }
+
+    if (message?.type !== 'trade' || !Array.isArray(message.data)) return;
+
+    const trades: TradeTick[] = message.data
+      .filter((t: any) => typeof t?.s === 'string' && typeof t?.p === 'number' && t.p > 0)
+      .filter((t: any) => this.symbols.has(t.s))
+      .map((t: any) => ({
+        symbol: t.s,
+        price: t.p,
+        volume: typeof t.v === 'number' ? t.v : 0,
+        timestamp: typeof t.t === 'number' ? t.t : Date.now(),
+      }));
+
+    if (trades.length > 0) {
+      this.tradeListeners.forEach(listener => listener(trades));
+    }
+  }
+
+  private handleClose(): void {
+    if (this.closedByClient) return;
+
+    this.setStatus('closed');
+
+    const delay = Math.min(
+      this.reconnectDelay * Math.pow(2, this.reconnectAttempt),
+      this.maxReconnectDelay
+    );
+    this.reconnectAttempt++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private setStatus(status: StreamStatus): void {
+    if (this.status === status) return;
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(status));
+  }
+}
+
+export default QuoteStream;
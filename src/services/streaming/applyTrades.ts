@@ -0,0 +1,41 @@
+import { StockQuote, TradeTick } from '../../types/stock.types';
+
+/**
+ * Merge streamed trades into quote state.
+ * Price, day high/low and volume move with each trade; change figures are
+ * recomputed against the previous close. Quotes without trades keep their identity.
+ */
+export const applyTrades = (quotes: StockQuote[], trades: TradeTick[]): StockQuote[] => {
+  if (trades.length === 0) return quotes;
+
+  const tradesBySymbol = new Map<string, TradeTick[]>();
+  trades.forEach(trade => {
+    const list = tradesBySymbol.get(trade.symbol) ?? [];
+    list.push(trade);
+    tradesBySymbol.set(trade.symbol, list);
+  });
+
+  return quotes.map(quote => {
+    const symbolTrades = tradesBySymbol.get(quote.symbol);
+    if (!symbolTrades) return quote;
+
+    const ordered = [...symbolTrades].sort((a, b) => a.timestamp - b.timestamp);
+    const updated = { ...quote };
+
+    ordered.forEach(trade => {
+      updated.price = trade.price;
+      updated.high = Math.max(updated.high, trade.price);
+      updated.low = updated.low > 0 ? Math.min(updated.low, trade.price) : trade.price;
+      updated.volume += trade.volume;
+    });
+
+    if (updated.previousClose > 0) {
+      updated.change = Number((updated.price - updated.previousClose).toFixed(4));
+      updated.changePercent = Number(((updated.change / updated.previousClose) * 100).toFixed(4));
+    }
+
+    return updated;
+  });
+};
+
+export default applyTrades;
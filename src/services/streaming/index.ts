@@ -0,0 +1,3 @@
+export { default as QuoteStream } from './QuoteStream';
+export * from './QuoteStream';
+export * from './applyTrades';
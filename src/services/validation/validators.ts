@@ -0,0 +1,117 @@
+import { APIError } from '../../types/stock.types';
+
+/**
+ * A validator checks an unknown value and returns it typed, or throws an
+ * APIError naming the offending field. `path` is relative to the payload root.
+ */
+export type Validator<T> = (value: unknown, path: string) => T;
+
+export type Infer<V> = V extends Validator<infer T> ? T : never;
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return `array(${value.length})`;
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (typeof value === 'object') return 'object';
+  return String(value);
+};
+
+/**
+ * Throw a payload error for the field at `path`
+ */
+export const fail = (path: string, problem: string, ...received: [unknown?]): never => {
+  const got = received.length > 0 ? ` (got ${describe(received[0])})` : '';
+  throw new APIError(`${path || 'payload'} ${problem}${got}`, {
+    code: 'INVALID_PAYLOAD',
+    field: path,
+  });
+};
+
+interface NumberRules {
+  min?: number;
+  /** Value must be strictly greater than this */
+  greaterThan?: number;
+  integer?: boolean;
+}
+
+export const number = (rules: NumberRules = {}): Validator<number> => (value, path) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return fail(path, 'must be a finite number', value);
+  }
+  if (rules.integer && !Number.isInteger(value)) {
+    return fail(path, 'must be an integer', value);
+  }
+  if (rules.min !== undefined && value < rules.min) {
+    return fail(path, `must be at least ${rules.min}`, value);
+  }
+  if (rules.greaterThan !== undefined && value <= rules.greaterThan) {
+    return fail(path, `must be greater than ${rules.greaterThan}`, value);
+  }
+  return value;
+};
+
+export const string = (): Validator<string> => (value, path) => {
+  if (typeof value !== 'string') {
+    return fail(path, 'must be a string', value);
+  }
+  return value;
+};
+
+export const literal = <T extends string>(...allowed: T[]): Validator<T> => (value, path) => {
+  if (typeof value !== 'string' || !allowed.includes(value as T)) {
+    return fail(path, `must be one of ${allowed.map(a => `"${a}"`).join(', ')}`, value);
+  }
+  return value as T;
+};
+
+/**
+ * Accept undefined (field absent) in addition to the wrapped validator
+ */
+export const optional = <T>(validator: Validator<T>): Validator<T | undefined> => (value, path) =>
+  value === undefined ? undefined : validator(value, path);
+
+/**
+ * Accept null or undefined, normalised to null
+ */
+export const nullable = <T>(validator: Validator<T>): Validator<T | null> => (value, path) =>
+  value === null || value === undefined ? null : validator(value, path);
+
+export const array = <T>(item: Validator<T>): Validator<T[]> => (value, path) => {
+  if (!Array.isArray(value)) {
+    return fail(path, 'must be an array', value);
+  }
+  return value.map((entry, index) => item(entry, `${path}[${index}]`));
+};
+
+export const object = <S extends Record<string, Validator<any>>>(
+  shape: S
+): Validator<{ [K in keyof S]: Infer<S[K]> }> => (value, path) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return fail(path, 'must be an object', value);
+  }
+
+  const record = value as Record<string, unknown>;
+  const result = {} as { [K in keyof S]: Infer<S[K]> };
+  (Object.keys(shape) as Array<keyof S>).forEach(key => {
+    result[key] = shape[key](record[key as string], path ? `${path}.${String(key)}` : String(key));
+  });
+  return result;
+};
+
+/**
+ * Run a validator against a raw payload.
+ * Failures are rethrown as `Invalid <context>: <field> <problem>`.
+ */
+export const validate = <T>(validator: Validator<T>, value: unknown, context: string): T => {
+  try {
+    return validator(value, '');
+  } catch (error) {
+    if (error instanceof APIError && error.code === 'INVALID_PAYLOAD') {
+      throw new APIError(`Invalid ${context}: ${error.message}`, {
+        code: 'INVALID_PAYLOAD',
+        field: error.field,
+      });
+    }
+    throw error;
+  }
+};
@@ -10,11 +10,117 @@ export interface StockQuote {
   volume: number;
 }
 
-export interface HistoricalData {
+/**
+ * Bar size of a candle series: minutes, or daily / weekly / monthly
+ */
+export type CandleResolution = '1' | '5' | '15' | '60' | 'D' | 'W' | 'M';
+
+export interface Candle {
+  /** Bar open time, ms since epoch */
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface HistoryRange {
+  resolution: CandleResolution;
+  /** Range start, ms since epoch */
+  from: number;
+  /** Range end, ms since epoch */
+  to: number;
+}
+
+export interface HistoricalData extends HistoryRange {
   symbol: string;
-  prices: Array<{ date: string; price: number }>;
+  /** Oldest first */
+  candles: Candle[];
 }
 
+/**
+ * How the price chart draws candles
+ */
+export type ChartStyle = 'line' | 'area' | 'candlestick' | 'ohlc' | 'heikinAshi';
+
+/**
+ * How far back the price chart reaches
+ */
+export type ChartRange = '1D' | '5D' | '1M' | '6M' | 'YTD' | '1Y' | '5Y' | 'MAX';
+
+export interface ChartRangeConfig {
+  /** Long name for the chart title, e.g. '6 Months' */
+  title: string;
+  resolution: CandleResolution;
+  /** Calendar days to fetch, or 'ytd' for everything since January 1st */
+  days: number | 'ytd';
+  /**
+   * Keep only the most recent trading sessions, so '1D' shows the last
+   * session even over a weekend
+   */
+  sessions?: number;
+}
+
+export type IndicatorType =
+  | 'sma'
+  | 'ema'
+  | 'wma'
+  | 'bollinger'
+  | 'vwap'
+  | 'rsi'
+  | 'macd'
+  | 'stochastic'
+  | 'atr'
+  | 'obv';
+
+/**
+ * An indicator added to a symbol's chart
+ */
+export interface IndicatorConfig {
+  id: string;
+  type: IndicatorType;
+  /** Parameter values by key, e.g. { period: 20 }; see INDICATORS in utils/chartIndicators */
+  params: Record<string, number>;
+  color: string;
+}
+
+/**
+ * A point on the price chart; times rather than bar positions keep drawings
+ * in place across ranges and resolutions
+ */
+export interface ChartPoint {
+  time: number;
+  price: number;
+}
+
+export type DrawingType = 'trendLine' | 'horizontalLine' | 'rectangle' | 'text';
+
+interface DrawingBase {
+  id: string;
+  color: string;
+  createdAt: number;
+}
+
+/**
+ * A user annotation on a symbol's price chart
+ */
+export type ChartDrawing =
+  | (DrawingBase & { type: 'trendLine'; from: ChartPoint; to: ChartPoint })
+  | (DrawingBase & {
+    type: 'horizontalLine';
+    price: number;
+    /** Alert rule created from this level, if any */
+    alertId?: string;
+  })
+  | (DrawingBase & { type: 'rectangle'; from: ChartPoint; to: ChartPoint })
+  | (DrawingBase & { type: 'text'; at: ChartPoint; text: string });
+
+type WithoutId<D> = D extends ChartDrawing ? Omit<D, 'id' | 'createdAt'> : never;
+
+/** A drawing as placed on the chart, before it is given an id */
+export type NewChartDrawing = WithoutId<ChartDrawing>;
+
 export interface CompanyProfile {
   symbol: string;
   name: string;
@@ -23,23 +129,373 @@ export interface CompanyProfile {
   logo?: string;
 }
 
-export type SortField = 'symbol' | 'price' | 'change';
+/**
+ * Listing venues the app understands, see EXCHANGES in utils/symbols
+ */
+export type ExchangeCode =
+  | 'US'
+  | 'TSX'
+  | 'TSXV'
+  | 'TSE'
+  | 'LSE'
+  | 'HKEX'
+  | 'XETRA'
+  | 'EPA'
+  | 'AEX'
+  | 'ASX';
+
+export type AssetType = 'equity' | 'etf' | 'adr' | 'reit' | 'unit' | 'preferred' | 'unknown';
+
+/**
+ * A ticker broken into its parts
+ */
+export interface ParsedSymbol {
+  /** Canonical form used as the app-wide key, e.g. 'BRK.B' or 'SHOP.TO' */
+  symbol: string;
+  /** Ticker without share class or exchange suffix, e.g. 'BRK' */
+  root: string;
+  /** Share class, e.g. 'B' for BRK.B or 'UN' for trust units */
+  shareClass?: string;
+  exchange: ExchangeCode;
+  assetType: AssetType;
+}
+
+export interface SymbolSearchResult {
+  symbol: string;
+  /** Company or fund name */
+  name: string;
+  /** Listing venue, e.g. 'US' or 'TSX' */
+  exchange: ExchangeCode;
+  /** Security type, e.g. 'Common Stock' or 'ETP' */
+  type: string;
+}
+
+export interface TradeTick {
+  symbol: string;
+  price: number;
+  volume: number;
+  timestamp: number;
+}
+
+export type StreamStatus = 'idle' | 'connecting' | 'open' | 'closed';
+
+/**
+ * Columns the watchlist table can show
+ */
+export type StockColumnId =
+  | 'company'
+  | 'price'
+  | 'change'
+  | 'open'
+  | 'high'
+  | 'low'
+  | 'previousClose'
+  | 'dayRange'
+  | 'rangePosition'
+  | 'volume'
+  | 'marketCap'
+  | 'shares'
+  | 'position'
+  | 'pnl';
+
+/**
+ * The watchlist table can be sorted by any of its columns
+ */
+export type SortField = StockColumnId;
 export type SortDirection = 'asc' | 'desc';
 
+export interface SortKey {
+  field: SortField;
+  direction: SortDirection;
+}
+
+export interface ColumnLayout {
+  /** Visible columns, left to right */
+  columns: StockColumnId[];
+  /** Widths in pixels of columns the user has resized */
+  widths: Partial<Record<StockColumnId, number>>;
+}
+
+/**
+ * A named column layout, e.g. "Trading" or "Fundamentals"
+ */
+export interface ColumnPreset extends ColumnLayout {
+  id: string;
+  name: string;
+}
+
+export interface TableColumnsState extends ColumnLayout {
+  /** Presets the user saved; built-in presets are not stored */
+  presets: ColumnPreset[];
+}
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  /** Symbols in the order they were added */
+  symbols: string[];
+  /** Sort keys, most significant first */
+  sort: SortKey[];
+}
+
+export interface WatchlistState {
+  watchlists: Watchlist[];
+  activeId: string;
+}
+
+export interface Holding {
+  symbol: string;
+  quantity: number;
+  /** Average cost per share */
+  averageCost: number;
+  /** Local calendar date, YYYY-MM-DD */
+  purchaseDate: string;
+}
+
+/**
+ * A holding valued at the latest quote
+ */
+export interface Position extends Holding {
+  marketValue: number;
+  costBasis: number;
+  unrealizedPnL: number;
+  unrealizedPnLPercent: number;
+  dayPnL: number;
+  dayPnLPercent: number;
+}
+
+export interface PortfolioSummary {
+  marketValue: number;
+  costBasis: number;
+  unrealizedPnL: number;
+  unrealizedPnLPercent: number;
+  dayPnL: number;
+  dayPnLPercent: number;
+  /** Holdings valued in the totals */
+  positions: number;
+  /** Holdings left out because no quote has loaded yet */
+  missingQuotes: string[];
+}
+
+export type TransactionType = 'buy' | 'sell' | 'split' | 'dividend' | 'fee';
+
+/**
+ * How sells are matched against open lots
+ */
+export type LotMethod = 'fifo' | 'lifo' | 'specific';
+
+export interface LotSelection {
+  /** Id of the buy that opened the lot */
+  lotId: string;
+  quantity: number;
+}
+
+export interface Transaction {
+  id: string;
+  type: TransactionType;
+  symbol: string;
+  /** Trade or ex-date, YYYY-MM-DD */
+  date: string;
+  /** Shares bought or sold; 0 for other types */
+  quantity: number;
+  /** Price per share for buys and sells; 0 for other types */
+  price: number;
+  /** Commission charged on a buy or sell */
+  fees: number;
+  /** Cash received for a dividend or paid for a fee */
+  amount?: number;
+  /** New shares per old share for a split, e.g. 4 for 4-for-1 or 0.1 for 1-for-10 */
+  ratio?: number;
+  /** Lots a sell closes when using specific-lot matching */
+  lots?: LotSelection[];
+}
+
+export interface LedgerState {
+  transactions: Transaction[];
+  lotMethod: LotMethod;
+}
+
+export interface TaxLot {
+  /** Id of the buy that opened the lot */
+  id: string;
+  symbol: string;
+  /** Acquisition date, YYYY-MM-DD */
+  acquired: string;
+  /** Shares still open, adjusted for splits */
+  quantity: number;
+  /** Cost per share including buy fees, adjusted for splits */
+  costPerShare: number;
+}
+
+export interface RealizedGain {
+  symbol: string;
+  sellId: string;
+  lotId: string;
+  acquired: string;
+  sold: string;
+  quantity: number;
+  /** Sale value net of fees */
+  proceeds: number;
+  costBasis: number;
+  gain: number;
+  /** Long term once held for more than a year */
+  term: 'short' | 'long';
+}
+
+export interface LedgerIssue {
+  transactionId: string;
+  message: string;
+}
+
+export interface LedgerResult {
+  openLots: TaxLot[];
+  realized: RealizedGain[];
+  /** Dividend and fee transactions, in date order */
+  cashFlows: Transaction[];
+  /** Problems found while replaying, e.g. selling more than is held */
+  issues: LedgerIssue[];
+}
+
+/**
+ * Transaction fields a broker CSV column can be mapped to
+ */
+export type ImportField =
+  | 'date'
+  | 'action'
+  | 'symbol'
+  | 'description'
+  | 'quantity'
+  | 'price'
+  | 'commission'
+  | 'fees'
+  | 'amount';
+
+/** Column header per field; unmapped fields are left out */
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportRow {
+  /** Line in the file the row starts on */
+  line: number;
+  raw: string[];
+  transaction?: Omit<Transaction, 'id'>;
+  /** Why the row can't be imported */
+  error?: string;
+  /** Matches a ledger entry or an earlier row in the file */
+  duplicate: boolean;
+}
+
+/**
+ * Lookup result for an imported symbol; 'unchecked' when offline
+ */
+export type SymbolCheckStatus = 'checking' | 'known' | 'unknown' | 'unchecked';
+
+export interface RealizedGainsYear {
+  year: number;
+  shortTerm: number;
+  longTerm: number;
+  total: number;
+  dividends: number;
+  fees: number;
+  gains: RealizedGain[];
+}
+
+/**
+ * A check against a single quote. A signed changePercent threshold fires on
+ * moves beyond it in that direction, e.g. -2 for a drop of 2% or more.
+ */
+export type QuoteAlertCondition =
+  | { kind: 'priceAbove'; value: number }
+  | { kind: 'priceBelow'; value: number }
+  | { kind: 'changePercent'; value: number }
+  | { kind: 'volumeAbove'; value: number }
+  | { kind: 'newDayHigh' }
+  | { kind: 'newDayLow' };
+
+/**
+ * What an alert watches for: a quote check, or a rule written in the alert
+ * expression language, e.g. `price > sma(20) and changePercent < -2`
+ */
+export type AlertCondition =
+  | QuoteAlertCondition
+  | { kind: 'expression'; expression: string };
+
+export type AlertKind = AlertCondition['kind'];
+
+export interface AlertRule {
+  id: string;
+  symbol: string;
+  condition: AlertCondition;
+  enabled: boolean;
+  /** Re-arm after firing instead of switching off */
+  repeat: boolean;
+  /** Minimum time between two firings of a repeating alert */
+  cooldownMs: number;
+  createdAt: number;
+  lastTriggeredAt?: number;
+}
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  symbol: string;
+  message: string;
+  /** Price when the alert fired */
+  price: number;
+  triggeredAt: number;
+}
+
+export interface AlertState {
+  rules: AlertRule[];
+  /** Newest first */
+  history: AlertEvent[];
+}
+
+/**
+ * A syntax or type error in an alert expression
+ */
+export class ExpressionError extends Error {
+  /** Offset into the source where the problem starts */
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'ExpressionError';
+    this.position = position;
+    Object.setPrototypeOf(this, ExpressionError.prototype);
+  }
+}
+
+export type APIErrorCode =
+  | 'API_KEY_MISSING'
+  | 'NETWORK'
+  | 'TIMEOUT'
+  | 'HTTP_ERROR'
+  | 'RATE_LIMIT'
+  | 'INVALID_PAYLOAD'
+  | 'FETCH_FAILED';
+
 export interface APIErrorData {
   status?: number;
-  code?: string;
+  code?: APIErrorCode;
+  /** Server-requested wait before retrying, from Retry-After */
+  retryAfterMs?: number;
+  /** Payload field that failed validation, e.g. `candle.t` */
+  field?: string;
 }
 
 export class APIError extends Error implements APIErrorData {
   status?: number;
-  code?: string;
+  code?: APIErrorCode;
+  retryAfterMs?: number;
+  field?: string;
 
   constructor(message: string, options?: APIErrorData) {
     super(message);
     this.name = 'APIError';
     this.status = options?.status;
     this.code = options?.code;
+    this.retryAfterMs = options?.retryAfterMs;
+    this.field = options?.field;
     Object.setPrototypeOf(this, APIError.prototype);
   }
 }
\ No newline at end of file
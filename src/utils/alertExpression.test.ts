@@ -0,0 +1,89 @@
+import { compileExpression, evaluateExpression, validateExpression } from './alertExpression';
+import { Candle, StockQuote } from '../types/stock.types';
+
+const quote = (symbol: string, price: number, changePercent: number): StockQuote => ({
+  symbol,
+  price,
+  change: 0,
+  changePercent,
+  previousClose: price,
+  high: price,
+  low: price,
+  open: price,
+  volume: 1000,
+});
+
+const quotes = (...list: StockQuote[]) => new Map(list.map(q => [q.symbol, q]));
+
+// One daily candle per day before 2024-03-15, closing at the given prices
+const dailyCandles = (closes: number[]): Candle[] =>
+  closes.map((close, i) => ({
+    time: new Date(2024, 2, 15 - closes.length + i).getTime(),
+    open: close,
+    high: close,
+    low: close,
+    close,
+    volume: 1000,
+  }));
+
+test('compares fields across symbols', () => {
+  const expression = compileExpression('AAPL.changePercent - QQQ.changePercent > 1.5');
+  expect(expression.symbols).toEqual(['AAPL', 'QQQ']);
+
+  const context = { symbol: 'AAPL', history: new Map() };
+  expect(evaluateExpression(expression, { ...context, quotes: quotes(quote('AAPL', 100, 2), quote('QQQ', 50, 0.2)) })).toBe(true);
+  expect(evaluateExpression(expression, { ...context, quotes: quotes(quote('AAPL', 100, 2), quote('QQQ', 50, 1)) })).toBe(false);
+  // QQQ hasn't loaded, so the rule can't be decided
+  expect(evaluateExpression(expression, { ...context, quotes: quotes(quote('AAPL', 100, 2)) })).toBeNull();
+});
+
+test('computes indicators from daily history with the live price as today', () => {
+  const expression = compileExpression('price > sma(3) and changePercent < -2');
+  expect(expression.historySymbols).toEqual([null]);
+
+  const context = {
+    symbol: 'MSFT',
+    history: new Map([['MSFT', dailyCandles([90, 100, 110])]]),
+    today: '2024-03-15',
+  };
+  // sma(3) of 100, 110 and the live 108 is 106
+  expect(evaluateExpression(expression, { ...context, quotes: quotes(quote('MSFT', 108, -3)) })).toBe(true);
+  expect(evaluateExpression(expression, { ...context, quotes: quotes(quote('MSFT', 104, -3)) })).toBe(false);
+  expect(evaluateExpression(compileExpression('price > sma(5)'), { ...context, quotes: quotes(quote('MSFT', 108, -3)) })).toBeNull();
+});
+
+test('respects precedence, parentheses and not', () => {
+  const context = { symbol: 'AAPL', quotes: quotes(quote('AAPL', 10, 1)), history: new Map() };
+  const check = (source: string) => evaluateExpression(compileExpression(source), context);
+
+  expect(check('price == 4 + 3 * 2')).toBe(true);
+  expect(check('price > (2 + 3) * 1.5')).toBe(true);
+  expect(check('price < 5 or price > 8 and changePercent > 0')).toBe(true);
+  expect(check('not price > 5')).toBe(false);
+  expect(check('-changePercent < 0')).toBe(true);
+});
+
+test.each([
+  ['', 'Enter an expression, e.g. price > 100', 0],
+  ['prise > 100', "Unknown field 'prise'. Use one of price, change, changePercent, previousClose, high, low, open, volume", 0],
+  ['changepercent < -2', "Unknown field 'changepercent'; did you mean changePercent?", 0],
+  ['price > smaa(20)', "Unknown function 'smaa'. Use one of sma, ema, rsi, avgVolume", 8],
+  ['price > sma(0)', 'sma takes one argument, a whole number of days from 1 to 200, e.g. sma(20)', 12],
+  ['price + 1', 'The rule must be true or false; compare the value with something, e.g. price > 100', 0],
+  ['price > 1 and 2', "'and' needs a comparison on both sides, e.g. price > 100 and volume > 1000000", 10],
+  ['1 < price < 2', "Comparisons can't be chained; join them with 'and'", 10],
+  ['price > 1 && volume > 2', "Use 'and' instead of '&&'", 10],
+  ['(price > 1', "Missing ')' to close the '(' at column 1", 10],
+  ['AAPL > 100', 'Add a field after the ticker, e.g. AAPL.price', 0],
+  ['price >', 'The expression ends too early; expected a value', 7],
+])('reports %p clearly', (source, message, position) => {
+  const error = validateExpression(source);
+  expect(error?.message).toBe(message);
+  expect(error?.position).toBe(position);
+});
+
+test('accepts share classes and quoted tickers', () => {
+  expect(compileExpression('BRK.B.price > 400').symbols).toEqual(['BRK.B']);
+  expect(compileExpression('"rci-b.to".changePercent < -1').symbols).toEqual(['RCI-B.TO']);
+  expect(validateExpression('"???".price > 1')?.message).toBe("'???' is not a valid ticker");
+});
@@ -0,0 +1,604 @@
+import { Candle, ExpressionError, StockQuote } from '../types/stock.types';
+import { parseSymbol } from './symbols';
+import { ema, latest, rsi, sma } from './indicators';
+import { toDateKey } from './portfolio';
+
+/**
+ * The alert expression language, e.g.
+ *   price > sma(20) and changePercent < -2
+ *   AAPL.changePercent - QQQ.changePercent > 1.5
+ * Bare fields and functions refer to the rule's own symbol. Prefix them with
+ * a ticker for another one, quoting tickers that contain a dash or start with
+ * a digit: "RCI-B.TO".price
+ */
+
+export const QUOTE_FIELDS = [
+  'price',
+  'change',
+  'changePercent',
+  'previousClose',
+  'high',
+  'low',
+  'open',
+  'volume',
+] as const;
+
+type QuoteField = typeof QUOTE_FIELDS[number];
+
+/**
+ * Indicator functions over daily history. Each takes one argument, the
+ * period in trading days.
+ */
+export const EXPRESSION_FUNCTIONS = {
+  sma: 'Simple moving average of the close',
+  ema: 'Exponential moving average of the close',
+  rsi: 'Relative strength index of the close, 0 to 100',
+  avgVolume: 'Average daily volume over completed sessions',
+} as const;
+
+type FunctionName = keyof typeof EXPRESSION_FUNCTIONS;
+
+export const MAX_EXPRESSION_PERIOD = 200;
+
+/** Calendar days of daily candles that cover the longest period */
+export const EXPRESSION_HISTORY_DAYS = 400;
+
+type CompareOperator = '>' | '>=' | '<' | '<=' | '==' | '!=';
+type ArithmeticOperator = '+' | '-' | '*' | '/';
+
+type ExpressionNode =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'field'; symbol: string | null; field: QuoteField; position: number }
+  | { type: 'call'; symbol: string | null; name: FunctionName; period: number; position: number }
+  | { type: 'negate'; operand: ExpressionNode; position: number }
+  | { type: 'not'; operand: ExpressionNode; position: number }
+  | { type: 'arithmetic'; operator: ArithmeticOperator; left: ExpressionNode; right: ExpressionNode; position: number }
+  | { type: 'compare'; operator: CompareOperator; left: ExpressionNode; right: ExpressionNode; position: number }
+  | { type: 'logical'; operator: 'and' | 'or'; left: ExpressionNode; right: ExpressionNode; position: number };
+
+export interface CompiledExpression {
+  source: string;
+  root: ExpressionNode;
+  /** Tickers named in the expression, canonical form */
+  symbols: string[];
+  /** Whether any function needs daily history, keyed as in `symbols` with null for the rule's own */
+  historySymbols: Array<string | null>;
+}
+
+export interface ExpressionContext {
+  /** The rule's own symbol, used by bare fields and functions */
+  symbol: string;
+  quotes: Map<string, StockQuote>;
+  /** Daily candles by symbol, oldest first */
+  history: Map<string, Candle[]>;
+  /** Local date of the live session, YYYY-MM-DD */
+  today?: string;
+}
+
+// --- Tokenizer ---
+
+type TokenType = 'number' | 'identifier' | 'ticker' | 'operator' | '(' | ')' | ',' | '.' | 'end';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  position: number;
+}
+
+const OPERATORS = ['>=', '<=', '==', '!=', '>', '<', '=', '+', '-', '*', '/'];
+
+// Spellings from other languages, with what to write instead
+const FOREIGN_OPERATORS: Record<string, string> = {
+  '&&': 'and',
+  '||': 'or',
+  '!': 'not',
+};
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const rest = source.slice(i);
+    const number = /^\d+(\.\d+)?/.exec(rest);
+    if (number) {
+      tokens.push({ type: 'number', text: number[0], position: i });
+      i += number[0].length;
+      continue;
+    }
+
+    const identifier = /^[A-Za-z_][A-Za-z0-9_]*/.exec(rest);
+    if (identifier) {
+      tokens.push({ type: 'identifier', text: identifier[0], position: i });
+      i += identifier[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const end = source.indexOf(char, i + 1);
+      if (end === -1) {
+        throw new ExpressionError(`Missing closing ${char} for the ticker`, i);
+      }
+      tokens.push({ type: 'ticker', text: source.slice(i + 1, end), position: i });
+      i = end + 1;
+      continue;
+    }
+
+    const foreign = Object.keys(FOREIGN_OPERATORS).find(op => rest.startsWith(op) && !rest.startsWith('!='));
+    if (foreign) {
+      throw new ExpressionError(`Use '${FOREIGN_OPERATORS[foreign]}' instead of '${foreign}'`, i);
+    }
+
+    const operator = OPERATORS.find(op => rest.startsWith(op));
+    if (operator) {
+      tokens.push({ type: 'operator', text: operator === '=' ? '==' : operator, position: i });
+      i += operator.length;
+      continue;
+    }
+
+    if (char === '(' || char === ')' || char === ',' || char === '.') {
+      tokens.push({ type: char, text: char, position: i });
+      i++;
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character '${char}'`, i);
+  }
+
+  tokens.push({ type: 'end', text: '', position: source.length });
+  return tokens;
+};
+
+// --- Parser ---
+
+const KEYWORDS = ['and', 'or', 'not'];
+const COMPARE_OPERATORS: CompareOperator[] = ['>', '>=', '<', '<=', '==', '!='];
+
+const describeToken = (token: Token): string =>
+  token.type === 'end' ? 'the end of the expression' : `'${token.text}'`;
+
+const isField = (name: string): name is QuoteField =>
+  (QUOTE_FIELDS as readonly string[]).includes(name);
+
+const isFunction = (name: string): name is FunctionName =>
+  Object.prototype.hasOwnProperty.call(EXPRESSION_FUNCTIONS, name);
+
+// Catch case slips such as `changepercent` or `SMA`
+const suggest = (name: string, candidates: readonly string[]): string => {
+  const match = candidates.find(candidate => candidate.toLowerCase() === name.toLowerCase());
+  return match ? `; did you mean ${match}?` : `. Use one of ${candidates.join(', ')}`;
+};
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    if (this.peek().type === 'end') {
+      throw new ExpressionError('Enter an expression, e.g. price > 100', 0);
+    }
+    const root = this.parseOr();
+    const next = this.peek();
+    if (next.type !== 'end') {
+      throw new ExpressionError(`Unexpected ${describeToken(next)}`, next.position);
+    }
+    return root;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return token.type === 'identifier' && token.text === keyword;
+  }
+
+  private parseOr(): ExpressionNode {
+    let left = this.parseAnd();
+    while (this.isKeyword('or')) {
+      const { position } = this.next();
+      left = { type: 'logical', operator: 'or', left, right: this.parseAnd(), position };
+    }
+    return left;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let left = this.parseNot();
+    while (this.isKeyword('and')) {
+      const { position } = this.next();
+      left = { type: 'logical', operator: 'and', left, right: this.parseNot(), position };
+    }
+    return left;
+  }
+
+  private parseNot(): ExpressionNode {
+    if (this.isKeyword('not')) {
+      const { position } = this.next();
+      return { type: 'not', operand: this.parseNot(), position };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ExpressionNode {
+    const left = this.parseAdditive();
+    const token = this.peek();
+    if (token.type !== 'operator' || !COMPARE_OPERATORS.includes(token.text as CompareOperator)) {
+      return left;
+    }
+    this.next();
+    const node: ExpressionNode = {
+      type: 'compare',
+      operator: token.text as CompareOperator,
+      left,
+      right: this.parseAdditive(),
+      position: token.position,
+    };
+
+    const chained = this.peek();
+    if (chained.type === 'operator' && COMPARE_OPERATORS.includes(chained.text as CompareOperator)) {
+      throw new ExpressionError("Comparisons can't be chained; join them with 'and'", chained.position);
+    }
+    return node;
+  }
+
+  private parseAdditive(): ExpressionNode {
+    let left = this.parseMultiplicative();
+    while (this.peek().type === 'operator' && (this.peek().text === '+' || this.peek().text === '-')) {
+      const { text, position } = this.next();
+      left = { type: 'arithmetic', operator: text as ArithmeticOperator, left, right: this.parseMultiplicative(), position };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): ExpressionNode {
+    let left = this.parseUnary();
+    while (this.peek().type === 'operator' && (this.peek().text === '*' || this.peek().text === '/')) {
+      const { text, position } = this.next();
+      left = { type: 'arithmetic', operator: text as ArithmeticOperator, left, right: this.parseUnary(), position };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (token.type === 'operator' && token.text === '-') {
+      this.next();
+      return { type: 'negate', operand: this.parseUnary(), position: token.position };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'number', value: Number(token.text), position: token.position };
+
+      case '(': {
+        const inner = this.parseOr();
+        if (this.peek().type !== ')') {
+          throw new ExpressionError(
+            `Missing ')' to close the '(' at column ${token.position + 1}`,
+            this.peek().position
+          );
+        }
+        this.next();
+        return inner;
+      }
+
+      case 'ticker': {
+        if (this.peek().type !== '.') {
+          throw new ExpressionError(`Add a field after the ticker, e.g. "${token.text}".price`, this.peek().position);
+        }
+        this.next();
+        const member = this.next();
+        if (member.type !== 'identifier') {
+          throw new ExpressionError(`Expected a field or function after "${token.text}."`, member.position);
+        }
+        return this.parseMember(this.resolveTicker(token.text, token.position), member);
+      }
+
+      case 'identifier': {
+        if (KEYWORDS.includes(token.text)) {
+          throw new ExpressionError(`Expected a value before '${token.text}'`, token.position);
+        }
+
+        // A dotted chain: every part but the last names the ticker, e.g. BRK.B.price
+        const parts = [token];
+        while (this.peek().type === '.' && this.tokens[this.index + 1]?.type === 'identifier') {
+          this.next();
+          parts.push(this.next());
+        }
+        if (this.peek().type === '.') {
+          throw new ExpressionError(`Expected a field or function after '.'`, this.peek().position);
+        }
+
+        const member = parts[parts.length - 1];
+        if (parts.length === 1) {
+          const looksLikeTicker = /^[A-Z]+$/.test(member.text) &&
+            !QUOTE_FIELDS.some(field => field.toLowerCase() === member.text.toLowerCase());
+          if (this.peek().type !== '(' && looksLikeTicker) {
+            throw new ExpressionError(`Add a field after the ticker, e.g. ${member.text}.price`, member.position);
+          }
+          return this.parseMember(null, member);
+        }
+
+        const ticker = parts.slice(0, -1).map(part => part.text).join('.');
+        return this.parseMember(this.resolveTicker(ticker, token.position), member);
+      }
+
+      default:
+        throw new ExpressionError(
+          token.type === 'end'
+            ? 'The expression ends too early; expected a value'
+            : `Expected a value but found ${describeToken(token)}`,
+          token.position
+        );
+    }
+  }
+
+  private resolveTicker(text: string, position: number): string {
+    const parsed = parseSymbol(text.toUpperCase());
+    if (!parsed) {
+      throw new ExpressionError(`'${text}' is not a valid ticker`, position);
+    }
+    return parsed.symbol;
+  }
+
+  private parseMember(symbol: string | null, member: Token): ExpressionNode {
+    if (this.peek().type !== '(') {
+      if (!isField(member.text)) {
+        throw new ExpressionError(
+          `Unknown field '${member.text}'${suggest(member.text, QUOTE_FIELDS)}`,
+          member.position
+        );
+      }
+      return { type: 'field', symbol, field: member.text, position: member.position };
+    }
+
+    if (!isFunction(member.text)) {
+      throw new ExpressionError(
+        `Unknown function '${member.text}'${suggest(member.text, Object.keys(EXPRESSION_FUNCTIONS))}`,
+        member.position
+      );
+    }
+    const name = member.text;
+    this.next();
+
+    const args: Token[] = [];
+    while (this.peek().type !== ')' && this.peek().type !== 'end') {
+      args.push(this.next());
+      if (this.peek().type === ',') this.next();
+    }
+    if (this.peek().type !== ')') {
+      throw new ExpressionError(`Missing ')' after the arguments to ${name}`, this.peek().position);
+    }
+    this.next();
+
+    const period = args.length === 1 && args[0].type === 'number' ? Number(args[0].text) : NaN;
+    if (!Number.isInteger(period) || period < 1 || period > MAX_EXPRESSION_PERIOD) {
+      throw new ExpressionError(
+        `${name} takes one argument, a whole number of days from 1 to ${MAX_EXPRESSION_PERIOD}, e.g. ${name}(20)`,
+        args[0]?.position ?? member.position
+      );
+    }
+    return { type: 'call', symbol, name, period, position: member.position };
+  }
+}
+
+// --- Type checking ---
+
+type ValueType = 'number' | 'boolean';
+
+const typeOf = (node: ExpressionNode): ValueType => {
+  const expect = (child: ExpressionNode, type: ValueType, message: string) => {
+    if (typeOf(child) !== type) throw new ExpressionError(message, node.position);
+  };
+
+  switch (node.type) {
+    case 'number':
+    case 'field':
+    case 'call':
+      return 'number';
+    case 'negate':
+      expect(node.operand, 'number', "'-' needs a number after it");
+      return 'number';
+    case 'arithmetic':
+      expect(node.left, 'number', `'${node.operator}' needs numbers on both sides`);
+      expect(node.right, 'number', `'${node.operator}' needs numbers on both sides`);
+      return 'number';
+    case 'compare':
+      expect(node.left, 'number', `'${node.operator}' compares numbers; group comparisons with 'and' or 'or'`);
+      expect(node.right, 'number', `'${node.operator}' compares numbers; group comparisons with 'and' or 'or'`);
+      return 'boolean';
+    case 'not':
+      expect(node.operand, 'boolean', "'not' needs a comparison after it, e.g. not price > 100");
+      return 'boolean';
+    case 'logical':
+      expect(node.left, 'boolean', `'${node.operator}' needs a comparison on both sides, e.g. price > 100 ${node.operator} volume > 1000000`);
+      expect(node.right, 'boolean', `'${node.operator}' needs a comparison on both sides, e.g. price > 100 ${node.operator} volume > 1000000`);
+      return 'boolean';
+  }
+};
+
+const collect = (node: ExpressionNode, visit: (node: ExpressionNode) => void): void => {
+  visit(node);
+  if (node.type === 'negate' || node.type === 'not') collect(node.operand, visit);
+  if (node.type === 'arithmetic' || node.type === 'compare' || node.type === 'logical') {
+    collect(node.left, visit);
+    collect(node.right, visit);
+  }
+};
+
+/**
+ * Parse and type-check an expression. Throws an ExpressionError pointing at
+ * the offending part of the source.
+ */
+export const compileExpression = (source: string): CompiledExpression => {
+  const root = new Parser(tokenize(source)).parse();
+  if (typeOf(root) !== 'boolean') {
+    throw new ExpressionError('The rule must be true or false; compare the value with something, e.g. price > 100', 0);
+  }
+
+  const symbols = new Set<string>();
+  const historySymbols = new Set<string | null>();
+  collect(root, node => {
+    if (node.type !== 'field' && node.type !== 'call') return;
+    if (node.symbol) symbols.add(node.symbol);
+    if (node.type === 'call') historySymbols.add(node.symbol);
+  });
+
+  return { source, root, symbols: Array.from(symbols), historySymbols: Array.from(historySymbols) };
+};
+
+/**
+ * The first problem with an expression, or null when it is valid
+ */
+export const validateExpression = (source: string): ExpressionError | null => {
+  try {
+    compileExpression(source);
+    return null;
+  } catch (error) {
+    if (error instanceof ExpressionError) return error;
+    throw error;
+  }
+};
+
+/**
+ * Compile, returning null for an invalid expression
+ */
+export const tryCompileExpression = (source: string): CompiledExpression | null => {
+  try {
+    return compileExpression(source);
+  } catch (error) {
+    return null;
+  }
+};
+
+// --- Evaluation ---
+
+type Value = number | boolean | null;
+
+const indicatorValue = (
+  name: FunctionName,
+  period: number,
+  quote: StockQuote,
+  candles: Candle[],
+  today: string
+): number | null => {
+  // The provider's bar for today is partial; the live quote stands in for it
+  const completed = candles.filter(candle => toDateKey(new Date(candle.time)) < today);
+
+  if (name === 'avgVolume') {
+    if (completed.length < period) return null;
+    return completed.slice(-period).reduce((sum, candle) => sum + candle.volume, 0) / period;
+  }
+
+  const closes = [...completed.map(candle => candle.close), quote.price];
+  switch (name) {
+    case 'sma':
+      return latest(sma(closes, period));
+    case 'ema':
+      return latest(ema(closes, period));
+    case 'rsi':
+      return latest(rsi(closes, period));
+  }
+};
+
+const calculate = (operator: ArithmeticOperator, left: number, right: number): number | null => {
+  switch (operator) {
+    case '+': return left + right;
+    case '-': return left - right;
+    case '*': return left * right;
+    case '/': return right === 0 ? null : left / right;
+  }
+};
+
+const compare = (operator: CompareOperator, left: number, right: number): boolean => {
+  switch (operator) {
+    case '>': return left > right;
+    case '>=': return left >= right;
+    case '<': return left < right;
+    case '<=': return left <= right;
+    case '==': return left === right;
+    case '!=': return left !== right;
+  }
+};
+
+const evaluateNode = (node: ExpressionNode, context: ExpressionContext, today: string): Value => {
+  switch (node.type) {
+    case 'number':
+      return node.value;
+
+    case 'field': {
+      const quote = context.quotes.get(node.symbol ?? context.symbol);
+      return quote ? quote[node.field] : null;
+    }
+
+    case 'call': {
+      const symbol = node.symbol ?? context.symbol;
+      const quote = context.quotes.get(symbol);
+      const candles = context.history.get(symbol);
+      return quote && candles ? indicatorValue(node.name, node.period, quote, candles, today) : null;
+    }
+
+    case 'negate': {
+      const value = evaluateNode(node.operand, context, today);
+      return value === null ? null : -(value as number);
+    }
+
+    case 'not': {
+      const value = evaluateNode(node.operand, context, today);
+      return value === null ? null : !value;
+    }
+
+    case 'arithmetic': {
+      const left = evaluateNode(node.left, context, today) as number | null;
+      const right = evaluateNode(node.right, context, today) as number | null;
+      return left === null || right === null ? null : calculate(node.operator, left, right);
+    }
+
+    case 'compare': {
+      const left = evaluateNode(node.left, context, today) as number | null;
+      const right = evaluateNode(node.right, context, today) as number | null;
+      return left === null || right === null ? null : compare(node.operator, left, right);
+    }
+
+    case 'logical': {
+      const left = evaluateNode(node.left, context, today);
+      // Short-circuit so a decided result doesn't wait on missing data
+      if (node.operator === 'and' && left === false) return false;
+      if (node.operator === 'or' && left === true) return true;
+      const right = evaluateNode(node.right, context, today);
+      if (node.operator === 'and' && right === false) return false;
+      if (node.operator === 'or' && right === true) return true;
+      if (left === null || right === null) return null;
+      return node.operator === 'and' ? left && right : left || right;
+    }
+  }
+};
+
+/**
+ * Evaluate against live quotes. Returns null when something the expression
+ * needs is missing, such as a quote that hasn't loaded or too little history.
+ */
+export const evaluateExpression = (
+  expression: CompiledExpression,
+  context: ExpressionContext
+): boolean | null => {
+  const value = evaluateNode(expression.root, context, context.today ?? toDateKey());
+  return typeof value === 'boolean' ? value : null;
+};
@@ -0,0 +1,71 @@
+import { conditionMet, evaluateAlerts } from './alerts';
+import { AlertRule, StockQuote } from '../types/stock.types';
+
+const quote = (symbol: string, price: number, overrides: Partial<StockQuote> = {}): StockQuote => ({
+  symbol,
+  price,
+  change: price - 100,
+  changePercent: price - 100,
+  previousClose: 100,
+  high: price,
+  low: 95,
+  open: 100,
+  volume: 1000,
+  ...overrides,
+});
+
+const rule = (overrides: Partial<AlertRule> = {}): AlertRule => ({
+  id: 'r1',
+  symbol: 'AAPL',
+  condition: { kind: 'priceAbove', value: 105 },
+  enabled: true,
+  repeat: false,
+  cooldownMs: 60000,
+  createdAt: 0,
+  ...overrides,
+});
+
+test('fires when a condition becomes true, not while it stays true', () => {
+  const first = evaluateAlerts([rule({ repeat: true })], [quote('AAPL', 106)], [quote('AAPL', 104)], 1000);
+  expect(first.events).toHaveLength(1);
+  expect(first.events[0].price).toBe(106);
+
+  const still = evaluateAlerts(first.rules, [quote('AAPL', 107)], [quote('AAPL', 106)], 200000);
+  expect(still.events).toHaveLength(0);
+});
+
+test('switches one-shot alerts off and holds repeating ones to their cooldown', () => {
+  const oneShot = evaluateAlerts([rule()], [quote('AAPL', 106)], [quote('AAPL', 104)], 1000);
+  expect(oneShot.rules[0]).toMatchObject({ enabled: false, lastTriggeredAt: 1000 });
+
+  const repeating = evaluateAlerts([rule({ repeat: true, lastTriggeredAt: 1000 })], [quote('AAPL', 106)], [quote('AAPL', 104)], 30000);
+  expect(repeating.events).toHaveLength(0);
+
+  const cooled = evaluateAlerts(repeating.rules, [quote('AAPL', 106)], [quote('AAPL', 104)], 61000);
+  expect(cooled.events).toHaveLength(1);
+  expect(cooled.rules[0].enabled).toBe(true);
+});
+
+test('treats the percent threshold as signed', () => {
+  const drop = { kind: 'changePercent' as const, value: -2 };
+  expect(conditionMet(drop, quote('AAPL', 97.5))).toBe(true);
+  expect(conditionMet(drop, quote('AAPL', 103))).toBe(false);
+  expect(conditionMet({ kind: 'changePercent', value: 2 }, quote('AAPL', 103))).toBe(true);
+});
+
+test('detects a new day high within the same session only', () => {
+  const condition = { kind: 'newDayHigh' as const };
+  expect(conditionMet(condition, quote('AAPL', 104), quote('AAPL', 103))).toBe(true);
+  expect(conditionMet(condition, quote('AAPL', 104))).toBe(false);
+  expect(conditionMet(condition, quote('AAPL', 104), quote('AAPL', 103, { previousClose: 99 }))).toBe(false);
+});
+
+test('evaluates expression rules against every quote in the update', () => {
+  const relative = rule({ condition: { kind: 'expression', expression: 'changePercent - QQQ.changePercent > 1.5' } });
+  const qqq = quote('QQQ', 100.5);
+
+  const { events } = evaluateAlerts([relative], [quote('AAPL', 102.5), qqq], [quote('AAPL', 101), qqq], 1000);
+
+  expect(events).toHaveLength(1);
+  expect(events[0].message).toBe('AAPL when changePercent - QQQ.changePercent > 1.5 at $102.50');
+});
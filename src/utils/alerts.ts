@@ -0,0 +1,151 @@
+import {
+  AlertCondition,
+  AlertEvent,
+  AlertKind,
+  AlertRule,
+  Candle,
+  QuoteAlertCondition,
+  StockQuote
+} from '../types/stock.types';
+import { formatCurrency, formatVolume } from './formatters';
+import { evaluateExpression, tryCompileExpression } from './alertExpression';
+
+/**
+ * Alert evaluation against quote updates.
+ * Alerts are edge-triggered: they fire when a condition becomes true, not on
+ * every update while it stays true.
+ */
+
+export const DEFAULT_ALERT_COOLDOWN = 15 * 60 * 1000;
+export const ALERT_HISTORY_LIMIT = 200;
+
+export const ALERT_KIND_LABELS: Record<AlertKind, string> = {
+  priceAbove: 'Price rises above',
+  priceBelow: 'Price falls below',
+  changePercent: 'Day change beyond %',
+  volumeAbove: 'Volume exceeds',
+  newDayHigh: 'Breaks day high',
+  newDayLow: 'Breaks day low',
+  expression: 'Custom expression',
+};
+
+/**
+ * Whether the condition holds for a quote. Day high/low breaks compare with
+ * the previous quote of the same session, so they need one.
+ */
+export const conditionMet = (
+  condition: QuoteAlertCondition,
+  quote: StockQuote,
+  previous?: StockQuote
+): boolean => {
+  switch (condition.kind) {
+    case 'priceAbove':
+      return quote.price > condition.value;
+    case 'priceBelow':
+      return quote.price < condition.value;
+    case 'changePercent':
+      return condition.value >= 0
+        ? quote.changePercent >= condition.value
+        : quote.changePercent <= condition.value;
+    case 'volumeAbove':
+      return quote.volume > condition.value;
+    case 'newDayHigh':
+      return !!previous && previous.previousClose === quote.previousClose && quote.high > previous.high;
+    case 'newDayLow':
+      return !!previous && previous.previousClose === quote.previousClose &&
+        previous.low > 0 && quote.low < previous.low;
+  }
+};
+
+export const describeCondition = (condition: AlertCondition): string => {
+  switch (condition.kind) {
+    case 'priceAbove':
+      return `price above ${formatCurrency(condition.value)}`;
+    case 'priceBelow':
+      return `price below ${formatCurrency(condition.value)}`;
+    case 'changePercent':
+      return condition.value >= 0
+        ? `up ${condition.value}% or more`
+        : `down ${Math.abs(condition.value)}% or more`;
+    case 'volumeAbove':
+      return `volume above ${formatVolume(condition.value)}`;
+    case 'newDayHigh':
+      return 'new day high';
+    case 'newDayLow':
+      return 'new day low';
+    case 'expression':
+      return `when ${condition.expression}`;
+  }
+};
+
+const createEventId = (): string =>
+  `al_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Symbols a rule reads quotes for: its own, plus any an expression names
+ */
+export const ruleSymbols = (rule: AlertRule): string[] => {
+  if (rule.condition.kind !== 'expression') return [rule.symbol];
+  const compiled = tryCompileExpression(rule.condition.expression);
+  return compiled ? Array.from(new Set([rule.symbol, ...compiled.symbols])) : [rule.symbol];
+};
+
+/**
+ * Symbols a rule needs daily history for, to compute indicator functions
+ */
+export const ruleHistorySymbols = (rule: AlertRule): string[] => {
+  if (rule.condition.kind !== 'expression') return [];
+  const compiled = tryCompileExpression(rule.condition.expression);
+  return compiled ? compiled.historySymbols.map(symbol => symbol ?? rule.symbol) : [];
+};
+
+/**
+ * Check enabled rules against new quotes. Returns the rules with firing state
+ * updated (one-shot alerts switch off) and an event per alert that fired.
+ * Expressions read every quote, plus daily candles for indicator functions.
+ */
+export const evaluateAlerts = (
+  rules: AlertRule[],
+  quotes: StockQuote[],
+  previousQuotes: StockQuote[],
+  now: number = Date.now(),
+  history: Map<string, Candle[]> = new Map()
+): { rules: AlertRule[]; events: AlertEvent[] } => {
+  const current = new Map(quotes.map(quote => [quote.symbol, quote]));
+  const previous = new Map(previousQuotes.map(quote => [quote.symbol, quote]));
+  const events: AlertEvent[] = [];
+
+  const isMet = (rule: AlertRule, snapshot: Map<string, StockQuote>, before?: StockQuote): boolean => {
+    const { condition } = rule;
+    if (condition.kind !== 'expression') {
+      const quote = snapshot.get(rule.symbol);
+      return !!quote && conditionMet(condition, quote, before);
+    }
+    const compiled = tryCompileExpression(condition.expression);
+    return !!compiled && evaluateExpression(compiled, { symbol: rule.symbol, quotes: snapshot, history }) === true;
+  };
+
+  const updated = rules.map(rule => {
+    if (!rule.enabled) return rule;
+    const quote = current.get(rule.symbol);
+    if (!quote) return rule;
+
+    // Unchanged quotes can't start a new crossing
+    if (ruleSymbols(rule).every(symbol => current.get(symbol) === previous.get(symbol))) return rule;
+    if (!isMet(rule, current, previous.get(rule.symbol))) return rule;
+    if (previous.has(rule.symbol) && isMet(rule, previous)) return rule;
+    if (rule.lastTriggeredAt !== undefined && now - rule.lastTriggeredAt < rule.cooldownMs) return rule;
+
+    events.push({
+      id: createEventId(),
+      ruleId: rule.id,
+      symbol: rule.symbol,
+      message: `${rule.symbol} ${describeCondition(rule.condition)} at ${formatCurrency(quote.price)}`,
+      price: quote.price,
+      triggeredAt: now,
+    });
+    return { ...rule, lastTriggeredAt: now, enabled: rule.repeat };
+  });
+
+  return { rules: events.length > 0 ? updated : rules, events };
+};
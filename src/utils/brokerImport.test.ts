@@ -0,0 +1,94 @@
+import {
+  detectPreset,
+  guessMapping,
+  parseImportRows,
+  parseImportDate,
+  parseAmount,
+  classifyAction,
+  parseSplitRatio
+} from './brokerImport';
+import { parseCsvRows } from './csv';
+import { Transaction } from '../types/stock.types';
+
+const SCHWAB = [
+  '"Date","Action","Symbol","Description","Quantity","Price","Fees & Comm","Amount"',
+  '"01/05/2024 as of 01/04/2024","Buy","AAPL","APPLE INC","10","$185.00","$1.00","-$1,851.00"',
+  '"02/15/2024","Qualified Dividend","AAPL","APPLE INC","","","","$2.40"',
+  '"03/01/2024","Sell","brk/b","BERKSHIRE HATHAWAY CL B","2","$410.50","","$821.00"',
+  '"03/01/2024","MoneyLink Transfer","","Tfr BANK","","","","$5,000.00"',
+  '"03/01/2024","Sell","BRK.B","BERKSHIRE HATHAWAY CL B","2","$410.50","","$821.00"',
+].join('\n');
+
+test('detects a known broker layout and parses its rows', () => {
+  const [header, ...rows] = parseCsvRows(SCHWAB);
+  const headers = header.fields;
+  const preset = detectPreset(headers);
+  expect(preset?.id).toBe('schwab');
+
+  const existing: Transaction[] = [{
+    id: 'old', type: 'dividend', symbol: 'AAPL', date: '2024-02-15', quantity: 0, price: 0, fees: 0, amount: 2.4,
+  }];
+  const parsed = parseImportRows(headers, rows, preset!.mapping, existing);
+
+  expect(parsed[0]).toMatchObject({
+    line: 2,
+    duplicate: false,
+    transaction: { type: 'buy', symbol: 'AAPL', date: '2024-01-05', quantity: 10, price: 185, fees: 1 },
+  });
+  // Already in the ledger
+  expect(parsed[1]).toMatchObject({ duplicate: true, transaction: { type: 'dividend', amount: 2.4 } });
+  expect(parsed[2].transaction).toMatchObject({ type: 'sell', symbol: 'BRK.B', quantity: 2, price: 410.5 });
+  expect(parsed[3]).toMatchObject({ error: 'Unrecognized action "MoneyLink Transfer"' });
+  // Same as an earlier row in the file
+  expect(parsed[4].duplicate).toBe(true);
+});
+
+test('reports the line each row starts on past blank lines and multi-line fields', () => {
+  const text = [
+    'Date,Action,Symbol,Quantity,Price,Description',
+    '',
+    '2024-01-05,Buy,AAPL,10,185,"Bought at open,',
+    'partial fill"',
+    '2024-01-06,Transfer,,,,Cash',
+  ].join('\r\n');
+  const [header, ...rows] = parseCsvRows(text);
+  const parsed = parseImportRows(header.fields, rows, guessMapping(header.fields));
+
+  expect(parsed.map(row => row.line)).toEqual([3, 5]);
+  expect(parsed[0].raw[5]).toBe('Bought at open,\r\npartial fill');
+  expect(parsed[1].error).toBe('Unrecognized action "Transfer"');
+});
+
+test('guesses a mapping for unknown layouts and derives missing prices', () => {
+  const headers = ['Trade Date', 'Side', 'Ticker', 'Shares', 'Commission', 'Net Amount'];
+  const mapping = guessMapping(headers);
+
+  expect(detectPreset(headers)).toBeNull();
+  expect(mapping).toEqual({
+    date: 'Trade Date', action: 'Side', symbol: 'Ticker', quantity: 'Shares', commission: 'Commission', amount: 'Net Amount',
+  });
+
+  const [row] = parseImportRows(headers, [{ line: 2, fields: ['20240610', 'BOT', 'shop.to', '-20', '-2.00', '(1,802.00)'] }], mapping);
+  expect(row.transaction).toMatchObject({ type: 'buy', symbol: 'SHOP.TO', date: '2024-06-10', quantity: 20, price: 90, fees: 2 });
+});
+
+test('parses broker date, number, action and split formats', () => {
+  expect(parseImportDate('2024-03-09')).toBe('2024-03-09');
+  expect(parseImportDate('3/9/24')).toBe('2024-03-09');
+  expect(parseImportDate('20240309;153000')).toBe('2024-03-09');
+  expect(parseImportDate('02/30/2024')).toBeNull();
+
+  expect(parseAmount('($1,234.50)')).toBe(-1234.5);
+  expect(parseAmount(' -12 ')).toBe(-12);
+  expect(parseAmount('')).toBeUndefined();
+  expect(parseAmount('n/a')).toBeNaN();
+
+  expect(classifyAction('YOU BOUGHT APPLE INC (AAPL) (Cash)')).toBe('buy');
+  expect(classifyAction('REINVESTMENT VANGUARD S&P 500')).toBe('buy');
+  expect(classifyAction('CDIV')).toBe('dividend');
+  expect(classifyAction('ADR Mgmt Fee')).toBe('fee');
+  expect(classifyAction('Journal')).toBeNull();
+
+  expect(parseSplitRatio('Stock Split 4-for-1')).toBe(4);
+  expect(parseSplitRatio('REVERSE SPLIT 1:10')).toBe(0.1);
+});
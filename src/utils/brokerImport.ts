@@ -0,0 +1,284 @@
+import {
+  ColumnMapping,
+  ImportField,
+  ImportRow,
+  Transaction,
+  TransactionType
+} from '../types/stock.types';
+import { CsvRow } from './csv';
+import { normalizeSymbol } from './formatters';
+import { validateTransaction } from './ledger';
+
+/**
+ * Broker CSV import: known export layouts, column mapping and row parsing.
+ * Everything runs on the file contents alone, so imports work offline.
+ */
+
+export interface BrokerPreset {
+  id: string;
+  name: string;
+  mapping: ColumnMapping;
+}
+
+export const IMPORT_FIELDS: Array<{ field: ImportField; label: string; required?: boolean }> = [
+  { field: 'date', label: 'Date', required: true },
+  { field: 'action', label: 'Action', required: true },
+  { field: 'symbol', label: 'Symbol', required: true },
+  { field: 'description', label: 'Description' },
+  { field: 'quantity', label: 'Quantity' },
+  { field: 'price', label: 'Price' },
+  { field: 'commission', label: 'Commission' },
+  { field: 'fees', label: 'Fees' },
+  { field: 'amount', label: 'Amount' },
+];
+
+export const BROKER_PRESETS: BrokerPreset[] = [
+  {
+    id: 'fidelity',
+    name: 'Fidelity',
+    mapping: {
+      date: 'Run Date', action: 'Action', symbol: 'Symbol', description: 'Security Description',
+      quantity: 'Quantity', price: 'Price ($)', commission: 'Commission ($)', fees: 'Fees ($)', amount: 'Amount ($)',
+    },
+  },
+  {
+    id: 'schwab',
+    name: 'Charles Schwab',
+    mapping: {
+      date: 'Date', action: 'Action', symbol: 'Symbol', description: 'Description',
+      quantity: 'Quantity', price: 'Price', fees: 'Fees & Comm', amount: 'Amount',
+    },
+  },
+  {
+    id: 'robinhood',
+    name: 'Robinhood',
+    mapping: {
+      date: 'Activity Date', action: 'Trans Code', symbol: 'Instrument', description: 'Description',
+      quantity: 'Quantity', price: 'Price', amount: 'Amount',
+    },
+  },
+  {
+    id: 'ibkr',
+    name: 'Interactive Brokers',
+    mapping: {
+      date: 'TradeDate', action: 'Buy/Sell', symbol: 'Symbol',
+      quantity: 'Quantity', price: 'TradePrice', commission: 'IBCommission', amount: 'NetCash',
+    },
+  },
+  {
+    id: 'generic',
+    name: 'Generic',
+    mapping: {
+      date: 'Date', action: 'Type', symbol: 'Symbol',
+      quantity: 'Quantity', price: 'Price', fees: 'Fees', amount: 'Amount',
+    },
+  },
+];
+
+const headerKey = (header: string): string => header.trim().toLowerCase();
+
+/**
+ * The first preset whose columns all appear in the header row
+ */
+export const detectPreset = (headers: string[]): BrokerPreset | null => {
+  const available = new Set(headers.map(headerKey));
+  return BROKER_PRESETS.find(preset =>
+    Object.values(preset.mapping).every(column => column && available.has(headerKey(column)))
+  ) ?? null;
+};
+
+/**
+ * Best-effort mapping for an unknown layout: match fields to headers by name
+ */
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const patterns: Record<ImportField, RegExp> = {
+    date: /date/,
+    action: /action|type|side|buy\/sell|trans/,
+    symbol: /symbol|ticker|instrument/,
+    description: /description|security|name/,
+    quantity: /quantity|qty|shares/,
+    price: /price/,
+    commission: /commission/,
+    fees: /fee/,
+    amount: /amount|net|total|proceeds/,
+  };
+
+  const mapping: ColumnMapping = {};
+  (Object.keys(patterns) as ImportField[]).forEach(field => {
+    const header = headers.find(candidate => patterns[field].test(headerKey(candidate)));
+    if (header) mapping[field] = header;
+  });
+  return mapping;
+};
+
+/**
+ * Dates as exported by brokers: 2024-01-05, 01/05/2024 (US order), 1/5/24,
+ * 20240105, optionally followed by a time or "as of" note
+ */
+export const parseImportDate = (value: string): string | null => {
+  const text = value.trim();
+  let year: number;
+  let month: number;
+  let day: number;
+
+  let match = /^(\d{4})-(\d{1,2})-(\d{1,2})/.exec(text);
+  if (match) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = /^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})\b/.exec(text))) {
+    [month, day, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    if (year < 100) year += 2000;
+  } else if ((match = /^(\d{4})(\d{2})(\d{2})\b/.exec(text))) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Numbers with currency symbols, thousands separators or accounting-style
+ * negatives such as ($1,234.50); undefined when the cell is blank
+ */
+export const parseAmount = (value: string | undefined): number | undefined => {
+  if (value === undefined) return undefined;
+  const text = value.trim();
+  if (!text || text === '--') return undefined;
+
+  const negative = /^\(.*\)$/.test(text) || text.startsWith('-');
+  const number = Number(text.replace(/[()$,\s+-]/g, ''));
+  if (!Number.isFinite(number)) return NaN;
+  return negative ? -number : number;
+};
+
+// Checked in order, so reinvested dividends count as buys and split text beats the rest
+const ACTION_PATTERNS: Array<[RegExp, TransactionType]> = [
+  [/REINVEST/, 'buy'],
+  [/\bSPLIT\b|\bSPL\b/, 'split'],
+  [/DIVIDEND|\bCDIV\b|\bDIV\b/, 'dividend'],
+  [/\bBUY\b|BOUGHT|\bBOT\b/, 'buy'],
+  [/\bSELL\b|\bSOLD\b|\bSLD\b/, 'sell'],
+  [/\bFEE\b|\bFEES\b|COMMISSION/, 'fee'],
+];
+
+export const classifyAction = (action: string): TransactionType | null => {
+  const text = action.toUpperCase();
+  return ACTION_PATTERNS.find(([pattern]) => pattern.test(text))?.[1] ?? null;
+};
+
+/**
+ * Split ratio from text such as "4-for-1", "4 FOR 1" or "2:1", as new shares per old share
+ */
+export const parseSplitRatio = (text: string): number | null => {
+  const match = /(\d+(?:\.\d+)?)\s*(?:-?\s*FOR\s*-?|:)\s*(\d+(?:\.\d+)?)/i.exec(text);
+  if (!match) return null;
+  const ratio = Number(match[1]) / Number(match[2]);
+  return ratio > 0 ? ratio : null;
+};
+
+/**
+ * Key used to spot the same transaction imported twice
+ */
+export const transactionKey = (transaction: Omit<Transaction, 'id'>): string => [
+  transaction.type,
+  transaction.symbol,
+  transaction.date,
+  transaction.quantity.toFixed(6),
+  transaction.price.toFixed(4),
+  (transaction.amount ?? 0).toFixed(2),
+  (transaction.ratio ?? 0).toFixed(6),
+].join('|');
+
+const buildTransaction = (
+  cell: (field: ImportField) => string | undefined
+): { transaction?: Omit<Transaction, 'id'>; error?: string } => {
+  const date = parseImportDate(cell('date') ?? '');
+  if (!date) return { error: `Unrecognized date "${cell('date') ?? ''}"` };
+
+  const action = cell('action') ?? '';
+  const type = classifyAction(action);
+  if (!type) return { error: `Unrecognized action "${action}"` };
+
+  const rawSymbol = (cell('symbol') ?? '').trim();
+  if (!rawSymbol) return { error: 'Missing symbol' };
+  const symbol = normalizeSymbol(rawSymbol);
+
+  const quantity = Math.abs(parseAmount(cell('quantity')) ?? 0);
+  const amount = parseAmount(cell('amount'));
+  const fees = Math.abs(parseAmount(cell('commission')) ?? 0) + Math.abs(parseAmount(cell('fees')) ?? 0);
+  let price = Math.abs(parseAmount(cell('price')) ?? NaN);
+  if (Number.isNaN(price) && amount !== undefined && quantity > 0) {
+    // Derive the price from the cash amount when the file leaves it out
+    price = type === 'buy'
+      ? (Math.abs(amount) - fees) / quantity
+      : (Math.abs(amount) + fees) / quantity;
+  }
+
+  let transaction: Omit<Transaction, 'id'>;
+  switch (type) {
+    case 'buy':
+    case 'sell':
+      transaction = { type, symbol, date, quantity, price, fees };
+      break;
+    case 'split': {
+      const ratio = parseSplitRatio(`${action} ${cell('description') ?? ''}`);
+      if (!ratio) return { error: 'Split ratio not found; add the split by hand' };
+      transaction = { type, symbol, date, quantity: 0, price: 0, fees: 0, ratio };
+      break;
+    }
+    case 'dividend':
+    case 'fee':
+      transaction = {
+        type,
+        symbol,
+        date,
+        quantity: 0,
+        price: 0,
+        fees: 0,
+        amount: Math.abs(amount ?? (type === 'fee' ? fees : 0)),
+      };
+      break;
+  }
+
+  const error = validateTransaction(transaction);
+  return error ? { error } : { transaction };
+};
+
+/**
+ * Parse data rows (header excluded) with the given mapping, flagging
+ * duplicates of existing ledger entries and of earlier rows in the file
+ */
+export const parseImportRows = (
+  headers: string[],
+  rows: CsvRow[],
+  mapping: ColumnMapping,
+  existing: Transaction[] = []
+): ImportRow[] => {
+  const indexes = new Map<ImportField, number>();
+  (Object.keys(mapping) as ImportField[]).forEach(field => {
+    const column = mapping[field];
+    const index = column ? headers.findIndex(header => headerKey(header) === headerKey(column)) : -1;
+    if (index !== -1) indexes.set(field, index);
+  });
+
+  const seen = new Set(existing.map(transactionKey));
+
+  return rows.map(({ line, fields: raw }) => {
+    const cell = (field: ImportField) => {
+      const index = indexes.get(field);
+      return index === undefined ? undefined : raw[index];
+    };
+    const { transaction, error } = buildTransaction(cell);
+
+    let duplicate = false;
+    if (transaction) {
+      const key = transactionKey(transaction);
+      duplicate = seen.has(key);
+      seen.add(key);
+    }
+
+    return { line, raw, transaction, error, duplicate };
+  });
+};
@@ -0,0 +1,38 @@
+import { createChartRange, lastSessions, toHeikinAshi } from './candles';
+
+test('builds Heikin-Ashi candles from the previous body and the bar average', () => {
+  const candles = [
+    { time: 1, open: 10, high: 14, low: 8, close: 12, volume: 100 },
+    { time: 2, open: 12, high: 13, low: 9, close: 10, volume: 200 },
+  ];
+
+  const [first, second] = toHeikinAshi(candles);
+
+  expect(first).toEqual({ time: 1, open: 11, high: 14, low: 8, close: 11, volume: 100 });
+  expect(second.open).toBe(11);
+  expect(second.close).toBe(11);
+  expect(second.high).toBe(13);
+  expect(second.low).toBe(9);
+});
+
+test('chart ranges pick a resolution and YTD starts on January 1st', () => {
+  const now = new Date(2024, 4, 15, 12, 0).getTime();
+
+  expect(createChartRange('1D', now).resolution).toBe('5');
+  expect(createChartRange('5Y', now).resolution).toBe('W');
+
+  const ytd = createChartRange('YTD', now);
+  expect(ytd.resolution).toBe('D');
+  expect(ytd.from).toBe(new Date(2024, 0, 1).getTime());
+  expect(ytd.to).toBeGreaterThanOrEqual(now);
+});
+
+test('keeps the bars from the most recent sessions', () => {
+  const bar = (day: number, hour: number) =>
+    ({ time: new Date(2024, 2, day, hour).getTime(), open: 1, high: 1, low: 1, close: 1, volume: 1 });
+  const candles = [bar(11, 10), bar(11, 15), bar(12, 10), bar(13, 10), bar(13, 15)];
+
+  expect(lastSessions(candles, 1)).toEqual([bar(13, 10), bar(13, 15)]);
+  expect(lastSessions(candles, 2)).toHaveLength(3);
+  expect(lastSessions(candles, 5)).toBe(candles);
+});
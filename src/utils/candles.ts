@@ -0,0 +1,98 @@
+import { Candle, CandleResolution, ChartRange, HistoryRange, HistoricalData } from '../types/stock.types';
+import { CHART_RANGES } from './constants';
+import { toDateKey } from './portfolio';
+
+/**
+ * Helpers for working with OHLCV candle series
+ */
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+/**
+ * Nominal length of one bar; months are treated as 30 days
+ */
+export const RESOLUTION_MS: Record<CandleResolution, number> = {
+  '1': MINUTE,
+  '5': 5 * MINUTE,
+  '15': 15 * MINUTE,
+  '60': 60 * MINUTE,
+  D: DAY,
+  W: 7 * DAY,
+  M: 30 * DAY,
+};
+
+export const isIntraday = (resolution: CandleResolution): boolean =>
+  RESOLUTION_MS[resolution] < DAY;
+
+/**
+ * Range covering the last `days` days at the given resolution.
+ * The end is rounded up to the next whole minute so that repeated requests
+ * within that minute ask for the same range (and share a cache entry).
+ */
+export const createHistoryRange = (
+  resolution: CandleResolution,
+  days: number,
+  now: number = Date.now()
+): HistoryRange => {
+  const to = Math.ceil(now / MINUTE) * MINUTE;
+  return { resolution, from: to - days * DAY, to };
+};
+
+/**
+ * History range to fetch for a chart range; YTD starts at local midnight on
+ * January 1st
+ */
+export const createChartRange = (range: ChartRange, now: number = Date.now()): HistoryRange => {
+  const { resolution, days } = CHART_RANGES[range];
+  if (days !== 'ytd') return createHistoryRange(resolution, days, now);
+
+  const { to } = createHistoryRange(resolution, 0, now);
+  return { resolution, from: new Date(new Date(now).getFullYear(), 0, 1).getTime(), to };
+};
+
+/**
+ * Candles from the last `sessions` trading days present in the series
+ */
+export const lastSessions = (candles: Candle[], sessions: number): Candle[] => {
+  const days = new Set<string>();
+  for (let i = candles.length - 1; i >= 0; i--) {
+    days.add(toDateKey(new Date(candles[i].time)));
+    if (days.size > sessions) return candles.slice(i + 1);
+  }
+  return candles;
+};
+
+/**
+ * Cache key identifying one symbol's series over one range
+ */
+export const historyKey = (symbol: string, range: HistoryRange): string =>
+  `${symbol}:${range.resolution}:${range.from}:${range.to}`;
+
+export const emptyHistory = (symbol: string, range: HistoryRange): HistoricalData => ({
+  symbol,
+  ...range,
+  candles: [],
+});
+
+/**
+ * Heikin-Ashi candles: each close averages the bar's OHLC and each open sits
+ * midway through the previous Heikin-Ashi body, which smooths out noise
+ */
+export const toHeikinAshi = (candles: Candle[]): Candle[] => {
+  const result: Candle[] = [];
+  candles.forEach((candle, i) => {
+    const close = (candle.open + candle.high + candle.low + candle.close) / 4;
+    const previous = result[i - 1];
+    const open = previous ? (previous.open + previous.close) / 2 : (candle.open + candle.close) / 2;
+    result.push({
+      time: candle.time,
+      open,
+      high: Math.max(candle.high, open, close),
+      low: Math.min(candle.low, open, close),
+      close,
+      volume: candle.volume,
+    });
+  });
+  return result;
+};
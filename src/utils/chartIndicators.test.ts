@@ -0,0 +1,21 @@
+import { createIndicator, describeIndicator, INDICATOR_COLORS, normalizeParam, INDICATORS } from './chartIndicators';
+
+test('new indicators take default parameters and an unused colour', () => {
+  const first = createIndicator('sma');
+  const second = createIndicator('macd', [first]);
+
+  expect(first.params).toEqual({ period: 20 });
+  expect(second.params).toEqual({ fast: 12, slow: 26, signal: 9 });
+  expect(second.color).not.toBe(first.color);
+  expect(INDICATOR_COLORS).toContain(second.color);
+  expect(describeIndicator(second)).toBe('MACD 12, 26, 9');
+  expect(describeIndicator(createIndicator('vwap'))).toBe('VWAP');
+});
+
+test('parameters are rounded to their step and clamped to range', () => {
+  const [period, multiplier] = INDICATORS.bollinger.params;
+  expect(normalizeParam(period, 500)).toBe(200);
+  expect(normalizeParam(period, 12.4)).toBe(12);
+  expect(normalizeParam(multiplier, 2.3)).toBe(2.5);
+  expect(normalizeParam(period, NaN)).toBeNull();
+});
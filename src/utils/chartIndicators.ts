@@ -0,0 +1,214 @@
+import { Candle, IndicatorConfig, IndicatorType } from '../types/stock.types';
+import { atr, bollinger, ema, macd, obv, rsi, Series, sma, stochastic, vwap, wma } from './indicators';
+import { formatCurrency, formatVolume } from './formatters';
+
+/**
+ * Chart indicator definitions: parameters, where each one draws, and how its
+ * series are computed from candles
+ */
+
+export interface IndicatorParam {
+  key: string;
+  label: string;
+  defaultValue: number;
+  min: number;
+  max: number;
+  step?: number;
+}
+
+export interface IndicatorSeries {
+  label: string;
+  values: Series;
+  /** Histograms draw as bars, e.g. the MACD histogram */
+  style: 'line' | 'dashed' | 'histogram';
+}
+
+export interface IndicatorDefinition {
+  label: string;
+  /** Overlays share the price pane; the rest get a pane of their own */
+  placement: 'overlay' | 'pane';
+  params: IndicatorParam[];
+  /** Fixed value range for bounded oscillators */
+  range?: { min: number; max: number };
+  /** Reference levels marked on a bounded pane, e.g. 30 and 70 for RSI */
+  levels?: number[];
+  format: 'currency' | 'number' | 'volume';
+  compute: (candles: Candle[], params: Record<string, number>, intraday: boolean) => IndicatorSeries[];
+}
+
+const period = (defaultValue: number, label = 'Period'): IndicatorParam =>
+  ({ key: 'period', label, defaultValue, min: 1, max: 200 });
+
+const closes = (candles: Candle[]) => candles.map(candle => candle.close);
+
+export const INDICATORS: Record<IndicatorType, IndicatorDefinition> = {
+  sma: {
+    label: 'Simple moving average',
+    placement: 'overlay',
+    params: [period(20)],
+    format: 'currency',
+    compute: (candles, p) => [{ label: `SMA ${p.period}`, values: sma(closes(candles), p.period), style: 'line' }],
+  },
+  ema: {
+    label: 'Exponential moving average',
+    placement: 'overlay',
+    params: [period(20)],
+    format: 'currency',
+    compute: (candles, p) => [{ label: `EMA ${p.period}`, values: ema(closes(candles), p.period), style: 'line' }],
+  },
+  wma: {
+    label: 'Weighted moving average',
+    placement: 'overlay',
+    params: [period(20)],
+    format: 'currency',
+    compute: (candles, p) => [{ label: `WMA ${p.period}`, values: wma(closes(candles), p.period), style: 'line' }],
+  },
+  bollinger: {
+    label: 'Bollinger Bands',
+    placement: 'overlay',
+    params: [period(20), { key: 'multiplier', label: 'Std devs', defaultValue: 2, min: 0.5, max: 5, step: 0.5 }],
+    format: 'currency',
+    compute: (candles, p) => {
+      const bands = bollinger(closes(candles), p.period, p.multiplier);
+      return [
+        { label: `BB upper`, values: bands.upper, style: 'dashed' },
+        { label: `BB ${p.period}, ${p.multiplier}`, values: bands.middle, style: 'line' },
+        { label: `BB lower`, values: bands.lower, style: 'dashed' },
+      ];
+    },
+  },
+  vwap: {
+    label: 'VWAP',
+    placement: 'overlay',
+    params: [],
+    format: 'currency',
+    compute: (candles, _p, intraday) => [{ label: 'VWAP', values: vwap(candles, intraday), style: 'line' }],
+  },
+  rsi: {
+    label: 'Relative strength index',
+    placement: 'pane',
+    params: [period(14)],
+    range: { min: 0, max: 100 },
+    levels: [30, 70],
+    format: 'number',
+    compute: (candles, p) => [{ label: `RSI ${p.period}`, values: rsi(closes(candles), p.period), style: 'line' }],
+  },
+  macd: {
+    label: 'MACD',
+    placement: 'pane',
+    params: [
+      { key: 'fast', label: 'Fast', defaultValue: 12, min: 1, max: 100 },
+      { key: 'slow', label: 'Slow', defaultValue: 26, min: 2, max: 200 },
+      { key: 'signal', label: 'Signal', defaultValue: 9, min: 1, max: 100 },
+    ],
+    format: 'number',
+    compute: (candles, p) => {
+      const result = macd(closes(candles), p.fast, p.slow, p.signal);
+      return [
+        { label: `MACD ${p.fast}, ${p.slow}`, values: result.macd, style: 'line' },
+        { label: `Signal ${p.signal}`, values: result.signal, style: 'dashed' },
+        { label: 'Histogram', values: result.histogram, style: 'histogram' },
+      ];
+    },
+  },
+  stochastic: {
+    label: 'Stochastic',
+    placement: 'pane',
+    params: [
+      { key: 'k', label: '%K', defaultValue: 14, min: 1, max: 100 },
+      { key: 'd', label: '%D', defaultValue: 3, min: 1, max: 50 },
+    ],
+    range: { min: 0, max: 100 },
+    levels: [20, 80],
+    format: 'number',
+    compute: (candles, p) => {
+      const result = stochastic(candles, p.k, p.d);
+      return [
+        { label: `%K ${p.k}`, values: result.k, style: 'line' },
+        { label: `%D ${p.d}`, values: result.d, style: 'dashed' },
+      ];
+    },
+  },
+  atr: {
+    label: 'Average true range',
+    placement: 'pane',
+    params: [period(14)],
+    format: 'currency',
+    compute: (candles, p) => [{ label: `ATR ${p.period}`, values: atr(candles, p.period), style: 'line' }],
+  },
+  obv: {
+    label: 'On-balance volume',
+    placement: 'pane',
+    params: [],
+    format: 'volume',
+    compute: candles => [{ label: 'OBV', values: obv(candles), style: 'line' }],
+  },
+};
+
+export const INDICATOR_COLORS = [
+  'rgb(59, 130, 246)',
+  'rgb(245, 158, 11)',
+  'rgb(168, 85, 247)',
+  'rgb(236, 72, 153)',
+  'rgb(20, 184, 166)',
+  'rgb(234, 88, 12)',
+];
+
+const createId = (): string =>
+  `ind_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * A new indicator with default parameters and the first colour not already in use
+ */
+export const createIndicator = (type: IndicatorType, existing: IndicatorConfig[] = []): IndicatorConfig => {
+  const used = new Set(existing.map(indicator => indicator.color));
+  return {
+    id: createId(),
+    type,
+    params: Object.fromEntries(INDICATORS[type].params.map(param => [param.key, param.defaultValue])),
+    color: INDICATOR_COLORS.find(color => !used.has(color)) ?? INDICATOR_COLORS[existing.length % INDICATOR_COLORS.length],
+  };
+};
+
+/**
+ * Clamp a parameter to its allowed range, or null when it isn't a number
+ */
+export const normalizeParam = (param: IndicatorParam, value: number): number | null => {
+  if (!Number.isFinite(value)) return null;
+  const stepped = param.step ? Math.round(value / param.step) * param.step : Math.round(value);
+  return Math.min(param.max, Math.max(param.min, stepped));
+};
+
+/**
+ * Short name for menus and legends, e.g. 'SMA 20' or 'MACD 12, 26, 9'
+ */
+export const describeIndicator = (indicator: IndicatorConfig): string => {
+  const values = INDICATORS[indicator.type].params.map(param => indicator.params[param.key]);
+  const name = indicator.type === 'bollinger' ? 'BB' : indicator.type === 'stochastic' ? 'Stoch' : indicator.type.toUpperCase();
+  return values.length > 0 ? `${name} ${values.join(', ')}` : name;
+};
+
+export const computeIndicator = (
+  indicator: IndicatorConfig,
+  candles: Candle[],
+  intraday: boolean = false
+): IndicatorSeries[] => {
+  const definition = INDICATORS[indicator.type];
+  // Fill in parameters added since the indicator was saved
+  const params = Object.fromEntries(
+    definition.params.map(param => [param.key, indicator.params[param.key] ?? param.defaultValue])
+  );
+  return definition.compute(candles, params, intraday);
+};
+
+export const formatIndicatorValue = (format: IndicatorDefinition['format'], value: number): string => {
+  switch (format) {
+    case 'currency':
+      return formatCurrency(value);
+    case 'volume':
+      // OBV runs negative after a run of down days
+      return value < 0 ? `-${formatVolume(-value)}` : formatVolume(value);
+    default:
+      return value.toFixed(2);
+  }
+};
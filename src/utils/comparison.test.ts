@@ -0,0 +1,30 @@
+import { alignCloses, buildComparison } from './comparison';
+
+const bars = (...points: Array<[number, number]>) =>
+  points.map(([time, close]) => ({ time, open: close, high: close, low: close, close, volume: 0 }));
+
+test('lines closes up with the last bar at or before each time', () => {
+  expect(alignCloses([1, 2, 3, 4], bars([2, 10], [4, 12]))).toEqual([null, 10, 10, 12]);
+});
+
+test('rebases every series to percent change from the first shared bar', () => {
+  const comparison = buildComparison([
+    { symbol: 'AAPL', candles: bars([1, 100], [2, 110], [3, 121]) },
+    { symbol: 'SPY', candles: bars([2, 50], [3, 55]) },
+  ]);
+
+  expect(comparison.times).toEqual([1, 2, 3]);
+  expect(comparison.startIndex).toBe(1);
+  expect(comparison.series[0].values).toEqual([null, 0, 10]);
+  expect(comparison.series[1].values).toEqual([null, 0, 10]);
+});
+
+test('has no start when the series never overlap', () => {
+  const comparison = buildComparison([
+    { symbol: 'AAPL', candles: bars([1, 100]) },
+    { symbol: 'SPY', candles: bars([2, 50]) },
+  ]);
+
+  expect(comparison.startIndex).toBe(-1);
+  expect(comparison.series[1].values).toEqual([null]);
+});
@@ -0,0 +1,64 @@
+import { Candle } from '../types/stock.types';
+import { Series } from './indicators';
+
+/**
+ * Helpers for comparing symbols as percent returns over the same bars
+ */
+
+export interface ComparisonInput {
+  symbol: string;
+  candles: Candle[];
+}
+
+export interface ComparisonSeries {
+  symbol: string;
+  /** Percent change from the common start, null before it */
+  values: Series;
+}
+
+export interface Comparison {
+  /** Bar times, taken from the first input */
+  times: number[];
+  /** Index of the first bar every series has a price for, or -1 if none */
+  startIndex: number;
+  series: ComparisonSeries[];
+}
+
+/**
+ * Closes lined up with the given bar times, using the last close at or before
+ * each time so symbols with gaps or different session hours still line up
+ */
+export const alignCloses = (times: number[], candles: Candle[]): Series => {
+  let j = -1;
+  return times.map(time => {
+    while (j + 1 < candles.length && candles[j + 1].time <= time) j++;
+    return j >= 0 ? candles[j].close : null;
+  });
+};
+
+/**
+ * Rebase each input to percent change from the first bar all of them share.
+ * The bars of the first input set the timeline.
+ */
+export const buildComparison = (inputs: ComparisonInput[]): Comparison => {
+  if (inputs.length === 0) return { times: [], startIndex: -1, series: [] };
+
+  const times = inputs[0].candles.map(candle => candle.time);
+  const aligned = inputs.map(input => alignCloses(times, input.candles));
+  const startIndex = times.findIndex((_, i) => aligned.every(closes => closes[i] !== null));
+
+  return {
+    times,
+    startIndex,
+    series: inputs.map((input, n) => {
+      const closes = aligned[n];
+      const base = startIndex === -1 ? null : closes[startIndex];
+      return {
+        symbol: input.symbol,
+        values: closes.map((close, i) =>
+          base && close !== null && i >= startIndex ? ((close - base) / base) * 100 : null
+        ),
+      };
+    }),
+  };
+};
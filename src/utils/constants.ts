@@ -1,9 +1,40 @@
+import { CandleResolution, ChartRange, ChartRangeConfig, ChartStyle } from '../types/stock.types';
+
 // API Configuration
 export const FINNHUB_API_KEY = process.env.REACT_APP_FINNHUB_API_KEY;
 export const BASE_URL = 'https://finnhub.io/api/v1';
-export const REQUEST_DELAY = 100; // ms between requests to avoid rate limiting
+export const API_CALLS_PER_MINUTE = Number(process.env.REACT_APP_API_CALLS_PER_MINUTE) || 60; // Finnhub free tier
+export const API_MAX_CONCURRENT_REQUESTS = 6;
 export const API_RETRY_COUNT = 3;
-export const API_TIMEOUT = 10000; // 10 seconds
+export const API_TIMEOUT = 10000; // 10 seconds per attempt
+export const API_RETRY_BASE_DELAY = 500; // backoff doubles per attempt, with full jitter
+export const API_RETRY_MAX_DELAY = 10000;
+export const FINNHUB_STREAM_URL = 'wss://ws.finnhub.io';
+// Overrides the streaming endpoint, e.g. ws://localhost:8765 for `npm run stream:mock`
+export const STREAM_URL = process.env.REACT_APP_STREAM_URL;
+export const STREAM_RECONNECT_DELAY = 2000; // initial reconnect delay, doubled per attempt
+export const STREAM_MAX_RECONNECT_DELAY = 30000;
+
+// Client-side cache: values are fresh for `ttl`, then served stale for up to
+// `staleTime` more while a background request refreshes them
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+export const CACHE_CONFIG = {
+  quote: { ttl: 15 * 1000, staleTime: 15 * 1000 },
+  profile: { ttl: 7 * DAY, staleTime: 23 * DAY },
+  history: { ttl: 5 * MINUTE, staleTime: 60 * MINUTE },
+  search: { ttl: DAY, staleTime: 6 * DAY },
+  // Fallback results (minimal profiles, empty history) are retried sooner
+  fallback: { ttl: 5 * MINUTE },
+} as const;
+
+// Market data provider: 'finnhub', 'demo' or any id registered with MarketDataRegistry
+export const MARKET_DATA_PROVIDER =
+  process.env.REACT_APP_MARKET_DATA_PROVIDER || (FINNHUB_API_KEY ? 'finnhub' : 'demo');
+
+// Symbol search
+export const SYMBOL_SEARCH_DEBOUNCE = 250;
+export const SYMBOL_SEARCH_LIMIT = 8;
 
 // Default Stock Symbols
 export const DEFAULT_SYMBOLS = [
@@ -12,7 +43,52 @@ export const DEFAULT_SYMBOLS = [
 ];
 
 // Chart Configuration
-export const CHART_DAYS = 30;
+export const DEFAULT_CHART_RANGE: ChartRange = '1M';
+// Ranges pick a resolution that keeps the chart to a few hundred bars
+export const CHART_RANGES: Record<ChartRange, ChartRangeConfig> = {
+  '1D': { title: '1 Day', resolution: '5', days: 4, sessions: 1 },
+  '5D': { title: '5 Days', resolution: '15', days: 9, sessions: 5 },
+  '1M': { title: '1 Month', resolution: 'D', days: 30 },
+  '6M': { title: '6 Months', resolution: 'D', days: 182 },
+  YTD: { title: 'Year to Date', resolution: 'D', days: 'ytd' },
+  '1Y': { title: '1 Year', resolution: 'D', days: 365 },
+  '5Y': { title: '5 Years', resolution: 'W', days: 5 * 365 },
+  MAX: { title: 'All Time', resolution: 'M', days: 40 * 365 },
+};
+// Indexes offered as a benchmark in comparison mode, tracked through their ETFs
+export const BENCHMARKS = [
+  { symbol: 'SPY', label: 'S&P 500' },
+  { symbol: 'QQQ', label: 'Nasdaq 100' },
+  { symbol: 'DIA', label: 'Dow Jones' },
+  { symbol: 'IWM', label: 'Russell 2000' },
+] as const;
+export const MAX_COMPARE_SYMBOLS = 5;
+// The selected symbol comes first, then compared symbols in the order added
+export const COMPARISON_COLORS = [
+  'rgb(59, 130, 246)',
+  'rgb(245, 158, 11)',
+  'rgb(168, 85, 247)',
+  'rgb(236, 72, 153)',
+  'rgb(20, 184, 166)',
+  'rgb(234, 88, 12)',
+];
+export const BENCHMARK_COLOR = 'rgb(107, 114, 128)';
+export const DRAWING_COLORS = [
+  'rgb(59, 130, 246)',
+  'rgb(245, 158, 11)',
+  'rgb(34, 197, 94)',
+  'rgb(239, 68, 68)',
+  'rgb(168, 85, 247)',
+];
+export const RESOLUTION_LABELS: Record<CandleResolution, string> = {
+  '1': '1-minute',
+  '5': '5-minute',
+  '15': '15-minute',
+  '60': 'hourly',
+  D: 'daily',
+  W: 'weekly',
+  M: 'monthly',
+};
 export const CHART_COLORS = {
   primary: 'rgb(59, 130, 246)',
   primaryAlpha: 'rgba(59, 130, 246, 0.1)',
@@ -20,6 +96,13 @@ export const CHART_COLORS = {
   danger: 'rgb(239, 68, 68)',
   warning: 'rgb(245, 158, 11)',
 } as const;
+export const CHART_STYLE_LABELS: Record<ChartStyle, string> = {
+  line: 'Line',
+  area: 'Area',
+  candlestick: 'Candles',
+  ohlc: 'OHLC',
+  heikinAshi: 'Heikin-Ashi',
+};
 
 // UI Configuration
 export const BREAKPOINTS = {
@@ -34,6 +117,12 @@ export const ERROR_MESSAGES = {
   API_KEY_MISSING: 'API key not found. Please add REACT_APP_FINNHUB_API_KEY to your .env file',
   FETCH_FAILED: 'Failed to fetch stock data. Please check your connection and try again.',
   RATE_LIMIT: 'Rate limit exceeded. Please wait a moment before trying again.',
+  NETWORK: 'Network error. Please check your connection and try again.',
+  TIMEOUT: 'The market data service took too long to respond. Please try again.',
+  HTTP_ERROR: 'The market data service returned an error.',
+  ACCESS_DENIED: 'Access denied by the market data service. Your plan may not include this data.',
+  SERVICE_UNAVAILABLE: 'The market data service is temporarily unavailable. Please try again shortly.',
+  INVALID_PAYLOAD: 'Received malformed data from the market data service.',
   INVALID_SYMBOL: 'Invalid stock symbol. Please enter a valid symbol.',
 } as const;
 
@@ -0,0 +1,24 @@
+import { toCsv, parseCsv, parseCsvRows } from './csv';
+
+test('quotes fields containing separators, quotes or line breaks', () => {
+  expect(toCsv([
+    ['Symbol', 'Name', 'Price'],
+    ['BRK.B', 'Berkshire Hathaway, Inc.', 412.5],
+    ['X', 'Say "hi"\nthere', null],
+  ])).toBe('Symbol,Name,Price\r\nBRK.B,"Berkshire Hathaway, Inc.",412.5\r\nX,"Say ""hi""\nthere",');
+});
+
+test('parses quoted fields, CRLF line endings and a byte order mark', () => {
+  const text = '\uFEFFDate,Action,Amount\r\n01/05/2024,"YOU BOUGHT ""APPLE"", INC","($1,234.50)"\r\n\r\n01/06/2024,Dividend,"3.20\n"';
+
+  expect(parseCsv(text)).toEqual([
+    ['Date', 'Action', 'Amount'],
+    ['01/05/2024', 'YOU BOUGHT "APPLE", INC', '($1,234.50)'],
+    ['01/06/2024', 'Dividend', '3.20\n'],
+  ]);
+  expect(parseCsv(toCsv([['a,b', 'c']]))).toEqual([['a,b', 'c']]);
+});
+
+test('records the line each row starts on', () => {
+  expect(parseCsvRows('a,b\n\n"multi\rline",c\r\nd,e').map(row => row.line)).toEqual([1, 3, 5]);
+});
@@ -0,0 +1,79 @@
+/**
+ * CSV reading and writing per RFC 4180: fields with commas, quotes or line
+ * breaks are quoted, and quotes inside them are doubled
+ */
+
+export type CsvValue = string | number | null | undefined;
+
+const escapeField = (value: CsvValue): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: CsvValue[][]): string =>
+  rows.map(row => row.map(escapeField).join(',')).join('\r\n');
+
+export interface CsvRow {
+  /** Line the row starts on, counting from 1 */
+  line: number;
+  fields: string[];
+}
+
+/**
+ * Split CSV text into rows of fields, each with the line it starts on. Blank
+ * lines are dropped, and a leading byte order mark (common in spreadsheet
+ * exports) is ignored.
+ */
+export const parseCsvRows = (text: string): CsvRow[] => {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // Line breaks inside quoted fields count too, so rows can span lines
+  let line = 1;
+  let rowLine = 1;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== '') rows.push({ line: rowLine, fields: row });
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+};
+
+/**
+ * Split CSV text into rows of fields, see parseCsvRows
+ */
+export const parseCsv = (text: string): string[][] => parseCsvRows(text).map(row => row.fields);
@@ -0,0 +1,13 @@
+/**
+ * Save generated content as a file through a temporary object URL
+ */
+export const downloadFile = (filename: string, content: BlobPart, type: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
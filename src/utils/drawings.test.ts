@@ -0,0 +1,61 @@
+import { ChartDrawing } from '../types/stock.types';
+import { indexToTime, mergeDrawings, parseDrawings, serializeDrawings, timeToIndex } from './drawings';
+
+const level = (id: string, price: number, alertId?: string): ChartDrawing =>
+  ({ id, type: 'horizontalLine', color: 'red', createdAt: 1, price, alertId });
+
+const trend: ChartDrawing = {
+  id: 't1',
+  type: 'trendLine',
+  color: 'blue',
+  createdAt: 1,
+  from: { time: 100, price: 10 },
+  to: { time: 300, price: 12 },
+};
+
+test('places times between bars and past either end of the chart', () => {
+  const times = [100, 200, 400];
+
+  expect(timeToIndex(times, 200)).toBe(1);
+  expect(timeToIndex(times, 300)).toBe(1.5);
+  expect(timeToIndex(times, 0)).toBe(-1);
+  expect(timeToIndex(times, 600)).toBe(3);
+});
+
+test('indexToTime undoes timeToIndex', () => {
+  const times = [100, 200, 400];
+
+  [50, 100, 150, 300, 400, 500].forEach(time => {
+    expect(indexToTime(times, timeToIndex(times, time))).toBeCloseTo(time);
+  });
+});
+
+test('reads back an export, leaving out alerts', () => {
+  const { drawings, skipped } = parseDrawings(serializeDrawings({ AAPL: [trend, level('l1', 150, 'alert_1')] }));
+
+  expect(skipped).toBe(0);
+  expect(drawings.AAPL).toEqual([trend, level('l1', 150)]);
+});
+
+test('skips drawings it cannot read', () => {
+  const json = JSON.stringify({ version: 1, drawings: { AAPL: [trend, { id: 'x', type: 'arrow', color: 'red' }] } });
+
+  expect(parseDrawings(json)).toEqual({ drawings: { AAPL: [trend] }, skipped: 1 });
+});
+
+test('rejects files that are not drawing exports', () => {
+  expect(() => parseDrawings('not json')).toThrow('not valid JSON');
+  expect(() => parseDrawings('{"holdings": []}')).toThrow('not a chart drawings export');
+  expect(() => parseDrawings('{"version": 99, "drawings": {}}')).toThrow('newer version');
+});
+
+test('imported drawings replace ones with the same id', () => {
+  const merged = mergeDrawings(
+    { AAPL: [level('l1', 150), level('l2', 160)], MSFT: [trend] },
+    { AAPL: [level('l2', 165)], TSLA: [level('l3', 200)] }
+  );
+
+  expect(merged.AAPL).toEqual([level('l1', 150), level('l2', 165)]);
+  expect(merged.MSFT).toEqual([trend]);
+  expect(merged.TSLA).toEqual([level('l3', 200)]);
+});
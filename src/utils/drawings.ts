@@ -0,0 +1,126 @@
+import { ChartDrawing, ChartPoint } from '../types/stock.types';
+import { formatCurrency } from './formatters';
+
+/**
+ * Chart annotations: placing time-based points on a bar axis, and the JSON
+ * format drawings are exported and imported in
+ */
+
+export type DrawingStore = Record<string, ChartDrawing[]>;
+
+export const DRAWINGS_EXPORT_VERSION = 1;
+
+/**
+ * Fractional bar position of a time on a chart with the given bar times.
+ * Times between bars land between them, and times outside the chart are
+ * extrapolated from the spacing of the nearest two bars, so a line drawn over
+ * a longer range still points the right way.
+ */
+export const timeToIndex = (times: number[], time: number): number => {
+  const last = times.length - 1;
+  if (last < 1) return 0;
+  if (time <= times[0]) return (time - times[0]) / (times[1] - times[0]);
+  if (time >= times[last]) return last + (time - times[last]) / (times[last] - times[last - 1]);
+
+  let low = 0;
+  let high = last;
+  while (high - low > 1) {
+    const middle = Math.floor((low + high) / 2);
+    if (times[middle] <= time) low = middle;
+    else high = middle;
+  }
+  return low + (time - times[low]) / (times[high] - times[low]);
+};
+
+/**
+ * Time at a fractional bar position; the inverse of timeToIndex
+ */
+export const indexToTime = (times: number[], index: number): number => {
+  const last = times.length - 1;
+  if (last < 1) return times[0] ?? 0;
+  const low = Math.min(Math.max(Math.floor(index), 0), last - 1);
+  return times[low] + (index - low) * (times[low + 1] - times[low]);
+};
+
+export const describeDrawing = (drawing: ChartDrawing): string => {
+  switch (drawing.type) {
+    case 'trendLine':
+      return `Trend line ${formatCurrency(drawing.from.price)} to ${formatCurrency(drawing.to.price)}`;
+    case 'horizontalLine':
+      return `Level at ${formatCurrency(drawing.price)}`;
+    case 'rectangle': {
+      const low = Math.min(drawing.from.price, drawing.to.price);
+      const high = Math.max(drawing.from.price, drawing.to.price);
+      return `Box ${formatCurrency(low)} to ${formatCurrency(high)}`;
+    }
+    case 'text':
+      return `Note "${drawing.text}"`;
+  }
+};
+
+const isPoint = (value: any): value is ChartPoint =>
+  Boolean(value) && Number.isFinite(value.time) && Number.isFinite(value.price);
+
+const isDrawing = (value: any): value is ChartDrawing => {
+  if (!value || typeof value.id !== 'string' || typeof value.color !== 'string') return false;
+  switch (value.type) {
+    case 'trendLine':
+    case 'rectangle':
+      return isPoint(value.from) && isPoint(value.to);
+    case 'horizontalLine':
+      return Number.isFinite(value.price);
+    case 'text':
+      return isPoint(value.at) && typeof value.text === 'string';
+    default:
+      return false;
+  }
+};
+
+export const serializeDrawings = (store: DrawingStore): string =>
+  JSON.stringify({ version: DRAWINGS_EXPORT_VERSION, drawings: store }, null, 2);
+
+/**
+ * Read an export made by serializeDrawings. Throws if the file isn't one;
+ * drawings it can't read are skipped and counted.
+ */
+export const parseDrawings = (json: string): { drawings: DrawingStore; skipped: number } => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (!parsed || typeof parsed.drawings !== 'object' || parsed.drawings === null || Array.isArray(parsed.drawings)) {
+    throw new Error('The file is not a chart drawings export');
+  }
+  if (parsed.version > DRAWINGS_EXPORT_VERSION) {
+    throw new Error('The file was exported by a newer version of the dashboard');
+  }
+
+  let skipped = 0;
+  const drawings: DrawingStore = {};
+  Object.entries(parsed.drawings).forEach(([symbol, list]) => {
+    if (!Array.isArray(list)) return;
+    const valid = list.filter(isDrawing);
+    skipped += list.length - valid.length;
+    // Alerts belong to the browser that exported the drawings
+    if (valid.length > 0) {
+      drawings[symbol] = valid.map(drawing =>
+        drawing.type === 'horizontalLine' ? { ...drawing, alertId: undefined } : drawing
+      );
+    }
+  });
+  return { drawings, skipped };
+};
+
+/**
+ * Add imported drawings, replacing any with the same id
+ */
+export const mergeDrawings = (current: DrawingStore, imported: DrawingStore): DrawingStore => {
+  const merged = { ...current };
+  Object.entries(imported).forEach(([symbol, drawings]) => {
+    const ids = new Set(drawings.map(drawing => drawing.id));
+    merged[symbol] = [...(merged[symbol] ?? []).filter(drawing => !ids.has(drawing.id)), ...drawings];
+  });
+  return merged;
+};
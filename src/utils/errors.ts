@@ -0,0 +1,40 @@
+import { APIError } from '../types/stock.types';
+import { ERROR_MESSAGES } from './constants';
+
+/**
+ * Turn any thrown value into a message suitable for the UI,
+ * using the APIError code where there is one
+ */
+export const getErrorMessage = (
+  error: unknown,
+  fallback: string = ERROR_MESSAGES.FETCH_FAILED
+): string => {
+  if (!(error instanceof APIError)) {
+    return error instanceof Error && error.message ? error.message : fallback;
+  }
+
+  switch (error.code) {
+    case 'API_KEY_MISSING':
+      return ERROR_MESSAGES.API_KEY_MISSING;
+    case 'NETWORK':
+      return ERROR_MESSAGES.NETWORK;
+    case 'TIMEOUT':
+      return ERROR_MESSAGES.TIMEOUT;
+    case 'RATE_LIMIT':
+      return error.retryAfterMs
+        ? `${ERROR_MESSAGES.RATE_LIMIT} Retrying in ${Math.ceil(error.retryAfterMs / 1000)}s.`
+        : ERROR_MESSAGES.RATE_LIMIT;
+    case 'INVALID_PAYLOAD':
+      return error.message || ERROR_MESSAGES.INVALID_PAYLOAD;
+    case 'HTTP_ERROR':
+      if (error.status === 401 || error.status === 403) {
+        return `${ERROR_MESSAGES.ACCESS_DENIED} (HTTP ${error.status})`;
+      }
+      if (error.status && error.status >= 500) {
+        return `${ERROR_MESSAGES.SERVICE_UNAVAILABLE} (HTTP ${error.status})`;
+      }
+      return `${ERROR_MESSAGES.HTTP_ERROR} (HTTP ${error.status})`;
+    default:
+      return error.message || fallback;
+  }
+};
@@ -0,0 +1,83 @@
+import {
+  exportFilename,
+  formatExportTime,
+  rowsToCsv,
+  rowsToJson,
+  seriesToCsv,
+  stockExportColumns,
+  ExportColumn
+} from './exports';
+import { STOCK_COLUMN_IDS } from './tableColumns';
+import { toDateKey } from './portfolio';
+
+interface Row {
+  symbol: string;
+  name: string;
+  price: number;
+}
+
+const columns: ExportColumn<Row>[] = [
+  { key: 'symbol', label: 'Symbol', value: row => row.symbol },
+  { key: 'name', label: 'Name', value: row => row.name },
+  { key: 'price', label: 'Price', value: row => row.price },
+];
+
+const rows: Row[] = [
+  { symbol: 'BRK.B', name: 'Berkshire Hathaway, Inc.', price: 412.5 },
+  { symbol: 'AAPL', name: 'Apple', price: 189.25 },
+];
+
+test('writes rows in order under the column labels', () => {
+  expect(rowsToCsv(columns, rows)).toBe(
+    'Symbol,Name,Price\r\nBRK.B,"Berkshire Hathaway, Inc.",412.5\r\nAAPL,Apple,189.25'
+  );
+});
+
+test('writes rows as objects keyed by column', () => {
+  expect(JSON.parse(rowsToJson(columns, rows))).toEqual([
+    { symbol: 'BRK.B', name: 'Berkshire Hathaway, Inc.', price: 412.5 },
+    { symbol: 'AAPL', name: 'Apple', price: 189.25 },
+  ]);
+});
+
+test('keeps the day range apart from the high and low columns', () => {
+  const stock = {
+    symbol: 'AAPL', price: 105, change: 1, changePercent: 1, previousClose: 104, high: 110, low: 100, open: 101, volume: 10,
+  };
+  const exportColumns = stockExportColumns(['company', 'high', 'low', 'dayRange'], { profiles: new Map(), includeNames: false });
+
+  expect(rowsToCsv(exportColumns, [stock])).toBe('Symbol,High,Low,Day Low,Day High\r\nAAPL,110,100,100,110');
+  expect(JSON.parse(rowsToJson(exportColumns, [stock]))).toEqual([
+    { symbol: 'AAPL', high: 110, low: 100, dayLow: 100, dayHigh: 110 },
+  ]);
+
+  // No two columns share a key, whichever are shown
+  const keys = stockExportColumns(STOCK_COLUMN_IDS, { profiles: new Map(), includeNames: true }).map(column => column.key);
+  expect(new Set(keys).size).toBe(keys.length);
+});
+
+test('formats bar times as local dates, with the time for intraday bars', () => {
+  const time = new Date(2024, 2, 5, 9, 30).getTime();
+
+  expect(formatExportTime(time, false)).toBe('2024-03-05');
+  expect(formatExportTime(time, true)).toBe('2024-03-05 09:30');
+});
+
+test('exports only the bars on screen, rounding values and leaving gaps empty', () => {
+  const times = [1, 2, 3, 4].map(day => new Date(2024, 0, day).getTime());
+  const csv = seriesToCsv(
+    times,
+    [
+      { label: 'Close', values: [10, 11, 12, 13] },
+      { label: 'SMA 2', values: [null, 10.5, 11.123456, 12.5] },
+    ],
+    false,
+    { min: 1, max: 2 }
+  );
+
+  expect(csv).toBe('Date,Close,SMA 2\r\n2024-01-02,11,10.5\r\n2024-01-03,12,11.1235');
+});
+
+test('builds file names that are safe to save', () => {
+  expect(exportFilename(['My list/Tech'], 'csv')).toBe(`My-list-Tech-${toDateKey()}.csv`);
+});
@@ -0,0 +1,155 @@
+import { CompanyProfile, Holding, Position, StockColumnId, StockQuote } from '../types/stock.types';
+import { CsvValue, toCsv } from './csv';
+import { calculatePosition, toDateKey } from './portfolio';
+import { dayRangePosition } from './tableColumns';
+
+/**
+ * Table rows and chart series in the shapes they are downloaded in
+ */
+
+export interface ExportColumn<Row> {
+  /** Property name in JSON exports */
+  key: string;
+  /** Header in CSV exports */
+  label: string;
+  value: (row: Row) => string | number | null;
+}
+
+export interface ExportSeries {
+  label: string;
+  /** One value per bar, null where there is none */
+  values: Array<number | null>;
+}
+
+export const rowsToCsv = <Row>(columns: ExportColumn<Row>[], rows: Row[]): string =>
+  toCsv([
+    columns.map(column => column.label),
+    ...rows.map(row => columns.map(column => column.value(row))),
+  ]);
+
+export const rowsToJson = <Row>(columns: ExportColumn<Row>[], rows: Row[]): string =>
+  JSON.stringify(
+    rows.map(row => Object.fromEntries(columns.map(column => [column.key, column.value(row)]))),
+    null,
+    2
+  );
+
+export interface StockExportContext {
+  profiles: Map<string, CompanyProfile>;
+  holdings?: Map<string, Holding>;
+  /** Add company names next to the symbols */
+  includeNames: boolean;
+}
+
+const cents = (value: number) => Number(value.toFixed(2));
+
+/**
+ * Export columns for watchlist table columns, in the same order. Keys and
+ * labels are unique across columns, so any mix of them can be exported.
+ */
+export const stockExportColumns = (
+  columns: StockColumnId[],
+  { profiles, holdings, includeNames }: StockExportContext
+): ExportColumn<StockQuote>[] => {
+  const fromPosition = (pick: (position: Position) => number) => (stock: StockQuote) => {
+    const holding = holdings?.get(stock.symbol);
+    return holding ? cents(pick(calculatePosition(holding, stock))) : null;
+  };
+  const byColumn: Record<StockColumnId, ExportColumn<StockQuote>[]> = {
+    company: [
+      { key: 'symbol', label: 'Symbol', value: stock => stock.symbol },
+      ...(includeNames
+        ? [{ key: 'name', label: 'Name', value: (stock: StockQuote) => profiles.get(stock.symbol)?.name ?? null }]
+        : []),
+    ],
+    price: [{ key: 'price', label: 'Price', value: stock => stock.price }],
+    change: [
+      { key: 'change', label: 'Change', value: stock => cents(stock.change) },
+      { key: 'changePercent', label: 'Change %', value: stock => cents(stock.changePercent) },
+    ],
+    open: [{ key: 'open', label: 'Open', value: stock => stock.open }],
+    high: [{ key: 'high', label: 'High', value: stock => stock.high }],
+    low: [{ key: 'low', label: 'Low', value: stock => stock.low }],
+    previousClose: [{ key: 'previousClose', label: 'Prev Close', value: stock => stock.previousClose }],
+    dayRange: [
+      { key: 'dayLow', label: 'Day Low', value: stock => stock.low },
+      { key: 'dayHigh', label: 'Day High', value: stock => stock.high },
+    ],
+    rangePosition: [{
+      key: 'rangePosition',
+      label: 'Range Position %',
+      value: stock => {
+        const position = dayRangePosition(stock);
+        return position === null ? null : cents(position);
+      },
+    }],
+    volume: [{ key: 'volume', label: 'Volume', value: stock => stock.volume }],
+    marketCap: [{
+      key: 'marketCap',
+      label: 'Market Cap (M)',
+      value: stock => profiles.get(stock.symbol)?.marketCapitalization ?? null,
+    }],
+    shares: [{
+      key: 'sharesOutstanding',
+      label: 'Shares Outstanding (M)',
+      value: stock => profiles.get(stock.symbol)?.shareOutstanding ?? null,
+    }],
+    position: [
+      { key: 'marketValue', label: 'Market Value', value: fromPosition(p => p.marketValue) },
+      { key: 'quantity', label: 'Quantity', value: stock => holdings?.get(stock.symbol)?.quantity ?? null },
+      { key: 'averageCost', label: 'Average Cost', value: fromPosition(p => p.averageCost) },
+    ],
+    pnl: [
+      { key: 'unrealizedPnL', label: 'Unrealized P&L', value: fromPosition(p => p.unrealizedPnL) },
+      { key: 'unrealizedPnLPercent', label: 'Unrealized P&L %', value: fromPosition(p => p.unrealizedPnLPercent) },
+      { key: 'dayPnL', label: 'Day P&L', value: fromPosition(p => p.dayPnL) },
+    ],
+  };
+  return columns.flatMap(id => byColumn[id]);
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Bar time as a local date spreadsheets recognise, with the time of day for
+ * intraday bars
+ */
+export const formatExportTime = (time: number, intraday: boolean): string => {
+  const date = new Date(time);
+  return intraday
+    ? `${toDateKey(date)} ${pad(date.getHours())}:${pad(date.getMinutes())}`
+    : toDateKey(date);
+};
+
+/**
+ * One row per bar with a column per series, limited to the bars on screen
+ * when the chart is zoomed. Values are rounded to 4 decimals so indicator
+ * noise doesn't swamp the file.
+ */
+export const seriesToCsv = (
+  times: number[],
+  series: ExportSeries[],
+  intraday: boolean,
+  visible: { min: number; max: number } | null = null
+): string => {
+  const first = Math.max(0, visible?.min ?? 0);
+  const last = Math.min(times.length - 1, visible?.max ?? times.length - 1);
+  const rows: CsvValue[][] = [[intraday ? 'Time' : 'Date', ...series.map(s => s.label)]];
+  for (let i = first; i <= last; i++) {
+    rows.push([
+      formatExportTime(times[i], intraday),
+      ...series.map(s => {
+        const value = s.values[i];
+        return value === null || value === undefined ? null : Number(value.toFixed(4));
+      }),
+    ]);
+  }
+  return toCsv(rows);
+};
+
+/**
+ * File name from the given parts and today's date, without characters file
+ * systems object to
+ */
+export const exportFilename = (parts: string[], extension: string): string =>
+  `${[...parts, toDateKey()].join('-').replace(/[^\w.-]+/g, '-')}.${extension}`;
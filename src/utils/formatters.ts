@@ -2,6 +2,9 @@
  * Utility functions for formatting data display
  */
 
+import { ChartRange } from '../types/stock.types';
+import { parseSymbol } from './symbols';
+
 /**
  * Format number as currency with $ symbol
  */
@@ -16,6 +19,14 @@ export const formatNumber = (value: number): string => {
   return value.toLocaleString();
 };
 
+/**
+ * Format a gain or loss as currency with an explicit sign, e.g. +$12.50 / -$3.20
+ */
+export const formatSignedCurrency = (value: number): string => {
+  const sign = value >= 0 ? '+' : '-';
+  return `${sign}$${Math.abs(value).toFixed(2)}`;
+};
+
 /**
  * Format market capitalization in billions
  */
@@ -35,8 +46,40 @@ export const formatPercentage = (value: number): string => {
 /**
  * Format date for display
  */
-export const formatDate = (dateString: string): string => {
-  return new Date(dateString).toLocaleDateString();
+export const formatDate = (date: string | number): string => {
+  return new Date(date).toLocaleDateString();
+};
+
+/**
+ * Format a bar's time for the chart's x axis: times of day for one session,
+ * weekday and time across several, then dates, then months for long ranges
+ */
+export const formatChartTime = (time: number, range: ChartRange): string => {
+  const date = new Date(time);
+  switch (range) {
+    case '1D':
+      return date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+    case '5D':
+      return date.toLocaleString([], { weekday: 'short', hour: 'numeric', minute: '2-digit' });
+    case '5Y':
+    case 'MAX':
+      return date.toLocaleDateString([], { month: 'short', year: 'numeric' });
+    default:
+      return date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+  }
+};
+
+/**
+ * Format date and time, e.g. for an intraday bar's tooltip
+ */
+export const formatDateTime = (date: string | number): string => {
+  return new Date(date).toLocaleString([], {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
 };
 
 /**
@@ -54,19 +97,17 @@ export const formatVolume = (value: number): string => {
 };
 
 /**
- * Validate stock symbol format
+ * Validate stock symbol format against the rules of its exchange
  */
 export const isValidSymbol = (symbol: string): boolean => {
-  // Basic validation: 1-5 uppercase letters
-  const symbolPattern = /^[A-Z]{1,5}$/;
-  return symbolPattern.test(symbol);
+  return parseSymbol(symbol) !== null;
 };
 
 /**
- * Clean and normalize stock symbol input
+ * Clean and normalize stock symbol input, e.g. 'brk-b' to 'BRK.B'
  */
 export const normalizeSymbol = (input: string): string => {
-  return input.trim().toUpperCase();
+  return parseSymbol(input)?.symbol ?? input.trim().toUpperCase();
 };
 
 /**
@@ -1,2 +1,20 @@
 export * from './constants';
-export * from './formatters';
\ No newline at end of file
+export * from './formatters';
+export * from './errors';
+export * from './candles';
+export * from './symbols';
+export * from './portfolio';
+export * from './ledger';
+export * from './csv';
+export * from './download';
+export * from './brokerImport';
+export * from './alerts';
+export * from './notifications';
+export * from './indicators';
+export * from './alertExpression';
+export * from './chartIndicators';
+export * from './comparison';
+export * from './drawings';
+export * from './exports';
+export * from './tableColumns';
+export * from './sorting';
\ No newline at end of file
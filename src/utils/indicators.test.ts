@@ -0,0 +1,75 @@
+import { atr, bollinger, ema, macd, obv, rsi, sma, stochastic, vwap, wma } from './indicators';
+
+const candle = (time: number, high: number, low: number, close: number, volume: number) =>
+  ({ time, open: close, high, low, close, volume });
+
+const candles = [
+  candle(1, 10, 8, 9, 100),
+  candle(2, 12, 9, 11, 200),
+  candle(3, 11, 7, 10, 300),
+  candle(4, 13, 10, 13, 400),
+];
+
+test('moving averages leave the warm-up period empty', () => {
+  expect(sma([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+  expect(ema([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+
+  const weighted = wma([1, 2, 3, 4], 3);
+  expect(weighted.slice(0, 2)).toEqual([null, null]);
+  expect(weighted[2]).toBeCloseTo(14 / 6);
+  expect(weighted[3]).toBeCloseTo(20 / 6);
+});
+
+test('Bollinger Bands sit a population standard deviation multiple from the mean', () => {
+  const { middle, upper, lower } = bollinger([2, 4, 4, 4, 5, 5, 7, 9], 8, 2);
+  expect(middle[7]).toBe(5);
+  expect(upper[7]).toBe(9);
+  expect(lower[7]).toBe(1);
+  expect(upper[6]).toBeNull();
+});
+
+test('VWAP weights the typical price by volume and can restart each day', () => {
+  const day = 24 * 60 * 60 * 1000;
+  const bars = [
+    candle(new Date(2024, 0, 2, 10).getTime(), 10, 10, 10, 100),
+    candle(new Date(2024, 0, 2, 11).getTime(), 13, 13, 13, 200),
+    candle(new Date(2024, 0, 2, 10).getTime() + day, 20, 20, 20, 50),
+  ];
+
+  expect(vwap(bars)[1]).toBe(12);
+  expect(vwap(bars, true)[2]).toBe(20);
+  expect(vwap(bars)[2]).toBeCloseTo((1000 + 2600 + 1000) / 350);
+});
+
+test('RSI uses Wilder smoothing', () => {
+  const result = rsi([10, 11, 10, 12], 2);
+  expect(result.slice(0, 2)).toEqual([null, null]);
+  expect(result[2]).toBe(50);
+  expect(result[3]).toBeCloseTo(100 - 100 / 6);
+  expect(rsi([1, 2, 3, 4], 2)[3]).toBe(100);
+});
+
+test('MACD of a steady climb settles at half the gap between the periods', () => {
+  const values = Array.from({ length: 10 }, (_, i) => i);
+  const result = macd(values, 3, 5, 2);
+
+  expect(result.macd[3]).toBeNull();
+  expect(result.macd[4]).toBeCloseTo(1);
+  expect(result.signal[4]).toBeNull();
+  expect(result.signal[5]).toBeCloseTo(1);
+  expect(result.histogram[9]).toBeCloseTo(0);
+});
+
+test('stochastic places the close within the recent range', () => {
+  const { k, d } = stochastic(candles, 3, 2);
+  expect(k).toEqual([null, null, 60, 100]);
+  expect(d).toEqual([null, null, null, 80]);
+});
+
+test('ATR averages the true range including gaps from the previous close', () => {
+  expect(atr(candles, 2)).toEqual([null, 2.5, 3.25, 3.125]);
+});
+
+test('OBV adds volume on up closes and subtracts it on down closes', () => {
+  expect(obv(candles)).toEqual([0, 200, -100, 300]);
+});
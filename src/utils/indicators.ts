@@ -0,0 +1,218 @@
+import { Candle } from '../types/stock.types';
+import { toDateKey } from './portfolio';
+
+/**
+ * Technical indicators over a value series, oldest first.
+ * Each returns a series the same length as its input, with null where there
+ * is not yet enough data for the period.
+ */
+
+export type Series = Array<number | null>;
+
+export const sma = (values: number[], period: number): Series => {
+  const result: Series = [];
+  let sum = 0;
+  values.forEach((value, i) => {
+    sum += value;
+    if (i >= period) sum -= values[i - period];
+    result.push(i >= period - 1 ? sum / period : null);
+  });
+  return result;
+};
+
+/**
+ * Exponential moving average, seeded with the SMA of the first `period` values
+ */
+export const ema = (values: number[], period: number): Series => {
+  const k = 2 / (period + 1);
+  const result: Series = [];
+  let previous: number | null = null;
+  values.forEach((value, i) => {
+    if (i < period - 1) {
+      result.push(null);
+      return;
+    }
+    previous = previous === null
+      ? values.slice(0, period).reduce((sum, v) => sum + v, 0) / period
+      : value * k + previous * (1 - k);
+    result.push(previous);
+  });
+  return result;
+};
+
+/**
+ * Weighted moving average; the newest value weighs `period`, the oldest 1
+ */
+export const wma = (values: number[], period: number): Series => {
+  const divisor = (period * (period + 1)) / 2;
+  return values.map((_, i) => {
+    if (i < period - 1) return null;
+    let sum = 0;
+    for (let j = 0; j < period; j++) {
+      sum += values[i - j] * (period - j);
+    }
+    return sum / divisor;
+  });
+};
+
+// Apply a series function to the part of a series after its leading nulls
+const afterWarmUp = (series: Series, fn: (values: number[]) => Series): Series => {
+  const start = series.findIndex(value => value !== null);
+  if (start === -1) return series.map(() => null);
+  return [...series.slice(0, start).map(() => null), ...fn(series.slice(start) as number[])];
+};
+
+/**
+ * Bollinger Bands: an SMA with bands `multiplier` standard deviations either side
+ */
+export const bollinger = (
+  values: number[],
+  period: number = 20,
+  multiplier: number = 2
+): { middle: Series; upper: Series; lower: Series } => {
+  const middle = sma(values, period);
+  const deviation = middle.map((mean, i) => {
+    if (mean === null) return null;
+    const window = values.slice(i - period + 1, i + 1);
+    return Math.sqrt(window.reduce((sum, v) => sum + (v - mean) ** 2, 0) / period);
+  });
+  return {
+    middle,
+    upper: middle.map((mean, i) => mean === null ? null : mean + multiplier * (deviation[i] as number)),
+    lower: middle.map((mean, i) => mean === null ? null : mean - multiplier * (deviation[i] as number)),
+  };
+};
+
+/**
+ * Volume-weighted average of the typical price (high + low + close) / 3.
+ * Accumulates over the whole series, or restarts each day for intraday bars.
+ */
+export const vwap = (candles: Candle[], resetDaily: boolean = false): Series => {
+  let priceVolume = 0;
+  let volume = 0;
+  let day = '';
+  return candles.map(candle => {
+    const candleDay = toDateKey(new Date(candle.time));
+    if (resetDaily && candleDay !== day) {
+      priceVolume = 0;
+      volume = 0;
+      day = candleDay;
+    }
+    priceVolume += ((candle.high + candle.low + candle.close) / 3) * candle.volume;
+    volume += candle.volume;
+    return volume > 0 ? priceVolume / volume : null;
+  });
+};
+
+/**
+ * Relative strength index with Wilder's smoothing, 0 to 100
+ */
+export const rsi = (values: number[], period: number = 14): Series => {
+  const result: Series = values.map(() => null);
+  if (values.length <= period) return result;
+
+  let gain = 0;
+  let loss = 0;
+  for (let i = 1; i <= period; i++) {
+    const delta = values[i] - values[i - 1];
+    if (delta > 0) gain += delta;
+    else loss -= delta;
+  }
+  gain /= period;
+  loss /= period;
+
+  const toRsi = () => (loss === 0 ? 100 : 100 - 100 / (1 + gain / loss));
+  result[period] = toRsi();
+  for (let i = period + 1; i < values.length; i++) {
+    const delta = values[i] - values[i - 1];
+    gain = (gain * (period - 1) + Math.max(delta, 0)) / period;
+    loss = (loss * (period - 1) + Math.max(-delta, 0)) / period;
+    result[i] = toRsi();
+  }
+  return result;
+};
+
+/**
+ * MACD: the fast EMA less the slow EMA, its EMA as the signal line, and the
+ * gap between the two as a histogram
+ */
+export const macd = (
+  values: number[],
+  fast: number = 12,
+  slow: number = 26,
+  signalPeriod: number = 9
+): { macd: Series; signal: Series; histogram: Series } => {
+  const fastEma = ema(values, fast);
+  const slowEma = ema(values, slow);
+  const line = fastEma.map((f, i) => f === null || slowEma[i] === null ? null : f - (slowEma[i] as number));
+  const signal = afterWarmUp(line, tail => ema(tail, signalPeriod));
+  return {
+    macd: line,
+    signal,
+    histogram: line.map((m, i) => m === null || signal[i] === null ? null : m - (signal[i] as number)),
+  };
+};
+
+/**
+ * Stochastic oscillator: where the close sits in the recent high-low range as
+ * %K, 0 to 100, with its SMA as %D
+ */
+export const stochastic = (
+  candles: Candle[],
+  kPeriod: number = 14,
+  dPeriod: number = 3
+): { k: Series; d: Series } => {
+  const k = candles.map((candle, i) => {
+    if (i < kPeriod - 1) return null;
+    const window = candles.slice(i - kPeriod + 1, i + 1);
+    const highest = Math.max(...window.map(c => c.high));
+    const lowest = Math.min(...window.map(c => c.low));
+    return highest === lowest ? 50 : ((candle.close - lowest) / (highest - lowest)) * 100;
+  });
+  return { k, d: afterWarmUp(k, tail => sma(tail, dPeriod)) };
+};
+
+/**
+ * Average true range with Wilder's smoothing
+ */
+export const atr = (candles: Candle[], period: number = 14): Series => {
+  const trueRanges = candles.map((candle, i) => {
+    if (i === 0) return candle.high - candle.low;
+    const previousClose = candles[i - 1].close;
+    return Math.max(
+      candle.high - candle.low,
+      Math.abs(candle.high - previousClose),
+      Math.abs(candle.low - previousClose)
+    );
+  });
+
+  let previous: number | null = null;
+  return trueRanges.map((range, i) => {
+    if (i < period - 1) return null;
+    previous = previous === null
+      ? trueRanges.slice(0, period).reduce((sum, v) => sum + v, 0) / period
+      : (previous * (period - 1) + range) / period;
+    return previous;
+  });
+};
+
+/**
+ * On-balance volume: volume added on up closes and taken away on down closes
+ */
+export const obv = (candles: Candle[]): Series => {
+  let total = 0;
+  return candles.map((candle, i) => {
+    if (i > 0) {
+      const previousClose = candles[i - 1].close;
+      if (candle.close > previousClose) total += candle.volume;
+      else if (candle.close < previousClose) total -= candle.volume;
+    }
+    return total;
+  });
+};
+
+/**
+ * Last value of a series, or null when it hasn't started
+ */
+export const latest = (series: Series): number | null =>
+  series.length > 0 ? series[series.length - 1] : null;
@@ -0,0 +1,103 @@
+import {
+  replayLedger,
+  holdingsFromLots,
+  summarizeGainsByYear,
+  realizedGainsToCsv,
+  isLongTerm,
+  validateTransaction
+} from './ledger';
+import { Transaction } from '../types/stock.types';
+
+let nextId = 0;
+const tx = (
+  type: Transaction['type'],
+  date: string,
+  fields: Partial<Transaction> = {}
+): Transaction => ({
+  id: `t${++nextId}`,
+  type,
+  symbol: 'AAPL',
+  date,
+  quantity: 0,
+  price: 0,
+  fees: 0,
+  ...fields,
+});
+
+const buyLow = tx('buy', '2022-01-10', { quantity: 10, price: 100, fees: 10 });
+const buyHigh = tx('buy', '2023-06-01', { quantity: 10, price: 150 });
+const sell = tx('sell', '2023-09-01', { quantity: 15, price: 200, fees: 15 });
+
+test('matches sells first in, first out and splits short and long term', () => {
+  const result = replayLedger([sell, buyHigh, buyLow], 'fifo');
+
+  expect(result.realized.map(gain => [gain.lotId, gain.quantity, gain.term])).toEqual([
+    [buyLow.id, 10, 'long'],
+    [buyHigh.id, 5, 'short'],
+  ]);
+  // Buy fees raise the cost, sell fees cut the proceeds ($1 per share each)
+  expect(result.realized[0].gain).toBeCloseTo(10 * 199 - 10 * 101);
+  expect(result.realized[1].gain).toBeCloseTo(5 * 199 - 5 * 150);
+  expect(holdingsFromLots(result.openLots)).toEqual([
+    { symbol: 'AAPL', quantity: 5, averageCost: 150, purchaseDate: '2023-06-01' },
+  ]);
+});
+
+test('matches last in, first out', () => {
+  const result = replayLedger([buyLow, buyHigh, sell], 'lifo');
+
+  expect(result.realized.map(gain => [gain.lotId, gain.quantity])).toEqual([
+    [buyHigh.id, 10],
+    [buyLow.id, 5],
+  ]);
+  expect(result.openLots).toMatchObject([{ id: buyLow.id, quantity: 5 }]);
+});
+
+test('closes the chosen lots for specific-lot sells', () => {
+  const specific = { ...sell, quantity: 4, lots: [{ lotId: buyHigh.id, quantity: 4 }] };
+
+  const result = replayLedger([buyLow, buyHigh, specific], 'specific');
+
+  expect(result.issues).toEqual([]);
+  expect(result.realized).toMatchObject([{ lotId: buyHigh.id, quantity: 4, term: 'short' }]);
+});
+
+test('adjusts open lots for splits and flags overselling', () => {
+  const split = tx('split', '2022-08-31', { ratio: 4 });
+  const oversell = tx('sell', '2022-09-15', { quantity: 50, price: 40 });
+
+  const result = replayLedger([buyLow, split, oversell], 'fifo');
+
+  expect(result.realized).toMatchObject([{ quantity: 40, costBasis: 1010 }]);
+  expect(result.issues).toEqual([
+    { transactionId: oversell.id, message: 'Sold 10 more AAPL than was held' },
+  ]);
+  expect(result.openLots).toEqual([]);
+});
+
+test('groups gains, dividends and fees by year and exports CSV', () => {
+  const dividend = tx('dividend', '2023-11-15', { amount: 12.5 });
+  const fee = tx('fee', '2022-12-31', { amount: 5 });
+
+  const years = summarizeGainsByYear(replayLedger([buyLow, buyHigh, sell, dividend, fee], 'fifo'));
+
+  expect(years.map(year => year.year)).toEqual([2023, 2022]);
+  expect(years[0]).toMatchObject({ longTerm: 980, shortTerm: 245, total: 1225, dividends: 12.5 });
+  expect(years[1]).toMatchObject({ total: 0, fees: 5 });
+
+  const csv = realizedGainsToCsv(years).split('\r\n');
+  expect(csv[0]).toBe('Year,Symbol,Quantity,Date Acquired,Date Sold,Proceeds,Cost Basis,Gain,Term');
+  expect(csv).toContain('2023,AAPL,10,2022-01-10,2023-09-01,1990.00,1010.00,980.00,Long-term');
+  expect(csv).toContain('2022,Fees,,,,-5.00,,,');
+});
+
+test('long term starts the day after the first anniversary', () => {
+  expect(isLongTerm('2023-03-15', '2024-03-15')).toBe(false);
+  expect(isLongTerm('2023-03-15', '2024-03-16')).toBe(true);
+});
+
+test('rejects incomplete transactions', () => {
+  expect(validateTransaction(tx('buy', '2024-01-02', { quantity: 0, price: 10 }))).toBe('Quantity must be greater than zero');
+  expect(validateTransaction(tx('split', '2024-01-02'))).toBe('Split ratio must be greater than zero');
+  expect(validateTransaction(tx('dividend', '01/02/2024', { amount: 3 }))).toBe('Date must be YYYY-MM-DD');
+});
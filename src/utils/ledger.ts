@@ -0,0 +1,329 @@
+import {
+  Holding,
+  LedgerIssue,
+  LedgerResult,
+  LotMethod,
+  RealizedGain,
+  RealizedGainsYear,
+  TaxLot,
+  Transaction,
+  TransactionType
+} from '../types/stock.types';
+import { toCsv } from './csv';
+import { formatCurrency } from './formatters';
+
+/**
+ * Transaction ledger replay: derives open tax lots, realized gains and cash
+ * flows from buys, sells, splits, dividends and fees.
+ */
+
+// Shares left below this count as closed, to absorb floating point dust from splits
+const EPSILON = 1e-9;
+
+// Same-day order: splits apply to shares held at the open, then trades, then cash
+const TYPE_ORDER: Record<TransactionType, number> = {
+  split: 0,
+  buy: 1,
+  sell: 2,
+  dividend: 3,
+  fee: 4,
+};
+
+export const LOT_METHOD_LABELS: Record<LotMethod, string> = {
+  fifo: 'First in, first out',
+  lifo: 'Last in, first out',
+  specific: 'Specific lot',
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Check a transaction before it enters the ledger; returns a message, or null when valid
+ */
+export const validateTransaction = (transaction: Omit<Transaction, 'id'>): string | null => {
+  if (!transaction.symbol) return 'Symbol is required';
+  if (!DATE_PATTERN.test(transaction.date)) return 'Date must be YYYY-MM-DD';
+
+  switch (transaction.type) {
+    case 'buy':
+    case 'sell':
+      if (!(transaction.quantity > 0)) return 'Quantity must be greater than zero';
+      if (!(transaction.price >= 0)) return 'Price must be zero or more';
+      if (!(transaction.fees >= 0)) return 'Fees must be zero or more';
+      return null;
+    case 'split':
+      if (!(transaction.ratio && transaction.ratio > 0)) return 'Split ratio must be greater than zero';
+      return null;
+    case 'dividend':
+    case 'fee':
+      if (!(transaction.amount && transaction.amount > 0)) return 'Amount must be greater than zero';
+      return null;
+  }
+};
+
+/**
+ * Short summary of what a transaction did, e.g. "10 @ $150.00 + $1.00 fees"
+ */
+export const describeTransaction = (transaction: Omit<Transaction, 'id'>): string => {
+  switch (transaction.type) {
+    case 'buy':
+    case 'sell':
+      return `${transaction.quantity} @ ${formatCurrency(transaction.price)}` +
+        (transaction.fees > 0 ? ` + ${formatCurrency(transaction.fees)} fees` : '');
+    case 'split':
+      return `${transaction.ratio}-for-1`;
+    case 'dividend':
+    case 'fee':
+      return formatCurrency(transaction.amount ?? 0);
+  }
+};
+
+/**
+ * Date order, with a fixed order for same-day types and entry order after that
+ */
+export const sortTransactions = (transactions: Transaction[]): Transaction[] =>
+  transactions
+    .map((transaction, index) => ({ transaction, index }))
+    .sort((a, b) =>
+      a.transaction.date.localeCompare(b.transaction.date) ||
+      TYPE_ORDER[a.transaction.type] - TYPE_ORDER[b.transaction.type] ||
+      a.index - b.index
+    )
+    .map(({ transaction }) => transaction);
+
+/**
+ * Long term means held for more than one year: sold after the first anniversary
+ */
+export const isLongTerm = (acquired: string, sold: string): boolean => {
+  const year = Number(acquired.slice(0, 4));
+  return sold > `${year + 1}${acquired.slice(4)}`;
+};
+
+/**
+ * Pick the lots a sell closes, in the order they are consumed
+ */
+const matchLots = (
+  sell: Transaction,
+  lots: TaxLot[],
+  method: LotMethod,
+  issues: LedgerIssue[]
+): Array<{ lot: TaxLot; quantity: number }> => {
+  const matches: Array<{ lot: TaxLot; quantity: number }> = [];
+  let remaining = sell.quantity;
+
+  if (method === 'specific') {
+    if (sell.lots && sell.lots.length > 0) {
+      sell.lots.forEach(selection => {
+        const lot = lots.find(candidate => candidate.id === selection.lotId);
+        if (!lot) {
+          issues.push({ transactionId: sell.id, message: `Lot ${selection.lotId} is not open` });
+          return;
+        }
+        const quantity = Math.min(selection.quantity, lot.quantity, remaining);
+        if (quantity > EPSILON) {
+          matches.push({ lot, quantity });
+          remaining -= quantity;
+        }
+      });
+      if (remaining > EPSILON) {
+        issues.push({ transactionId: sell.id, message: 'Selected lots cover fewer shares than were sold' });
+      }
+      return matches;
+    }
+    issues.push({ transactionId: sell.id, message: 'No lots selected; matched first in, first out' });
+  }
+
+  const ordered = method === 'lifo' ? [...lots].reverse() : lots;
+  for (const lot of ordered) {
+    if (remaining <= EPSILON) break;
+    const quantity = Math.min(lot.quantity, remaining);
+    matches.push({ lot, quantity });
+    remaining -= quantity;
+  }
+  if (remaining > EPSILON) {
+    issues.push({ transactionId: sell.id, message: `Sold ${remaining} more ${sell.symbol} than was held` });
+  }
+  return matches;
+};
+
+/**
+ * Replay the ledger in date order with the given lot-matching method
+ */
+export const replayLedger = (transactions: Transaction[], method: LotMethod): LedgerResult => {
+  const lotsBySymbol = new Map<string, TaxLot[]>();
+  const realized: RealizedGain[] = [];
+  const cashFlows: Transaction[] = [];
+  const issues: LedgerIssue[] = [];
+
+  const lotsFor = (symbol: string): TaxLot[] => {
+    let lots = lotsBySymbol.get(symbol);
+    if (!lots) {
+      lots = [];
+      lotsBySymbol.set(symbol, lots);
+    }
+    return lots;
+  };
+
+  sortTransactions(transactions).forEach(transaction => {
+    const lots = lotsFor(transaction.symbol);
+
+    switch (transaction.type) {
+      case 'buy':
+        lots.push({
+          id: transaction.id,
+          symbol: transaction.symbol,
+          acquired: transaction.date,
+          quantity: transaction.quantity,
+          costPerShare: (transaction.quantity * transaction.price + transaction.fees) / transaction.quantity,
+        });
+        break;
+
+      case 'sell': {
+        const proceedsPerShare =
+          (transaction.quantity * transaction.price - transaction.fees) / transaction.quantity;
+
+        matchLots(transaction, lots, method, issues).forEach(({ lot, quantity }) => {
+          const proceeds = quantity * proceedsPerShare;
+          const costBasis = quantity * lot.costPerShare;
+          realized.push({
+            symbol: transaction.symbol,
+            sellId: transaction.id,
+            lotId: lot.id,
+            acquired: lot.acquired,
+            sold: transaction.date,
+            quantity,
+            proceeds,
+            costBasis,
+            gain: proceeds - costBasis,
+            term: isLongTerm(lot.acquired, transaction.date) ? 'long' : 'short',
+          });
+          lot.quantity -= quantity;
+        });
+        lotsBySymbol.set(transaction.symbol, lots.filter(lot => lot.quantity > EPSILON));
+        break;
+      }
+
+      case 'split': {
+        const ratio = transaction.ratio ?? 1;
+        lots.forEach(lot => {
+          lot.quantity *= ratio;
+          lot.costPerShare /= ratio;
+        });
+        break;
+      }
+
+      case 'dividend':
+      case 'fee':
+        cashFlows.push(transaction);
+        break;
+    }
+  });
+
+  return {
+    openLots: Array.from(lotsBySymbol.values()).flat(),
+    realized,
+    cashFlows,
+    issues,
+  };
+};
+
+/**
+ * One holding per symbol from the open lots: total shares, weighted cost and first purchase
+ */
+export const holdingsFromLots = (lots: TaxLot[]): Holding[] => {
+  const bySymbol = new Map<string, Holding>();
+
+  lots.forEach(lot => {
+    const existing = bySymbol.get(lot.symbol);
+    if (!existing) {
+      bySymbol.set(lot.symbol, {
+        symbol: lot.symbol,
+        quantity: lot.quantity,
+        averageCost: lot.costPerShare,
+        purchaseDate: lot.acquired,
+      });
+      return;
+    }
+    const quantity = existing.quantity + lot.quantity;
+    bySymbol.set(lot.symbol, {
+      ...existing,
+      quantity,
+      averageCost: (existing.quantity * existing.averageCost + lot.quantity * lot.costPerShare) / quantity,
+      purchaseDate: lot.acquired < existing.purchaseDate ? lot.acquired : existing.purchaseDate,
+    });
+  });
+
+  return Array.from(bySymbol.values());
+};
+
+/**
+ * Realized gains and cash income per calendar year, newest year first
+ */
+export const summarizeGainsByYear = (result: LedgerResult): RealizedGainsYear[] => {
+  const years = new Map<number, RealizedGainsYear>();
+  const yearFor = (date: string): RealizedGainsYear => {
+    const year = Number(date.slice(0, 4));
+    let summary = years.get(year);
+    if (!summary) {
+      summary = { year, shortTerm: 0, longTerm: 0, total: 0, dividends: 0, fees: 0, gains: [] };
+      years.set(year, summary);
+    }
+    return summary;
+  };
+
+  result.realized.forEach(gain => {
+    const summary = yearFor(gain.sold);
+    if (gain.term === 'long') {
+      summary.longTerm += gain.gain;
+    } else {
+      summary.shortTerm += gain.gain;
+    }
+    summary.total += gain.gain;
+    summary.gains.push(gain);
+  });
+
+  result.cashFlows.forEach(flow => {
+    const summary = yearFor(flow.date);
+    if (flow.type === 'dividend') {
+      summary.dividends += flow.amount ?? 0;
+    } else {
+      summary.fees += flow.amount ?? 0;
+    }
+  });
+
+  return Array.from(years.values()).sort((a, b) => b.year - a.year);
+};
+
+const money = (value: number): string => value.toFixed(2);
+
+/**
+ * Realized gains report as CSV: one row per closed lot, then a total row per year
+ */
+export const realizedGainsToCsv = (years: RealizedGainsYear[]): string => {
+  const rows: Array<Array<string | number>> = [[
+    'Year', 'Symbol', 'Quantity', 'Date Acquired', 'Date Sold',
+    'Proceeds', 'Cost Basis', 'Gain', 'Term',
+  ]];
+
+  [...years].sort((a, b) => a.year - b.year).forEach(summary => {
+    summary.gains.forEach(gain => {
+      rows.push([
+        summary.year,
+        gain.symbol,
+        Number(gain.quantity.toFixed(6)),
+        gain.acquired,
+        gain.sold,
+        money(gain.proceeds),
+        money(gain.costBasis),
+        money(gain.gain),
+        gain.term === 'long' ? 'Long-term' : 'Short-term',
+      ]);
+    });
+    rows.push([summary.year, 'Short-term total', '', '', '', '', '', money(summary.shortTerm), 'Short-term']);
+    rows.push([summary.year, 'Long-term total', '', '', '', '', '', money(summary.longTerm), 'Long-term']);
+    rows.push([summary.year, 'Dividends', '', '', '', money(summary.dividends), '', '', '']);
+    rows.push([summary.year, 'Fees', '', '', '', money(-summary.fees), '', '', '']);
+  });
+
+  return toCsv(rows);
+};
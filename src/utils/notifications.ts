@@ -0,0 +1,31 @@
+/**
+ * Browser notifications, used for alerts when the tab is in the background.
+ * Every call is a no-op where the Notification API is missing or blocked.
+ */
+
+export const notificationsSupported = (): boolean =>
+  typeof window !== 'undefined' && 'Notification' in window;
+
+/**
+ * Ask for permission; call from a user action such as creating an alert
+ */
+export const requestNotificationPermission = async (): Promise<NotificationPermission | null> => {
+  if (!notificationsSupported()) return null;
+  if (Notification.permission !== 'default') return Notification.permission;
+  try {
+    return await Notification.requestPermission();
+  } catch (error) {
+    console.warn('Notification permission request failed:', error);
+    return null;
+  }
+};
+
+export const showNotification = (title: string, body: string, tag?: string): void => {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+  try {
+    new Notification(title, { body, tag });
+  } catch (error) {
+    // Some mobile browsers only allow notifications from a service worker
+    console.warn('Failed to show notification:', error);
+  }
+};
@@ -0,0 +1,61 @@
+import { calculatePosition, summarizePortfolio, toDateKey } from './portfolio';
+import { Holding, StockQuote } from '../types/stock.types';
+
+const quote = (symbol: string, price: number, previousClose: number): StockQuote => ({
+  symbol,
+  price,
+  change: price - previousClose,
+  changePercent: ((price - previousClose) / previousClose) * 100,
+  previousClose,
+  high: price,
+  low: previousClose,
+  open: previousClose,
+  volume: 1000,
+});
+
+const TODAY = '2024-03-15';
+
+test('values a holding at the latest quote', () => {
+  const holding: Holding = { symbol: 'AAPL', quantity: 10, averageCost: 150, purchaseDate: '2023-06-01' };
+
+  const position = calculatePosition(holding, quote('AAPL', 180, 175), TODAY);
+
+  expect(position.marketValue).toBe(1800);
+  expect(position.costBasis).toBe(1500);
+  expect(position.unrealizedPnL).toBe(300);
+  expect(position.unrealizedPnLPercent).toBeCloseTo(20);
+  expect(position.dayPnL).toBe(50);
+  expect(position.dayPnLPercent).toBeCloseTo(2.857, 3);
+});
+
+test('counts day P&L from cost for shares bought today', () => {
+  const holding: Holding = { symbol: 'MSFT', quantity: 2, averageCost: 410, purchaseDate: TODAY };
+
+  const position = calculatePosition(holding, quote('MSFT', 400, 420), TODAY);
+
+  expect(position.dayPnL).toBe(-20);
+  expect(position.dayPnL).toBe(position.unrealizedPnL);
+});
+
+test('sums positions and lists holdings without quotes', () => {
+  const holdings: Holding[] = [
+    { symbol: 'AAPL', quantity: 10, averageCost: 150, purchaseDate: '2023-06-01' },
+    { symbol: 'MSFT', quantity: 2, averageCost: 410, purchaseDate: TODAY },
+    { symbol: 'SHOP.TO', quantity: 5, averageCost: 90, purchaseDate: '2022-01-10' },
+  ];
+
+  const summary = summarizePortfolio(holdings, [quote('AAPL', 180, 175), quote('MSFT', 400, 420)], TODAY);
+
+  expect(summary.positions).toBe(2);
+  expect(summary.missingQuotes).toEqual(['SHOP.TO']);
+  expect(summary.marketValue).toBe(2600);
+  expect(summary.costBasis).toBe(2320);
+  expect(summary.unrealizedPnL).toBe(280);
+  expect(summary.dayPnL).toBe(30);
+  // Opening value: 10 × 175 plus the 820 paid today
+  expect(summary.dayPnLPercent).toBeCloseTo((30 / 2570) * 100);
+});
+
+test('formats local dates as YYYY-MM-DD', () => {
+  expect(toDateKey(new Date(2024, 0, 5))).toBe('2024-01-05');
+});
@@ -0,0 +1,82 @@
+import { Holding, Position, PortfolioSummary, StockQuote } from '../types/stock.types';
+
+/**
+ * Today's local date as YYYY-MM-DD, the format holdings store purchase dates in
+ */
+export const toDateKey = (date: Date = new Date()): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const percentOf = (value: number, base: number): number =>
+  base > 0 ? (value / base) * 100 : 0;
+
+/**
+ * Value a holding at the latest quote. Day P&L uses the quote's change, except
+ * for shares bought today, which count from their cost instead of the previous close.
+ */
+export const calculatePosition = (
+  holding: Holding,
+  quote: StockQuote,
+  today: string = toDateKey()
+): Position => {
+  const marketValue = holding.quantity * quote.price;
+  const costBasis = holding.quantity * holding.averageCost;
+  const unrealizedPnL = marketValue - costBasis;
+
+  const boughtToday = holding.purchaseDate === today;
+  const openingValue = boughtToday ? costBasis : holding.quantity * quote.previousClose;
+  const dayPnL = boughtToday ? unrealizedPnL : holding.quantity * quote.change;
+
+  return {
+    ...holding,
+    marketValue,
+    costBasis,
+    unrealizedPnL,
+    unrealizedPnLPercent: percentOf(unrealizedPnL, costBasis),
+    dayPnL,
+    dayPnLPercent: percentOf(dayPnL, openingValue),
+  };
+};
+
+/**
+ * Totals across all holdings that have a quote
+ */
+export const summarizePortfolio = (
+  holdings: Holding[],
+  quotes: StockQuote[],
+  today: string = toDateKey()
+): PortfolioSummary => {
+  const quotesBySymbol = new Map(quotes.map(quote => [quote.symbol, quote]));
+  const missingQuotes: string[] = [];
+  let marketValue = 0;
+  let costBasis = 0;
+  let dayPnL = 0;
+  let positions = 0;
+
+  holdings.forEach(holding => {
+    const quote = quotesBySymbol.get(holding.symbol);
+    if (!quote) {
+      missingQuotes.push(holding.symbol);
+      return;
+    }
+    const position = calculatePosition(holding, quote, today);
+    marketValue += position.marketValue;
+    costBasis += position.costBasis;
+    dayPnL += position.dayPnL;
+    positions++;
+  });
+
+  const unrealizedPnL = marketValue - costBasis;
+  return {
+    marketValue,
+    costBasis,
+    unrealizedPnL,
+    unrealizedPnLPercent: percentOf(unrealizedPnL, costBasis),
+    dayPnL,
+    dayPnLPercent: percentOf(dayPnL, marketValue - dayPnL),
+    positions,
+    missingQuotes,
+  };
+};
@@ -1,9 +1,29 @@
+import {
+  WatchlistState,
+  Holding,
+  LedgerState,
+  AlertState,
+  ChartDrawing,
+  ChartRange,
+  ChartStyle,
+  IndicatorConfig,
+  TableColumnsState
+} from '../types/stock.types';
+
 // Session Storage Keys
 const STORAGE_KEYS = {
   TRACKED_SYMBOLS: 'stock_dashboard_tracked_symbols',
+  WATCHLISTS: 'stock_dashboard_watchlists',
+  HOLDINGS: 'stock_dashboard_holdings',
+  LEDGER: 'stock_dashboard_ledger',
+  ALERTS: 'stock_dashboard_alerts',
+  CHART_INDICATORS: 'stock_dashboard_chart_indicators',
+  CHART_DRAWINGS: 'stock_dashboard_chart_drawings',
+  TABLE_COLUMNS: 'stock_dashboard_table_columns',
   DARK_MODE: 'stock_dashboard_dark_mode',
   SELECTED_STOCK: 'stock_dashboard_selected_stock',
-  USER_PREFERENCES: 'stock_dashboard_preferences'
+  USER_PREFERENCES: 'stock_dashboard_preferences',
+  PROFILE_CACHE: 'stock_dashboard_profile_cache'
 } as const;
 
 // User Preferences Interface
@@ -11,10 +31,22 @@ export interface UserPreferences {
   darkMode: boolean;
   autoRefresh: boolean;
   refreshInterval: number;
-  showVolumeColumn: boolean;
-  showDetailsColumn: boolean;
+  chartStyle: ChartStyle;
+  chartRange: ChartRange;
+  compareSymbols: string[];
+  benchmark: string | null;
 }
 
+const DEFAULT_PREFERENCES: UserPreferences = {
+  darkMode: false,
+  autoRefresh: true,
+  refreshInterval: 60000,
+  chartStyle: 'line',
+  chartRange: '1M',
+  compareSymbols: [],
+  benchmark: 'SPY'
+};
+
 // Session Storage Utility
 export class SessionStorage {
   static getTrackedSymbols(): string[] {
@@ -35,6 +67,132 @@ export class SessionStorage {
     }
   }
 
+  static getWatchlists(): WatchlistState | null {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.WATCHLISTS);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.warn('Failed to load watchlists from storage:', error);
+      return null;
+    }
+  }
+
+  static setWatchlists(state: WatchlistState): void {
+    try {
+      localStorage.setItem(STORAGE_KEYS.WATCHLISTS, JSON.stringify(state));
+    } catch (error) {
+      console.warn('Failed to save watchlists to storage:', error);
+    }
+  }
+
+  static getHoldings(): Holding[] {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.HOLDINGS);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.warn('Failed to load holdings from storage:', error);
+      return [];
+    }
+  }
+
+  static setHoldings(holdings: Holding[]): void {
+    try {
+      localStorage.setItem(STORAGE_KEYS.HOLDINGS, JSON.stringify(holdings));
+    } catch (error) {
+      console.warn('Failed to save holdings to storage:', error);
+    }
+  }
+
+  static getLedger(): LedgerState | null {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.LEDGER);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.warn('Failed to load transaction ledger from storage:', error);
+      return null;
+    }
+  }
+
+  static setLedger(state: LedgerState): void {
+    try {
+      localStorage.setItem(STORAGE_KEYS.LEDGER, JSON.stringify(state));
+    } catch (error) {
+      console.warn('Failed to save transaction ledger to storage:', error);
+    }
+  }
+
+  static getAlerts(): AlertState | null {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.ALERTS);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.warn('Failed to load alerts from storage:', error);
+      return null;
+    }
+  }
+
+  static setAlerts(state: AlertState): void {
+    try {
+      localStorage.setItem(STORAGE_KEYS.ALERTS, JSON.stringify(state));
+    } catch (error) {
+      console.warn('Failed to save alerts to storage:', error);
+    }
+  }
+
+  static getChartIndicators(): Record<string, IndicatorConfig[]> {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.CHART_INDICATORS);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.warn('Failed to load chart indicators from storage:', error);
+      return {};
+    }
+  }
+
+  static setChartIndicators(indicators: Record<string, IndicatorConfig[]>): void {
+    try {
+      localStorage.setItem(STORAGE_KEYS.CHART_INDICATORS, JSON.stringify(indicators));
+    } catch (error) {
+      console.warn('Failed to save chart indicators to storage:', error);
+    }
+  }
+
+  static getChartDrawings(): Record<string, ChartDrawing[]> {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.CHART_DRAWINGS);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.warn('Failed to load chart drawings from storage:', error);
+      return {};
+    }
+  }
+
+  static setChartDrawings(drawings: Record<string, ChartDrawing[]>): void {
+    try {
+      localStorage.setItem(STORAGE_KEYS.CHART_DRAWINGS, JSON.stringify(drawings));
+    } catch (error) {
+      console.warn('Failed to save chart drawings to storage:', error);
+    }
+  }
+
+  static getTableColumns(): TableColumnsState | null {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.TABLE_COLUMNS);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.warn('Failed to load table columns from storage:', error);
+      return null;
+    }
+  }
+
+  static setTableColumns(state: TableColumnsState): void {
+    try {
+      localStorage.setItem(STORAGE_KEYS.TABLE_COLUMNS, JSON.stringify(state));
+    } catch (error) {
+      console.warn('Failed to save table columns to storage:', error);
+    }
+  }
+
   static getDarkMode(): boolean {
     try {
       const stored = localStorage.getItem(STORAGE_KEYS.DARK_MODE);
@@ -77,22 +235,11 @@ export class SessionStorage {
   static getUserPreferences(): UserPreferences {
     try {
       const stored = localStorage.getItem(STORAGE_KEYS.USER_PREFERENCES);
-      return stored ? JSON.parse(stored) : {
-        darkMode: false,
-        autoRefresh: true,
-        refreshInterval: 60000,
-        showVolumeColumn: true,
-        showDetailsColumn: false
-      };
+      // Fill in preferences added since the stored copy was written
+      return stored ? { ...DEFAULT_PREFERENCES, ...JSON.parse(stored) } : DEFAULT_PREFERENCES;
     } catch (error) {
       console.warn('Failed to load user preferences from storage:', error);
-      return {
-        darkMode: false,
-        autoRefresh: true,
-        refreshInterval: 60000,
-        showVolumeColumn: true,
-        showDetailsColumn: false
-      };
+      return DEFAULT_PREFERENCES;
     }
   }
 
@@ -106,6 +253,24 @@ export class SessionStorage {
     }
   }
 
+  static getProfileCache<T>(): Record<string, T> {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.PROFILE_CACHE);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.warn('Failed to load profile cache from storage:', error);
+      return {};
+    }
+  }
+
+  static setProfileCache<T>(entries: Record<string, T>): void {
+    try {
+      localStorage.setItem(STORAGE_KEYS.PROFILE_CACHE, JSON.stringify(entries));
+    } catch (error) {
+      console.warn('Failed to save profile cache to storage:', error);
+    }
+  }
+
   static clearAll(): void {
     try {
       Object.values(STORAGE_KEYS).forEach(key => {
@@ -0,0 +1,89 @@
+import { normalizeSort, sortStocks, updateSort, visibleSort } from './sorting';
+import { SortKey, StockQuote } from '../types/stock.types';
+
+const quote = (symbol: string, price: number, changePercent: number, volume = 0): StockQuote => ({
+  symbol,
+  price,
+  change: 0,
+  changePercent,
+  previousClose: price,
+  high: price,
+  low: price,
+  open: price,
+  volume,
+});
+
+const symbols = (stocks: StockQuote[]) => stocks.map(stock => stock.symbol);
+
+test('sorts by later keys only where earlier ones tie, keeping full ties in order', () => {
+  const stocks = [
+    quote('A', 10, 1, 300),
+    quote('B', 20, 2, 100),
+    quote('C', 30, 1, 100),
+    quote('D', 40, 2, 100),
+    quote('E', 50, 1, 300),
+  ];
+  const context = { profiles: new Map() };
+
+  expect(symbols(sortStocks(stocks, [{ field: 'change', direction: 'desc' }], context)))
+    .toEqual(['B', 'D', 'A', 'C', 'E']);
+  expect(symbols(sortStocks(stocks, [
+    { field: 'change', direction: 'asc' },
+    { field: 'volume', direction: 'desc' },
+  ], context))).toEqual(['A', 'E', 'C', 'B', 'D']);
+});
+
+test('sorts companies by name in locale order and puts missing values last', () => {
+  const stocks = [quote('ZZZ', 1, 0), quote('ECO', 1, 0), quote('ABB', 1, 0), quote('NEW', 1, 0)];
+  const profiles = new Map([
+    ['ZZZ', { symbol: 'ZZZ', name: 'apple 10', marketCapitalization: 50 }],
+    ['ECO', { symbol: 'ECO', name: 'Écolab', marketCapitalization: 20 }],
+    ['ABB', { symbol: 'ABB', name: 'Apple 9' }],
+  ]);
+
+  expect(symbols(sortStocks(stocks, [{ field: 'company', direction: 'asc' }], { profiles })))
+    .toEqual(['ABB', 'ZZZ', 'ECO', 'NEW']);
+  expect(symbols(sortStocks(stocks, [{ field: 'marketCap', direction: 'asc' }], { profiles })))
+    .toEqual(['ECO', 'ZZZ', 'ABB', 'NEW']);
+  expect(symbols(sortStocks(stocks, [{ field: 'marketCap', direction: 'desc' }], { profiles })))
+    .toEqual(['ZZZ', 'ECO', 'ABB', 'NEW']);
+});
+
+test('a click sorts by one column and a shift-click adds or flips another', () => {
+  const byChange = updateSort([], 'change', false);
+  expect(byChange).toEqual([{ field: 'change', direction: 'asc' }]);
+  expect(updateSort(byChange, 'change', false)).toEqual([{ field: 'change', direction: 'desc' }]);
+
+  const withVolume = updateSort(byChange, 'volume', true);
+  expect(withVolume).toEqual([{ field: 'change', direction: 'asc' }, { field: 'volume', direction: 'asc' }]);
+  expect(updateSort(withVolume, 'volume', true))
+    .toEqual([{ field: 'change', direction: 'asc' }, { field: 'volume', direction: 'desc' }]);
+  expect(updateSort(withVolume, 'price', false)).toEqual([{ field: 'price', direction: 'asc' }]);
+
+  // The fourth key replaces the third
+  const full = updateSort(updateSort(withVolume, 'price', true), 'open', true);
+  expect(full.map(key => key.field)).toEqual(['change', 'volume', 'open']);
+});
+
+test('drops sort keys for hidden columns', () => {
+  const sort: SortKey[] = [
+    { field: 'pnl', direction: 'desc' },
+    { field: 'change', direction: 'asc' },
+  ];
+
+  expect(visibleSort(sort, ['company', 'change', 'pnl'])).toBe(sort);
+  expect(visibleSort(sort, ['company', 'change'])).toEqual([{ field: 'change', direction: 'asc' }]);
+  expect(visibleSort(sort, ['company'])).toEqual([]);
+  // Shift-clicking then builds on the keys still shown
+  expect(updateSort(visibleSort(sort, ['company', 'change']), 'volume', true))
+    .toEqual([{ field: 'change', direction: 'asc' }, { field: 'volume', direction: 'asc' }]);
+});
+
+test('reads sorts saved before multi-column sorting', () => {
+  expect(normalizeSort({ sortBy: 'symbol', sortDirection: 'desc' })).toEqual([{ field: 'company', direction: 'desc' }]);
+  expect(normalizeSort({ sortBy: 'price', sortDirection: 'asc' })).toEqual([{ field: 'price', direction: 'asc' }]);
+  expect(normalizeSort({
+    sort: [{ field: 'volume', direction: 'desc' }, { field: 'bogus' }, { field: 'volume', direction: 'asc' }],
+  })).toEqual([{ field: 'volume', direction: 'desc' }]);
+  expect(normalizeSort(null)).toEqual([{ field: 'company', direction: 'asc' }]);
+});
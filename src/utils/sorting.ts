@@ -0,0 +1,153 @@
+import { CompanyProfile, Holding, SortField, SortKey, StockQuote } from '../types/stock.types';
+import { calculatePosition } from './portfolio';
+import { dayRangePosition, STOCK_COLUMN_IDS } from './tableColumns';
+
+/**
+ * Watchlist table sorting: one or more keys applied in turn, with ties kept
+ * in their original order
+ */
+
+export interface SortContext {
+  profiles: Map<string, CompanyProfile>;
+  holdings?: Map<string, Holding>;
+}
+
+export type SortValue = string | number | null;
+
+/** Most keys a table can be sorted by at once */
+export const MAX_SORT_KEYS = 3;
+
+export const DEFAULT_SORT: SortKey[] = [{ field: 'company', direction: 'asc' }];
+
+const collator = new Intl.Collator(undefined, { sensitivity: 'base', numeric: true });
+
+const finite = (value: number | undefined): number | null =>
+  value !== undefined && Number.isFinite(value) ? value : null;
+
+/**
+ * What a row is sorted by for a column, or null when it has no value there
+ */
+export const sortValue = (field: SortField, stock: StockQuote, context: SortContext): SortValue => {
+  const profile = context.profiles.get(stock.symbol);
+  const holding = context.holdings?.get(stock.symbol);
+  switch (field) {
+    case 'company':
+      return profile?.name || stock.symbol;
+    case 'price':
+      return finite(stock.price);
+    case 'change':
+      return finite(stock.changePercent);
+    case 'open':
+      return finite(stock.open);
+    case 'high':
+      return finite(stock.high);
+    case 'low':
+      return finite(stock.low);
+    case 'previousClose':
+      return finite(stock.previousClose);
+    case 'dayRange':
+      // Width of the range relative to the price, so symbols at different prices compare
+      return stock.price > 0 && stock.high >= stock.low ? (stock.high - stock.low) / stock.price : null;
+    case 'rangePosition':
+      return dayRangePosition(stock);
+    case 'volume':
+      return finite(stock.volume);
+    case 'marketCap':
+      return finite(profile?.marketCapitalization);
+    case 'shares':
+      return finite(profile?.shareOutstanding);
+    case 'position':
+      return holding ? calculatePosition(holding, stock).marketValue : null;
+    case 'pnl':
+      return holding ? calculatePosition(holding, stock).unrealizedPnL : null;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Ascending order of two values; strings compare by locale, ignoring case and
+ * accents, with numbers inside them in numeric order
+ */
+export const compareSortValues = (a: string | number, b: string | number): number => {
+  if (typeof a === 'string' || typeof b === 'string') return collator.compare(String(a), String(b));
+  return a - b;
+};
+
+/**
+ * Sort rows by each key in turn. Rows without a value go last whichever the
+ * direction, and rows that tie on every key keep their order.
+ */
+export const sortStocks = (stocks: StockQuote[], keys: SortKey[], context: SortContext): StockQuote[] => {
+  // Values are worked out once per row rather than once per comparison
+  const rows = stocks.map((stock, index) => ({
+    stock,
+    index,
+    values: keys.map(key => sortValue(key.field, stock, context)),
+  }));
+
+  rows.sort((a, b) => {
+    for (let i = 0; i < keys.length; i++) {
+      const x = a.values[i];
+      const y = b.values[i];
+      if (x === null || y === null) {
+        if (x !== y) return x === null ? 1 : -1;
+        continue;
+      }
+      const order = compareSortValues(x, y);
+      if (order !== 0) return keys[i].direction === 'asc' ? order : -order;
+    }
+    return a.index - b.index;
+  });
+
+  return rows.map(row => row.stock);
+};
+
+/**
+ * Sort keys after a header click. A plain click sorts by that column alone,
+ * flipping the direction if it was already the main key; a shift-click adds
+ * the column as the next key, or flips it if it is already one.
+ */
+export const updateSort = (keys: SortKey[], field: SortField, additive: boolean): SortKey[] => {
+  const existing = keys.find(key => key.field === field);
+  const flipped = existing?.direction === 'asc' ? 'desc' : 'asc';
+
+  if (!additive) {
+    return [{ field, direction: keys[0]?.field === field ? flipped : 'asc' }];
+  }
+  if (existing) {
+    return keys.map(key => key.field === field ? { field, direction: flipped } : key);
+  }
+  // When full, the least significant key makes way
+  return [...keys.slice(0, MAX_SORT_KEYS - 1), { field, direction: 'asc' }];
+};
+
+/**
+ * Sort keys for columns on screen; a hidden column stops ordering the rows
+ */
+export const visibleSort = (keys: SortKey[], columns: SortField[]): SortKey[] => {
+  const visible = keys.filter(key => columns.includes(key.field));
+  return visible.length === keys.length ? keys : visible;
+};
+
+/**
+ * Stored sort made safe to use, including watchlists saved with a single
+ * sortBy/sortDirection before multi-column sorting
+ */
+export const normalizeSort = (stored: any): SortKey[] => {
+  if (Array.isArray(stored?.sort)) {
+    const keys: SortKey[] = stored.sort
+      .filter((key: any) => key && STOCK_COLUMN_IDS.includes(key.field))
+      .map((key: any) => ({ field: key.field, direction: key.direction === 'desc' ? 'desc' : 'asc' }))
+      .filter((key: SortKey, i: number, all: SortKey[]) => all.findIndex(k => k.field === key.field) === i);
+    return keys.slice(0, MAX_SORT_KEYS);
+  }
+  if (typeof stored?.sortBy === 'string') {
+    // The old 'symbol' sort lives on as the company column
+    const field = stored.sortBy === 'symbol' ? 'company' : stored.sortBy;
+    if (STOCK_COLUMN_IDS.includes(field)) {
+      return [{ field, direction: stored.sortDirection === 'desc' ? 'desc' : 'asc' }];
+    }
+  }
+  return DEFAULT_SORT;
+};
@@ -0,0 +1,38 @@
+import { parseSymbol, assetTypeFromLabel } from './symbols';
+import { isValidSymbol, normalizeSymbol } from './formatters';
+
+test('parses share classes and exchange suffixes into their parts', () => {
+  expect(parseSymbol('BRK.B')).toEqual({
+    symbol: 'BRK.B', root: 'BRK', shareClass: 'B', exchange: 'US', assetType: 'equity',
+  });
+  expect(parseSymbol('SHOP.TO')).toEqual({
+    symbol: 'SHOP.TO', root: 'SHOP', exchange: 'TSX', assetType: 'equity',
+  });
+  expect(parseSymbol('7203.T')).toMatchObject({ root: '7203', exchange: 'TSE' });
+  expect(parseSymbol('REI.UN.TO')).toMatchObject({ symbol: 'REI-UN.TO', shareClass: 'UN', assetType: 'unit' });
+});
+
+test('normalises class separators and casing to the canonical form', () => {
+  expect(normalizeSymbol(' rds-a ')).toBe('RDS.A');
+  expect(normalizeSymbol('brk/b')).toBe('BRK.B');
+  expect(normalizeSymbol('rci.b.to')).toBe('RCI-B.TO');
+  expect(normalizeSymbol('700.hk')).toBe('0700.HK');
+});
+
+test('applies the rules of the exchange the suffix names', () => {
+  expect(isValidSymbol('AAPL')).toBe(true);
+  expect(isValidSymbol('130A.T')).toBe(true);
+  expect(isValidSymbol('TOYOTA.T')).toBe(false);
+  expect(isValidSymbol('ABCDEF')).toBe(false);
+  expect(isValidSymbol('BRK.BB')).toBe(false);
+  expect(isValidSymbol('AAPL.MX')).toBe(false);
+  expect(isValidSymbol('AA PL')).toBe(false);
+  // A one-letter suffix that isn't a valid listing there is a US share class
+  expect(parseSymbol('F.T')).toMatchObject({ exchange: 'US', shareClass: 'T' });
+});
+
+test('maps search type labels onto asset types', () => {
+  expect(parseSymbol('SPY', assetTypeFromLabel('ETP'))?.assetType).toBe('etf');
+  expect(assetTypeFromLabel('Common Stock')).toBe('equity');
+  expect(assetTypeFromLabel('Warrant')).toBe('unknown');
+});
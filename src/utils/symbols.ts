@@ -0,0 +1,113 @@
+import { AssetType, ExchangeCode, ParsedSymbol } from '../types/stock.types';
+
+/**
+ * Ticker parsing, normalisation and per-exchange validation.
+ * Canonical symbols follow the market data vendor: US share classes use a
+ * dot (BRK.B), Canadian ones a dash (RCI-B.TO), and non-US listings carry
+ * an exchange suffix (SHOP.TO, 7203.T).
+ */
+
+interface ExchangeRules {
+  name: string;
+  /** Suffix after the final dot, or null for the home market */
+  suffix: string | null;
+  /** Allowed ticker roots */
+  root: RegExp;
+  /** Allowed share classes; exchanges without classes leave this out */
+  shareClass?: RegExp;
+  /** Separator written between root and class in the canonical form */
+  classSeparator?: '.' | '-';
+  /** Left-pad numeric roots to this width, e.g. 700.HK becomes 0700.HK */
+  padRoot?: number;
+}
+
+export const EXCHANGES: Record<ExchangeCode, ExchangeRules> = {
+  US: { name: 'NYSE / Nasdaq', suffix: null, root: /^[A-Z]{1,5}$/, shareClass: /^[A-Z]$/, classSeparator: '.' },
+  TSX: { name: 'Toronto Stock Exchange', suffix: 'TO', root: /^[A-Z]{1,5}$/, shareClass: /^[A-Z]{1,2}$/, classSeparator: '-' },
+  TSXV: { name: 'TSX Venture Exchange', suffix: 'V', root: /^[A-Z]{1,5}$/, shareClass: /^[A-Z]{1,2}$/, classSeparator: '-' },
+  // Four-character codes: digits, with a letter allowed in the last place since 2024
+  TSE: { name: 'Tokyo Stock Exchange', suffix: 'T', root: /^\d{3}[0-9A-Z]$/ },
+  LSE: { name: 'London Stock Exchange', suffix: 'L', root: /^[A-Z0-9]{2,4}$/, shareClass: /^[A-Z]$/, classSeparator: '.' },
+  HKEX: { name: 'Hong Kong Stock Exchange', suffix: 'HK', root: /^\d{1,5}$/, padRoot: 4 },
+  XETRA: { name: 'Xetra', suffix: 'DE', root: /^[A-Z0-9]{2,6}$/ },
+  EPA: { name: 'Euronext Paris', suffix: 'PA', root: /^[A-Z0-9]{2,6}$/ },
+  AEX: { name: 'Euronext Amsterdam', suffix: 'AS', root: /^[A-Z0-9]{2,6}$/ },
+  ASX: { name: 'Australian Securities Exchange', suffix: 'AX', root: /^[A-Z0-9]{3,6}$/ },
+};
+
+const SYMBOL_CHARS = /^[A-Z0-9.\-/]+$/;
+
+// Share classes that say what kind of security it is
+const CLASS_ASSET_TYPES: Record<string, AssetType> = {
+  UN: 'unit',
+  PR: 'preferred',
+};
+
+// Security type labels used by symbol search
+const TYPE_LABELS: Record<string, AssetType> = {
+  'COMMON STOCK': 'equity',
+  ETP: 'etf',
+  ETF: 'etf',
+  ADR: 'adr',
+  REIT: 'reit',
+  PREFERENCE: 'preferred',
+  'PREFERRED STOCK': 'preferred',
+  UNIT: 'unit',
+};
+
+export const assetTypeFromLabel = (label: string | undefined): AssetType =>
+  (label && TYPE_LABELS[label.trim().toUpperCase()]) || 'unknown';
+
+const parseOnExchange = (
+  code: ExchangeCode,
+  body: string,
+  assetType?: AssetType
+): ParsedSymbol | null => {
+  const rules = EXCHANGES[code];
+  const match = /^([A-Z0-9]+)(?:[.\-/]([A-Z]{1,2}))?$/.exec(body);
+  if (!match) return null;
+
+  const [, rawRoot, shareClass] = match;
+  const root = rules.padRoot ? rawRoot.padStart(rules.padRoot, '0') : rawRoot;
+  if (!rules.root.test(root)) return null;
+  if (shareClass && !rules.shareClass?.test(shareClass)) return null;
+
+  const symbol = [
+    root,
+    shareClass ? `${rules.classSeparator}${shareClass}` : '',
+    rules.suffix ? `.${rules.suffix}` : '',
+  ].join('');
+
+  return {
+    symbol,
+    root,
+    ...(shareClass ? { shareClass } : {}),
+    exchange: code,
+    assetType: assetType ?? (shareClass ? CLASS_ASSET_TYPES[shareClass] : undefined) ?? 'equity',
+  };
+};
+
+/**
+ * Parse user or vendor input into a canonical symbol, or null when it is not
+ * a valid ticker on any supported exchange.
+ * Accepts dotted, dashed or slashed share classes (BRK.B, BRK-B, BRK/B).
+ */
+export const parseSymbol = (input: string, assetType?: AssetType): ParsedSymbol | null => {
+  const value = input.trim().toUpperCase();
+  if (!value || !SYMBOL_CHARS.test(value)) return null;
+
+  // An exchange suffix wins when the rest is valid there: 7203.T is Tokyo,
+  // but F.T falls through to a US class-T share
+  const dot = value.lastIndexOf('.');
+  if (dot > 0) {
+    const suffix = value.slice(dot + 1);
+    const code = (Object.keys(EXCHANGES) as ExchangeCode[])
+      .find(candidate => EXCHANGES[candidate].suffix === suffix);
+    const parsed = code && parseOnExchange(code, value.slice(0, dot), assetType);
+    if (parsed) return parsed;
+  }
+
+  return parseOnExchange('US', value, assetType);
+};
+
+export const getExchangeName = (code: ExchangeCode): string => EXCHANGES[code].name;
@@ -0,0 +1,100 @@
+import {
+  dayRangePosition,
+  DEFAULT_COLUMN_LAYOUT,
+  findPreset,
+  moveColumn,
+  normalizeColumns,
+  normalizeTableColumns,
+  presetName,
+  toggleColumn
+} from './tableColumns';
+
+const quote = (price: number, low: number, high: number) => ({
+  symbol: 'AAPL',
+  price,
+  change: 0,
+  changePercent: 0,
+  previousClose: price,
+  high,
+  low,
+  open: price,
+  volume: 0,
+});
+
+test('keeps the company column first and drops unknown or repeated columns', () => {
+  expect(normalizeColumns(['price', 'bogus', 'company', 'price', 'volume'])).toEqual(['company', 'price', 'volume']);
+  expect(normalizeColumns('price')).toEqual(DEFAULT_COLUMN_LAYOUT.columns);
+});
+
+test('falls back to the default layout and drops broken presets', () => {
+  const state = normalizeTableColumns({
+    widths: { price: 20, volume: 150.4, bogus: 90 },
+    presets: [
+      { id: 'p1', name: 'Mine', columns: ['company', 'marketCap'], widths: {} },
+      { id: 'p2', name: 'Trading', columns: ['company', 'open'], widths: {} },
+      { name: 'No id' },
+    ],
+  });
+
+  expect(state.columns).toEqual(DEFAULT_COLUMN_LAYOUT.columns);
+  // Widths are kept at or above each column's minimum
+  expect(state.widths).toEqual({ price: 80, volume: 150 });
+  expect(state.presets).toEqual([
+    { id: 'p1', name: 'Mine', columns: ['company', 'marketCap'], widths: {} },
+    // Saved names never clash with built-in ones
+    { id: 'p2', name: 'Trading 2', columns: ['company', 'open'], widths: {} },
+  ]);
+  expect(normalizeTableColumns(null).columns).toEqual(DEFAULT_COLUMN_LAYOUT.columns);
+});
+
+test('keeps stored preset names unique', () => {
+  const state = normalizeTableColumns({
+    presets: [
+      { id: 'p1', name: 'Trading', columns: ['company', 'open'], widths: {} },
+      { id: 'p2', name: 'Trading 2', columns: ['company', 'low'], widths: {} },
+      { id: 'p3', name: 'mine', columns: ['company'], widths: {} },
+      { id: 'p4', name: 'Mine', columns: ['company'], widths: {} },
+    ],
+  });
+
+  expect(state.presets.map(preset => preset.name)).toEqual(['Trading 3', 'Trading 2', 'mine', 'Mine 2']);
+});
+
+test('moves a column to where another one is', () => {
+  const columns = normalizeColumns(['company', 'price', 'change', 'volume']);
+
+  expect(moveColumn(columns, 'volume', 'price')).toEqual(['company', 'volume', 'price', 'change']);
+  expect(moveColumn(columns, 'price', 'volume')).toEqual(['company', 'change', 'volume', 'price']);
+  expect(moveColumn(columns, 'price', 'company')).toBe(columns);
+});
+
+test('shows new columns at the end and never hides the company column', () => {
+  const columns = normalizeColumns(['company', 'price']);
+
+  expect(toggleColumn(columns, 'open')).toEqual(['company', 'price', 'open']);
+  expect(toggleColumn(columns, 'price')).toEqual(['company']);
+  expect(toggleColumn(columns, 'company')).toBe(columns);
+});
+
+test('matches presets by columns and their order', () => {
+  const presets = [
+    { id: 'a', name: 'A', columns: normalizeColumns(['company', 'price', 'change']), widths: {} },
+    { id: 'b', name: 'B', columns: normalizeColumns(['company', 'change', 'price']), widths: {} },
+  ];
+
+  expect(findPreset(presets, ['company', 'change', 'price'])?.id).toBe('b');
+  expect(findPreset(presets, ['company', 'price'])).toBeUndefined();
+});
+
+test('numbers preset names that a built-in preset already uses', () => {
+  expect(presetName('  Swing  ')).toBe('Swing');
+  expect(presetName('trading')).toBe('trading 2');
+  expect(presetName('Fundamentals ')).toBe('Fundamentals 2');
+  expect(presetName('Trading', ['Trading 2'])).toBe('Trading 3');
+});
+
+test("places the price within the day's range", () => {
+  expect(dayRangePosition(quote(105, 100, 110))).toBe(50);
+  expect(dayRangePosition(quote(112, 100, 110))).toBe(100);
+  expect(dayRangePosition(quote(100, 100, 100))).toBeNull();
+});
@@ -0,0 +1,176 @@
+import {
+  ColumnLayout,
+  ColumnPreset,
+  StockColumnId,
+  StockQuote,
+  TableColumnsState
+} from '../types/stock.types';
+
+/**
+ * Watchlist table columns: what each one shows, the built-in presets, and
+ * keeping saved layouts valid as columns are added
+ */
+
+export interface TableColumnInfo {
+  label: string;
+  /** Shown in the column chooser */
+  description: string;
+  align: 'left' | 'right';
+  /** Portfolio columns only appear once there are holdings */
+  group: 'quote' | 'fundamentals' | 'portfolio';
+  /** Narrowest a column can be resized to, in pixels */
+  minWidth: number;
+}
+
+export const TABLE_COLUMNS: Record<StockColumnId, TableColumnInfo> = {
+  company: { label: 'Company', description: 'Symbol and company name', align: 'left', group: 'quote', minWidth: 140 },
+  price: { label: 'Price', description: 'Last price', align: 'right', group: 'quote', minWidth: 80 },
+  change: { label: 'Change', description: 'Change since the previous close', align: 'right', group: 'quote', minWidth: 90 },
+  open: { label: 'Open', description: "Today's opening price", align: 'right', group: 'quote', minWidth: 70 },
+  high: { label: 'High', description: "Today's high", align: 'right', group: 'quote', minWidth: 70 },
+  low: { label: 'Low', description: "Today's low", align: 'right', group: 'quote', minWidth: 70 },
+  previousClose: { label: 'Prev Close', description: 'Previous close', align: 'right', group: 'quote', minWidth: 80 },
+  dayRange: { label: 'Day Range', description: 'High and low together', align: 'right', group: 'quote', minWidth: 90 },
+  rangePosition: { label: 'Range Position', description: "Where the price sits in the day's range", align: 'right', group: 'quote', minWidth: 100 },
+  volume: { label: 'Volume', description: 'Shares traded today', align: 'right', group: 'quote', minWidth: 90 },
+  marketCap: { label: 'Market Cap', description: 'Market capitalisation', align: 'right', group: 'fundamentals', minWidth: 90 },
+  shares: { label: 'Shares Out', description: 'Shares outstanding, in millions', align: 'right', group: 'fundamentals', minWidth: 90 },
+  position: { label: 'Position', description: 'Market value and average cost of your holding', align: 'right', group: 'portfolio', minWidth: 110 },
+  pnl: { label: 'P&L', description: 'Unrealized and day profit and loss', align: 'right', group: 'portfolio', minWidth: 110 },
+};
+
+export const STOCK_COLUMN_IDS = Object.keys(TABLE_COLUMNS) as StockColumnId[];
+
+export const DEFAULT_COLUMN_LAYOUT: ColumnLayout = {
+  columns: ['company', 'price', 'change', 'position', 'pnl', 'volume', 'dayRange'],
+  widths: {},
+};
+
+export const BUILT_IN_COLUMN_PRESETS: ColumnPreset[] = [
+  { id: 'default', name: 'Default', ...DEFAULT_COLUMN_LAYOUT },
+  {
+    id: 'trading',
+    name: 'Trading',
+    columns: ['company', 'price', 'change', 'open', 'high', 'low', 'previousClose', 'rangePosition', 'volume'],
+    widths: {},
+  },
+  {
+    id: 'fundamentals',
+    name: 'Fundamentals',
+    columns: ['company', 'price', 'change', 'marketCap', 'shares', 'previousClose'],
+    widths: {},
+  },
+  {
+    id: 'portfolio',
+    name: 'Portfolio',
+    columns: ['company', 'price', 'change', 'position', 'pnl'],
+    widths: {},
+  },
+];
+
+/**
+ * Known columns only, each once, with the company column always first so
+ * every row says what it is
+ */
+export const normalizeColumns = (columns: unknown): StockColumnId[] => {
+  const known = Array.isArray(columns)
+    ? columns.filter((id): id is StockColumnId => STOCK_COLUMN_IDS.includes(id))
+    : DEFAULT_COLUMN_LAYOUT.columns;
+  return ['company', ...Array.from(new Set(known)).filter(id => id !== 'company')];
+};
+
+const normalizeWidths = (widths: unknown): ColumnLayout['widths'] => {
+  if (!widths || typeof widths !== 'object') return {};
+  const normalized: ColumnLayout['widths'] = {};
+  Object.entries(widths).forEach(([id, width]) => {
+    if (STOCK_COLUMN_IDS.includes(id as StockColumnId) && Number.isFinite(width)) {
+      normalized[id as StockColumnId] = Math.max(TABLE_COLUMNS[id as StockColumnId].minWidth, Math.round(width));
+    }
+  });
+  return normalized;
+};
+
+/**
+ * Name to save a preset under. Built-in presets can't be replaced, so a name
+ * one of them (or one of `taken`) already uses gets a number: "Trading 2"
+ */
+export const presetName = (name: string, taken: string[] = []): string => {
+  const names = [...BUILT_IN_COLUMN_PRESETS.map(preset => preset.name), ...taken];
+  const used = new Set(names.map(existing => existing.toLowerCase()));
+  const trimmed = name.trim();
+  if (!used.has(trimmed.toLowerCase())) return trimmed;
+
+  let suffix = 2;
+  while (used.has(`${trimmed} ${suffix}`.toLowerCase())) suffix++;
+  return `${trimmed} ${suffix}`;
+};
+
+/**
+ * Stored column settings made safe to use: unknown columns and broken
+ * presets are dropped
+ */
+export const normalizeTableColumns = (stored: any): TableColumnsState => {
+  const valid: any[] = Array.isArray(stored?.presets)
+    ? stored.presets.filter((preset: any) => preset && typeof preset.id === 'string' && typeof preset.name === 'string')
+    : [];
+
+  // Names must stay unique: a clash with a built-in preset, or with an
+  // earlier saved one, gets a number that no other saved preset uses
+  const presets: ColumnPreset[] = [];
+  valid.forEach((preset, i) => {
+    const key = preset.name.trim().toLowerCase();
+    const later = valid.slice(i + 1)
+      .map(other => (other.name as string).trim())
+      .filter(name => name.toLowerCase() !== key);
+    presets.push({
+      id: preset.id,
+      name: presetName(preset.name, [...presets.map(p => p.name), ...later]),
+      columns: normalizeColumns(preset.columns),
+      widths: normalizeWidths(preset.widths),
+    });
+  });
+
+  return {
+    columns: normalizeColumns(stored?.columns ?? DEFAULT_COLUMN_LAYOUT.columns),
+    widths: normalizeWidths(stored?.widths),
+    presets,
+  };
+};
+
+/**
+ * Move a column to where another one is, shifting the columns between
+ */
+export const moveColumn = (columns: StockColumnId[], id: StockColumnId, target: StockColumnId): StockColumnId[] => {
+  const from = columns.indexOf(id);
+  const to = columns.indexOf(target);
+  if (from === -1 || to === -1 || from === to || id === 'company' || target === 'company') return columns;
+  const moved = [...columns];
+  moved.splice(from, 1);
+  moved.splice(to, 0, id);
+  return moved;
+};
+
+/**
+ * Show or hide a column; newly shown columns go at the end
+ */
+export const toggleColumn = (columns: StockColumnId[], id: StockColumnId): StockColumnId[] => {
+  if (id === 'company') return columns;
+  return columns.includes(id) ? columns.filter(column => column !== id) : [...columns, id];
+};
+
+/**
+ * Preset with exactly these columns in this order, if there is one
+ */
+export const findPreset = (presets: ColumnPreset[], columns: StockColumnId[]): ColumnPreset | undefined =>
+  presets.find(preset =>
+    preset.columns.length === columns.length && preset.columns.every((id, i) => id === columns[i])
+  );
+
+/**
+ * Where the price sits between the day's low (0) and high (100), or null
+ * before the day has a range
+ */
+export const dayRangePosition = (quote: StockQuote): number | null => {
+  if (!(quote.high > quote.low)) return null;
+  return Math.min(100, Math.max(0, ((quote.price - quote.low) / (quote.high - quote.low)) * 100));
+};